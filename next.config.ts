@@ -3,6 +3,18 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
     reactStrictMode: true,
     poweredByHeader: false,
+    async headers() {
+        return [
+            {
+                // Browsers must always revalidate the service worker so updates are noticed
+                source: "/sw.js",
+                headers: [
+                    { key: "Cache-Control", value: "no-cache, no-store, must-revalidate" },
+                    { key: "Content-Type", value: "application/javascript; charset=utf-8" },
+                ],
+            },
+        ];
+    },
 };
 
 export default nextConfig;
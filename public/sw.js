@@ -0,0 +1,579 @@
+/**
+ * PhantomPay Service Worker - Offline app shell + Background Sync
+ *
+ * App shell caching (versioned by CACHE_VERSION):
+ * - Install precaches the routes and static assets the dashboard needs
+ * - /_next/static/* (hashed bundles, self-hosted fonts) is cache-first
+ * - Page navigations and RSC payloads are network-first, falling back to
+ *   the last cached copy, so /dashboard boots in airplane mode and the
+ *   Dexie shadow ledger takes over from there
+ * - Supabase and /api/* requests are never cached
+ * - A new version waits until the page accepts the update prompt
+ *   (see serviceWorker.ts), then old caches are deleted on activate
+ * - Registered with ?caching=off in development so hot reloads stay fresh
+ *
+ * Background Sync for the pending queue:
+ * When addOfflineTransaction enqueues a row the page registers the
+ * 'phantompay-sync' tag. The browser fires it once connectivity returns,
+ * even if every PhantomPay tab has been closed, and this worker then:
+ * - Hands the work to the sync leader tab if one is alive (see tabCoordinator)
+ * - Otherwise reads 'pending' rows (and 'held' ones whose undo window has
+ *   closed) straight from PhantomPayDB (IndexedDB), marks them 'syncing' so
+ *   a tab opened meanwhile does not send them again, and sends them through
+ *   the same process_offline_batch RPC
+ * - Marks confirmed rows 'synced' and tells open tabs to re-read the ledger
+ *
+ * Rejected and unanswered rows are classified and backed off exactly as the
+ * page's sync engine would (see the copies of lib/syncErrors and
+ * lib/retryPolicy below), so the page's scheduler picks them up on time.
+ * The page shares the Supabase URL, anon key and current access token via
+ * postMessage; nothing else about auth lives here.
+ */
+
+const SYNC_TAG = 'phantompay-sync';
+const CHANNEL_NAME = 'phantompay-sync';
+const LEADER_LOCK = 'sync-leader';
+const LEDGER_DB = 'PhantomPayDB';
+const SESSION_DB = 'PhantomPaySW';
+const SESSION_STORE = 'session';
+const WORKER_ID = 'service-worker';
+
+// Bump when the precache list or caching rules change
+const CACHE_VERSION = 'v2';
+const CACHE_PREFIX = 'phantompay-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${CACHE_VERSION}`;
+const STATIC_CACHE = `${CACHE_PREFIX}static-${CACHE_VERSION}`;
+const CACHING_ENABLED = new URL(self.location.href).searchParams.get('caching') !== 'off';
+
+const PRECACHE_URLS = [
+    '/',
+    '/dashboard',
+    '/profile',
+    '/analytics',
+    '/manifest.json',
+    '/favicon.svg',
+    '/icon-192.png.svg',
+    '/icon-512.png.svg'
+];
+
+self.addEventListener('install', (event) => {
+    if (!CACHING_ENABLED) {
+        self.skipWaiting();
+        return;
+    }
+    // No skipWaiting: an update waits for the user to accept the prompt
+    event.waitUntil(precacheShell());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(deleteOldCaches().then(() => self.clients.claim()));
+});
+
+self.addEventListener('message', (event) => {
+    const message = event.data;
+    if (!message) return;
+
+    switch (message.type) {
+        case 'session':
+            event.waitUntil(saveSession(message.session));
+            break;
+        case 'skip-waiting':
+            // The user accepted the update prompt
+            self.skipWaiting();
+            break;
+    }
+});
+
+self.addEventListener('fetch', (event) => {
+    if (!CACHING_ENABLED) return;
+
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+
+    // Supabase, CDNs and anything else cross-origin go straight to the network
+    if (url.origin !== self.location.origin) return;
+
+    // Health checks must reflect real connectivity (Lie-Fi detection)
+    if (url.pathname.startsWith('/api/')) return;
+
+    if (url.pathname.startsWith('/_next/static/')) {
+        event.respondWith(cacheFirst(request, STATIC_CACHE));
+    } else if (request.mode === 'navigate') {
+        event.respondWith(networkFirst(request, SHELL_CACHE, true));
+    } else if (request.headers.get('RSC') === '1' || url.searchParams.has('_rsc')) {
+        event.respondWith(networkFirst(request, SHELL_CACHE, false));
+    } else {
+        event.respondWith(staleWhileRevalidate(request, STATIC_CACHE));
+    }
+});
+
+self.addEventListener('sync', (event) => {
+    if (event.tag === SYNC_TAG) {
+        event.waitUntil(drainPendingQueue());
+    }
+});
+
+// ============================================
+// APP SHELL CACHING
+// ============================================
+
+async function precacheShell() {
+    const cache = await caches.open(SHELL_CACHE);
+    // One missing route shouldn't block the whole install
+    await Promise.all(PRECACHE_URLS.map(async (url) => {
+        try {
+            await cache.add(new Request(url, { cache: 'reload' }));
+        } catch (err) {
+            console.warn(`⚠️ [SW] Could not precache ${url}:`, err);
+        }
+    }));
+    console.log(`✅ [SW] App shell ${CACHE_VERSION} precached`);
+}
+
+async function deleteOldCaches() {
+    const keys = await caches.keys();
+    await Promise.all(keys
+        .filter(key => key.startsWith(CACHE_PREFIX) && key !== SHELL_CACHE && key !== STATIC_CACHE)
+        .map(key => caches.delete(key)));
+}
+
+/**
+ * Hashed assets never change under the same URL
+ */
+async function cacheFirst(request, cacheName) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(cacheName);
+        cache.put(request, response.clone());
+    }
+    return response;
+}
+
+/**
+ * Fresh HTML/RSC when online, last known copy when not
+ * Navigations to routes never visited fall back to the dashboard shell.
+ */
+async function networkFirst(request, cacheName, isNavigation) {
+    const cache = await caches.open(cacheName);
+
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            cache.put(request, response.clone());
+        }
+        return response;
+    } catch (err) {
+        const cached = await cache.match(request, { ignoreSearch: isNavigation });
+        if (cached) return cached;
+
+        if (isNavigation) {
+            const shell = await cache.match('/dashboard');
+            if (shell) return shell;
+        }
+        throw err;
+    }
+}
+
+async function staleWhileRevalidate(request, cacheName) {
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(request);
+
+    const network = fetch(request)
+        .then((response) => {
+            if (response.ok) {
+                cache.put(request, response.clone());
+            }
+            return response;
+        })
+        .catch(() => cached || Response.error());
+
+    return cached || network;
+}
+
+// ============================================
+// FAILURE REASONS AND BACKOFF
+// Copies of lib/syncErrors and lib/retryPolicy (the worker cannot import
+// app modules): keep them in step.
+// ============================================
+
+const MAX_RETRIES = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// What to do with a row rejected for each reason (see FAILURE_REASONS)
+const FAILURE_DISPOSITIONS = {
+    insufficient_balance: 'conflict',
+    missing_signature: 'reject',
+    invalid_signature: 'reject',
+    unknown_device: 'reject',
+    intent_invalid: 'reject',
+    intent_expired: 'reject',
+    intent_used: 'reject',
+    voucher_rejected: 'reject',
+    allowance_exceeded: 'reject',
+    allowance_expired: 'reject',
+    recipient_not_found: 'reject',
+    invalid_transfer: 'reject',
+    request_invalid: 'reject',
+    request_cancelled: 'reject',
+    request_declined: 'reject',
+    request_expired: 'reject',
+    request_paid: 'reject',
+    not_authenticated: 'retry',
+    network_error: 'retry',
+    unconfirmed: 'retry',
+    unknown: 'retry'
+};
+
+const LEGACY_REASON_PATTERNS = [
+    [/insufficient/i, 'insufficient_balance'],
+    [/missing signature/i, 'missing_signature'],
+    [/invalid signature|signature mismatch|tamper/i, 'invalid_signature'],
+    [/unknown device|device not enrolled|device revoked/i, 'unknown_device'],
+    [/recipient/i, 'recipient_not_found'],
+    [/not authenticated/i, 'not_authenticated']
+];
+
+function parseFailureReason(reason) {
+    if (!reason) return 'unknown';
+
+    const trimmed = String(reason).trim();
+    if (Object.prototype.hasOwnProperty.call(FAILURE_DISPOSITIONS, trimmed)) {
+        return trimmed;
+    }
+
+    const match = LEGACY_REASON_PATTERNS.find(([pattern]) => pattern.test(trimmed));
+    return match ? match[1] : 'unknown';
+}
+
+function computeBackoffDelay(retryCount) {
+    const attempt = Math.max(retryCount, 1);
+    const exponential = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1));
+    const half = exponential / 2;
+    return Math.round(half + Math.random() * half);
+}
+
+/**
+ * Record a failed attempt on a row, as recordSyncFailures does on the page
+ */
+function recordFailure(row, reason, detail, now, conflict) {
+    row.retry_count = (row.retry_count || 0) + 1;
+    row.last_sync_attempt = now;
+    row.failure_reason = reason;
+    if (detail) {
+        row.failure_detail = detail;
+    } else {
+        delete row.failure_detail;
+    }
+
+    const disposition = FAILURE_DISPOSITIONS[reason];
+    if (disposition !== 'retry') {
+        row.sync_status = disposition === 'conflict' ? 'conflict' : 'failed';
+        delete row.next_retry_at;
+        if (row.sync_status === 'conflict') {
+            row.conflict_data = conflict || { server_version: {}, detected_at: now };
+        }
+        return;
+    }
+
+    row.sync_status = 'failed';
+    if (row.retry_count >= MAX_RETRIES) {
+        delete row.next_retry_at;
+    } else {
+        row.next_retry_at = now + computeBackoffDelay(row.retry_count);
+    }
+}
+
+// ============================================
+// QUEUE DRAIN
+// ============================================
+
+/**
+ * Send every 'pending' row for the signed-in user
+ * Rejecting the returned promise asks the browser to retry the sync later.
+ */
+async function drainPendingQueue() {
+    const session = await loadSession();
+    if (!session) {
+        console.log('📴 [SW] No session shared by the app - background sync skipped');
+        return;
+    }
+
+    // Expired token: retrying won't help, the page will sync after sign-in
+    if (session.expires_at && session.expires_at * 1000 <= Date.now()) {
+        console.log('⚠️ [SW] Session expired - background sync skipped');
+        return;
+    }
+
+    const ledger = await openLedger();
+    if (!ledger) return;
+
+    try {
+        // A live tab leads syncing - ask it instead of racing it
+        if (await hasLiveLeader(ledger)) {
+            broadcast({ type: 'sync-request', userId: session.user_id, from: WORKER_ID });
+            console.log('🔄 [SW] Sync leader tab is open - delegated');
+            return;
+        }
+
+        const pending = await lockPendingRows(ledger, session.user_id);
+
+        if (pending.length === 0) {
+            console.log('✅ [SW] No pending transactions to sync');
+            return;
+        }
+
+        console.log(`🔄 [SW] Background syncing ${pending.length} transactions...`);
+        const batchIds = pending.map(row => row.offline_id);
+
+        let response;
+        try {
+            response = await fetch(`${session.supabase_url}/rest/v1/rpc/process_offline_batch`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    apikey: session.anon_key,
+                    Authorization: `Bearer ${session.access_token}`
+                },
+                body: JSON.stringify({ payload: { transactions: pending, device_id: pending[0].device_id } })
+            });
+        } catch (err) {
+            await releaseRows(ledger, session.user_id, batchIds, 'network_error');
+            throw err;
+        }
+
+        if (response.status === 401 || response.status === 403) {
+            console.log('⚠️ [SW] Not authenticated - leaving queue for the app');
+            await releaseRows(ledger, session.user_id, batchIds, 'not_authenticated');
+            return;
+        }
+        if (!response.ok) {
+            await releaseRows(ledger, session.user_id, batchIds, 'network_error');
+            throw new Error(`process_offline_batch failed with HTTP ${response.status}`);
+        }
+
+        const result = await response.json();
+        if (result.error) {
+            console.warn('⚠️ [SW] Sync rejected:', result.error);
+            await releaseRows(ledger, session.user_id, batchIds, parseFailureReason(result.error));
+            return;
+        }
+
+        await applyBatchResult(ledger, session.user_id, batchIds, result);
+        broadcast({ type: 'ledger-updated', userId: session.user_id, from: WORKER_ID });
+        console.log(`✅ [SW] Synced ${(result.processed_ids || []).length} transactions`);
+    } finally {
+        ledger.close();
+    }
+}
+
+/**
+ * Pick the rows to send and mark them 'syncing' (like markTransactionsSyncing),
+ * in one transaction so a tab cannot edit, undo or send a row after it was picked
+ */
+async function lockPendingRows(ledger, userId) {
+    const tx = ledger.transaction('transactions', 'readwrite');
+    const transactions = tx.objectStore('transactions');
+    const rows = await request(transactions.index('user_id').getAll(userId));
+    const now = Date.now();
+
+    const pending = rows
+        // Received vouchers go through submit_payment_voucher on the page,
+        // and debits without an offline allowance get one stamped there
+        .filter(row => (row.sync_status === 'pending'
+                || (row.sync_status === 'held' && (row.held_until || 0) <= now))
+            && !row.voucher
+            && !(row.type === 'debit' && !row.allowance_id))
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const row of pending) {
+        row.sync_status = 'syncing';
+        row.last_sync_attempt = now;
+        row.is_editable = false;
+        delete row.held_until;
+        transactions.put(row);
+    }
+
+    await complete(tx);
+    return pending;
+}
+
+/**
+ * Write the RPC result back into PhantomPayDB
+ * Only rows of this batch still 'syncing' are touched, in case a tab
+ * settled them meanwhile. Rows the server did not mention are backed off.
+ */
+async function applyBatchResult(ledger, userId, batchIds, result) {
+    const batch = new Set(batchIds);
+    const processed = new Set(result.processed_ids || []);
+    const failures = new Map((result.failed_ids || []).map(failure => [failure.offline_id, failure.reason]));
+    const now = Date.now();
+
+    const tx = ledger.transaction(['transactions', 'wallet'], 'readwrite');
+    const transactions = tx.objectStore('transactions');
+    const rows = await request(transactions.index('user_id').getAll(userId));
+
+    for (const row of rows) {
+        if (row.sync_status !== 'syncing' || !batch.has(row.offline_id)) continue;
+
+        if (processed.has(row.offline_id)) {
+            row.sync_status = 'synced';
+            delete row.next_retry_at;
+            delete row.failure_reason;
+            delete row.failure_detail;
+        } else if (failures.has(row.offline_id)) {
+            const detail = failures.get(row.offline_id) || undefined;
+            const reason = parseFailureReason(detail);
+            // Rejected debits never reached the server: its version is empty
+            recordFailure(row, reason, detail, now, FAILURE_DISPOSITIONS[reason] === 'conflict'
+                ? {
+                    server_version: {},
+                    reason: 'insufficient_balance',
+                    server_balance: result.new_balance,
+                    detected_at: now
+                }
+                : undefined);
+        } else {
+            recordFailure(row, 'unconfirmed', undefined, now);
+        }
+        transactions.put(row);
+    }
+
+    // Only the confirmed balance is stored here; shadow_balance and the pending
+    // totals are re-derived by the page's ledger reducer (lib/ledger) on load
+    if (result.new_balance !== undefined) {
+        const wallets = tx.objectStore('wallet');
+        const wallet = await request(wallets.get(userId));
+        if (wallet) {
+            wallets.put({
+                ...wallet,
+                cached_balance: Number(result.new_balance),
+                last_updated: now,
+                last_sync_success: now
+            });
+        }
+    }
+
+    await complete(tx);
+}
+
+/**
+ * Put the rows of a batch that never got an answer back into the backoff
+ * schedule, like scheduleTransactionRetry
+ */
+async function releaseRows(ledger, userId, batchIds, reason) {
+    const batch = new Set(batchIds);
+    const now = Date.now();
+
+    const tx = ledger.transaction('transactions', 'readwrite');
+    const transactions = tx.objectStore('transactions');
+    const rows = await request(transactions.index('user_id').getAll(userId));
+
+    for (const row of rows) {
+        if (row.sync_status !== 'syncing' || !batch.has(row.offline_id)) continue;
+        recordFailure(row, reason, undefined, now);
+        transactions.put(row);
+    }
+
+    await complete(tx);
+}
+
+/**
+ * Is a tab currently holding the sync leader lease?
+ */
+async function hasLiveLeader(ledger) {
+    if (!ledger.objectStoreNames.contains('locks')) return false;
+    const lock = await request(ledger.transaction('locks').objectStore('locks').get(LEADER_LOCK));
+    return !!lock && lock.expires_at > Date.now();
+}
+
+function broadcast(message) {
+    if (typeof BroadcastChannel === 'undefined') return;
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.postMessage(message);
+    channel.close();
+}
+
+// ============================================
+// INDEXEDDB HELPERS
+// ============================================
+
+/**
+ * Open the app's Dexie database at whatever version it is on
+ * Resolves null if the app has never created it.
+ */
+function openLedger() {
+    return new Promise((resolve, reject) => {
+        const open = indexedDB.open(LEDGER_DB);
+        open.onupgradeneeded = () => {
+            // Never create the ledger from here - Dexie owns its schema
+            open.transaction.abort();
+        };
+        open.onsuccess = () => {
+            const ledger = open.result;
+            // Let the app upgrade the schema without waiting on us
+            ledger.onversionchange = () => ledger.close();
+            resolve(ledger);
+        };
+        open.onerror = () => {
+            if (open.error && open.error.name === 'AbortError') {
+                resolve(null);
+            } else {
+                reject(open.error);
+            }
+        };
+    });
+}
+
+function openSessionDb() {
+    return new Promise((resolve, reject) => {
+        const open = indexedDB.open(SESSION_DB, 1);
+        open.onupgradeneeded = () => open.result.createObjectStore(SESSION_STORE);
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => reject(open.error);
+    });
+}
+
+async function saveSession(session) {
+    const sessionDb = await openSessionDb();
+    try {
+        const tx = sessionDb.transaction(SESSION_STORE, 'readwrite');
+        if (session) {
+            tx.objectStore(SESSION_STORE).put(session, 'current');
+        } else {
+            tx.objectStore(SESSION_STORE).delete('current');
+        }
+        await complete(tx);
+    } finally {
+        sessionDb.close();
+    }
+}
+
+async function loadSession() {
+    const sessionDb = await openSessionDb();
+    try {
+        return await request(sessionDb.transaction(SESSION_STORE).objectStore(SESSION_STORE).get('current'));
+    } finally {
+        sessionDb.close();
+    }
+}
+
+function request(req) {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+function complete(tx) {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
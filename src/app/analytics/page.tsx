@@ -0,0 +1,184 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, ArrowDownLeft, ArrowUpRight, BarChart3, Clock, Shield } from 'lucide-react';
+import { getAuthUser } from '@/lib/supabase';
+import { useSpendingAnalytics } from '@/hooks/useSpendingAnalytics';
+import { BalanceChart, CategorySpendChart, CounterpartySpendChart, FlowChart } from '@/components/SpendingCharts';
+import type { AnalyticsGranularity } from '@/lib/analytics';
+
+/**
+ * Analytics Page
+ *
+ * Where the money went, computed on this device from the shadow ledger
+ * (see lib/analytics), so it works offline:
+ * - Money in vs out per day, week or month, and the running balance
+ * - Spend by category and by counterparty over the same period
+ * - Payments not yet synced are drawn apart from confirmed ones
+ */
+
+const GRANULARITIES: { value: AnalyticsGranularity; label: string; period: string }[] = [
+    { value: 'day', label: 'Daily', period: 'Last 14 days' },
+    { value: 'week', label: 'Weekly', period: 'Last 12 weeks' },
+    { value: 'month', label: 'Monthly', period: 'Last 12 months' }
+];
+
+export default function AnalyticsPage() {
+    const [userId, setUserId] = useState<string | null>(null);
+    const [isAuthChecking, setIsAuthChecking] = useState(true);
+    const [granularity, setGranularity] = useState<AnalyticsGranularity>('day');
+    const router = useRouter();
+    const { analytics, isLoading } = useSpendingAnalytics(userId, granularity);
+
+    useEffect(() => {
+        getAuthUser().then(user => {
+            if (!user) {
+                router.replace('/');
+                return;
+            }
+            setUserId(user.id);
+            setIsAuthChecking(false);
+        });
+    }, [router]);
+
+    if (isAuthChecking) {
+        return (
+            <main className="min-h-screen flex items-center justify-center">
+                <div className="flex flex-col items-center gap-4">
+                    <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center animate-pulse">
+                        <Shield className="w-10 h-10 text-white" />
+                    </div>
+                    <p className="text-slate-400 text-sm">Loading...</p>
+                </div>
+            </main>
+        );
+    }
+
+    const period = GRANULARITIES.find(option => option.value === granularity)!.period;
+    const totals = analytics?.totals;
+    const hasActivity = analytics !== null
+        && analytics.flow.some(bucket => bucket.inflow.synced + bucket.inflow.pending + bucket.outflow.synced + bucket.outflow.pending > 0);
+
+    return (
+        <main className="min-h-screen pb-24">
+            {/* Header */}
+            <header className="sticky top-0 z-50 bg-[#0a0a0b]/90 backdrop-blur-xl border-b border-white/5">
+                <div className="container mx-auto px-4 h-16 flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                        <Link
+                            href="/dashboard"
+                            className="w-10 h-10 rounded-xl bg-slate-800 hover:bg-slate-700 flex items-center justify-center transition-colors"
+                        >
+                            <ArrowLeft className="w-5 h-5 text-white" />
+                        </Link>
+                        <h1 className="text-lg font-bold text-white">Analytics</h1>
+                    </div>
+                </div>
+            </header>
+
+            <div className="container mx-auto px-4 py-6 space-y-6">
+                {/* Period */}
+                <div className="flex gap-2" role="radiogroup" aria-label="Period">
+                    {GRANULARITIES.map(option => (
+                        <button
+                            key={option.value}
+                            type="button"
+                            role="radio"
+                            aria-checked={granularity === option.value}
+                            onClick={() => setGranularity(option.value)}
+                            className={`flex-1 py-2 rounded-xl text-sm font-medium border transition-colors ${granularity === option.value
+                                ? 'bg-indigo-500 border-indigo-500 text-white'
+                                : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+
+                {/* Totals */}
+                <section className="grid grid-cols-2 gap-4">
+                    <div className="glass-card p-4">
+                        <div className="flex items-center gap-2 text-slate-500 text-xs mb-1">
+                            <ArrowDownLeft className="w-4 h-4 text-emerald-400" />
+                            In · {period}
+                        </div>
+                        <p className="text-xl font-bold text-emerald-400">
+                            {((totals?.inflow.synced ?? 0) + (totals?.inflow.pending ?? 0)).toLocaleString()} Rs
+                        </p>
+                        {(totals?.inflow.pending ?? 0) > 0 && (
+                            <p className="text-xs text-orange-400 mt-1">
+                                {totals!.inflow.pending.toLocaleString()} Rs pending
+                            </p>
+                        )}
+                    </div>
+                    <div className="glass-card p-4">
+                        <div className="flex items-center gap-2 text-slate-500 text-xs mb-1">
+                            <ArrowUpRight className="w-4 h-4 text-indigo-400" />
+                            Out · {period}
+                        </div>
+                        <p className="text-xl font-bold text-white">
+                            {((totals?.outflow.synced ?? 0) + (totals?.outflow.pending ?? 0)).toLocaleString()} Rs
+                        </p>
+                        {(totals?.outflow.pending ?? 0) > 0 && (
+                            <p className="text-xs text-orange-400 mt-1">
+                                {totals!.outflow.pending.toLocaleString()} Rs pending
+                            </p>
+                        )}
+                    </div>
+                </section>
+
+                {analytics && analytics.pendingCount > 0 && (
+                    <div className="flex items-center gap-2 p-3 bg-orange-500/10 rounded-xl border border-orange-500/20">
+                        <Clock className="w-5 h-5 text-orange-400 flex-shrink-0" />
+                        <p className="text-orange-400 text-sm">
+                            {analytics.pendingCount} transaction{analytics.pendingCount === 1 ? '' : 's'} not synced yet.
+                            Pending amounts are faded with an orange outline and may still change.
+                        </p>
+                    </div>
+                )}
+
+                {isLoading && (
+                    <div className="glass-card p-8 text-center text-slate-500 text-sm">Loading...</div>
+                )}
+
+                {!isLoading && !hasActivity && (
+                    <div className="glass-card p-8 text-center">
+                        <BarChart3 className="w-10 h-10 text-slate-600 mx-auto mb-3" />
+                        <p className="text-white font-medium">No transactions in this period</p>
+                        <p className="text-slate-500 text-sm mt-1">Try a longer period, or make a payment first.</p>
+                    </div>
+                )}
+
+                {analytics && hasActivity && (
+                    <>
+                        <section className="glass-card p-4">
+                            <h3 className="text-sm font-medium text-white mb-3">Money In vs Out</h3>
+                            <FlowChart data={analytics.flow} granularity={granularity} />
+                        </section>
+
+                        <section className="glass-card p-4">
+                            <h3 className="text-sm font-medium text-white mb-3">Balance</h3>
+                            <BalanceChart data={analytics.balance} granularity={granularity} />
+                        </section>
+
+                        {analytics.byCategory.length > 0 && (
+                            <section className="glass-card p-4">
+                                <h3 className="text-sm font-medium text-white mb-3">Spend by Category</h3>
+                                <CategorySpendChart data={analytics.byCategory} />
+                            </section>
+                        )}
+
+                        {analytics.byCounterparty.length > 0 && (
+                            <section className="glass-card p-4">
+                                <h3 className="text-sm font-medium text-white mb-3">Spend by Counterparty</h3>
+                                <CounterpartySpendChart data={analytics.byCounterparty} />
+                            </section>
+                        )}
+                    </>
+                )}
+            </div>
+        </main>
+    );
+}
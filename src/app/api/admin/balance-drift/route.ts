@@ -0,0 +1,120 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { timingSafeEqual } from 'node:crypto';
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Balance Drift Report (admin)
+ *
+ * Runs the verify_balances RPC (migration 013) with the service role and
+ * reports every profile whose stored balance differs from the sum of its
+ * journal postings, plus any journal entry whose postings do not sum to zero.
+ *
+ * Needs the server-only SUPABASE_SERVICE_ROLE_KEY and ADMIN_API_TOKEN env
+ * vars; callers send `Authorization: Bearer <ADMIN_API_TOKEN>`. A short
+ * token, or the placeholder from .env.example or the README, counts as
+ * not configured.
+ */
+
+interface BalanceDriftReport {
+    checked_at: number;
+    profiles_checked: number;
+    drifted: {
+        profile_id: string;
+        username: string | null;
+        stored_balance: number;
+        journal_balance: number;
+        drift: number;
+    }[];
+    unbalanced_entries: { reference: string; total: number }[];
+}
+
+const MIN_ADMIN_TOKEN_LENGTH = 32;
+
+// Example values shipped in .env.example and the README
+const PLACEHOLDER_ADMIN_TOKENS = new Set(['generate-a-long-random-token', 'a-long-random-token']);
+
+const NO_STORE_HEADERS = {
+    'Cache-Control': 'no-store, no-cache, must-revalidate',
+    'Pragma': 'no-cache',
+    'Expires': '0'
+};
+
+export async function GET(request: NextRequest) {
+    const supabaseUrl = (process.env.NEXT_PUBLIC_SUPABASE_URL || '').trim();
+    const serviceRoleKey = (process.env.SUPABASE_SERVICE_ROLE_KEY || '').trim();
+    const adminToken = (process.env.ADMIN_API_TOKEN || '').trim();
+
+    if (!supabaseUrl || !serviceRoleKey || !isUsableAdminToken(adminToken)) {
+        return NextResponse.json(
+            { error: 'Balance verification is not configured' },
+            { status: 503, headers: NO_STORE_HEADERS }
+        );
+    }
+
+    if (!isAuthorized(request.headers.get('authorization'), adminToken)) {
+        return NextResponse.json(
+            { error: 'Unauthorized' },
+            { status: 401, headers: NO_STORE_HEADERS }
+        );
+    }
+
+    const admin = createClient(supabaseUrl, serviceRoleKey, {
+        auth: { persistSession: false, autoRefreshToken: false }
+    });
+
+    const { data, error } = await admin.rpc('verify_balances');
+
+    if (error) {
+        console.error('❌ Balance verification failed:', error);
+        return NextResponse.json(
+            { error: 'Balance verification failed' },
+            { status: 500, headers: NO_STORE_HEADERS }
+        );
+    }
+
+    const report = data as BalanceDriftReport;
+    const drifted = report.drifted.map(profile => ({
+        ...profile,
+        stored_balance: Number(profile.stored_balance),
+        journal_balance: Number(profile.journal_balance),
+        drift: Number(profile.drift)
+    }));
+    const unbalancedEntries = report.unbalanced_entries.map(entry => ({
+        ...entry,
+        total: Number(entry.total)
+    }));
+
+    if (drifted.length > 0 || unbalancedEntries.length > 0) {
+        console.warn(`⚠️ Balance drift: ${drifted.length} profiles, ${unbalancedEntries.length} unbalanced entries`);
+    }
+
+    return NextResponse.json(
+        {
+            ok: drifted.length === 0 && unbalancedEntries.length === 0,
+            checked_at: report.checked_at,
+            profiles_checked: report.profiles_checked,
+            drifted,
+            unbalanced_entries: unbalancedEntries
+        },
+        { headers: NO_STORE_HEADERS }
+    );
+}
+
+/**
+ * Is the configured token long enough and not an example value?
+ */
+function isUsableAdminToken(adminToken: string): boolean {
+    return adminToken.length >= MIN_ADMIN_TOKEN_LENGTH && !PLACEHOLDER_ADMIN_TOKENS.has(adminToken);
+}
+
+/**
+ * Constant-time check of the bearer token
+ */
+function isAuthorized(header: string | null, adminToken: string): boolean {
+    const token = header?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+    if (!token) return false;
+
+    const given = Buffer.from(token);
+    const expected = Buffer.from(adminToken);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+}
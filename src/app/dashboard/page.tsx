@@ -2,10 +2,10 @@
 
 import { useState, useEffect } from 'react';
 import {
-    Clock, ChevronRight, LogOut, Shield, RefreshCw, ArrowUpRight, ArrowDownLeft, QrCode, Wallet, Scan
+    Clock, ChevronRight, LogOut, Shield, ArrowUpRight, ArrowDownLeft, QrCode, Wallet, Scan, CalendarClock, Inbox, PiggyBank, BarChart3
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabase';
+import { supabase, getAuthUser } from '@/lib/supabase';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '@/lib/db';
 import { useShadowTransaction } from '@/hooks/useShadowTransaction';
@@ -17,7 +17,21 @@ import { VoiceAssistant } from '@/components/VoiceAssistant';
 import { QRRequestModal } from '@/components/QRCodeGenerator';
 import { QRPaymentModal } from '@/components/QRCodeScanner';
 import { PaymentRequestForm } from '@/components/PaymentRequestForm';
-import { IncomingRequestModal } from '@/components/IncomingRequestModal';
+import { RecurringPayments } from '@/components/RecurringPayments';
+import { Budgets } from '@/components/Budgets';
+import { SplitRequestList } from '@/components/SplitRequestList';
+import { RequestInbox } from '@/components/RequestInbox';
+import { PendingTransactionEditor } from '@/components/PendingTransactionEditor';
+import { UndoToast } from '@/components/UndoToast';
+import { usePaymentRequests } from '@/hooks/usePaymentRequests';
+import { SyncStatusPill } from '@/components/SyncStatusBar';
+import { SyncDrawer } from '@/components/SyncDrawer';
+import { useSyncQueue } from '@/hooks/useSyncQueue';
+import { ConflictList } from '@/components/ConflictCard';
+import { resolveConflict } from '@/lib/conflictResolver';
+import { isTransactionHeld } from '@/lib/offlineTransactions';
+import { tabCoordinator } from '@/lib/tabCoordinator';
+import type { ConflictResolution, OfflineTransaction, QRPaymentIntent, TransactionCategory } from '@/lib/types';
 
 /**
  * Main Dashboard Page
@@ -39,13 +53,17 @@ export default function Dashboard() {
     const [showQRReceive, setShowQRReceive] = useState(false);
     const [showQRScan, setShowQRScan] = useState(false);
     const [showRequestForm, setShowRequestForm] = useState(false);
-    const [incomingRequest, setIncomingRequest] = useState<any>(null);
+    const [showRecurring, setShowRecurring] = useState(false);
+    const [showBudgets, setShowBudgets] = useState(false);
+    const [showInbox, setShowInbox] = useState(false);
+    const [showSyncDrawer, setShowSyncDrawer] = useState(false);
+    const [editingTransaction, setEditingTransaction] = useState<OfflineTransaction | null>(null);
     const router = useRouter();
 
     // Check Authentication
     useEffect(() => {
         const checkAuth = async () => {
-            const { data: { user } } = await supabase.auth.getUser();
+            const user = await getAuthUser();
             if (!user) {
                 router.replace('/');
             } else {
@@ -105,8 +123,11 @@ export default function Dashboard() {
                 },
                 async (payload) => {
                     console.log('🔔 Incoming P2P transaction received!', payload);
+                    // Every tab gets the event; only the sync leader downloads it
+                    if (!tabCoordinator.isLeader()) return;
                     const { syncWalletFromServer } = require('@/lib/syncEngine');
                     await syncWalletFromServer(userId);
+                    tabCoordinator.announceUpdate(userId);
                 }
             )
             .subscribe();
@@ -116,49 +137,16 @@ export default function Dashboard() {
         };
     }, [userId]);
 
-    // Realtime subscription for incoming payment requests + fetch pending on load
-    useEffect(() => {
-        if (!userId) return;
-
-        // Fetch any pending requests when user logs in
-        const fetchPendingRequests = async () => {
-            const { data, error } = await supabase
-                .from('payment_requests')
-                .select('*')
-                .eq('payer_id', userId)
-                .eq('status', 'pending')
-                .order('created_at', { ascending: false })
-                .limit(1);
-
-            if (!error && data && data.length > 0) {
-                console.log('📨 Found pending request on login:', data[0]);
-                setIncomingRequest(data[0]);
-            }
-        };
-        fetchPendingRequests();
-
-        // Listen for new incoming requests in realtime
-        const channel = supabase
-            .channel('payment-requests')
-            .on(
-                'postgres_changes',
-                {
-                    event: 'INSERT',
-                    schema: 'public',
-                    table: 'payment_requests',
-                    filter: `payer_id=eq.${userId}`
-                },
-                (payload) => {
-                    console.log('🔔 Incoming payment request!', payload);
-                    setIncomingRequest(payload.new);
-                }
-            )
-            .subscribe();
-
-        return () => {
-            supabase.removeChannel(channel);
-        };
-    }, [userId]);
+    // Payment request inbox: opens by itself when a request or reminder arrives
+    const {
+        incoming: incomingRequests,
+        outgoing: outgoingRequests,
+        openIncomingCount,
+        queuedAmounts: queuedRequestAmounts,
+        refresh: refreshRequests
+    } = usePaymentRequests(userId, {
+        onNudge: () => setShowInbox(true)
+    });
 
     // Handle Sign Out
     const handleSignOut = async () => {
@@ -170,13 +158,27 @@ export default function Dashboard() {
     const {
         shadowBalance,
         cachedBalance,
+        pendingDebits,
+        pendingCredits,
         pendingCount,
+        offlineAllowance,
+        otherDevicesReserved,
         isLoading,
         isOnline,
         addTransaction,
+        receiveVoucher,
+        payRequest,
+        editTransaction,
+        deleteTransaction,
+        undoTransaction,
+        releaseTransaction,
+        refreshBalance,
         syncNow
     } = useShadowTransaction(userId);
 
+    // Sync queue visibility (drawer + header pill)
+    const { queueItems, queueCount, heldCount, hasFailed, nextRunAt, retryItem } = useSyncQueue(userId);
+
     // Live query for transactions from Dexie
     const transactions = useLiveQuery(
         () => {
@@ -190,10 +192,31 @@ export default function Dashboard() {
         [userId]
     );
 
+    // Conflicts are shown above the feed until resolved
+    const conflicts = (transactions || []).filter(tx => tx.sync_status === 'conflict' && tx.conflict_data);
+
+    // New payments inside their undo window
+    const heldTransactions = (transactions || []).filter(isTransactionHeld);
+
+    const handleResolveConflict = async (offlineId: string, resolution: ConflictResolution) => {
+        if (!userId) return;
+        try {
+            await resolveConflict(userId, offlineId, resolution);
+        } catch (err) {
+            console.error('Conflict resolution failed:', err);
+        }
+        await refreshBalance();
+    };
+
     // Handle payment submission
-    const handlePayment = async (amount: number, description: string, recipientsDummy?: any, recipientId?: string) => {
+    const handlePayment = async (
+        amount: number,
+        description: string,
+        recipientId?: string,
+        category?: TransactionCategory
+    ) => {
         // Use 'debit' type. If recipientId is present, it becomes a P2P transfer
-        const success = await addTransaction(amount, description, 'debit', recipientId);
+        const success = await addTransaction(amount, description, 'debit', recipientId, undefined, category);
         if (success) {
             setShowPaymentForm(false);
         }
@@ -206,13 +229,27 @@ export default function Dashboard() {
     };
 
     // Handle QR payment (from scanner) - P2P transfer
-    const handleQRPayment = async (amount: number, recipientId: string, description: string) => {
+    const handleQRPayment = async (
+        amount: number,
+        recipientId: string,
+        description: string,
+        intent: QRPaymentIntent,
+        category?: TransactionCategory
+    ) => {
         // Pass recipientId for P2P transfer - server will credit recipient
-        const success = await addTransaction(amount, description, 'debit', recipientId);
-        if (success) {
-            setShowQRScan(false);
-        }
-        return success;
+        // and redeem the QR intent so it cannot be paid again.
+        // The modal stays open to show the payee the voucher QR.
+        return addTransaction(amount, description, 'debit', recipientId, intent, category);
+    };
+
+    // Handle a confirmed voice command (with the category picked on the confirm step)
+    const handleVoiceTransaction = async (
+        amount: number,
+        description: string,
+        type: 'credit' | 'debit',
+        category?: TransactionCategory
+    ) => {
+        return addTransaction(amount, description, type, undefined, undefined, category);
     };
 
     // Handle balance query for voice assistant
@@ -271,16 +308,38 @@ export default function Dashboard() {
                         </h1>
                     </div>
 
-                    {/* Sync Button */}
-                    {pendingCount > 0 && isOnline && (
-                        <button
-                            onClick={syncNow}
-                            className="flex items-center gap-2 px-3 py-1.5 bg-indigo-500/20 hover:bg-indigo-500/30 rounded-lg text-indigo-400 text-sm font-medium transition-colors"
-                        >
-                            <RefreshCw className="w-4 h-4" />
-                            Sync {pendingCount}
-                        </button>
-                    )}
+                    {/* Sync Queue Pill - opens the Sync Drawer */}
+                    <div className="ml-auto">
+                        <SyncStatusPill
+                            queueCount={queueCount}
+                            heldCount={heldCount}
+                            hasFailed={hasFailed}
+                            onClick={() => setShowSyncDrawer(true)}
+                        />
+                    </div>
+
+                    {/* Spending analytics */}
+                    <button
+                        onClick={() => router.push('/analytics')}
+                        className="p-2 hover:bg-white/10 rounded-full transition-colors ml-2"
+                        title="Analytics"
+                    >
+                        <BarChart3 className="w-5 h-5 text-slate-400" />
+                    </button>
+
+                    {/* Payment Request Inbox */}
+                    <button
+                        onClick={() => setShowInbox(true)}
+                        className="relative p-2 hover:bg-white/10 rounded-full transition-colors ml-2"
+                        title="Payment Requests"
+                    >
+                        <Inbox className="w-5 h-5 text-slate-400" />
+                        {openIncomingCount > 0 && (
+                            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-white text-[10px] font-bold flex items-center justify-center">
+                                {openIncomingCount}
+                            </span>
+                        )}
+                    </button>
 
                     <button
                         onClick={handleSignOut}
@@ -305,6 +364,9 @@ export default function Dashboard() {
                     shadowBalance={shadowBalance}
                     cachedBalance={cachedBalance}
                     pendingCount={pendingCount}
+                    pendingDebits={pendingDebits}
+                    pendingCredits={pendingCredits}
+                    otherDevicesReserved={otherDevicesReserved}
                     isOnline={isOnline}
                     isLoading={isLoading}
                 />
@@ -363,6 +425,39 @@ export default function Dashboard() {
                     </button>
                 </section>
 
+                {/* Scheduled / recurring payments */}
+                <button
+                    onClick={() => setShowRecurring(true)}
+                    className="glass-card w-full p-4 flex items-center gap-3 hover:border-indigo-500/30 transition-colors"
+                >
+                    <div className="w-10 h-10 rounded-full bg-indigo-500/20 flex items-center justify-center">
+                        <CalendarClock className="w-5 h-5 text-indigo-400" />
+                    </div>
+                    <div className="text-left">
+                        <span className="font-medium text-white text-sm">Scheduled Payments</span>
+                        <p className="text-xs text-slate-500">Recurring bills, paid even offline</p>
+                    </div>
+                    <ChevronRight className="w-4 h-4 text-slate-600 ml-auto" />
+                </button>
+
+                {/* Monthly budgets */}
+                <button
+                    onClick={() => setShowBudgets(true)}
+                    className="glass-card w-full p-4 flex items-center gap-3 hover:border-amber-500/30 transition-colors"
+                >
+                    <div className="w-10 h-10 rounded-full bg-amber-500/20 flex items-center justify-center">
+                        <PiggyBank className="w-5 h-5 text-amber-400" />
+                    </div>
+                    <div className="text-left">
+                        <span className="font-medium text-white text-sm">Budgets</span>
+                        <p className="text-xs text-slate-500">Monthly limits, warned before you overspend</p>
+                    </div>
+                    <ChevronRight className="w-4 h-4 text-slate-600 ml-auto" />
+                </button>
+
+                {/* Split bill progress */}
+                {userId && <SplitRequestList userId={userId} />}
+
                 {/* Transaction List */}
                 <section>
                     <div className="flex items-center justify-between mb-4">
@@ -373,9 +468,18 @@ export default function Dashboard() {
                             </span>
                         )}
                     </div>
+                    <ConflictList
+                        conflicts={conflicts}
+                        onResolve={handleResolveConflict}
+                    />
                     <TransactionList
                         transactions={transactions || []}
                         isLoading={isLoading}
+                        onEdit={setEditingTransaction}
+                        onDelete={async (offlineId) => {
+                            const result = await deleteTransaction(offlineId);
+                            if (!result.ok) window.alert(result.error);
+                        }}
                     />
                 </section>
             </div>
@@ -390,6 +494,7 @@ export default function Dashboard() {
                     <div className="relative w-full max-w-md mx-4 mb-4 sm:mb-0 animate-fade-in">
                         <PaymentForm
                             onSubmit={handlePayment}
+                            userId={userId ?? undefined}
                             maxAmount={shadowBalance}
                             disabled={false}
                         />
@@ -413,8 +518,13 @@ export default function Dashboard() {
                     <div className="relative w-full max-w-md mx-4 mb-4 sm:mb-0 animate-fade-in">
                         <QRPaymentModal
                             userId={userId}
+                            userName={userName}
                             maxAmount={shadowBalance}
+                            offlineLimit={!isOnline && offlineAllowance
+                                ? (offlineAllowance.expired ? 0 : offlineAllowance.remaining)
+                                : undefined}
                             onPayment={handleQRPayment}
+                            onRelease={releaseTransaction}
                             onClose={() => setShowQRScan(false)}
                         />
                     </div>
@@ -432,6 +542,7 @@ export default function Dashboard() {
                         <QRRequestModal
                             userId={userId}
                             userName={userName}
+                            onReceiveVoucher={receiveVoucher}
                             onClose={() => setShowQRReceive(false)}
                         />
                     </div>
@@ -454,41 +565,98 @@ export default function Dashboard() {
                 </div>
             )}
 
-            {/* Incoming Payment Request Modal */}
-            {incomingRequest && (
-                <IncomingRequestModal
-                    request={incomingRequest}
-                    currentBalance={shadowBalance}
-                    onRespond={async () => {
-                        // Refresh balance from Supabase since the payment was processed server-side
-                        if (userId) {
-                            const { data: profile } = await supabase
-                                .from('profiles')
-                                .select('balance')
-                                .eq('id', userId)
-                                .single();
-
-                            if (profile) {
-                                // Force refresh the wallet state
-                                const { updateWalletState } = await import('@/lib/db');
-                                await updateWalletState({
-                                    id: userId,
-                                    cached_balance: parseFloat(profile.balance),
-                                    shadow_balance: parseFloat(profile.balance),
-                                    last_updated: Date.now()
-                                });
-                            }
-                        }
-                        // Also trigger normal sync
-                        syncNow();
-                    }}
-                    onClose={() => setIncomingRequest(null)}
-                />
+            {/* Scheduled Payments Modal */}
+            {showRecurring && userId && (
+                <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+                    <div
+                        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+                        onClick={() => setShowRecurring(false)}
+                    />
+                    <div className="relative w-full max-w-md mx-4 mb-4 sm:mb-0 animate-fade-in">
+                        <RecurringPayments
+                            userId={userId}
+                            onClose={() => setShowRecurring(false)}
+                        />
+                    </div>
+                </div>
             )}
 
+            {/* Monthly Budgets Modal */}
+            {showBudgets && userId && (
+                <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+                    <div
+                        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+                        onClick={() => setShowBudgets(false)}
+                    />
+                    <div className="relative w-full max-w-md mx-4 mb-4 sm:mb-0 animate-fade-in">
+                        <Budgets
+                            userId={userId}
+                            onClose={() => setShowBudgets(false)}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {/* Payment Request Inbox */}
+            {showInbox && (
+                <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+                    <div
+                        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+                        onClick={() => setShowInbox(false)}
+                    />
+                    <div className="relative w-full max-w-md mx-4 mb-4 sm:mb-0 animate-fade-in">
+                        <RequestInbox
+                            incoming={incomingRequests}
+                            outgoing={outgoingRequests}
+                            queuedAmounts={queuedRequestAmounts}
+                            currentBalance={shadowBalance}
+                            isOnline={isOnline}
+                            onPay={payRequest}
+                            onChanged={refreshRequests}
+                            onClose={() => setShowInbox(false)}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {/* Pending Transaction Editor */}
+            {editingTransaction && (
+                <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+                    <div
+                        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+                        onClick={() => setEditingTransaction(null)}
+                    />
+                    <div className="relative w-full max-w-md mx-4 mb-4 sm:mb-0 animate-fade-in">
+                        <PendingTransactionEditor
+                            transaction={editingTransaction}
+                            isOnline={isOnline}
+                            onSave={(changes) => editTransaction(editingTransaction.offline_id, changes)}
+                            onClose={() => setEditingTransaction(null)}
+                        />
+                    </div>
+                </div>
+            )}
+
+            {/* Sync Queue Drawer */}
+            <SyncDrawer
+                isOpen={showSyncDrawer}
+                onClose={() => setShowSyncDrawer(false)}
+                queueItems={queueItems}
+                nextRunAt={nextRunAt}
+                onRetryItem={retryItem}
+            />
+
+            {/* Undo window for new payments */}
+            <UndoToast
+                heldTransactions={heldTransactions}
+                onUndo={undoTransaction}
+                onSendNow={releaseTransaction}
+            />
+
             {/* Voice Assistant with AI */}
             <VoiceAssistant
-                onTransaction={addTransaction}
+                onTransaction={handleVoiceTransaction}
+                userId={userId ?? undefined}
                 currentBalance={shadowBalance}
                 onBalanceQuery={handleBalanceQuery}
                 onTransactionsQuery={handleTransactionsQuery}
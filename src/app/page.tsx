@@ -2,7 +2,8 @@
 
 import React, { useState } from 'react';
 import { Shield, Mail, Lock, Loader2, AlertCircle, Wallet } from 'lucide-react';
-import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { supabase, isSupabaseConfigured, getAuthUser } from '@/lib/supabase';
+import { takeDeviceRevokedNotice } from '@/lib/deviceKeys';
 import { useRouter } from 'next/navigation';
 
 export default function LoginPage() {
@@ -25,9 +26,11 @@ export default function LoginPage() {
 
         // Check if user is already authenticated
         const checkExistingAuth = async () => {
-            const { data: { user } } = await supabase.auth.getUser();
+            const user = await getAuthUser();
             if (user) {
                 router.replace('/dashboard');
+            } else if (takeDeviceRevokedNotice()) {
+                setError('This device was removed from your account on another device, so it was signed out. Offline payments it had not synced were not sent. Sign in again to keep using it.');
             }
         };
         checkExistingAuth();
@@ -1,14 +1,17 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { ArrowLeft, User, QrCode, Settings, LogOut, Shield, Bell, Moon } from 'lucide-react';
 import Link from 'next/link';
 import { QRCodeGenerator, QRRequestModal } from '@/components/QRCodeGenerator';
+import { DevicesSection } from '@/components/DevicesSection';
+import { getAuthUser } from '@/lib/supabase';
 
 /**
  * Profile Page
  * 
  * Shows user info and QR code for receiving payments.
+ * Signed-in users also get the list of their devices, with revoke.
  * Member C/D can enhance with:
  * - User settings
  * - Transaction history export
@@ -24,6 +27,11 @@ const DEMO_USER = {
 
 export default function ProfilePage() {
     const [showQRModal, setShowQRModal] = useState(false);
+    const [authUserId, setAuthUserId] = useState<string | null>(null);
+
+    useEffect(() => {
+        getAuthUser().then(user => setAuthUserId(user?.id ?? null));
+    }, []);
 
     return (
         <main className="min-h-screen">
@@ -81,6 +89,9 @@ export default function ProfilePage() {
                     </div>
                 </section>
 
+                {/* Devices */}
+                {authUserId && <DevicesSection userId={authUserId} />}
+
                 {/* Settings Menu */}
                 <section className="glass-card overflow-hidden">
                     <h3 className="text-sm font-medium text-slate-400 uppercase tracking-wider px-4 pt-4 pb-2">
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Wallet, Clock, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Wallet, Clock, AlertTriangle, ChevronDown, ChevronUp, Smartphone } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 /**
@@ -9,11 +9,13 @@ import { motion, AnimatePresence } from 'framer-motion';
  * 
  * Implements the "Projected Balance" strategy from UI roadmap.
  * Key features:
- * - Shows calculated balance (server - pending_debits + pending_credits)
+ * - Shows calculated balance (server - pending_debits + pending_credits),
+ *   all three derived by the ledger reducer (lib/ledger)
  * - Expandable breakdown for transparency
  * - Staleness indicator (> 24 hours)
  * - Yellow dot for pending transactions
  * - Trust signals through explicit math
+ * - What the account's other devices may still be spending offline
  */
 
 interface BalanceCardProps {
@@ -22,6 +24,7 @@ interface BalanceCardProps {
     pendingCount: number;
     pendingDebits?: number;
     pendingCredits?: number;
+    otherDevicesReserved?: number;
     isOnline: boolean;
     isStale?: boolean;
     lastSyncTime?: number;
@@ -34,6 +37,7 @@ export function BalanceCard({
     pendingCount,
     pendingDebits = 0,
     pendingCredits = 0,
+    otherDevicesReserved = 0,
     isOnline,
     isStale = false,
     lastSyncTime,
@@ -154,6 +158,16 @@ export function BalanceCard({
                 </motion.div>
             )}
 
+            {/* Other devices' offline spending */}
+            {otherDevicesReserved > 0 && (
+                <div className="flex items-center gap-2 text-xs text-slate-400 mb-2">
+                    <Smartphone className="w-3.5 h-3.5" />
+                    <span>
+                        Your other devices may spend up to {otherDevicesReserved.toLocaleString()} Rs offline
+                    </span>
+                </div>
+            )}
+
             {/* Expandable Balance Breakdown */}
             <AnimatePresence>
                 {isExpanded && hasPending && (
@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+import { PiggyBank } from 'lucide-react';
+import { getBudgetLabel, type BudgetWarning } from '@/lib/budgets';
+
+/**
+ * BudgetWarningBanner Component
+ *
+ * Shown on a payment's confirm step when it would take a monthly budget
+ * over its limit (see lib/budgets). Only a warning: the payment can
+ * still be made.
+ */
+
+interface BudgetWarningBannerProps {
+    warnings: BudgetWarning[];
+}
+
+export function BudgetWarningBanner({ warnings }: BudgetWarningBannerProps) {
+    if (warnings.length === 0) return null;
+
+    return (
+        <div className="flex items-start gap-2 p-3 bg-amber-500/10 rounded-xl border border-amber-500/20" role="alert">
+            <PiggyBank className="w-5 h-5 text-amber-400 flex-shrink-0" />
+            <div className="space-y-1">
+                {warnings.map(warning => (
+                    <p key={warning.scope} className="text-amber-400 text-sm">
+                        {warning.spent >= warning.limit
+                            ? `${getBudgetLabel(warning.scope)} budget already used up: `
+                            : `Over your ${getBudgetLabel(warning.scope)} budget: `}
+                        {warning.after.toLocaleString()} of {warning.limit.toLocaleString()} Rs this month
+                    </p>
+                ))}
+            </div>
+        </div>
+    );
+}
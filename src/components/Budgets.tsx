@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Pencil, PiggyBank, Plus, X } from 'lucide-react';
+import { useBudgets } from '@/hooks/useBudgets';
+import { BUDGET_SCOPES, getBudgetLabel } from '@/lib/budgets';
+import type { BudgetScope } from '@/lib/types';
+
+/**
+ * Budgets Component
+ *
+ * Dashboard panel for monthly budgets.
+ *
+ * Key features:
+ * - An overall limit and one per category, set or changed offline
+ * - This month's spending against each, pending payments included
+ * - Payments that would go over one are warned about before they are made
+ *   (see BudgetWarningBanner)
+ */
+
+interface BudgetsProps {
+    userId: string;
+    onClose: () => void;
+}
+
+export function Budgets({ userId, onClose }: BudgetsProps) {
+    const { budgets, isLoading, set, remove } = useBudgets(userId);
+    const [editing, setEditing] = useState<BudgetScope | 'new' | null>(null);
+    const [scope, setScope] = useState<BudgetScope>('overall');
+    const [amount, setAmount] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [busyScope, setBusyScope] = useState<BudgetScope | null>(null);
+    const [confirmRemoveScope, setConfirmRemoveScope] = useState<BudgetScope | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const unbudgeted = BUDGET_SCOPES.filter(option => !budgets.some(status => status.budget.scope === option));
+
+    const openForm = (target: BudgetScope | 'new') => {
+        setError(null);
+        setEditing(target);
+        if (target === 'new') {
+            setScope(unbudgeted[0] ?? 'overall');
+            setAmount('');
+        } else {
+            setScope(target);
+            const current = budgets.find(status => status.budget.scope === target);
+            setAmount(current ? String(current.budget.amount) : '');
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const numAmount = parseFloat(amount);
+        if (isNaN(numAmount) || !Number.isFinite(numAmount) || numAmount <= 0) {
+            setError('Please enter a valid positive amount');
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        const result = await set(scope, numAmount);
+        if (result.ok) {
+            setEditing(null);
+        } else {
+            setError(result.error);
+        }
+        setIsSubmitting(false);
+    };
+
+    const handleRemove = async (target: BudgetScope) => {
+        if (confirmRemoveScope !== target) {
+            setConfirmRemoveScope(target);
+            return;
+        }
+        setConfirmRemoveScope(null);
+        setBusyScope(target);
+        setError(null);
+        const result = await remove(target);
+        if (!result.ok) setError(result.error);
+        setBusyScope(null);
+    };
+
+    const monthName = new Date().toLocaleString(undefined, { month: 'long' });
+
+    return (
+        <div className="glass-card p-6 max-h-[85vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold text-white">Monthly Budgets</h3>
+                <button
+                    onClick={onClose}
+                    className="p-1 hover:bg-white/10 rounded-full transition-colors"
+                    aria-label="Close"
+                    type="button"
+                >
+                    <X className="w-5 h-5 text-slate-400" />
+                </button>
+            </div>
+
+            {error && (
+                <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {editing ? (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="budget-scope" className="block text-sm font-medium text-slate-400 mb-2">
+                            Budget For
+                        </label>
+                        <select
+                            id="budget-scope"
+                            value={scope}
+                            onChange={(e) => setScope(e.target.value as BudgetScope)}
+                            className="input-field"
+                            disabled={isSubmitting || editing !== 'new'}
+                        >
+                            {(editing === 'new' ? unbudgeted : [scope]).map(option => (
+                                <option key={option} value={option}>{getBudgetLabel(option)}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label htmlFor="budget-amount" className="block text-sm font-medium text-slate-400 mb-2">
+                            Limit per Month (Rs)
+                        </label>
+                        <input
+                            type="number"
+                            id="budget-amount"
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            placeholder="0"
+                            className="input-field"
+                            disabled={isSubmitting}
+                            min="0"
+                            step="0.01"
+                            autoFocus
+                        />
+                    </div>
+
+                    <div className="flex gap-3">
+                        <button
+                            type="button"
+                            onClick={() => setEditing(null)}
+                            className="secondary-button flex-1"
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="primary-button flex-1 flex items-center justify-center gap-2"
+                            disabled={isSubmitting || !amount}
+                        >
+                            {isSubmitting && <Loader2 className="w-5 h-5 animate-spin" />}
+                            Save
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <>
+                    {isLoading && (
+                        <div className="flex items-center justify-center py-6">
+                            <Loader2 className="w-5 h-5 text-indigo-400 animate-spin" />
+                        </div>
+                    )}
+
+                    {!isLoading && budgets.length === 0 && (
+                        <p className="text-sm text-slate-500 mb-4">
+                            No budgets yet. You are warned before a payment would go over one, even offline.
+                        </p>
+                    )}
+
+                    <div className="space-y-3 mb-4">
+                        {budgets.map(({ budget, spent, remaining }) => {
+                            const isOver = remaining < 0;
+                            const isBusy = busyScope === budget.scope;
+                            const percent = Math.min(100, (spent / budget.amount) * 100);
+
+                            return (
+                                <div key={budget.id} className="p-3 rounded-xl bg-white/5 border border-white/5">
+                                    <div className="flex items-start gap-3">
+                                        <PiggyBank className={`w-5 h-5 flex-shrink-0 mt-0.5 ${isOver ? 'text-amber-400' : 'text-indigo-400'}`} />
+                                        <div className="flex-1 min-w-0">
+                                            <div className="flex justify-between text-sm">
+                                                <span className="text-white">{getBudgetLabel(budget.scope)}</span>
+                                                <span className="text-slate-400">
+                                                    {spent.toLocaleString()} / {budget.amount.toLocaleString()} Rs
+                                                </span>
+                                            </div>
+                                            <div className="h-1.5 bg-white/10 rounded-full overflow-hidden mt-2">
+                                                <div
+                                                    className={`h-full rounded-full ${isOver ? 'bg-amber-400' : 'bg-indigo-500'}`}
+                                                    style={{ width: `${percent}%` }}
+                                                />
+                                            </div>
+                                            <p className={`text-xs mt-1 ${isOver ? 'text-amber-400' : 'text-slate-500'}`}>
+                                                {isOver
+                                                    ? `${(-remaining).toLocaleString()} Rs over in ${monthName}`
+                                                    : `${remaining.toLocaleString()} Rs left in ${monthName}`}
+                                            </p>
+                                        </div>
+                                        {isBusy && <Loader2 className="w-4 h-4 text-indigo-400 animate-spin" />}
+                                    </div>
+
+                                    <div className="flex flex-wrap gap-3 mt-3 pl-8 text-xs">
+                                        <button
+                                            type="button"
+                                            onClick={() => openForm(budget.scope)}
+                                            disabled={isBusy}
+                                            className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+                                        >
+                                            <Pencil className="w-3.5 h-3.5" /> Edit
+                                        </button>
+                                        <button
+                                            type="button"
+                                            onClick={() => handleRemove(budget.scope)}
+                                            disabled={isBusy}
+                                            className="flex items-center gap-1 text-red-400 hover:text-red-300 transition-colors ml-auto"
+                                        >
+                                            <X className="w-3.5 h-3.5" /> {confirmRemoveScope === budget.scope ? 'Confirm' : 'Remove'}
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {unbudgeted.length > 0 && (
+                        <button
+                            type="button"
+                            onClick={() => openForm('new')}
+                            className="primary-button w-full flex items-center justify-center gap-2"
+                        >
+                            <Plus className="w-5 h-5" />
+                            New budget
+                        </button>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
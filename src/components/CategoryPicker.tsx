@@ -0,0 +1,51 @@
+'use client';
+
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import { CATEGORY_LABELS, TRANSACTION_CATEGORIES } from '@/lib/categories';
+import type { TransactionCategory, TransactionType } from '@/lib/types';
+
+/**
+ * CategoryPicker Component
+ *
+ * Chips for choosing what a transaction was for, with the suggested
+ * category (see lib/categories) marked. Picking another one is how the
+ * categorizer learns.
+ */
+
+interface CategoryPickerProps {
+    value: TransactionCategory;
+    suggested: TransactionCategory | null;
+    type: TransactionType;
+    onChange: (category: TransactionCategory) => void;
+    disabled?: boolean;
+}
+
+export function CategoryPicker({ value, suggested, type, onChange, disabled }: CategoryPickerProps) {
+    // Income only makes sense for money coming in
+    const options = TRANSACTION_CATEGORIES.filter(category => type === 'credit' || category !== 'income');
+
+    return (
+        <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Category">
+            {options.map(category => {
+                const isSelected = category === value;
+                return (
+                    <button
+                        key={category}
+                        type="button"
+                        role="radio"
+                        aria-checked={isSelected}
+                        onClick={() => onChange(category)}
+                        disabled={disabled}
+                        className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors flex items-center gap-1 disabled:opacity-50 ${isSelected
+                            ? 'bg-indigo-500 border-indigo-500 text-white'
+                            : 'bg-white/5 border-white/10 text-slate-400 hover:text-white'}`}
+                    >
+                        {category === suggested && <Sparkles className="w-3 h-3" />}
+                        {CATEGORY_LABELS[category]}
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
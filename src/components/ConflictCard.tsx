@@ -3,7 +3,7 @@
 import React, { useState } from 'react';
 import { AlertTriangle, ArrowRight, X, Check } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { OfflineTransaction } from '@/lib/types';
+import type { ConflictResolution, OfflineTransaction } from '@/lib/types';
 
 /**
  * ConflictCard Component
@@ -20,7 +20,7 @@ import type { OfflineTransaction } from '@/lib/types';
 
 interface ConflictCardProps {
     transaction: OfflineTransaction;
-    onResolve: (resolution: 'keep_local' | 'accept_server' | 'cancel') => Promise<void>;
+    onResolve: (resolution: ConflictResolution) => Promise<void>;
     onDismiss?: () => void;
 }
 
@@ -31,12 +31,13 @@ export function ConflictCard({ transaction, onResolve, onDismiss }: ConflictCard
     if (!transaction.conflict_data) return null;
 
     const localVersion = transaction;
-    const serverVersion = {
-        ...transaction,
-        ...transaction.conflict_data.server_version
-    };
+    const serverVersion = transaction.conflict_data.server_version;
+    // Empty server version = the server never recorded this transaction
+    const serverHasRow = Object.keys(serverVersion).length > 0;
+    const isBalanceConflict = transaction.conflict_data.reason === 'insufficient_balance';
+    const serverBalance = transaction.conflict_data.server_balance;
 
-    const handleResolve = async (resolution: 'keep_local' | 'accept_server' | 'cancel') => {
+    const handleResolve = async (resolution: ConflictResolution) => {
         setIsResolving(true);
         try {
             await onResolve(resolution);
@@ -63,7 +64,9 @@ export function ConflictCard({ transaction, onResolve, onDismiss }: ConflictCard
                         <div>
                             <h3 className="text-white font-bold">Conflict Detected</h3>
                             <p className="text-sm text-yellow-400">
-                                This transaction differs from the server version
+                                {isBalanceConflict
+                                    ? 'The server balance was too low for this payment'
+                                    : 'This transaction differs from the server version'}
                             </p>
                         </div>
                     </div>
@@ -138,31 +141,47 @@ export function ConflictCard({ transaction, onResolve, onDismiss }: ConflictCard
                                     <h4 className="text-xs uppercase font-bold text-orange-400 mb-2">
                                         Server Version (Cloud)
                                     </h4>
-                                    <div className="space-y-2 text-sm">
-                                        <div>
-                                            <span className="text-slate-500">Amount:</span>
-                                            <span className="text-white font-mono ml-2">
-                                                {(serverVersion.amount || localVersion.amount).toLocaleString()} Rs
-                                            </span>
+                                    {serverHasRow ? (
+                                        <div className="space-y-2 text-sm">
+                                            <div>
+                                                <span className="text-slate-500">Amount:</span>
+                                                <span className="text-white font-mono ml-2">
+                                                    {(serverVersion.amount ?? localVersion.amount).toLocaleString()} Rs
+                                                </span>
+                                            </div>
+                                            <div>
+                                                <span className="text-slate-500">Description:</span>
+                                                <p className="text-white mt-1 text-xs">
+                                                    {serverVersion.description ?? localVersion.description}
+                                                </p>
+                                            </div>
+                                            <div>
+                                                <span className="text-slate-500">Type:</span>
+                                                <span className={`ml-2 ${(serverVersion.type ?? localVersion.type) === 'debit' ? 'text-red-400' : 'text-emerald-400'}`}>
+                                                    {serverVersion.type ?? localVersion.type}
+                                                </span>
+                                            </div>
                                         </div>
-                                        <div>
-                                            <span className="text-slate-500">Description:</span>
-                                            <p className="text-white mt-1 text-xs">
-                                                {serverVersion.description || localVersion.description}
-                                            </p>
+                                    ) : (
+                                        <div className="space-y-2 text-sm">
+                                            <p className="text-white text-xs">Not recorded on server</p>
+                                            {serverBalance !== undefined && (
+                                                <div>
+                                                    <span className="text-slate-500">Balance:</span>
+                                                    <span className="text-white font-mono ml-2">
+                                                        {serverBalance.toLocaleString()} Rs
+                                                    </span>
+                                                </div>
+                                            )}
                                         </div>
-                                        <div>
-                                            <span className="text-slate-500">Type:</span>
-                                            <span className={`ml-2 ${(serverVersion.type || localVersion.type) === 'debit' ? 'text-red-400' : 'text-emerald-400'}`}>
-                                                {serverVersion.type || localVersion.type}
-                                            </span>
-                                        </div>
-                                    </div>
+                                    )}
                                 </div>
                             </div>
 
                             <div className="mt-3 p-2 bg-yellow-500/10 rounded text-xs text-yellow-300 italic">
-                                ℹ️ The transaction was modified on both your device and the server. Choose which version to keep.
+                                {serverHasRow
+                                    ? 'ℹ️ The transaction was modified on both your device and the server. Choose which version to keep.'
+                                    : 'ℹ️ Keep Mine re-signs and retries the payment. Use Server or Cancel drops it from your device.'}
                             </div>
                         </motion.div>
                     )}
@@ -217,7 +236,7 @@ export function ConflictCard({ transaction, onResolve, onDismiss }: ConflictCard
 
 interface ConflictListProps {
     conflicts: OfflineTransaction[];
-    onResolve: (offlineId: string, resolution: 'keep_local' | 'accept_server' | 'cancel') => Promise<void>;
+    onResolve: (offlineId: string, resolution: ConflictResolution) => Promise<void>;
 }
 
 export function ConflictList({ conflicts, onResolve }: ConflictListProps) {
@@ -0,0 +1,134 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Smartphone, Loader2, RefreshCw, ShieldOff } from 'lucide-react';
+import { useDevices } from '@/hooks/useDevices';
+import type { DeviceInfo } from '@/lib/types';
+
+/**
+ * DevicesSection Component
+ *
+ * Profile page list of the devices signed in to the account.
+ *
+ * Key features:
+ * - Device name, last sync and its offline spending allowance
+ * - "This device" badge (it cannot revoke itself)
+ * - Revoke with a confirm step: the device's unsynced offline payments
+ *   will be rejected, its allowance goes back to the account and it signs
+ *   out the next time it syncs
+ */
+
+interface DevicesSectionProps {
+    userId: string;
+}
+
+/**
+ * Format when a device last synced ("Never", "Just now", "3h ago", "2d ago")
+ */
+function formatLastSync(timestamp: number | null): string {
+    if (!timestamp) return 'Never synced';
+    const minutes = Math.floor((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'Synced just now';
+    if (minutes < 60) return `Synced ${minutes}m ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `Synced ${hours}h ago`;
+    return `Synced ${Math.floor(hours / 24)}d ago`;
+}
+
+export function DevicesSection({ userId }: DevicesSectionProps) {
+    const { devices, currentDeviceId, isLoading, error, refresh, revoke } = useDevices(userId);
+    const [confirmingId, setConfirmingId] = useState<string | null>(null);
+    const [revokingId, setRevokingId] = useState<string | null>(null);
+
+    const handleRevoke = async (device: DeviceInfo) => {
+        if (confirmingId !== device.device_id) {
+            setConfirmingId(device.device_id);
+            return;
+        }
+
+        setRevokingId(device.device_id);
+        await revoke(device.device_id);
+        setRevokingId(null);
+        setConfirmingId(null);
+    };
+
+    return (
+        <section className="glass-card overflow-hidden">
+            <div className="flex items-center justify-between px-4 pt-4 pb-2">
+                <h3 className="text-sm font-medium text-slate-400 uppercase tracking-wider">
+                    Devices
+                </h3>
+                <button
+                    onClick={() => refresh()}
+                    className="text-slate-500 hover:text-white transition-colors"
+                    aria-label="Refresh devices"
+                    type="button"
+                >
+                    <RefreshCw className="w-4 h-4" />
+                </button>
+            </div>
+
+            {isLoading && (
+                <div className="flex items-center justify-center py-6">
+                    <Loader2 className="w-5 h-5 text-indigo-400 animate-spin" />
+                </div>
+            )}
+
+            {error && (
+                <p className="px-4 pb-3 text-sm text-amber-400">{error}</p>
+            )}
+
+            {!isLoading && devices.length === 0 && !error && (
+                <p className="px-4 pb-4 text-sm text-slate-500">No devices registered yet</p>
+            )}
+
+            {devices.map(device => {
+                const isCurrent = device.device_id === currentDeviceId;
+                const isRevoked = device.revoked_at !== null;
+
+                return (
+                    <div
+                        key={device.device_id}
+                        className={`flex items-center gap-4 px-4 py-3 border-t border-white/5 ${isRevoked ? 'opacity-50' : ''}`}
+                    >
+                        <Smartphone className="w-5 h-5 text-slate-400 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                            <p className="text-white text-sm truncate">
+                                {device.name || device.device_id.slice(0, 8)}
+                                {isCurrent && (
+                                    <span className="ml-2 text-xs text-indigo-400">This device</span>
+                                )}
+                            </p>
+                            <p className="text-slate-500 text-xs">
+                                {isRevoked ? 'Revoked' : formatLastSync(device.last_synced_at)}
+                                {!isRevoked && device.allowance && (
+                                    <> · Offline limit {(device.allowance.limit - device.allowance.spent).toLocaleString()} of {device.allowance.limit.toLocaleString()} Rs</>
+                                )}
+                            </p>
+                        </div>
+
+                        {!isCurrent && !isRevoked && (
+                            <button
+                                onClick={() => handleRevoke(device)}
+                                disabled={revokingId !== null}
+                                className="flex items-center gap-1 text-xs text-red-400 hover:text-red-300 transition-colors disabled:opacity-50"
+                                type="button"
+                            >
+                                {revokingId === device.device_id
+                                    ? <Loader2 className="w-4 h-4 animate-spin" />
+                                    : <ShieldOff className="w-4 h-4" />}
+                                {confirmingId === device.device_id ? 'Confirm' : 'Revoke'}
+                            </button>
+                        )}
+                    </div>
+                );
+            })}
+
+            {confirmingId && (
+                <p className="px-4 pb-3 text-xs text-slate-500">
+                    Offline payments that device has not synced yet will be rejected, and it will be signed out when it next syncs.
+                </p>
+            )}
+        </section>
+    );
+}
@@ -2,6 +2,12 @@
 
 import React, { useState } from 'react';
 import { Send, Loader2 } from 'lucide-react';
+import { BudgetWarningBanner } from '@/components/BudgetWarningBanner';
+import { CategoryPicker } from '@/components/CategoryPicker';
+import { useBudgetWarnings } from '@/hooks/useBudgets';
+import { useCategorySuggestion } from '@/hooks/useCategorySuggestion';
+import { learnCategoryChoice } from '@/lib/categories';
+import type { TransactionCategory } from '@/lib/types';
 
 /**
  * Payment Form Component
@@ -15,12 +21,18 @@ import { Send, Loader2 } from 'lucide-react';
  */
 
 interface PaymentFormProps {
-    onSubmit: (amount: number, description: string) => Promise<boolean>;
+    onSubmit: (
+        amount: number,
+        description: string,
+        recipientId?: string, // Set when paying another user by e-mail
+        category?: TransactionCategory
+    ) => Promise<boolean>;
+    userId?: string; // Enables learned category suggestions
     maxAmount?: number;
     disabled?: boolean;
 }
 
-export function PaymentForm({ onSubmit, maxAmount, disabled }: PaymentFormProps) {
+export function PaymentForm({ onSubmit, userId, maxAmount, disabled }: PaymentFormProps) {
     const [amount, setAmount] = useState('');
     const [description, setDescription] = useState('');
     const [recipientEmail, setRecipientEmail] = useState('');
@@ -28,6 +40,14 @@ export function PaymentForm({ onSubmit, maxAmount, disabled }: PaymentFormProps)
     const [success, setSuccess] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [resolvingRecipient, setResolvingRecipient] = useState(false);
+    const [pickedCategory, setPickedCategory] = useState<TransactionCategory | null>(null);
+
+    // Follows the suggestion until the user picks a category themselves
+    const { suggested } = useCategorySuggestion(userId, description, 'debit', parseFloat(amount));
+    const category = pickedCategory ?? suggested ?? 'other';
+
+    // Budgets this payment would go over (a warning, not a block)
+    const budgetWarnings = useBudgetWarnings(userId, parseFloat(amount), category);
 
     // Import supabase client
     const { supabase } = require('@/lib/supabase');
@@ -71,16 +91,23 @@ export function PaymentForm({ onSubmit, maxAmount, disabled }: PaymentFormProps)
                 resolvedRecipientId = recipientId;
             }
 
-            // Pass resolvedRecipientId to parent
-            // Note: The parent component's onSubmit signature might need to support the 3rd argument
-            // We cast it here assuming basic usage, but ideally type definition updates are needed globally
-            const result = await (onSubmit as any)(numAmount, description || 'Payment', undefined, resolvedRecipientId);
+            const result = await onSubmit(numAmount, description || 'Payment', resolvedRecipientId, category);
 
             if (result) {
+                if (userId && suggested) {
+                    learnCategoryChoice(userId, {
+                        description: description || 'Payment',
+                        type: 'debit',
+                        amount: roundedAmount,
+                        recipientId: resolvedRecipientId
+                    }, suggested, category).catch(err => console.warn('Could not save category choice:', err));
+                }
+
                 setSuccess(true);
                 setAmount('');
                 setDescription('');
                 setRecipientEmail('');
+                setPickedCategory(null);
                 setTimeout(() => setSuccess(false), 2000);
             } else {
                 setError('Transaction failed. Please try again.');
@@ -148,6 +175,25 @@ export function PaymentForm({ onSubmit, maxAmount, disabled }: PaymentFormProps)
                 />
             </div>
 
+            {/* Category Picker */}
+            <div className="mb-4">
+                <span className="block text-sm font-medium text-slate-400 mb-2">Category</span>
+                <CategoryPicker
+                    value={category}
+                    suggested={suggested}
+                    type="debit"
+                    onChange={setPickedCategory}
+                    disabled={disabled || isSubmitting}
+                />
+            </div>
+
+            {/* Budget Warning */}
+            {budgetWarnings.length > 0 && (
+                <div className="mb-4">
+                    <BudgetWarningBanner warnings={budgetWarnings} />
+                </div>
+            )}
+
             {/* Error Message */}
             {error && (
                 <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
@@ -176,7 +222,7 @@ export function PaymentForm({ onSubmit, maxAmount, disabled }: PaymentFormProps)
                 ) : (
                     <>
                         <Send className="w-5 h-5" />
-                        Pay
+                        {budgetWarnings.length > 0 ? 'Pay Anyway' : 'Pay'}
                     </>
                 )}
             </button>
@@ -2,12 +2,15 @@
 
 import React, { useState } from 'react';
 import { Send, Loader2, X } from 'lucide-react';
-import { supabase } from '@/lib/supabase';
+import { createPaymentRequest, DEFAULT_REQUEST_EXPIRY_HOURS, REQUEST_EXPIRY_OPTIONS } from '@/lib/paymentRequests';
+import { SplitBillForm } from '@/components/SplitBillForm';
 
 /**
  * Payment Request Form Component
  * 
- * Allows users to request money from another user by email.
+ * Allows users to request money from another user by email,
+ * or to split a bill between several people (see SplitBillForm).
+ * Requests expire if they are not paid in time (see lib/paymentRequests).
  */
 
 interface PaymentRequestFormProps {
@@ -16,9 +19,11 @@ interface PaymentRequestFormProps {
 }
 
 export function PaymentRequestForm({ onSuccess, onClose }: PaymentRequestFormProps) {
+    const [isSplit, setIsSplit] = useState(false);
     const [email, setEmail] = useState('');
     const [amount, setAmount] = useState('');
     const [description, setDescription] = useState('');
+    const [expiresInHours, setExpiresInHours] = useState(DEFAULT_REQUEST_EXPIRY_HOURS);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [success, setSuccess] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -44,19 +49,7 @@ export function PaymentRequestForm({ onSuccess, onClose }: PaymentRequestFormPro
         setError(null);
 
         try {
-            const { data, error: rpcError } = await supabase.rpc('create_payment_request', {
-                payer_email: email.trim(),
-                request_amount: numAmount,
-                request_description: description || 'Payment request'
-            });
-
-            if (rpcError) {
-                throw new Error(rpcError.message);
-            }
-
-            if (data?.error) {
-                throw new Error(data.error);
-            }
+            await createPaymentRequest(email, numAmount, description || 'Payment request', expiresInHours);
 
             setSuccess(true);
             setTimeout(() => {
@@ -73,7 +66,7 @@ export function PaymentRequestForm({ onSuccess, onClose }: PaymentRequestFormPro
     return (
         <div className="glass-card p-6">
             <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-bold text-white">Request Money</h3>
+                <h3 className="text-lg font-bold text-white">{isSplit ? 'Split a Bill' : 'Request Money'}</h3>
                 <button
                     onClick={onClose}
                     className="p-1 hover:bg-white/10 rounded-full transition-colors"
@@ -82,93 +75,139 @@ export function PaymentRequestForm({ onSuccess, onClose }: PaymentRequestFormPro
                 </button>
             </div>
 
-            <form onSubmit={handleSubmit}>
-                {/* Email Input */}
-                <div className="mb-4">
-                    <label htmlFor="request-email" className="block text-sm font-medium text-slate-400 mb-2">
-                        Request From (Email)
-                    </label>
-                    <input
-                        type="email"
-                        id="request-email"
-                        value={email}
-                        onChange={(e) => setEmail(e.target.value)}
-                        placeholder="friend@example.com"
-                        className="input-field"
-                        disabled={isSubmitting}
-                        required
-                    />
-                </div>
-
-                {/* Amount Input */}
-                <div className="mb-4">
-                    <label htmlFor="request-amount" className="block text-sm font-medium text-slate-400 mb-2">
-                        Amount (Rs)
-                    </label>
-                    <input
-                        type="number"
-                        id="request-amount"
-                        value={amount}
-                        onChange={(e) => setAmount(e.target.value)}
-                        placeholder="0"
-                        className="input-field text-2xl font-bold"
-                        disabled={isSubmitting}
-                        min="0"
-                        step="0.01"
-                        required
-                    />
-                </div>
-
-                {/* Description Input */}
-                <div className="mb-4">
-                    <label htmlFor="request-description" className="block text-sm font-medium text-slate-400 mb-2">
-                        Reason (Optional)
-                    </label>
-                    <input
-                        type="text"
-                        id="request-description"
-                        value={description}
-                        onChange={(e) => setDescription(e.target.value)}
-                        placeholder="What's this for?"
-                        className="input-field"
+            {/* One person or a split bill */}
+            <div className="grid grid-cols-2 gap-2 mb-4 p-1 bg-white/5 rounded-xl">
+                {[false, true].map(split => (
+                    <button
+                        key={String(split)}
+                        type="button"
+                        onClick={() => setIsSplit(split)}
+                        className={`py-2 rounded-lg text-sm font-medium transition-colors ${isSplit === split
+                            ? 'bg-indigo-500 text-white'
+                            : 'text-slate-400 hover:text-white'}`}
                         disabled={isSubmitting}
-                        maxLength={100}
-                    />
-                </div>
-
-                {/* Error Message */}
-                {error && (
-                    <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
-                        {error}
+                    >
+                        {split ? 'Split bill' : 'One person'}
+                    </button>
+                ))}
+            </div>
+
+            {isSplit ? (
+                <SplitBillForm
+                    onSuccess={() => {
+                        onSuccess?.();
+                        onClose();
+                    }}
+                />
+            ) : (
+                <form onSubmit={handleSubmit}>
+                    {/* Email Input */}
+                    <div className="mb-4">
+                        <label htmlFor="request-email" className="block text-sm font-medium text-slate-400 mb-2">
+                            Request From (Email)
+                        </label>
+                        <input
+                            type="email"
+                            id="request-email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            placeholder="friend@example.com"
+                            className="input-field"
+                            disabled={isSubmitting}
+                            required
+                        />
                     </div>
-                )}
 
-                {/* Success Message */}
-                {success && (
-                    <div className="mb-4 p-3 bg-emerald-500/20 border border-emerald-500/30 rounded-lg text-emerald-400 text-sm">
-                        ✓ Request sent successfully!
+                    {/* Amount Input */}
+                    <div className="mb-4">
+                        <label htmlFor="request-amount" className="block text-sm font-medium text-slate-400 mb-2">
+                            Amount (Rs)
+                        </label>
+                        <input
+                            type="number"
+                            id="request-amount"
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            placeholder="0"
+                            className="input-field text-2xl font-bold"
+                            disabled={isSubmitting}
+                            min="0"
+                            step="0.01"
+                            required
+                        />
                     </div>
-                )}
 
-                {/* Submit Button */}
-                <button
-                    type="submit"
-                    className="primary-button w-full flex items-center justify-center gap-2"
-                    disabled={isSubmitting || !amount || !email}
-                >
-                    {isSubmitting ? (
-                        <>
-                            <Loader2 className="w-5 h-5 animate-spin" />
-                            Sending...
-                        </>
-                    ) : (
-                        <>
-                            <Send className="w-5 h-5" />
-                            Send Request
-                        </>
+                    {/* Description Input */}
+                    <div className="mb-4">
+                        <label htmlFor="request-description" className="block text-sm font-medium text-slate-400 mb-2">
+                            Reason (Optional)
+                        </label>
+                        <input
+                            type="text"
+                            id="request-description"
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            placeholder="What's this for?"
+                            className="input-field"
+                            disabled={isSubmitting}
+                            maxLength={100}
+                        />
+                    </div>
+
+                    {/* Expiry Select */}
+                    <div className="mb-4">
+                        <label htmlFor="request-expiry" className="block text-sm font-medium text-slate-400 mb-2">
+                            Expires In
+                        </label>
+                        <select
+                            id="request-expiry"
+                            value={expiresInHours}
+                            onChange={(e) => setExpiresInHours(Number(e.target.value))}
+                            className="input-field"
+                            disabled={isSubmitting}
+                        >
+                            {REQUEST_EXPIRY_OPTIONS.map(option => (
+                                <option key={option.hours} value={option.hours}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {/* Error Message */}
+                    {error && (
+                        <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                            {error}
+                        </div>
                     )}
-                </button>
-            </form>
+
+                    {/* Success Message */}
+                    {success && (
+                        <div className="mb-4 p-3 bg-emerald-500/20 border border-emerald-500/30 rounded-lg text-emerald-400 text-sm">
+                            ✓ Request sent successfully!
+                        </div>
+                    )}
+
+                    {/* Submit Button */}
+                    <button
+                        type="submit"
+                        className="primary-button w-full flex items-center justify-center gap-2"
+                        disabled={isSubmitting || !amount || !email}
+                    >
+                        {isSubmitting ? (
+                            <>
+                                <Loader2 className="w-5 h-5 animate-spin" />
+                                Sending...
+                            </>
+                        ) : (
+                            <>
+                                <Send className="w-5 h-5" />
+                                Send Request
+                            </>
+                        )}
+                    </button>
+                </form>
+            )}
         </div>
     );
 }
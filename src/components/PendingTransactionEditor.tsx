@@ -0,0 +1,173 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Save, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import type { PendingTransactionChanges, PendingTransactionResult } from '@/lib/offlineTransactions';
+import type { OfflineTransaction } from '@/lib/types';
+
+/**
+ * Pending Transaction Editor Component
+ *
+ * Changes a transaction that has not started syncing yet: amount,
+ * description and (for payments) the recipient. The row is re-signed
+ * on save (see lib/offlineTransactions editPendingTransaction).
+ * A new recipient is looked up by email, so changing it needs a connection.
+ */
+
+interface PendingTransactionEditorProps {
+    transaction: OfflineTransaction;
+    isOnline: boolean;
+    onSave: (changes: PendingTransactionChanges) => Promise<PendingTransactionResult>;
+    onClose: () => void;
+}
+
+export function PendingTransactionEditor({ transaction, isOnline, onSave, onClose }: PendingTransactionEditorProps) {
+    const [amount, setAmount] = useState(String(transaction.amount));
+    const [description, setDescription] = useState(transaction.description);
+    const [recipientEmail, setRecipientEmail] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const isDebit = transaction.type === 'debit';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        const numAmount = parseFloat(amount);
+        if (isNaN(numAmount) || !Number.isFinite(numAmount) || numAmount <= 0) {
+            setError('Please enter a valid positive amount');
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            const changes: PendingTransactionChanges = {
+                amount: numAmount,
+                description: description || 'Payment'
+            };
+
+            // Leave the recipient alone unless a new one was entered
+            if (isDebit && recipientEmail.trim()) {
+                if (!isOnline) {
+                    throw new Error('Connect to the internet to look up the recipient');
+                }
+
+                const { data: recipientId, error: lookupError } = await supabase
+                    .rpc('get_recipient_id', { email_input: recipientEmail.trim() });
+
+                if (lookupError || !recipientId) {
+                    throw new Error('Recipient not found. Please check the email.');
+                }
+                changes.recipientId = recipientId;
+            }
+
+            const result = await onSave(changes);
+            if (!result.ok) throw new Error(result.error);
+
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the transaction');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="glass-card p-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold text-white">Edit Pending {isDebit ? 'Payment' : 'Transaction'}</h3>
+                <button
+                    onClick={onClose}
+                    className="p-1 hover:bg-white/10 rounded-full transition-colors"
+                    aria-label="Close"
+                    type="button"
+                >
+                    <X className="w-5 h-5 text-slate-400" />
+                </button>
+            </div>
+
+            <form onSubmit={handleSubmit}>
+                {/* Amount Input */}
+                <div className="mb-4">
+                    <label htmlFor="edit-amount" className="block text-sm font-medium text-slate-400 mb-2">
+                        Amount (Rs)
+                    </label>
+                    <input
+                        type="number"
+                        id="edit-amount"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        className="input-field text-2xl font-bold"
+                        disabled={isSubmitting}
+                        min="0"
+                        step="0.01"
+                        required
+                    />
+                </div>
+
+                {/* Description Input */}
+                <div className="mb-4">
+                    <label htmlFor="edit-description" className="block text-sm font-medium text-slate-400 mb-2">
+                        Description
+                    </label>
+                    <input
+                        type="text"
+                        id="edit-description"
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        className="input-field"
+                        disabled={isSubmitting}
+                        maxLength={100}
+                    />
+                </div>
+
+                {/* Recipient Input (payments only) */}
+                {isDebit && (
+                    <div className="mb-4">
+                        <label htmlFor="edit-recipient" className="block text-sm font-medium text-slate-400 mb-2">
+                            New Recipient Email (Optional)
+                        </label>
+                        <input
+                            type="email"
+                            id="edit-recipient"
+                            value={recipientEmail}
+                            onChange={(e) => setRecipientEmail(e.target.value)}
+                            placeholder={transaction.recipient_id ? 'Keep current recipient' : 'friend@example.com'}
+                            className="input-field"
+                            disabled={isSubmitting}
+                        />
+                    </div>
+                )}
+
+                {/* Error Message */}
+                {error && (
+                    <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                        {error}
+                    </div>
+                )}
+
+                {/* Submit Button */}
+                <button
+                    type="submit"
+                    className="primary-button w-full flex items-center justify-center gap-2"
+                    disabled={isSubmitting || !amount}
+                >
+                    {isSubmitting ? (
+                        <>
+                            <Loader2 className="w-5 h-5 animate-spin" />
+                            Saving...
+                        </>
+                    ) : (
+                        <>
+                            <Save className="w-5 h-5" />
+                            Save Changes
+                        </>
+                    )}
+                </button>
+            </form>
+        </div>
+    );
+}
@@ -2,46 +2,83 @@
 
 import React, { useState, useEffect } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
-import { Copy, Check, Download, Share2 } from 'lucide-react';
-import { generateSignature, generateOfflineId } from '@/utils/crypto';
-import type { QRPaymentData } from '@/lib/types';
+import { Copy, Check, Share2, Clock, ScanLine } from 'lucide-react';
+import { createPaymentIntent } from '@/lib/qrIntent';
+import { registerPayeeKey } from '@/lib/deviceKeys';
+import { QRCodeScanner } from './QRCodeScanner';
+import type { PaymentVoucher } from '@/lib/types';
 
 /**
  * QR Code Generator Component
  * 
  * Generates a QR code for receiving payments.
- * The QR contains a signed payload with recipient info.
+ * The QR contains a signed, single-use payment intent (see lib/qrIntent)
+ * that expires after a few minutes; a fresh one is issued automatically.
  */
 
 interface QRCodeGeneratorProps {
     userId: string;
     userName?: string;
     amount?: number;
+    onScanReceipt?: () => void;
     onClose?: () => void;
 }
 
-export function QRCodeGenerator({ userId, userName, amount, onClose }: QRCodeGeneratorProps) {
+export function QRCodeGenerator({ userId, userName, amount, onScanReceipt, onClose }: QRCodeGeneratorProps) {
     const [qrData, setQrData] = useState<string>('');
+    const [expiresAt, setExpiresAt] = useState<number | null>(null);
+    const [secondsLeft, setSecondsLeft] = useState(0);
+    const [generation, setGeneration] = useState(0);
+    const [error, setError] = useState<string | null>(null);
     const [copied, setCopied] = useState(false);
 
     useEffect(() => {
+        let cancelled = false;
+
         const generateQR = async () => {
-            const timestamp = Date.now();
-            const signature = await generateSignature(userId, generateOfflineId(), amount || 0, timestamp);
-
-            const payload: QRPaymentData = {
-                recipient_id: userId,
-                recipient_name: userName,
-                amount: amount,
-                timestamp,
-                signature
-            };
-
-            setQrData(JSON.stringify(payload));
+            try {
+                // Best effort: lets payers confirm the key online right away
+                if (navigator.onLine) {
+                    await registerPayeeKey(userId).catch(err =>
+                        console.warn('Payee key registration failed:', err));
+                }
+
+                const intent = await createPaymentIntent(userId, userName, amount);
+                if (cancelled) return;
+
+                setQrData(JSON.stringify(intent));
+                setExpiresAt(intent.expires_at);
+                setError(null);
+            } catch (err) {
+                console.error('Failed to create payment QR:', err);
+                if (!cancelled) setError('Could not create a payment QR on this device');
+            }
         };
 
         generateQR();
-    }, [userId, userName, amount]);
+        return () => {
+            cancelled = true;
+        };
+    }, [userId, userName, amount, generation]);
+
+    // Count down and issue a new intent once this one expires
+    useEffect(() => {
+        if (!expiresAt) return;
+
+        const tick = () => {
+            const remaining = Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+            setSecondsLeft(remaining);
+            if (remaining === 0) {
+                setQrData('');
+                setExpiresAt(null);
+                setGeneration(g => g + 1);
+            }
+        };
+
+        tick();
+        const intervalId = setInterval(tick, 1000);
+        return () => clearInterval(intervalId);
+    }, [expiresAt]);
 
     const handleCopy = async () => {
         try {
@@ -92,6 +129,24 @@ export function QRCodeGenerator({ userId, userName, amount, onClose }: QRCodeGen
                 )}
             </div>
 
+            {/* Validity */}
+            {error ? (
+                <p className="text-red-400 text-sm mb-4">{error}</p>
+            ) : expiresAt && (
+                <div className="flex items-center justify-center gap-3 text-slate-400 text-xs mb-4">
+                    <span className="flex items-center gap-1.5">
+                        <Clock className="w-3.5 h-3.5" />
+                        Single use - valid for {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+                    </span>
+                    <button
+                        onClick={() => setGeneration(g => g + 1)}
+                        className="text-indigo-400 hover:text-indigo-300 transition-colors"
+                    >
+                        New code
+                    </button>
+                </div>
+            )}
+
             {/* User Info */}
             <div className="mb-6">
                 <p className="text-white font-semibold">{userName || 'Anonymous'}</p>
@@ -128,6 +183,17 @@ export function QRCodeGenerator({ userId, userName, amount, onClose }: QRCodeGen
                 )}
             </div>
 
+            {/* Offline handoff: record the payer's voucher */}
+            {onScanReceipt && (
+                <button
+                    onClick={onScanReceipt}
+                    className="mt-6 w-full flex items-center justify-center gap-2 primary-button"
+                >
+                    <ScanLine className="w-4 h-4" />
+                    Scan Payer&apos;s Receipt
+                </button>
+            )}
+
             {/* Close Button */}
             {onClose && (
                 <button
@@ -148,12 +214,58 @@ export function QRCodeGenerator({ userId, userName, amount, onClose }: QRCodeGen
 interface QRRequestModalProps {
     userId: string;
     userName?: string;
+    onReceiveVoucher?: (voucher: PaymentVoucher) => Promise<boolean>;
     onClose: () => void;
 }
 
-export function QRRequestModal({ userId, userName, onClose }: QRRequestModalProps) {
+export function QRRequestModal({ userId, userName, onReceiveVoucher, onClose }: QRRequestModalProps) {
     const [amount, setAmount] = useState('');
     const [showQR, setShowQR] = useState(false);
+    const [scanningReceipt, setScanningReceipt] = useState(false);
+    const [received, setReceived] = useState<PaymentVoucher | null>(null);
+    const [receiveFailed, setReceiveFailed] = useState(false);
+
+    const handleReceive = async (voucher: PaymentVoucher) => {
+        if (!onReceiveVoucher) return;
+        const success = await onReceiveVoucher(voucher);
+        setScanningReceipt(false);
+        setReceived(success ? voucher : null);
+        setReceiveFailed(!success);
+    };
+
+    if (received || receiveFailed) {
+        return (
+            <div className="glass-card p-8 text-center">
+                {received ? (
+                    <>
+                        <div className="w-16 h-16 rounded-full bg-emerald-500/20 flex items-center justify-center mx-auto mb-4">
+                            <Check className="w-8 h-8 text-emerald-400" />
+                        </div>
+                        <p className="text-white font-medium text-lg">
+                            Received {received.amount.toLocaleString()} Rs
+                        </p>
+                        <p className="text-slate-400 text-sm mt-1">Pending until you or the payer sync</p>
+                    </>
+                ) : (
+                    <p className="text-red-400 font-medium">Could not record this payment</p>
+                )}
+                <button onClick={onClose} className="mt-6 w-full secondary-button">
+                    Close
+                </button>
+            </div>
+        );
+    }
+
+    if (scanningReceipt) {
+        return (
+            <QRCodeScanner
+                userId={userId}
+                mode="receive"
+                onReceive={handleReceive}
+                onClose={() => setScanningReceipt(false)}
+            />
+        );
+    }
 
     if (showQR) {
         return (
@@ -161,6 +273,7 @@ export function QRRequestModal({ userId, userName, onClose }: QRRequestModalProp
                 userId={userId}
                 userName={userName}
                 amount={amount ? parseFloat(amount) : undefined}
+                onScanReceipt={onReceiveVoucher ? () => setScanningReceipt(true) : undefined}
                 onClose={onClose}
             />
         );
@@ -1,26 +1,51 @@
 'use client';
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { X, Loader2, Check, AlertCircle } from 'lucide-react';
-import type { QRPaymentData } from '@/lib/types';
+import { QRCodeSVG } from 'qrcode.react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { X, Loader2, Check, AlertCircle, ShieldAlert, Undo2 } from 'lucide-react';
+import { BudgetWarningBanner } from '@/components/BudgetWarningBanner';
+import { useBudgetWarnings } from '@/hooks/useBudgets';
+import { useCategorySuggestion } from '@/hooks/useCategorySuggestion';
+import { db } from '@/lib/db';
+import { confirmPayeeKey, verifyPaymentIntent, type IntentVerification } from '@/lib/qrIntent';
+import { createVoucherForIntent, verifyPaymentVoucher, type VoucherVerification } from '@/lib/paymentVoucher';
+import type { PaymentVoucher, QRPaymentIntent, TransactionCategory } from '@/lib/types';
 
 /**
  * QR Code Scanner Component
  * 
  * Uses html5-qrcode with proper DOM isolation.
  * Fixed callback closure issues with refs.
+ * Scanned codes are verified before the confirm screen is shown:
+ * - pay mode: the payee's payment intent (signature, expiry, replay) - see lib/qrIntent
+ * - receive mode: the payer's voucher after an offline payment - see lib/paymentVoucher
+ * The confirm screen warns when the payment would go over a monthly budget.
  */
 
 interface QRCodeScannerProps {
-    onScan: (data: QRPaymentData) => void;
+    userId: string;
+    mode?: 'pay' | 'receive';
+    onScan?: (intent: QRPaymentIntent, amount: number, category?: TransactionCategory) => void;
+    onReceive?: (voucher: PaymentVoucher) => void;
     onClose: () => void;
     maxAmount?: number;
+    offlineLimit?: number; // What this device may still spend before it syncs (see lib/offlineAllowance)
 }
 
-export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps) {
+// Whether the server confirmed the other side's device key ('unchecked' while checking or offline)
+type PayeeKeyStatus = 'confirmed' | 'unregistered' | 'unchecked';
+
+function getQRPaymentDescription(intent: QRPaymentIntent): string {
+    return `Payment to ${intent.recipient_name || intent.recipient_id.slice(0, 8)}`;
+}
+
+export function QRCodeScanner({ userId, mode = 'pay', onScan, onReceive, onClose, maxAmount, offlineLimit }: QRCodeScannerProps) {
     const [error, setError] = useState<string | null>(null);
     const [isInitializing, setIsInitializing] = useState(true);
-    const [scannedData, setScannedData] = useState<QRPaymentData | null>(null);
+    const [scannedData, setScannedData] = useState<QRPaymentIntent | null>(null);
+    const [scannedVoucher, setScannedVoucher] = useState<PaymentVoucher | null>(null);
+    const [payeeKeyStatus, setPayeeKeyStatus] = useState<PayeeKeyStatus>('unchecked');
     const [amount, setAmount] = useState('');
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -29,6 +54,27 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
     const scannerContainerId = useRef(`qr-scanner-${Date.now()}`);
     const isMountedRef = useRef(true);
     const hasScannedRef = useRef(false); // Use ref to track if already scanned
+    const rejectedTextRef = useRef<string | null>(null); // Last QR that failed verification
+
+    // Read by the scan callback, which is set up once with the camera:
+    // a userId that arrives after mount must still be used for verification
+    const userIdRef = useRef(userId);
+    const modeRef = useRef(mode);
+    useEffect(() => {
+        userIdRef.current = userId;
+        modeRef.current = mode;
+    });
+
+    // Category the payment will be filed under, and the budgets it would go over
+    const enteredAmount = scannedData ? (scannedData.amount || parseFloat(amount)) : NaN;
+    const { suggested: category } = useCategorySuggestion(
+        userId,
+        scannedData ? getQRPaymentDescription(scannedData) : '',
+        scannedData ? 'debit' : null,
+        enteredAmount,
+        scannedData?.recipient_id
+    );
+    const budgetWarnings = useBudgetWarnings(userId, enteredAmount, category);
 
     // Initialize and cleanup scanner
     useEffect(() => {
@@ -68,21 +114,36 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
                     (decodedText: string) => {
                         // Use ref to prevent multiple scans
                         if (!isMountedRef.current || hasScannedRef.current) return;
+                        if (decodedText === rejectedTextRef.current) return;
 
                         console.log('QR Scanned:', decodedText);
 
-                        try {
-                            const data = JSON.parse(decodedText) as QRPaymentData;
+                        // Block re-entry while the code is verified
+                        hasScannedRef.current = true;
+
+                        const verification: Promise<IntentVerification | VoucherVerification> = modeRef.current === 'receive'
+                            ? verifyPaymentVoucher(decodedText, userIdRef.current)
+                            : verifyPaymentIntent(decodedText, userIdRef.current);
+
+                        // Offline the device key is only checked by the server at sync
+                        const checkDeviceKey = (ownerId: string, publicKey: string) => {
+                            confirmPayeeKey(ownerId, publicKey).then(confirmed => {
+                                if (!isMountedRef.current || confirmed === null) return;
+                                setPayeeKeyStatus(confirmed ? 'confirmed' : 'unregistered');
+                            });
+                        };
+
+                        verification.then(result => {
+                            if (!isMountedRef.current) return;
 
-                            // Validate
-                            if (!data.recipient_id) {
-                                console.error('Missing recipient_id');
+                            if (!result.ok) {
+                                // Keep scanning so another code can be tried
+                                rejectedTextRef.current = decodedText;
+                                hasScannedRef.current = false;
+                                setError(result.error);
                                 return;
                             }
 
-                            // Mark as scanned BEFORE stopping to prevent re-entry
-                            hasScannedRef.current = true;
-
                             // Stop scanner
                             html5QrCode.stop().then(() => {
                                 console.log('Scanner stopped');
@@ -91,14 +152,21 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
                             });
 
                             // Update state
-                            setScannedData(data);
-                            if (data.amount) {
-                                setAmount(data.amount.toString());
+                            setError(null);
+
+                            if ('voucher' in result) {
+                                setScannedVoucher(result.voucher);
+                                checkDeviceKey(result.voucher.user_id, result.voucher.payer_key);
+                                return;
+                            }
+
+                            const intent = result.intent;
+                            setScannedData(intent);
+                            if (intent.amount) {
+                                setAmount(intent.amount.toString());
                             }
-                        } catch (e) {
-                            console.error('QR Parse error:', e);
-                            setError('Invalid QR code format');
-                        }
+                            checkDeviceKey(intent.recipient_id, intent.payee_key);
+                        });
                     },
                     // Error callback - called on every frame without QR
                     (errorMessage: string) => {
@@ -155,10 +223,8 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
     const handleConfirmPayment = () => {
         if (!scannedData) return;
 
-        // BUG-03 Fix: Check QR code expiration (10 minutes)
-        const qrAge = Date.now() - scannedData.timestamp;
-        const TEN_MINUTES = 10 * 60 * 1000;
-        if (qrAge > TEN_MINUTES) {
+        // The intent may have expired while the confirm screen was open
+        if (Date.now() > scannedData.expires_at) {
             setError('This QR code has expired. Please request a new one.');
             return;
         }
@@ -178,10 +244,12 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
             return;
         }
 
-        onScan({
-            ...scannedData,
-            amount: roundedAmount
-        });
+        if (offlineLimit !== undefined && roundedAmount > offlineLimit) {
+            setError(`Over this device's offline spending limit. Max: ${offlineLimit.toLocaleString()} Rs until you sync`);
+            return;
+        }
+
+        onScan?.(scannedData, roundedAmount, category ?? undefined);
     };
 
     const handleClose = () => {
@@ -202,7 +270,9 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
     return (
         <div className="glass-card p-6">
             <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-bold text-white">Scan to Pay</h3>
+                <h3 className="text-lg font-bold text-white">
+                    {mode === 'receive' ? 'Scan Payment Receipt' : 'Scan to Pay'}
+                </h3>
                 <button
                     onClick={handleClose}
                     className="p-2 hover:bg-white/10 rounded-full transition-colors"
@@ -213,7 +283,7 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
             </div>
 
             {/* Scanner View */}
-            {!scannedData && (
+            {!scannedData && !scannedVoucher && (
                 <>
                     <div
                         ref={containerRef}
@@ -231,7 +301,9 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
                     </div>
 
                     <p className="text-slate-400 text-sm text-center mb-2">
-                        Point camera at a PhantomPay QR code
+                        {mode === 'receive'
+                            ? 'Point camera at the receipt on the payer\'s screen'
+                            : 'Point camera at a PhantomPay QR code'}
                     </p>
 
                     {/* Debug info */}
@@ -247,13 +319,26 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
                     <div className="flex items-center gap-3 p-4 bg-emerald-500/10 rounded-xl border border-emerald-500/20">
                         <Check className="w-6 h-6 text-emerald-400" />
                         <div>
-                            <p className="text-white font-medium">QR Scanned!</p>
+                            <p className="text-white font-medium">QR Verified</p>
                             <p className="text-slate-400 text-sm">
                                 To: {scannedData.recipient_name || scannedData.recipient_id.slice(0, 8) + '...'}
                             </p>
+                            <p className="text-slate-500 text-xs">
+                                Valid until {new Date(scannedData.expires_at).toLocaleTimeString()}
+                                {payeeKeyStatus === 'confirmed' && ' · payee confirmed'}
+                            </p>
                         </div>
                     </div>
 
+                    {payeeKeyStatus === 'unregistered' && (
+                        <div className="flex items-center gap-2 p-3 bg-amber-500/10 rounded-xl border border-amber-500/20">
+                            <ShieldAlert className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                            <p className="text-amber-400 text-sm">
+                                This QR&apos;s key is not registered to the payee yet. The payment may be rejected when it syncs.
+                            </p>
+                        </div>
+                    )}
+
                     {/* Amount Input */}
                     {!scannedData.amount && (
                         <div>
@@ -278,6 +363,11 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
                                     Balance: {maxAmount.toLocaleString()} Rs
                                 </p>
                             )}
+                            {offlineLimit !== undefined && (
+                                <p className="text-slate-500 text-xs mt-1">
+                                    Offline limit: {offlineLimit.toLocaleString()} Rs left
+                                </p>
+                            )}
                         </div>
                     )}
 
@@ -291,6 +381,8 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
                         </div>
                     )}
 
+                    <BudgetWarningBanner warnings={budgetWarnings} />
+
                     {/* Actions */}
                     <div className="flex gap-3">
                         <button
@@ -298,7 +390,59 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
                             className="flex-1 primary-button"
                             type="button"
                         >
-                            Pay Now
+                            {budgetWarnings.length > 0 ? 'Pay Anyway' : 'Pay Now'}
+                        </button>
+                        <button
+                            onClick={handleClose}
+                            className="secondary-button px-4"
+                            type="button"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Received Voucher Confirmation */}
+            {scannedVoucher && (
+                <div className="space-y-4">
+                    <div className="flex items-center gap-3 p-4 bg-emerald-500/10 rounded-xl border border-emerald-500/20">
+                        <Check className="w-6 h-6 text-emerald-400" />
+                        <div>
+                            <p className="text-white font-medium">Receipt Verified</p>
+                            <p className="text-slate-400 text-sm">
+                                From: {scannedVoucher.payer_name || scannedVoucher.user_id.slice(0, 8) + '...'}
+                                {payeeKeyStatus === 'confirmed' && ' · payer confirmed'}
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="p-4 bg-slate-800/50 rounded-xl">
+                        <p className="text-slate-400 text-sm">Amount</p>
+                        <p className="text-2xl font-bold text-white">
+                            {scannedVoucher.amount.toLocaleString()} Rs
+                        </p>
+                        <p className="text-slate-500 text-xs mt-1">
+                            Pending until you or the payer sync
+                        </p>
+                    </div>
+
+                    {payeeKeyStatus === 'unregistered' && (
+                        <div className="flex items-center gap-2 p-3 bg-amber-500/10 rounded-xl border border-amber-500/20">
+                            <ShieldAlert className="w-5 h-5 text-amber-400 flex-shrink-0" />
+                            <p className="text-amber-400 text-sm">
+                                The payer&apos;s device is not registered yet. This payment may be rejected when it syncs.
+                            </p>
+                        </div>
+                    )}
+
+                    <div className="flex gap-3">
+                        <button
+                            onClick={() => onReceive?.(scannedVoucher)}
+                            className="flex-1 primary-button"
+                            type="button"
+                        >
+                            Add to Wallet
                         </button>
                         <button
                             onClick={handleClose}
@@ -324,36 +468,71 @@ export function QRCodeScanner({ onScan, onClose, maxAmount }: QRCodeScannerProps
 
 /**
  * QR Payment Modal
+ *
+ * After a successful payment the payer's device shows a voucher QR, so a
+ * payee without connectivity can record the credit straight away.
+ * While the payment is still in its undo window the voucher is kept back:
+ * once the payee has it, the payment can no longer be taken back.
  */
 interface QRPaymentModalProps {
     userId: string;
+    userName?: string;
     maxAmount: number;
-    onPayment: (amount: number, recipientId: string, description: string) => Promise<boolean>;
+    offlineLimit?: number;
+    onPayment: (
+        amount: number,
+        recipientId: string,
+        description: string,
+        intent: QRPaymentIntent,
+        category?: TransactionCategory
+    ) => Promise<boolean>;
+    onRelease?: (offlineId: string) => Promise<void>; // End the undo window so the receipt can be shown
     onClose: () => void;
 }
 
-export function QRPaymentModal({ userId, maxAmount, onPayment, onClose }: QRPaymentModalProps) {
+export function QRPaymentModal({ userId, userName, maxAmount, offlineLimit, onPayment, onRelease, onClose }: QRPaymentModalProps) {
     const [isProcessing, setIsProcessing] = useState(false);
     const [result, setResult] = useState<'success' | 'error' | null>(null);
+    const [voucherData, setVoucherData] = useState<string | null>(null);
+    const [paidId, setPaidId] = useState<string | null>(null);
 
-    const handleScan = async (data: QRPaymentData) => {
-        if (!data.amount) return;
+    // The payer's row, followed live: null once it has been undone
+    const paidRow = useLiveQuery(
+        async () => (paidId ? (await db.transactions.where('offline_id').equals(paidId).first()) ?? null : undefined),
+        [paidId]
+    );
+    const isHeld = paidRow?.sync_status === 'held';
+    const isUndone = paidId !== null && paidRow === null;
+
+    const handleScan = async (intent: QRPaymentIntent, amount: number, category?: TransactionCategory) => {
+        if (!amount) return;
 
         // SEC-08 Fix: Prevent self-payment
-        if (data.recipient_id === userId) {
+        if (intent.recipient_id === userId) {
             setResult('error');
             return;
         }
 
         setIsProcessing(true);
         try {
-            const description = `Payment to ${data.recipient_name || data.recipient_id.slice(0, 8)}`;
-            const success = await onPayment(data.amount, data.recipient_id, description);
-            setResult(success ? 'success' : 'error');
+            const description = getQRPaymentDescription(intent);
+            const success = await onPayment(amount, intent.recipient_id, description, intent, category);
 
             if (success) {
-                setTimeout(() => onClose(), 1500);
+                const voucher = await createVoucherForIntent(userId, intent.nonce, userName)
+                    .catch(err => {
+                        console.error('Failed to create payment voucher:', err);
+                        return null;
+                    });
+
+                if (voucher) {
+                    setVoucherData(JSON.stringify(voucher));
+                    setPaidId(voucher.offline_id);
+                } else {
+                    setTimeout(() => onClose(), 1500);
+                }
             }
+            setResult(success ? 'success' : 'error');
         } catch {
             setResult('error');
         } finally {
@@ -373,13 +552,62 @@ export function QRPaymentModal({ userId, maxAmount, onPayment, onClose }: QRPaym
     if (result) {
         return (
             <div className="glass-card p-8 text-center">
-                {result === 'success' ? (
+                {result === 'success' && isUndone ? (
+                    <>
+                        <div className="w-16 h-16 rounded-full bg-slate-500/20 flex items-center justify-center mx-auto mb-4">
+                            <Undo2 className="w-8 h-8 text-slate-300" />
+                        </div>
+                        <p className="text-white font-medium text-lg">Payment Undone</p>
+                        <p className="text-slate-400 text-sm mt-1">Nothing was sent to the payee</p>
+                        <button onClick={onClose} className="mt-4 w-full secondary-button" type="button">
+                            Close
+                        </button>
+                    </>
+                ) : result === 'success' ? (
                     <>
                         <div className="w-16 h-16 rounded-full bg-emerald-500/20 flex items-center justify-center mx-auto mb-4">
                             <Check className="w-8 h-8 text-emerald-400" />
                         </div>
                         <p className="text-white font-medium text-lg">Payment Sent!</p>
                         <p className="text-slate-400 text-sm mt-1">Saved to Shadow Ledger</p>
+
+                        {voucherData && isHeld && (
+                            <>
+                                <p className="text-slate-400 text-sm mt-6">
+                                    The receipt for the payee appears once the payment can no longer be undone
+                                </p>
+                                {onRelease && paidId && (
+                                    <button
+                                        onClick={() => onRelease(paidId)}
+                                        className="mt-4 w-full primary-button"
+                                        type="button"
+                                    >
+                                        Show Receipt Now
+                                    </button>
+                                )}
+                            </>
+                        )}
+
+                        {voucherData && paidRow && !isHeld && (
+                            <>
+                                <div className="bg-white p-3 rounded-2xl inline-block mt-6">
+                                    <QRCodeSVG
+                                        value={voucherData}
+                                        size={240}
+                                        level="L"
+                                        includeMargin={false}
+                                        bgColor="#FFFFFF"
+                                        fgColor="#0a0a0b"
+                                    />
+                                </div>
+                                <p className="text-slate-400 text-sm mt-3">
+                                    Show this receipt to the payee so they can record the payment offline
+                                </p>
+                                <button onClick={onClose} className="mt-4 w-full secondary-button" type="button">
+                                    Done
+                                </button>
+                            </>
+                        )}
                     </>
                 ) : (
                     <>
@@ -398,9 +626,11 @@ export function QRPaymentModal({ userId, maxAmount, onPayment, onClose }: QRPaym
 
     return (
         <QRCodeScanner
+            userId={userId}
             onScan={handleScan}
             onClose={onClose}
             maxAmount={maxAmount}
+            offlineLimit={offlineLimit}
         />
     );
 }
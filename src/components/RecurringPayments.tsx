@@ -0,0 +1,581 @@
+'use client';
+
+import React, { useState } from 'react';
+import { CalendarClock, Loader2, Pause, Pencil, Play, Plus, SkipForward, X } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { describeCron, isValidCron } from '@/lib/cron';
+import { useRecurringPayments } from '@/hooks/useRecurringPayments';
+import type { RecurringPayment } from '@/lib/types';
+
+/**
+ * RecurringPayments Component
+ *
+ * Dashboard panel for scheduled and recurring payments.
+ *
+ * Key features:
+ * - New schedule: recipient e-mail, amount, once / daily / weekly /
+ *   monthly / custom cron, start and optional end date
+ * - Upcoming runs with Pause / Resume, Skip next, Edit and End
+ * - Runs are paid on this device even offline (see lib/recurringScheduler);
+ *   a run that could not be paid shows why
+ */
+
+interface RecurringPaymentsProps {
+    userId: string;
+    onClose: () => void;
+}
+
+type Frequency = 'once' | 'daily' | 'weekly' | 'monthly' | 'custom';
+
+interface ScheduleFields {
+    frequency: Frequency;
+    date: string; // yyyy-mm-dd: the day of a one-off payment, else the first day runs may start
+    time: string; // hh:mm
+    weekday: string; // 0-6
+    dayOfMonth: string; // 1-28, so every month has it
+    cron: string;
+    endDate: string; // yyyy-mm-dd or ''
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ONE_YEAR_MS = 366 * 24 * 60 * 60 * 1000;
+
+function toDateInput(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function defaultFields(): ScheduleFields {
+    const today = new Date();
+    return {
+        frequency: 'monthly',
+        date: toDateInput(today.getTime()),
+        time: '09:00',
+        weekday: String(today.getDay()),
+        dayOfMonth: String(Math.min(today.getDate(), 28)),
+        cron: '0 9 1 * *',
+        endDate: ''
+    };
+}
+
+/**
+ * Pre-fill the form from a saved schedule (unknown shapes become 'custom')
+ */
+function fieldsFromPayment(payment: RecurringPayment): ScheduleFields {
+    const fields: ScheduleFields = {
+        ...defaultFields(),
+        frequency: 'custom',
+        date: toDateInput(payment.start_at),
+        cron: payment.schedule,
+        endDate: payment.end_at !== undefined ? toDateInput(payment.end_at) : ''
+    };
+
+    const match = payment.schedule.match(/^(\d+) (\d+) (\S+) (\S+) (\S+)$/);
+    if (!match) return fields;
+
+    const [, minute, hour, dayOfMonth, month, weekday] = match;
+    fields.time = `${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`;
+
+    if (isOneOff(payment)) {
+        return { ...fields, frequency: 'once', date: toDateInput(payment.end_at as number), endDate: '' };
+    }
+    if (month !== '*') return fields;
+    if (dayOfMonth === '*' && weekday === '*') return { ...fields, frequency: 'daily' };
+    if (dayOfMonth === '*' && /^[0-6]$/.test(weekday)) return { ...fields, frequency: 'weekly', weekday };
+    if (/^\d+$/.test(dayOfMonth) && Number(dayOfMonth) <= 28 && weekday === '*') {
+        return { ...fields, frequency: 'monthly', dayOfMonth };
+    }
+    return fields;
+}
+
+/**
+ * A one-off payment is a yearly schedule that ends on its only run
+ */
+function isOneOff(payment: RecurringPayment): boolean {
+    return /^\d+ \d+ \d+ \d+ \*$/.test(payment.schedule)
+        && payment.end_at !== undefined
+        && payment.end_at - payment.start_at < ONE_YEAR_MS;
+}
+
+/**
+ * Turn the form into a cron schedule with its start and end
+ */
+function buildSchedule(fields: ScheduleFields): { schedule: string; startAt: number; endAt?: number } | string {
+    const [hour, minute] = fields.time.split(':').map(Number);
+    const [year, month, day] = fields.date.split('-').map(Number);
+    if ([hour, minute, year, month, day].some(value => !Number.isFinite(value))) {
+        return 'Please pick a date and time';
+    }
+
+    const startAt = new Date(year, month - 1, day).getTime();
+
+    if (fields.frequency === 'once') {
+        const runAt = new Date(year, month - 1, day, hour, minute).getTime();
+        if (runAt <= Date.now()) return 'Pick a time in the future';
+        return { schedule: `${minute} ${hour} ${day} ${month} *`, startAt, endAt: runAt };
+    }
+
+    let schedule: string;
+    switch (fields.frequency) {
+        case 'daily':
+            schedule = `${minute} ${hour} * * *`;
+            break;
+        case 'weekly':
+            schedule = `${minute} ${hour} * * ${fields.weekday}`;
+            break;
+        case 'monthly':
+            schedule = `${minute} ${hour} ${fields.dayOfMonth} * *`;
+            break;
+        default:
+            schedule = fields.cron.trim();
+            if (!isValidCron(schedule)) return 'Invalid schedule (minute hour day month weekday)';
+    }
+
+    let endAt: number | undefined;
+    if (fields.endDate) {
+        const [endYear, endMonth, endDay] = fields.endDate.split('-').map(Number);
+        // The end date itself is included
+        endAt = new Date(endYear, endMonth - 1, endDay, 23, 59, 59, 999).getTime();
+    }
+
+    return { schedule, startAt, endAt };
+}
+
+function describePayment(payment: RecurringPayment): string {
+    if (isOneOff(payment)) {
+        return `Once on ${new Date(payment.end_at as number).toLocaleString()}`;
+    }
+    const description = describeCron(payment.schedule);
+    return payment.end_at !== undefined
+        ? `${description}, until ${new Date(payment.end_at).toLocaleDateString()}`
+        : description;
+}
+
+export function RecurringPayments({ userId, onClose }: RecurringPaymentsProps) {
+    const { payments, isLoading, create, update, pause, resume, skipNext, end } = useRecurringPayments(userId);
+    const [editing, setEditing] = useState<RecurringPayment | 'new' | null>(null);
+    const [email, setEmail] = useState('');
+    const [amount, setAmount] = useState('');
+    const [description, setDescription] = useState('');
+    const [fields, setFields] = useState<ScheduleFields>(defaultFields);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [confirmEndId, setConfirmEndId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const openForm = (payment: RecurringPayment | 'new') => {
+        setEditing(payment);
+        setError(null);
+        if (payment === 'new') {
+            setEmail('');
+            setAmount('');
+            setDescription('');
+            setFields(defaultFields());
+        } else {
+            setEmail(payment.recipient_label);
+            setAmount(String(payment.amount));
+            setDescription(payment.description);
+            setFields(fieldsFromPayment(payment));
+        }
+    };
+
+    const setField = <K extends keyof ScheduleFields>(key: K, value: ScheduleFields[K]) => {
+        setFields(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing) return;
+
+        const numAmount = parseFloat(amount);
+        if (isNaN(numAmount) || !Number.isFinite(numAmount) || numAmount <= 0) {
+            setError('Please enter a valid positive amount');
+            return;
+        }
+
+        const built = buildSchedule(fields);
+        if (typeof built === 'string') {
+            setError(built);
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            if (editing === 'new') {
+                if (!email.trim() || !email.includes('@')) {
+                    throw new Error('Please enter a valid email address');
+                }
+                if (!navigator.onLine) {
+                    throw new Error('Connect to the internet to look up the recipient');
+                }
+
+                const { data: recipientId, error: lookupError } = await supabase
+                    .rpc('get_recipient_id', { email_input: email.trim() });
+
+                if (lookupError || !recipientId) {
+                    throw new Error('Recipient not found. Please check the email.');
+                }
+
+                const result = await create({
+                    recipientId,
+                    recipientLabel: email.trim(),
+                    amount: numAmount,
+                    description: description || 'Scheduled payment',
+                    ...built
+                });
+                if (!result.ok) throw new Error(result.error);
+            } else {
+                const result = await update(editing.id, {
+                    amount: numAmount,
+                    description: description || 'Scheduled payment',
+                    schedule: built.schedule,
+                    startAt: built.startAt,
+                    endAt: built.endAt
+                });
+                if (!result.ok) throw new Error(result.error);
+            }
+
+            setEditing(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the schedule');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const runAction = async (id: string, action: (id: string) => ReturnType<typeof pause>) => {
+        setBusyId(id);
+        setError(null);
+        const result = await action(id);
+        if (!result.ok) setError(result.error);
+        setBusyId(null);
+    };
+
+    const handleEnd = async (id: string) => {
+        if (confirmEndId !== id) {
+            setConfirmEndId(id);
+            return;
+        }
+        setConfirmEndId(null);
+        await runAction(id, end);
+    };
+
+    return (
+        <div className="glass-card p-6 max-h-[85vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold text-white">Scheduled Payments</h3>
+                <button
+                    onClick={onClose}
+                    className="p-1 hover:bg-white/10 rounded-full transition-colors"
+                    aria-label="Close"
+                    type="button"
+                >
+                    <X className="w-5 h-5 text-slate-400" />
+                </button>
+            </div>
+
+            {error && (
+                <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {editing ? (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label htmlFor="recurring-recipient" className="block text-sm font-medium text-slate-400 mb-2">
+                            Recipient Email
+                        </label>
+                        <input
+                            type="email"
+                            id="recurring-recipient"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            placeholder="friend@example.com"
+                            className="input-field"
+                            disabled={isSubmitting || editing !== 'new'}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label htmlFor="recurring-amount" className="block text-sm font-medium text-slate-400 mb-2">
+                                Amount (Rs)
+                            </label>
+                            <input
+                                type="number"
+                                id="recurring-amount"
+                                value={amount}
+                                onChange={(e) => setAmount(e.target.value)}
+                                placeholder="0"
+                                className="input-field"
+                                disabled={isSubmitting}
+                                min="0"
+                                step="0.01"
+                            />
+                        </div>
+                        <div>
+                            <label htmlFor="recurring-frequency" className="block text-sm font-medium text-slate-400 mb-2">
+                                Repeats
+                            </label>
+                            <select
+                                id="recurring-frequency"
+                                value={fields.frequency}
+                                onChange={(e) => setField('frequency', e.target.value as Frequency)}
+                                className="input-field"
+                                disabled={isSubmitting}
+                            >
+                                <option value="once">Once</option>
+                                <option value="daily">Daily</option>
+                                <option value="weekly">Weekly</option>
+                                <option value="monthly">Monthly</option>
+                                <option value="custom">Custom</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    <div>
+                        <label htmlFor="recurring-description" className="block text-sm font-medium text-slate-400 mb-2">
+                            Description
+                        </label>
+                        <input
+                            type="text"
+                            id="recurring-description"
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            placeholder="Rent, subscription..."
+                            className="input-field"
+                            disabled={isSubmitting}
+                            maxLength={100}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label htmlFor="recurring-date" className="block text-sm font-medium text-slate-400 mb-2">
+                                {fields.frequency === 'once' ? 'Date' : 'Starts'}
+                            </label>
+                            <input
+                                type="date"
+                                id="recurring-date"
+                                value={fields.date}
+                                onChange={(e) => setField('date', e.target.value)}
+                                className="input-field"
+                                disabled={isSubmitting || (editing !== 'new' && fields.frequency !== 'once')}
+                            />
+                        </div>
+                        {fields.frequency !== 'custom' && (
+                            <div>
+                                <label htmlFor="recurring-time" className="block text-sm font-medium text-slate-400 mb-2">
+                                    Time
+                                </label>
+                                <input
+                                    type="time"
+                                    id="recurring-time"
+                                    value={fields.time}
+                                    onChange={(e) => setField('time', e.target.value)}
+                                    className="input-field"
+                                    disabled={isSubmitting}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    {fields.frequency === 'weekly' && (
+                        <select
+                            value={fields.weekday}
+                            onChange={(e) => setField('weekday', e.target.value)}
+                            className="input-field"
+                            disabled={isSubmitting}
+                            aria-label="Day of the week"
+                        >
+                            {WEEKDAYS.map((name, index) => (
+                                <option key={name} value={String(index)}>Every {name}</option>
+                            ))}
+                        </select>
+                    )}
+
+                    {fields.frequency === 'monthly' && (
+                        <select
+                            value={fields.dayOfMonth}
+                            onChange={(e) => setField('dayOfMonth', e.target.value)}
+                            className="input-field"
+                            disabled={isSubmitting}
+                            aria-label="Day of the month"
+                        >
+                            {Array.from({ length: 28 }, (_, i) => String(i + 1)).map(day => (
+                                <option key={day} value={day}>On day {day}</option>
+                            ))}
+                        </select>
+                    )}
+
+                    {fields.frequency === 'custom' && (
+                        <div>
+                            <input
+                                type="text"
+                                value={fields.cron}
+                                onChange={(e) => setField('cron', e.target.value)}
+                                placeholder="0 9 1 * *"
+                                className="input-field font-mono"
+                                disabled={isSubmitting}
+                                aria-label="Cron schedule"
+                            />
+                            <p className="text-xs text-slate-500 mt-1">
+                                minute hour day month weekday, in local time
+                            </p>
+                        </div>
+                    )}
+
+                    {fields.frequency !== 'once' && (
+                        <div>
+                            <label htmlFor="recurring-end" className="block text-sm font-medium text-slate-400 mb-2">
+                                Ends (optional)
+                            </label>
+                            <input
+                                type="date"
+                                id="recurring-end"
+                                value={fields.endDate}
+                                onChange={(e) => setField('endDate', e.target.value)}
+                                className="input-field"
+                                disabled={isSubmitting}
+                            />
+                        </div>
+                    )}
+
+                    <div className="flex gap-3">
+                        <button
+                            type="button"
+                            onClick={() => setEditing(null)}
+                            className="secondary-button flex-1"
+                            disabled={isSubmitting}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            className="primary-button flex-1 flex items-center justify-center gap-2"
+                            disabled={isSubmitting || !amount}
+                        >
+                            {isSubmitting && <Loader2 className="w-5 h-5 animate-spin" />}
+                            {editing === 'new' ? 'Schedule' : 'Save'}
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <>
+                    {isLoading && (
+                        <div className="flex items-center justify-center py-6">
+                            <Loader2 className="w-5 h-5 text-indigo-400 animate-spin" />
+                        </div>
+                    )}
+
+                    {!isLoading && payments.length === 0 && (
+                        <p className="text-sm text-slate-500 mb-4">
+                            No scheduled payments yet. They are paid on time even when you are offline.
+                        </p>
+                    )}
+
+                    <div className="space-y-3 mb-4">
+                        {payments.map(payment => {
+                            const isEnded = payment.status === 'ended';
+                            const isBusy = busyId === payment.id;
+
+                            return (
+                                <div
+                                    key={payment.id}
+                                    className={`p-3 rounded-xl bg-white/5 border border-white/5 ${isEnded ? 'opacity-50' : ''}`}
+                                >
+                                    <div className="flex items-start gap-3">
+                                        <CalendarClock className="w-5 h-5 text-indigo-400 flex-shrink-0 mt-0.5" />
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-white text-sm truncate">
+                                                {payment.amount.toLocaleString()} Rs to {payment.recipient_label}
+                                            </p>
+                                            <p className="text-slate-500 text-xs truncate">
+                                                {payment.description} · {describePayment(payment)}
+                                            </p>
+                                            <p className="text-xs mt-1 text-slate-400">
+                                                {payment.status === 'active' && payment.next_run_at !== null
+                                                    ? `Next: ${new Date(payment.next_run_at).toLocaleString()}`
+                                                    : payment.status === 'paused' ? 'Paused' : 'Ended'}
+                                            </p>
+                                            {payment.last_error && payment.status === 'active' && (
+                                                <p className="text-xs mt-1 text-amber-400">
+                                                    Not paid yet: {payment.last_error}
+                                                </p>
+                                            )}
+                                        </div>
+                                        {isBusy && <Loader2 className="w-4 h-4 text-indigo-400 animate-spin" />}
+                                    </div>
+
+                                    {!isEnded && (
+                                        <div className="flex flex-wrap gap-3 mt-3 pl-8 text-xs">
+                                            {payment.status === 'active' ? (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => runAction(payment.id, pause)}
+                                                    disabled={isBusy}
+                                                    className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+                                                >
+                                                    <Pause className="w-3.5 h-3.5" /> Pause
+                                                </button>
+                                            ) : (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => runAction(payment.id, resume)}
+                                                    disabled={isBusy}
+                                                    className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+                                                >
+                                                    <Play className="w-3.5 h-3.5" /> Resume
+                                                </button>
+                                            )}
+                                            {payment.status === 'active' && (
+                                                <button
+                                                    type="button"
+                                                    onClick={() => runAction(payment.id, skipNext)}
+                                                    disabled={isBusy}
+                                                    className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+                                                >
+                                                    <SkipForward className="w-3.5 h-3.5" /> Skip next
+                                                </button>
+                                            )}
+                                            <button
+                                                type="button"
+                                                onClick={() => openForm(payment)}
+                                                disabled={isBusy}
+                                                className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors"
+                                            >
+                                                <Pencil className="w-3.5 h-3.5" /> Edit
+                                            </button>
+                                            <button
+                                                type="button"
+                                                onClick={() => handleEnd(payment.id)}
+                                                disabled={isBusy}
+                                                className="flex items-center gap-1 text-red-400 hover:text-red-300 transition-colors ml-auto"
+                                            >
+                                                <X className="w-3.5 h-3.5" /> {confirmEndId === payment.id ? 'Confirm' : 'End'}
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    <button
+                        type="button"
+                        onClick={() => openForm('new')}
+                        className="primary-button w-full flex items-center justify-center gap-2"
+                    >
+                        <Plus className="w-5 h-5" />
+                        New scheduled payment
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
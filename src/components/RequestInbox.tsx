@@ -0,0 +1,332 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Inbox, Send, Check, X, Loader2, Bell, Clock } from 'lucide-react';
+import {
+    cancelPaymentRequest,
+    declinePaymentRequest,
+    isOpenRequest,
+    remainingAmount,
+    remindPaymentRequest
+} from '@/lib/paymentRequests';
+import type { PaymentRequest, PaymentRequestStatus } from '@/lib/types';
+
+/**
+ * RequestInbox Component
+ *
+ * Every payment request the user received or sent, in one place.
+ *
+ * Key features:
+ * - Incoming: pay in full or in part, or decline; reminders are flagged
+ * - Paying works offline: it is queued in the shadow ledger and shown as
+ *   waiting to sync until the server settles it
+ * - Sent: cancel an open request or nudge the payer (once a day)
+ * - Status, progress and time left before each open request expires
+ */
+
+interface RequestInboxProps {
+    incoming: PaymentRequest[];
+    outgoing: PaymentRequest[];
+    queuedAmounts: Record<string, number>; // Paid here but not synced yet, per request ID
+    currentBalance: number;
+    isOnline: boolean;
+    onPay: (
+        request: PaymentRequest,
+        amount: number,
+        queued: number
+    ) => Promise<{ ok: true } | { ok: false; error: string }>;
+    onChanged: () => void; // A request changed: reload the lists
+    onClose: () => void;
+}
+
+type Tab = 'incoming' | 'outgoing';
+
+const REMINDER_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_STYLES: Record<PaymentRequestStatus, { label: string; className: string }> = {
+    pending: { label: 'Pending', className: 'bg-amber-500/20 text-amber-400' },
+    partially_paid: { label: 'Part paid', className: 'bg-sky-500/20 text-sky-400' },
+    approved: { label: 'Paid', className: 'bg-emerald-500/20 text-emerald-400' },
+    rejected: { label: 'Declined', className: 'bg-red-500/20 text-red-400' },
+    cancelled: { label: 'Cancelled', className: 'bg-slate-500/20 text-slate-400' },
+    expired: { label: 'Expired', className: 'bg-slate-500/20 text-slate-400' }
+};
+
+function formatTimeLeft(expiresAt: number, now: number): string {
+    const ms = expiresAt - now;
+    if (ms <= 0) return 'Expiring';
+
+    const hours = Math.floor(ms / (60 * 60 * 1000));
+    if (hours >= 24) return `Expires in ${Math.floor(hours / 24)}d`;
+    if (hours >= 1) return `Expires in ${hours}h`;
+    return `Expires in ${Math.max(1, Math.floor(ms / 60000))}m`;
+}
+
+function displayName(email: string | null): string {
+    return email?.split('@')[0] || 'A user';
+}
+
+export function RequestInbox({
+    incoming,
+    outgoing,
+    queuedAmounts,
+    currentBalance,
+    isOnline,
+    onPay,
+    onChanged,
+    onClose
+}: RequestInboxProps) {
+    const [tab, setTab] = useState<Tab>('incoming');
+    const [payingId, setPayingId] = useState<string | null>(null);
+    const [payAmount, setPayAmount] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Keeps expiry countdowns and reminder cooldowns current
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const requests = tab === 'incoming' ? incoming : outgoing;
+    const openIncoming = incoming.filter(isOpenRequest).length;
+
+    const runAction = async (id: string, action: () => Promise<unknown>) => {
+        setBusyId(id);
+        setError(null);
+        try {
+            await action();
+            onChanged();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update request');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    // What is still owed once this device's unsynced payments go through
+    const owedAmount = (request: PaymentRequest): number =>
+        Math.max(0, Math.round((remainingAmount(request) - (queuedAmounts[request.id] ?? 0)) * 100) / 100);
+
+    const startPaying = (request: PaymentRequest) => {
+        setPayingId(request.id);
+        setPayAmount(String(owedAmount(request)));
+        setError(null);
+    };
+
+    const handlePay = async (request: PaymentRequest) => {
+        const amount = parseFloat(payAmount);
+        const remaining = owedAmount(request);
+
+        if (isNaN(amount) || !Number.isFinite(amount) || amount <= 0 || amount > remaining) {
+            setError(`Enter an amount between 0.01 and ${remaining.toLocaleString()} Rs`);
+            return;
+        }
+        if (amount > currentBalance) {
+            setError(`Insufficient balance. You have ${currentBalance.toLocaleString()} Rs`);
+            return;
+        }
+
+        setBusyId(request.id);
+        setError(null);
+        const result = await onPay(request, amount, queuedAmounts[request.id] ?? 0);
+        if (result.ok) {
+            setPayingId(null);
+        } else {
+            setError(result.error);
+        }
+        setBusyId(null);
+    };
+
+    return (
+        <div className="glass-card p-6 max-h-[85vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-bold text-white">Payment Requests</h3>
+                <button
+                    onClick={onClose}
+                    className="p-1 hover:bg-white/10 rounded-full transition-colors"
+                    aria-label="Close"
+                    type="button"
+                >
+                    <X className="w-5 h-5 text-slate-400" />
+                </button>
+            </div>
+
+            {/* Received or sent */}
+            <div className="grid grid-cols-2 gap-2 mb-4 p-1 bg-white/5 rounded-xl">
+                {(['incoming', 'outgoing'] as Tab[]).map(option => (
+                    <button
+                        key={option}
+                        type="button"
+                        onClick={() => {
+                            setTab(option);
+                            setPayingId(null);
+                            setError(null);
+                        }}
+                        className={`py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 ${tab === option
+                            ? 'bg-indigo-500 text-white'
+                            : 'text-slate-400 hover:text-white'}`}
+                    >
+                        {option === 'incoming' ? <Inbox className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                        {option === 'incoming' ? 'Received' : 'Sent'}
+                        {option === 'incoming' && openIncoming > 0 && (
+                            <span className="px-1.5 rounded-full bg-amber-500 text-white text-xs">{openIncoming}</span>
+                        )}
+                    </button>
+                ))}
+            </div>
+
+            {error && (
+                <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {requests.length === 0 && (
+                <p className="text-sm text-slate-500 mb-4">
+                    {tab === 'incoming' ? 'Nobody has asked you for money.' : 'You have not requested any money.'}
+                </p>
+            )}
+
+            <div className="space-y-3">
+                {requests.map(request => {
+                    const isOpen = isOpenRequest(request);
+                    const isBusy = busyId === request.id;
+                    const queued = queuedAmounts[request.id] ?? 0;
+                    const isOwed = owedAmount(request) > 0;
+                    const status = STATUS_STYLES[request.status];
+                    const counterpart = tab === 'incoming' ? request.requester_email : request.payer_email;
+                    const canRemind = request.last_reminded_at === null ||
+                        now - request.last_reminded_at >= REMINDER_COOLDOWN_MS;
+
+                    return (
+                        <div
+                            key={request.id}
+                            className={`p-3 rounded-xl bg-white/5 border border-white/5 ${isOpen ? '' : 'opacity-60'}`}
+                        >
+                            <div className="flex items-start gap-3">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-white text-sm truncate">
+                                        {request.amount.toLocaleString()} Rs {tab === 'incoming' ? 'from' : 'to'} {displayName(counterpart)}
+                                    </p>
+                                    {request.description && (
+                                        <p className="text-slate-500 text-xs truncate">&quot;{request.description}&quot;</p>
+                                    )}
+                                    <p className="text-xs mt-1 text-slate-400 flex items-center gap-1">
+                                        {isOpen && (
+                                            <>
+                                                <Clock className="w-3 h-3" />
+                                                {formatTimeLeft(request.expires_at, now)}
+                                            </>
+                                        )}
+                                        {request.paid_amount > 0 && (
+                                            <span>
+                                                {isOpen && '· '}{request.paid_amount.toLocaleString()} of {request.amount.toLocaleString()} Rs paid
+                                            </span>
+                                        )}
+                                    </p>
+                                    {tab === 'incoming' && queued > 0 && (
+                                        <p className="text-xs mt-1 text-indigo-400">
+                                            {queued.toLocaleString()} Rs paid - waiting to sync
+                                        </p>
+                                    )}
+                                    {tab === 'incoming' && isOpen && request.reminder_count > 0 && (
+                                        <p className="text-xs mt-1 text-amber-400 flex items-center gap-1">
+                                            <Bell className="w-3 h-3" />
+                                            Reminded {request.reminder_count === 1 ? 'once' : `${request.reminder_count} times`}
+                                        </p>
+                                    )}
+                                </div>
+                                <span className={`px-2 py-0.5 rounded-full text-xs ${status.className}`}>
+                                    {status.label}
+                                </span>
+                                {isBusy && <Loader2 className="w-4 h-4 text-indigo-400 animate-spin" />}
+                            </div>
+
+                            {/* Pay / Decline */}
+                            {tab === 'incoming' && isOpen && isOwed && payingId !== request.id && (
+                                <div className="flex gap-3 mt-3">
+                                    <button
+                                        type="button"
+                                        onClick={() => runAction(request.id, () => declinePaymentRequest(request.id))}
+                                        disabled={isBusy || !isOnline}
+                                        title={isOnline ? undefined : 'Connect to decline'}
+                                        className="flex-1 secondary-button flex items-center justify-center gap-2 py-2 text-sm"
+                                    >
+                                        <X className="w-4 h-4" />
+                                        Decline
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => startPaying(request)}
+                                        disabled={isBusy}
+                                        className="flex-1 primary-button flex items-center justify-center gap-2 py-2 text-sm bg-emerald-600 hover:bg-emerald-500"
+                                    >
+                                        <Check className="w-4 h-4" />
+                                        Pay
+                                    </button>
+                                </div>
+                            )}
+
+                            {/* Amount to pay now: the rest by default */}
+                            {tab === 'incoming' && isOpen && payingId === request.id && (
+                                <div className="flex gap-2 mt-3">
+                                    <input
+                                        type="number"
+                                        value={payAmount}
+                                        onChange={(e) => setPayAmount(e.target.value)}
+                                        className="input-field flex-1 min-w-0"
+                                        disabled={isBusy}
+                                        min="0"
+                                        step="0.01"
+                                        aria-label="Amount to pay"
+                                    />
+                                    <button
+                                        type="button"
+                                        onClick={() => setPayingId(null)}
+                                        disabled={isBusy}
+                                        className="secondary-button px-3 text-sm"
+                                    >
+                                        Back
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => handlePay(request)}
+                                        disabled={isBusy || !payAmount}
+                                        className="primary-button px-4 text-sm bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50"
+                                    >
+                                        Pay
+                                    </button>
+                                </div>
+                            )}
+
+                            {/* Cancel / Remind */}
+                            {tab === 'outgoing' && isOpen && (
+                                <div className="flex flex-wrap gap-3 mt-3 text-xs">
+                                    <button
+                                        type="button"
+                                        onClick={() => runAction(request.id, () => remindPaymentRequest(request.id))}
+                                        disabled={isBusy || !canRemind || !isOnline}
+                                        className="flex items-center gap-1 text-slate-400 hover:text-white transition-colors disabled:opacity-40"
+                                        title={canRemind ? 'Nudge the payer' : 'You can remind once a day'}
+                                    >
+                                        <Bell className="w-3.5 h-3.5" /> {canRemind ? 'Remind' : 'Reminded'}
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => runAction(request.id, () => cancelPaymentRequest(request.id))}
+                                        disabled={isBusy || !isOnline}
+                                        className="flex items-center gap-1 text-red-400 hover:text-red-300 transition-colors ml-auto"
+                                    >
+                                        <X className="w-3.5 h-3.5" /> Cancel request
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
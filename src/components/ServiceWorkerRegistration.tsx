@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Download, X } from 'lucide-react';
+import { registerServiceWorker, onServiceWorkerUpdate, applyServiceWorkerUpdate } from '@/lib/serviceWorker';
+
+/**
+ * ServiceWorkerRegistration Component
+ *
+ * Registers public/sw.js on every page (offline app shell + Background
+ * Sync) and shows a prompt when a new app version is ready. The update is
+ * only activated when the user accepts, since it reloads the page.
+ */
+export function ServiceWorkerRegistration() {
+    const [updateAvailable, setUpdateAvailable] = useState(false);
+    const [dismissed, setDismissed] = useState(false);
+
+    useEffect(() => {
+        registerServiceWorker();
+        return onServiceWorkerUpdate(setUpdateAvailable);
+    }, []);
+
+    return (
+        <AnimatePresence>
+            {updateAvailable && !dismissed && (
+                <motion.div
+                    initial={{ y: -80, opacity: 0 }}
+                    animate={{ y: 0, opacity: 1 }}
+                    exit={{ y: -80, opacity: 0 }}
+                    className="fixed top-4 inset-x-0 z-[110] flex justify-center px-4 pointer-events-none"
+                >
+                    <div className="glass-card pointer-events-auto flex items-center gap-3 px-4 py-3 shadow-2xl">
+                        <Download className="w-4 h-4 text-indigo-400 flex-shrink-0" />
+                        <span className="text-sm text-slate-200">A new version of PhantomPay is ready</span>
+                        <button
+                            onClick={applyServiceWorkerUpdate}
+                            className="px-3 py-1.5 bg-indigo-500/20 hover:bg-indigo-500/30 rounded-lg text-indigo-400 text-sm font-medium transition-colors"
+                        >
+                            Reload
+                        </button>
+                        <button
+                            onClick={() => setDismissed(true)}
+                            className="p-1 text-slate-500 hover:text-slate-300 transition-colors"
+                            aria-label="Dismiss update"
+                        >
+                            <X className="w-4 h-4" />
+                        </button>
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
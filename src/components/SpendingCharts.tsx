@@ -0,0 +1,214 @@
+'use client';
+
+import React from 'react';
+import {
+    BarElement,
+    CategoryScale,
+    Chart as ChartJS,
+    Filler,
+    Legend,
+    LinearScale,
+    LineElement,
+    PointElement,
+    Tooltip,
+    type ChartOptions
+} from 'chart.js';
+import { Bar, Line } from 'react-chartjs-2';
+import { CATEGORY_LABELS } from '@/lib/categories';
+import {
+    formatBucketLabel,
+    type AnalyticsGranularity,
+    type BalancePoint,
+    type CategorySpend,
+    type CounterpartySpend,
+    type FlowBucket
+} from '@/lib/analytics';
+
+/**
+ * Spending Charts
+ *
+ * The charts of the analytics page, drawn with chart.js from figures
+ * computed offline (see lib/analytics). Everything not yet synced is drawn
+ * apart: pending bars are faded with an orange outline (the pending colour
+ * of the sync UI), and the balance including pending rows is dashed.
+ */
+
+ChartJS.register(BarElement, CategoryScale, Filler, Legend, LinearScale, LineElement, PointElement, Tooltip);
+
+const COLORS = {
+    outflow: '#6366f1',
+    outflowPending: 'rgba(99, 102, 241, 0.3)',
+    inflow: '#10b981',
+    inflowPending: 'rgba(16, 185, 129, 0.3)',
+    pendingBorder: '#fb923c',
+    grid: 'rgba(255, 255, 255, 0.06)',
+    text: '#94a3b8'
+};
+
+const formatRs = (value: number): string => `${value.toLocaleString()} Rs`;
+
+const legend = {
+    labels: { color: COLORS.text, boxWidth: 12, font: { size: 11 } }
+};
+
+const axis = (stacked: boolean, showGrid: boolean) => ({
+    stacked,
+    ticks: { color: COLORS.text, font: { size: 10 } },
+    grid: showGrid ? { color: COLORS.grid } : { display: false }
+});
+
+function barOptions(horizontal: boolean): ChartOptions<'bar'> {
+    return {
+        responsive: true,
+        maintainAspectRatio: false,
+        indexAxis: horizontal ? 'y' : 'x',
+        plugins: {
+            legend,
+            tooltip: {
+                callbacks: {
+                    label: context => `${context.dataset.label}: ${formatRs(Number(horizontal ? context.parsed.x : context.parsed.y))}`
+                }
+            }
+        },
+        // Bars for the same label stack; the value axis keeps its grid
+        scales: { x: axis(true, horizontal), y: axis(true, !horizontal) }
+    };
+}
+
+const lineOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+        legend,
+        tooltip: {
+            callbacks: {
+                label: context => `${context.dataset.label}: ${formatRs(Number(context.parsed.y))}`
+            }
+        }
+    },
+    scales: { x: axis(false, false), y: axis(false, true) }
+};
+
+/**
+ * Horizontal stacked bars: synced and pending spend per label
+ */
+function SplitSpendChart({ labels, synced, pending }: { labels: string[]; synced: number[]; pending: number[] }) {
+    return (
+        <div style={{ height: `${Math.max(120, labels.length * 36 + 48)}px` }}>
+            <Bar
+                options={barOptions(true)}
+                data={{
+                    labels,
+                    datasets: [
+                        { label: 'Synced', data: synced, backgroundColor: COLORS.outflow, borderRadius: 4 },
+                        {
+                            label: 'Pending',
+                            data: pending,
+                            backgroundColor: COLORS.outflowPending,
+                            borderColor: COLORS.pendingBorder,
+                            borderWidth: 1,
+                            borderRadius: 4
+                        }
+                    ]
+                }}
+            />
+        </div>
+    );
+}
+
+export function CategorySpendChart({ data }: { data: CategorySpend[] }) {
+    return (
+        <SplitSpendChart
+            labels={data.map(entry => CATEGORY_LABELS[entry.category])}
+            synced={data.map(entry => entry.synced)}
+            pending={data.map(entry => entry.pending)}
+        />
+    );
+}
+
+export function CounterpartySpendChart({ data }: { data: CounterpartySpend[] }) {
+    return (
+        <SplitSpendChart
+            labels={data.map(entry => entry.label)}
+            synced={data.map(entry => entry.synced)}
+            pending={data.map(entry => entry.pending)}
+        />
+    );
+}
+
+/**
+ * Money in and out per bucket, each stacked synced + pending
+ */
+export function FlowChart({ data, granularity }: { data: FlowBucket[]; granularity: AnalyticsGranularity }) {
+    return (
+        <div style={{ height: '240px' }}>
+            <Bar
+                options={barOptions(false)}
+                data={{
+                    labels: data.map(bucket => formatBucketLabel(bucket.start, granularity)),
+                    datasets: [
+                        { label: 'In', data: data.map(b => b.inflow.synced), backgroundColor: COLORS.inflow, stack: 'in', borderRadius: 3 },
+                        {
+                            label: 'In (pending)',
+                            data: data.map(b => b.inflow.pending),
+                            backgroundColor: COLORS.inflowPending,
+                            borderColor: COLORS.pendingBorder,
+                            borderWidth: 1,
+                            stack: 'in',
+                            borderRadius: 3
+                        },
+                        { label: 'Out', data: data.map(b => b.outflow.synced), backgroundColor: COLORS.outflow, stack: 'out', borderRadius: 3 },
+                        {
+                            label: 'Out (pending)',
+                            data: data.map(b => b.outflow.pending),
+                            backgroundColor: COLORS.outflowPending,
+                            borderColor: COLORS.pendingBorder,
+                            borderWidth: 1,
+                            stack: 'out',
+                            borderRadius: 3
+                        }
+                    ]
+                }}
+            />
+        </div>
+    );
+}
+
+/**
+ * Balance at the end of each bucket, with and without pending rows
+ */
+export function BalanceChart({ data, granularity }: { data: BalancePoint[]; granularity: AnalyticsGranularity }) {
+    const hasPending = data.some(point => point.withPending !== point.synced);
+
+    return (
+        <div style={{ height: '220px' }}>
+            <Line
+                options={lineOptions}
+                data={{
+                    labels: data.map(point => formatBucketLabel(point.start, granularity)),
+                    datasets: [
+                        {
+                            label: 'Synced balance',
+                            data: data.map(point => point.synced),
+                            borderColor: COLORS.outflow,
+                            backgroundColor: 'rgba(99, 102, 241, 0.12)',
+                            fill: true,
+                            tension: 0.3,
+                            pointRadius: 2
+                        },
+                        ...(hasPending ? [{
+                            label: 'Including pending',
+                            data: data.map(point => point.withPending),
+                            borderColor: COLORS.pendingBorder,
+                            borderDash: [6, 4],
+                            backgroundColor: 'transparent',
+                            fill: false,
+                            tension: 0.3,
+                            pointRadius: 2
+                        }] : [])
+                    ]
+                }}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Users, Loader2, Plus, Trash2 } from 'lucide-react';
+import { computeSplitShares, createSplitRequest, MAX_SPLIT_PAYERS } from '@/lib/splitRequests';
+import type { SplitMode } from '@/lib/types';
+
+/**
+ * Split Bill Form Component
+ *
+ * Requests a share of one bill from several people at once.
+ *
+ * Key features:
+ * - Equal (optionally including yourself), percentage or custom shares
+ * - Live preview of each person's share, computed like the server does
+ * - One payment request per person, tracked together (see SplitRequestList)
+ */
+
+interface SplitBillFormProps {
+    onSuccess?: () => void;
+}
+
+interface PayerRow {
+    email: string;
+    value: string; // Percent or amount, depending on the mode
+}
+
+const MODES: { mode: SplitMode; label: string }[] = [
+    { mode: 'equal', label: 'Equal' },
+    { mode: 'percentage', label: '%' },
+    { mode: 'custom', label: 'Custom' }
+];
+
+export function SplitBillForm({ onSuccess }: SplitBillFormProps) {
+    const [total, setTotal] = useState('');
+    const [description, setDescription] = useState('');
+    const [mode, setMode] = useState<SplitMode>('equal');
+    const [includeSelf, setIncludeSelf] = useState(true);
+    const [payers, setPayers] = useState<PayerRow[]>([{ email: '', value: '' }, { email: '', value: '' }]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [success, setSuccess] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const shares = payers.map(payer => ({
+        email: payer.email,
+        percent: mode === 'percentage' ? parseFloat(payer.value) : undefined,
+        amount: mode === 'custom' ? parseFloat(payer.value) : undefined
+    }));
+    const preview = computeSplitShares({ total: parseFloat(total), mode, shares, includeSelf });
+
+    const updatePayer = (index: number, changes: Partial<PayerRow>) => {
+        setPayers(prev => prev.map((payer, i) => (i === index ? { ...payer, ...changes } : payer)));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (payers.some(payer => !payer.email.trim() || !payer.email.includes('@'))) {
+            setError('Please enter a valid email address for everyone');
+            return;
+        }
+
+        if (!preview.ok) {
+            setError(preview.error);
+            return;
+        }
+
+        setIsSubmitting(true);
+        setError(null);
+
+        try {
+            await createSplitRequest({
+                total: parseFloat(total),
+                description: description || 'Split bill',
+                mode,
+                shares,
+                includeSelf
+            });
+
+            setSuccess(true);
+            setTimeout(() => onSuccess?.(), 1500);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to send split request');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit}>
+            {/* Total Input */}
+            <div className="mb-4">
+                <label htmlFor="split-total" className="block text-sm font-medium text-slate-400 mb-2">
+                    Bill Total (Rs)
+                </label>
+                <input
+                    type="number"
+                    id="split-total"
+                    value={total}
+                    onChange={(e) => setTotal(e.target.value)}
+                    placeholder="0"
+                    className="input-field text-2xl font-bold"
+                    disabled={isSubmitting}
+                    min="0"
+                    step="0.01"
+                    required
+                />
+            </div>
+
+            {/* Description Input */}
+            <div className="mb-4">
+                <label htmlFor="split-description" className="block text-sm font-medium text-slate-400 mb-2">
+                    Reason (Optional)
+                </label>
+                <input
+                    type="text"
+                    id="split-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Dinner, trip, rent..."
+                    className="input-field"
+                    disabled={isSubmitting}
+                    maxLength={100}
+                />
+            </div>
+
+            {/* Split Mode */}
+            <div className="grid grid-cols-3 gap-2 mb-3">
+                {MODES.map(option => (
+                    <button
+                        key={option.mode}
+                        type="button"
+                        onClick={() => setMode(option.mode)}
+                        className={`py-2 rounded-lg text-sm font-medium transition-colors ${mode === option.mode
+                            ? 'bg-indigo-500 text-white'
+                            : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}
+                        disabled={isSubmitting}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            {mode === 'equal' && (
+                <label className="flex items-center gap-2 mb-3 text-sm text-slate-400">
+                    <input
+                        type="checkbox"
+                        checked={includeSelf}
+                        onChange={(e) => setIncludeSelf(e.target.checked)}
+                        disabled={isSubmitting}
+                    />
+                    Include my share
+                </label>
+            )}
+
+            {/* Payers */}
+            <div className="space-y-2 mb-3">
+                {payers.map((payer, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                        <input
+                            type="email"
+                            value={payer.email}
+                            onChange={(e) => updatePayer(index, { email: e.target.value })}
+                            placeholder="friend@example.com"
+                            className="input-field flex-1 min-w-0"
+                            disabled={isSubmitting}
+                            aria-label={`Person ${index + 1} email`}
+                        />
+                        {mode === 'equal' ? (
+                            <span className="w-20 text-right text-sm text-slate-400">
+                                {preview.ok ? `${preview.amounts[index].toLocaleString()} Rs` : '-'}
+                            </span>
+                        ) : (
+                            <input
+                                type="number"
+                                value={payer.value}
+                                onChange={(e) => updatePayer(index, { value: e.target.value })}
+                                placeholder={mode === 'percentage' ? '%' : 'Rs'}
+                                className="input-field w-20"
+                                disabled={isSubmitting}
+                                min="0"
+                                step="0.01"
+                                aria-label={`Person ${index + 1} ${mode === 'percentage' ? 'percentage' : 'amount'}`}
+                            />
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => setPayers(prev => prev.filter((_, i) => i !== index))}
+                            className="p-2 text-slate-500 hover:text-red-400 transition-colors disabled:opacity-30"
+                            disabled={isSubmitting || payers.length <= 1}
+                            aria-label={`Remove person ${index + 1}`}
+                        >
+                            <Trash2 className="w-4 h-4" />
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            {payers.length < MAX_SPLIT_PAYERS && (
+                <button
+                    type="button"
+                    onClick={() => setPayers(prev => [...prev, { email: '', value: '' }])}
+                    className="flex items-center gap-1 mb-4 text-sm text-indigo-400 hover:text-indigo-300 transition-colors"
+                    disabled={isSubmitting}
+                >
+                    <Plus className="w-4 h-4" /> Add person
+                </button>
+            )}
+
+            {/* Preview */}
+            {preview.ok && (
+                <p className="mb-4 text-xs text-slate-500">
+                    Requesting {preview.requested.toLocaleString()} Rs from {payers.length} {payers.length === 1 ? 'person' : 'people'}
+                    {preview.ownShare > 0 && <> · your share {preview.ownShare.toLocaleString()} Rs</>}
+                </p>
+            )}
+
+            {/* Error Message */}
+            {error && (
+                <div className="mb-4 p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-400 text-sm">
+                    {error}
+                </div>
+            )}
+
+            {/* Success Message */}
+            {success && (
+                <div className="mb-4 p-3 bg-emerald-500/20 border border-emerald-500/30 rounded-lg text-emerald-400 text-sm">
+                    ✓ Split request sent!
+                </div>
+            )}
+
+            {/* Submit Button */}
+            <button
+                type="submit"
+                className="primary-button w-full flex items-center justify-center gap-2"
+                disabled={isSubmitting || !total || !preview.ok}
+            >
+                {isSubmitting ? (
+                    <>
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                        Sending...
+                    </>
+                ) : (
+                    <>
+                        <Users className="w-5 h-5" />
+                        Send Split Request
+                    </>
+                )}
+            </button>
+        </form>
+    );
+}
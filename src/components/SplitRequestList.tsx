@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Users, Check, X, Clock, ChevronDown, ChevronUp, CircleDot } from 'lucide-react';
+import { useRequestGroups } from '@/hooks/useRequestGroups';
+import type { RequestGroup, RequestGroupMember } from '@/lib/types';
+
+/**
+ * SplitRequestList Component
+ *
+ * Dashboard progress of the split bills the user sent.
+ *
+ * Key features:
+ * - Collected vs. requested per bill, with an overall status
+ * - Per-person share and whether they paid, rejected or are pending
+ * - Updates live as payers answer (see useRequestGroups)
+ */
+
+interface SplitRequestListProps {
+    userId: string;
+}
+
+// Bills that are done drop off the dashboard after a week
+const RECENT_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_GROUPS = 5;
+
+const STATUS_LABELS: Record<RequestGroup['status'], string> = {
+    open: 'Collecting',
+    settled: 'Settled',
+    closed: 'Closed'
+};
+
+function MemberStatusIcon({ status }: { status: RequestGroupMember['status'] }) {
+    if (status === 'approved') return <Check className="w-4 h-4 text-emerald-400" />;
+    if (status === 'partially_paid') return <CircleDot className="w-4 h-4 text-amber-400" />;
+    if (status === 'rejected' || status === 'cancelled' || status === 'expired') {
+        return <X className="w-4 h-4 text-red-400" />;
+    }
+    return <Clock className="w-4 h-4 text-amber-400" />;
+}
+
+export function SplitRequestList({ userId }: SplitRequestListProps) {
+    const { groups } = useRequestGroups(userId);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Settled bills drop off once they are no longer recent
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    const visible = groups
+        .filter(group => group.status === 'open' || (group.settled_at ?? 0) > now - RECENT_MS)
+        .slice(0, MAX_GROUPS);
+
+    if (visible.length === 0) return null;
+
+    return (
+        <section className="space-y-3">
+            <h2 className="text-lg font-bold text-white">Split Bills</h2>
+
+            {visible.map(group => {
+                const requested = group.members.reduce((sum, member) => sum + member.amount, 0);
+                const collected = group.members.reduce((sum, member) => sum + member.paid_amount, 0);
+                const paidCount = group.members.filter(member => member.status === 'approved').length;
+                const progress = requested > 0 ? Math.round((collected / requested) * 100) : 0;
+                const isExpanded = expandedId === group.id;
+
+                return (
+                    <div key={group.id} className="glass-card p-4">
+                        <button
+                            type="button"
+                            onClick={() => setExpandedId(isExpanded ? null : group.id)}
+                            className="w-full flex items-center gap-3 text-left"
+                        >
+                            <div className="w-10 h-10 rounded-full bg-indigo-500/20 flex items-center justify-center flex-shrink-0">
+                                <Users className="w-5 h-5 text-indigo-400" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <p className="text-white text-sm font-medium truncate">
+                                    {group.description || 'Split bill'}
+                                </p>
+                                <p className="text-slate-500 text-xs">
+                                    {STATUS_LABELS[group.status]} · {paidCount}/{group.members.length} paid · {collected.toLocaleString()} of {requested.toLocaleString()} Rs
+                                </p>
+                            </div>
+                            {isExpanded
+                                ? <ChevronUp className="w-4 h-4 text-slate-500" />
+                                : <ChevronDown className="w-4 h-4 text-slate-500" />}
+                        </button>
+
+                        <div className="mt-3 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                            <div
+                                className={`h-full ${group.status === 'closed' ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                                style={{ width: `${progress}%` }}
+                            />
+                        </div>
+
+                        {isExpanded && (
+                            <ul className="mt-3 space-y-2">
+                                {group.members.map(member => (
+                                    <li key={member.request_id} className="flex items-center gap-2 text-sm">
+                                        <MemberStatusIcon status={member.status} />
+                                        <span className="flex-1 truncate text-slate-300">
+                                            {member.payer_email?.split('@')[0] || 'User'}
+                                        </span>
+                                        {member.share_percent !== null && (
+                                            <span className="text-xs text-slate-500">{member.share_percent}%</span>
+                                        )}
+                                        <span className="text-slate-400">{member.amount.toLocaleString()} Rs</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                );
+            })}
+        </section>
+    );
+}
@@ -1,7 +1,7 @@
 'use client';
 
-import React, { useState } from 'react';
-import { X, RefreshCw, Clock, AlertTriangle, CheckCircle, Trash2 } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, RefreshCw, Clock, AlertTriangle, CheckCircle, Trash2, Undo2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { SyncQueueItem } from '@/lib/types';
 
@@ -15,6 +15,7 @@ import type { SyncQueueItem } from '@/lib/types';
  * - Lists all items in sync queue
  * - Shows retry count and error messages
  * - Per-item retry capability
+ * - Countdown to the next scheduled sync attempt
  * - Clear failed items
  * - Reassures user that data is safe in queue
  */
@@ -23,18 +24,45 @@ interface SyncDrawerProps {
     isOpen: boolean;
     onClose: () => void;
     queueItems: SyncQueueItem[];
+    nextRunAt?: number | null;
     onRetryItem?: (id: string) => Promise<void>;
     onClearFailed?: () => Promise<void>;
 }
 
+/**
+ * Format the time until a scheduled attempt ("now", "12s", "3m 05s")
+ */
+function formatCountdown(target: number, now: number): string {
+    const seconds = Math.max(0, Math.ceil((target - now) / 1000));
+    if (seconds === 0) return 'now';
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
+
 export function SyncDrawer({
     isOpen,
     onClose,
     queueItems,
+    nextRunAt = null,
     onRetryItem,
     onClearFailed
 }: SyncDrawerProps) {
     const [retryingId, setRetryingId] = useState<string | null>(null);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Tick once a second while open so countdowns stay live, starting
+    // straight away so a reopened drawer does not show the old time
+    useEffect(() => {
+        if (!isOpen) return;
+        const tick = () => setNow(Date.now());
+        const first = setTimeout(tick, 0);
+        const interval = setInterval(tick, 1000);
+        return () => {
+            clearTimeout(first);
+            clearInterval(interval);
+        };
+    }, [isOpen]);
 
     const handleRetryItem = async (id: string) => {
         if (!onRetryItem) return;
@@ -47,7 +75,8 @@ export function SyncDrawer({
     };
 
     const failedCount = queueItems.filter(item => item.status === 'failed').length;
-    const pendingCount = queueItems.filter(item => item.status === 'pending' || item.status === 'syncing').length;
+    const pendingCount = queueItems.filter(item =>
+        item.status === 'held' || item.status === 'pending' || item.status === 'syncing').length;
 
     return (
         <AnimatePresence>
@@ -77,6 +106,14 @@ export function SyncDrawer({
                                 <p className="text-sm text-slate-400 mt-1">
                                     {queueItems.length} item{queueItems.length !== 1 ? 's' : ''} in queue
                                 </p>
+                                {queueItems.length > 0 && (
+                                    <p className="text-xs text-slate-500 mt-1 flex items-center gap-1">
+                                        <Clock size={12} />
+                                        {nextRunAt
+                                            ? `Next sync attempt in ${formatCountdown(nextRunAt, now)}`
+                                            : 'No automatic retry scheduled'}
+                                    </p>
+                                )}
                             </div>
                             <button
                                 onClick={onClose}
@@ -117,6 +154,7 @@ export function SyncDrawer({
                                     <SyncQueueItemCard
                                         key={item.id}
                                         item={item}
+                                        now={now}
                                         isRetrying={retryingId === item.id}
                                         onRetry={() => handleRetryItem(item.id)}
                                     />
@@ -149,12 +187,20 @@ export function SyncDrawer({
 
 interface SyncQueueItemCardProps {
     item: SyncQueueItem;
+    now: number;
     isRetrying: boolean;
     onRetry: () => void;
 }
 
-function SyncQueueItemCard({ item, isRetrying, onRetry }: SyncQueueItemCardProps) {
+function SyncQueueItemCard({ item, now, isRetrying, onRetry }: SyncQueueItemCardProps) {
     const statusConfig = {
+        held: {
+            icon: <Undo2 size={16} />,
+            label: 'On hold',
+            bg: 'bg-slate-500/10',
+            border: 'border-slate-500/30',
+            text: 'text-slate-300'
+        },
         pending: {
             icon: <Clock size={16} />,
             label: 'Queued',
@@ -193,7 +239,8 @@ function SyncQueueItemCard({ item, isRetrying, onRetry }: SyncQueueItemCardProps
     };
 
     const config = statusConfig[item.status];
-    const showRetry = item.status === 'failed' && item.retry_count < item.max_retries;
+    // Manual retry is always offered for failed rows; it grants a fresh budget
+    const showRetry = item.status === 'failed';
 
     return (
         <motion.div
@@ -235,6 +282,18 @@ function SyncQueueItemCard({ item, isRetrying, onRetry }: SyncQueueItemCardProps
                             {item.error_message}
                         </p>
                     )}
+
+                    {item.status === 'failed' && item.next_attempt && (
+                        <p className="text-xs text-slate-400 mt-1">
+                            Retrying in {formatCountdown(item.next_attempt, now)}
+                        </p>
+                    )}
+
+                    {item.status === 'held' && item.next_attempt && (
+                        <p className="text-xs text-slate-400 mt-1">
+                            Can be undone for {formatCountdown(item.next_attempt, now)}
+                        </p>
+                    )}
                 </div>
 
                 {showRetry && (
@@ -1,7 +1,7 @@
 'use client';
 
 import React from 'react';
-import { WifiOff, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import { WifiOff, RefreshCw, AlertTriangle, CheckCircle, Undo2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 /**
@@ -14,6 +14,7 @@ import { motion, AnimatePresence } from 'framer-motion';
  * - Invisible during normal operation
  * - Appears after 5-10s delay when offline (hysteresis)
  * - Shows sync errors and retry status
+ * - Mentions payments still held in their undo window
  * - Disappears immediately upon successful reconnection
  * - Non-intrusive, bottom-fixed positioning
  */
@@ -24,6 +25,7 @@ interface SyncStatusBarProps {
     connectionQuality: 'excellent' | 'good' | 'poor' | 'offline';
     syncStatus: 'idle' | 'syncing' | 'success' | 'error';
     pendingCount?: number;
+    heldCount?: number; // Payments still inside their undo window (not sent yet)
     onRetrySync?: () => void;
 }
 
@@ -33,10 +35,11 @@ export function SyncStatusBar({
     connectionQuality,
     syncStatus,
     pendingCount = 0,
+    heldCount = 0,
     onRetrySync
 }: SyncStatusBarProps) {
     // Determine if bar should be visible
-    const shouldShow = showOfflineIndicator || syncStatus === 'syncing' || syncStatus === 'error';
+    const shouldShow = showOfflineIndicator || syncStatus === 'syncing' || syncStatus === 'error' || heldCount > 0;
 
     // Determine bar variant
     const getBarConfig = () => {
@@ -51,12 +54,15 @@ export function SyncStatusBar({
             };
         }
 
+        // Held payments aren't part of a running sync
+        const sendingCount = Math.max(0, pendingCount - heldCount);
+
         if (syncStatus === 'syncing') {
             return {
                 bg: 'bg-blue-900/90',
                 border: 'border-blue-500/50',
                 icon: <motion.div animate={{ rotate: 360 }} transition={{ repeat: Infinity, duration: 1, ease: 'linear' }}><RefreshCw size={16} /></motion.div>,
-                text: pendingCount > 0 ? `Syncing ${pendingCount} item${pendingCount > 1 ? 's' : ''}...` : 'Syncing...',
+                text: sendingCount > 0 ? `Syncing ${sendingCount} item${sendingCount > 1 ? 's' : ''}...` : 'Syncing...',
                 showRetry: false,
                 iconColor: 'text-blue-400'
             };
@@ -75,6 +81,17 @@ export function SyncStatusBar({
             };
         }
 
+        if (heldCount > 0) {
+            return {
+                bg: 'bg-slate-900/95',
+                border: 'border-slate-600',
+                icon: <Undo2 size={16} />,
+                text: `${heldCount} payment${heldCount > 1 ? 's' : ''} on hold - you can still undo`,
+                showRetry: false,
+                iconColor: 'text-slate-300'
+            };
+        }
+
         return null;
     };
 
@@ -127,16 +144,18 @@ export function SyncStatusBar({
  * Compact Sync Status Pill (for header)
  * 
  * Shows in header as a clickable indicator.
- * Green check when all synced, yellow clock with count when pending.
+ * Green check when all synced, yellow clock with count when pending,
+ * and an undo icon while everything queued is still on hold.
  */
 
 interface SyncStatusPillProps {
     queueCount: number;
+    heldCount?: number;
     hasFailed: boolean;
     onClick?: () => void;
 }
 
-export function SyncStatusPill({ queueCount, hasFailed, onClick }: SyncStatusPillProps) {
+export function SyncStatusPill({ queueCount, heldCount = 0, hasFailed, onClick }: SyncStatusPillProps) {
     if (queueCount === 0 && !hasFailed) {
         return (
             <motion.button
@@ -151,6 +170,19 @@ export function SyncStatusPill({ queueCount, hasFailed, onClick }: SyncStatusPil
         );
     }
 
+    // Nothing is being sent yet: no pulsing, no spinner
+    if (heldCount === queueCount && !hasFailed) {
+        return (
+            <button
+                onClick={onClick}
+                className="flex items-center gap-2 px-3 py-1.5 bg-slate-500/10 hover:bg-slate-500/20 text-slate-300 rounded-full transition-colors text-xs font-medium"
+            >
+                <Undo2 size={14} />
+                <span>{heldCount} on hold</span>
+            </button>
+        );
+    }
+
     return (
         <motion.button
             animate={{ scale: [1, 1.05, 1] }}
@@ -1,22 +1,41 @@
 'use client';
 
 import React, { useState } from 'react';
-import { CheckCircle2, Clock, AlertCircle, RefreshCw, Edit2, Trash2, ShoppingBag, Coffee, Home, Zap } from 'lucide-react';
+import {
+    CheckCircle2, Clock, AlertCircle, RefreshCw, Edit2, Trash2, ShoppingBag, Coffee, Home, Zap, Undo2,
+    Car, Receipt, Film, HeartPulse, ArrowLeftRight, Wallet
+} from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { OfflineTransaction } from '@/lib/types';
+import type { OfflineTransaction, TransactionCategory } from '@/lib/types';
+import { CATEGORY_LABELS, getTransactionCategory } from '@/lib/categories';
 import { updateTransactionStatus } from '@/lib/db';
+import { describeFailureReason } from '@/lib/syncErrors';
+import { isTransactionEditable } from '@/lib/offlineTransactions';
 
 /**
  * Transaction List Component - Enhanced for Offline-First
  * 
  * Implements sophisticated state visualization from UI roadmap:
- * - 4 distinct visual states (Confirmed, Pending, Syncing, Failed)
+ * - 5 distinct visual states (Confirmed, On hold, Pending, Syncing, Failed)
  * - Edit/Delete for pending transactions (grace period)
  * - Retry capability for failed items
  * - Animated state transitions
  * - Category icons with state overlays
  */
 
+const CATEGORY_ICONS: Record<TransactionCategory, React.ComponentType<{ size?: number }>> = {
+    food: Coffee,
+    shopping: ShoppingBag,
+    transport: Car,
+    bills: Receipt,
+    housing: Home,
+    entertainment: Film,
+    health: HeartPulse,
+    transfer: ArrowLeftRight,
+    income: Wallet,
+    other: Zap
+};
+
 interface TransactionListProps {
     transactions: OfflineTransaction[];
     isLoading?: boolean;
@@ -111,8 +130,8 @@ function TransactionItem({ transaction: tx, onEdit, onDelete, onRetry }: Transac
         minute: '2-digit'
     });
 
-    // Determine if transaction is editable (pending only)
-    const isEditable = tx.sync_status === 'pending';
+    // Editable until the sync engine first picks it up
+    const isEditable = isTransactionEditable(tx);
     const isRetryable = tx.sync_status === 'failed';
 
     // Status configuration with enhanced visuals
@@ -124,6 +143,13 @@ function TransactionItem({ transaction: tx, onEdit, onDelete, onRetry }: Transac
             borderClass: '',
             bgClass: ''
         },
+        held: {
+            icon: <Undo2 size={14} />,
+            label: 'On hold',
+            className: 'text-slate-300',
+            borderClass: 'border-l-2 border-slate-400/50',
+            bgClass: ''
+        },
         pending: {
             icon: <Clock size={14} />,
             label: 'Pending',
@@ -156,14 +182,9 @@ function TransactionItem({ transaction: tx, onEdit, onDelete, onRetry }: Transac
 
     const status = statusConfig[tx.sync_status];
 
-    // Get category icon (simple heuristic)
-    const getCategoryIcon = () => {
-        const desc = tx.description.toLowerCase();
-        if (desc.includes('coffee') || desc.includes('cafe')) return <Coffee size={20} />;
-        if (desc.includes('shop') || desc.includes('store')) return <ShoppingBag size={20} />;
-        if (desc.includes('rent') || desc.includes('home')) return <Home size={20} />;
-        return <Zap size={20} />;
-    };
+    // Stored category (rows from before categories are labelled by the keyword rules)
+    const category = getTransactionCategory(tx);
+    const CategoryIcon = CATEGORY_ICONS[category];
 
     const handleDelete = async () => {
         if (!onDelete || !window.confirm('Delete this pending transaction?')) return;
@@ -206,9 +227,9 @@ function TransactionItem({ transaction: tx, onEdit, onDelete, onRetry }: Transac
                 <div className="flex items-center gap-3">
                     {/* Category Icon with Status Overlay */}
                     <div className="relative">
-                        <div className={`p-2 rounded-lg ${isDebit ? 'bg-red-500/10' : 'bg-emerald-500/10'}`}>
+                        <div className={`p-2 rounded-lg ${isDebit ? 'bg-red-500/10' : 'bg-emerald-500/10'}`} title={CATEGORY_LABELS[category]}>
                             <div className={isDebit ? 'text-red-400' : 'text-emerald-400'}>
-                                {getCategoryIcon()}
+                                <CategoryIcon size={20} />
                             </div>
                         </div>
                         {/* Status Badge Overlay */}
@@ -226,12 +247,18 @@ function TransactionItem({ transaction: tx, onEdit, onDelete, onRetry }: Transac
                         </span>
                         <div className="flex items-center gap-2">
                             <span className="text-xs text-slate-500">{formattedDate}</span>
+                            <span className="text-xs text-slate-600">{CATEGORY_LABELS[category]}</span>
                             {tx.retry_count && tx.retry_count > 0 && (
                                 <span className="text-xs text-orange-400">
                                     (Retry {tx.retry_count})
                                 </span>
                             )}
                         </div>
+                        {(tx.sync_status === 'failed' || tx.sync_status === 'conflict') && tx.failure_reason && (
+                            <span className={`text-xs ${status.className}`}>
+                                {describeFailureReason(tx.failure_reason)}
+                            </span>
+                        )}
                     </div>
                 </div>
 
@@ -0,0 +1,132 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Undo2, Send, Loader2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { PendingTransactionResult } from '@/lib/offlineTransactions';
+import type { OfflineTransaction } from '@/lib/types';
+
+/**
+ * UndoToast Component
+ *
+ * Shown while a new payment sits in its undo window ('held', see
+ * lib/offlineTransactions). The payment already counts against the
+ * balance; nothing leaves the device until the countdown ends.
+ *
+ * Key features:
+ * - Countdown for the newest held payment, plus how many others are held
+ * - Undo takes the payment back; Send now skips the rest of the wait
+ * - Sits above open modals so QR and voice payments can be undone too
+ */
+
+interface UndoToastProps {
+    heldTransactions: OfflineTransaction[];
+    onUndo: (offlineId: string) => Promise<PendingTransactionResult>;
+    onSendNow: (offlineId: string) => Promise<void>;
+}
+
+export function UndoToast({ heldTransactions, onUndo, onSendNow }: UndoToastProps) {
+    const [now, setNow] = useState(() => Date.now());
+    const [busyId, setBusyId] = useState<string | null>(null);
+    // Failed undo, kept with the payment it was for so a new payment starts without it
+    const [undoError, setUndoError] = useState<{ offlineId: string; message: string } | null>(null);
+
+    const latest = heldTransactions.reduce<OfflineTransaction | null>(
+        (newest, tx) => (!newest || tx.timestamp > newest.timestamp ? tx : newest),
+        null
+    );
+
+    // Tick once a second while something is held so the countdown stays live,
+    // starting straight away so a new payment does not show the old time
+    useEffect(() => {
+        if (!latest) return;
+        const tick = () => setNow(Date.now());
+        const first = setTimeout(tick, 0);
+        const interval = setInterval(tick, 1000);
+        return () => {
+            clearTimeout(first);
+            clearInterval(interval);
+        };
+    }, [latest]);
+
+    const handleUndo = async (offlineId: string) => {
+        setBusyId(offlineId);
+        setUndoError(null);
+        const result = await onUndo(offlineId);
+        if (!result.ok) {
+            setUndoError({ offlineId, message: result.error });
+        }
+        setBusyId(null);
+    };
+
+    const handleSendNow = async (offlineId: string) => {
+        setBusyId(offlineId);
+        try {
+            await onSendNow(offlineId);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const secondsLeft = latest ? Math.max(0, Math.ceil(((latest.held_until ?? now) - now) / 1000)) : 0;
+    const othersHeld = heldTransactions.length - 1;
+    const isBusy = latest !== null && busyId === latest.offline_id;
+    const error = latest !== null && undoError?.offlineId === latest.offline_id ? undoError.message : null;
+
+    return (
+        <AnimatePresence>
+            {latest && (
+                <motion.div
+                    key="undo-toast"
+                    initial={{ y: 40, opacity: 0 }}
+                    animate={{ y: 0, opacity: 1 }}
+                    exit={{ y: 40, opacity: 0 }}
+                    transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+                    className="fixed bottom-20 sm:bottom-6 left-4 right-4 sm:left-auto sm:right-6 sm:w-96 z-[60] bg-slate-900/95 backdrop-blur-lg border border-white/10 rounded-2xl px-4 py-3 shadow-2xl"
+                    role="status"
+                >
+                    <div className="flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-white truncate">
+                                Paying {latest.amount.toLocaleString()} Rs
+                                {secondsLeft > 0 ? ` in ${secondsLeft}s` : '...'}
+                            </p>
+                            <p className="text-xs text-slate-400 truncate">
+                                {latest.description}
+                                {othersHeld > 0 && ` · ${othersHeld} more on hold`}
+                            </p>
+                        </div>
+
+                        {isBusy ? (
+                            <Loader2 className="w-4 h-4 text-indigo-400 animate-spin" />
+                        ) : (
+                            <>
+                                <button
+                                    type="button"
+                                    onClick={() => handleSendNow(latest.offline_id)}
+                                    className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                                    title="Send now"
+                                    aria-label="Send now"
+                                >
+                                    <Send className="w-4 h-4 text-slate-400" />
+                                </button>
+                                <button
+                                    type="button"
+                                    onClick={() => handleUndo(latest.offline_id)}
+                                    className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-500/20 hover:bg-indigo-500/30 text-indigo-300 rounded-lg transition-colors text-sm font-medium"
+                                >
+                                    <Undo2 className="w-4 h-4" />
+                                    Undo
+                                </button>
+                            </>
+                        )}
+                    </div>
+
+                    {error && (
+                        <p className="text-xs text-red-400 mt-2">{error}</p>
+                    )}
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -21,9 +21,21 @@ import { useConversationalVoice } from '@/hooks/useConversationalVoice';
 import { getIntentColor } from '@/lib/nlp/intentParser';
 import { useOnlineStatus } from '@/hooks/useOnlineStatus';
 import { voiceSynthesis } from '@/lib/nlp/voiceSynthesis';
+import { BudgetWarningBanner } from '@/components/BudgetWarningBanner';
+import { CategoryPicker } from '@/components/CategoryPicker';
+import { useBudgetWarnings } from '@/hooks/useBudgets';
+import { useCategorySuggestion } from '@/hooks/useCategorySuggestion';
+import { learnCategoryChoice } from '@/lib/categories';
+import type { TransactionCategory } from '@/lib/types';
 
 interface VoiceAssistantProps {
-    onTransaction: (amount: number, description: string, type: 'credit' | 'debit') => Promise<boolean>;
+    onTransaction: (
+        amount: number,
+        description: string,
+        type: 'credit' | 'debit',
+        category?: TransactionCategory
+    ) => Promise<boolean>;
+    userId?: string; // Enables learned category suggestions
     currentBalance?: number;
     onBalanceQuery?: () => Promise<number>;
     onTransactionsQuery?: () => Promise<string>;
@@ -32,6 +44,7 @@ interface VoiceAssistantProps {
 
 export function VoiceAssistant({ 
     onTransaction, 
+    userId,
     currentBalance,
     onBalanceQuery,
     onTransactionsQuery,
@@ -59,6 +72,26 @@ export function VoiceAssistant({
     const [showFeedback, setShowFeedback] = React.useState<'success' | 'error' | null>(null);
     const [showConversation, setShowConversation] = React.useState(false);
     
+    // Category for the transaction being confirmed: the suggestion unless the user picks one.
+    // A pick belongs to the command it was made for, so a new command starts from the suggestion again.
+    const commandKey = `${context.transactionType ?? ''}|${context.amount ?? ''}|${context.description ?? ''}`;
+    const [pick, setPick] = React.useState<{ commandKey: string; category: TransactionCategory } | null>(null);
+    const pickedCategory = pick?.commandKey === commandKey ? pick.category : null;
+    const { suggested: suggestedCategory } = useCategorySuggestion(
+        userId,
+        context.description ?? '',
+        context.state === 'confirming' || context.state === 'executing' ? context.transactionType : null,
+        context.amount ?? undefined
+    );
+    const category = pickedCategory ?? suggestedCategory ?? 'other';
+
+    // Budgets a payment being confirmed would go over
+    const budgetWarnings = useBudgetWarnings(
+        userId,
+        context.amount ?? NaN,
+        context.state === 'confirming' && context.transactionType === 'debit' ? category : null
+    );
+    
     // Text input fallback for offline mode
     const [textInput, setTextInput] = React.useState('');
     const [showTextInput, setShowTextInput] = React.useState(false);
@@ -91,9 +124,18 @@ export function VoiceAssistant({
             const success = await onTransaction(
                 lastCommand.amount,
                 lastCommand.description,
-                lastCommand.type
+                lastCommand.type,
+                category
             );
 
+            if (success && userId && suggestedCategory) {
+                learnCategoryChoice(userId, {
+                    description: lastCommand.description,
+                    type: lastCommand.type,
+                    amount: lastCommand.amount
+                }, suggestedCategory, category).catch(err => console.warn('Could not save category choice:', err));
+            }
+
             setShowFeedback(success ? 'success' : 'error');
             
             // Reset after showing feedback
@@ -113,7 +155,7 @@ export function VoiceAssistant({
         } finally {
             setIsProcessing(false);
         }
-    }, [lastCommand, onTransaction, resetConversation]);
+    }, [lastCommand, onTransaction, resetConversation, category, suggestedCategory, userId]);
 
     useEffect(() => {
         if (lastCommand && context.state === 'executing') {
@@ -404,6 +446,23 @@ export function VoiceAssistant({
                                             </div>
                                         )}
                                     </div>
+                                    {context.transactionType && (
+                                        <div className="mt-3">
+                                            <span className="block text-xs text-slate-400 mb-2">Category</span>
+                                            <CategoryPicker
+                                                value={category}
+                                                suggested={suggestedCategory}
+                                                type={context.transactionType}
+                                                onChange={picked => setPick({ commandKey, category: picked })}
+                                                disabled={isProcessing}
+                                            />
+                                        </div>
+                                    )}
+                                    {budgetWarnings.length > 0 && (
+                                        <div className="mt-3">
+                                            <BudgetWarningBanner warnings={budgetWarnings} />
+                                        </div>
+                                    )}
                                 </div>
                             )}
 
@@ -431,7 +490,7 @@ export function VoiceAssistant({
                                         className="flex-1 primary-button flex items-center justify-center gap-2"
                                     >
                                         <Check className="w-4 h-4" />
-                                        Confirm
+                                        {budgetWarnings.length > 0 ? 'Confirm Anyway' : 'Confirm'}
                                     </button>
                                     <button
                                         onClick={cancelTransaction}
@@ -0,0 +1,77 @@
+'use client';
+
+import { useLiveQuery } from 'dexie-react-hooks';
+import {
+    checkBudgets,
+    getBudgetStatuses,
+    removeBudget,
+    setBudget,
+    type BudgetResult,
+    type BudgetStatus,
+    type BudgetWarning
+} from '@/lib/budgets';
+import { syncScheduler } from '@/lib/syncScheduler';
+import { tabCoordinator } from '@/lib/tabCoordinator';
+import type { BudgetScope, TransactionCategory } from '@/lib/types';
+
+/**
+ * useBudgets Hook
+ *
+ * The signed-in user's monthly budgets with this month's spending (see
+ * lib/budgets). Setting or removing one works offline and reaches the
+ * server and the account's other devices at the next sync.
+ */
+
+interface UseBudgetsResult {
+    budgets: BudgetStatus[]; // Overall first
+    isLoading: boolean;
+    set: (scope: BudgetScope, amount: number) => Promise<BudgetResult>;
+    remove: (scope: BudgetScope) => Promise<BudgetResult>;
+}
+
+export function useBudgets(userId: string | null): UseBudgetsResult {
+    // Reads budgets and transactions, so new spending updates it too
+    const budgets = useLiveQuery(
+        () => (userId ? getBudgetStatuses(userId) : []),
+        [userId]
+    );
+
+    const afterChange = (result: BudgetResult): BudgetResult => {
+        if (!result.ok || !userId) return result;
+
+        tabCoordinator.announceUpdate(userId);
+        if (navigator.onLine) {
+            syncScheduler.runNow().catch(err => console.error('Scheduled sync error:', err));
+        }
+        return result;
+    };
+
+    return {
+        budgets: budgets ?? [],
+        isLoading: budgets === undefined,
+        set: async (scope, amount) => {
+            if (!userId) return { ok: false, error: 'Not signed in' };
+            return afterChange(await setBudget(userId, scope, amount));
+        },
+        remove: async scope => {
+            if (!userId) return { ok: false, error: 'Not signed in' };
+            return afterChange(await removeBudget(userId, scope));
+        }
+    };
+}
+
+/**
+ * Budgets a payment about to be made would go over (empty if none)
+ * Follows the ledger live, so a payment synced meanwhile is included.
+ */
+export function useBudgetWarnings(
+    userId: string | null | undefined,
+    amount: number,
+    category: TransactionCategory | null
+): BudgetWarning[] {
+    const warnings = useLiveQuery(
+        () => (userId && category ? checkBudgets(userId, amount, category) : []),
+        [userId, amount, category]
+    );
+    return warnings ?? [];
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { categorizeByRules, suggestCategory, type CategoryInput } from '@/lib/categories';
+import type { TransactionCategory, TransactionType } from '@/lib/types';
+
+/**
+ * useCategorySuggestion Hook
+ *
+ * The category lib/categories would file a transaction under, updated as
+ * the user types. Falls back to the keyword rules alone without a user
+ * (no learned corrections or history to draw on).
+ */
+
+interface UseCategorySuggestionResult {
+    suggested: TransactionCategory | null; // null until there is something to categorize
+}
+
+// Wait for typing to pause before reading Dexie
+const DEBOUNCE_MS = 250;
+
+export function useCategorySuggestion(
+    userId: string | null | undefined,
+    description: string,
+    type: TransactionType | null,
+    amount?: number,
+    recipientId?: string
+): UseCategorySuggestionResult {
+    const [suggested, setSuggested] = useState<TransactionCategory | null>(null);
+
+    // Losing the type clears the suggestion, so the next transaction does not start from a stale one
+    const [lastType, setLastType] = useState(type);
+    if (type !== lastType) {
+        setLastType(type);
+        if (!type) setSuggested(null);
+    }
+
+    useEffect(() => {
+        if (!type) return;
+
+        const input: CategoryInput = {
+            description,
+            type,
+            amount: amount !== undefined && Number.isFinite(amount) && amount > 0 ? amount : undefined,
+            recipientId
+        };
+
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            const suggestion = userId ? suggestCategory(userId, input) : Promise.resolve(categorizeByRules(input));
+            suggestion
+                .then(category => {
+                    if (!cancelled) setSuggested(category);
+                })
+                .catch(err => {
+                    console.warn('Category suggestion failed:', err);
+                    if (!cancelled) setSuggested(categorizeByRules(input));
+                });
+        }, DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [userId, description, type, amount, recipientId]);
+
+    return { suggested };
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { db } from '@/lib/db';
+import { listDevices, revokeDevice } from '@/lib/deviceKeys';
+import type { DeviceInfo } from '@/lib/types';
+
+/**
+ * useDevices Hook
+ *
+ * The devices registered to the signed-in account (see lib/deviceKeys).
+ * Listing and revoking need the server, so both are online-only.
+ */
+
+interface UseDevicesResult {
+    devices: DeviceInfo[];
+    currentDeviceId: string | null; // This browser's device, which cannot revoke itself
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+    revoke: (deviceId: string) => Promise<boolean>;
+}
+
+export function useDevices(userId: string | null): UseDevicesResult {
+    const [devices, setDevices] = useState<DeviceInfo[]>([]);
+    const [currentDeviceId, setCurrentDeviceId] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // Loads without touching state until the load settles, so the first
+    // load from the effect below does not render twice
+    const load = useCallback(() => {
+        const fetchDevices = async (): Promise<{ deviceId: string | null; devices?: DeviceInfo[]; error: string | null } | null> => {
+            if (!userId) return null;
+
+            const deviceKey = await db.deviceKeys.get(userId);
+            const deviceId = deviceKey?.device_id ?? null;
+
+            if (!navigator.onLine) {
+                return { deviceId, error: 'Connect to the internet to manage devices' };
+            }
+
+            try {
+                return { deviceId, devices: await listDevices(), error: null };
+            } catch (err) {
+                console.error('Failed to load devices:', err);
+                return { deviceId, error: 'Could not load devices' };
+            }
+        };
+
+        return fetchDevices()
+            .then(loaded => {
+                if (!loaded) return;
+                setCurrentDeviceId(loaded.deviceId);
+                if (loaded.devices) setDevices(loaded.devices);
+                setError(loaded.error);
+            })
+            .finally(() => setIsLoading(false));
+    }, [userId]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    // Later loads (manual refresh, after a revoke) show the loading state again
+    const refresh = useCallback(() => {
+        setIsLoading(true);
+        return load();
+    }, [load]);
+
+    const revoke = async (deviceId: string): Promise<boolean> => {
+        if (deviceId === currentDeviceId) return false;
+
+        try {
+            await revokeDevice(deviceId);
+            await refresh();
+            return true;
+        } catch (err) {
+            console.error('Failed to revoke device:', err);
+            setError(err instanceof Error ? err.message : 'Could not revoke device');
+            return false;
+        }
+    };
+
+    return { devices, currentDeviceId, isLoading, error, refresh, revoke };
+}
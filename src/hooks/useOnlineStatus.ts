@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { syncOfflineTransactions } from '@/lib/syncEngine';
+import { syncScheduler } from '@/lib/syncScheduler';
 
 /**
  * useOnlineStatus Hook - Enhanced with Hysteresis
@@ -83,7 +83,8 @@ export function useOnlineStatus(): UseOnlineStatusResult {
         setSyncStatus('syncing');
         setLastSyncError(null); // Clear previous error
         try {
-            await syncOfflineTransactions(userId);
+            syncScheduler.start(userId);
+            await syncScheduler.runNow();
             setSyncStatus('success');
             setTimeout(() => setSyncStatus('idle'), 2000);
         } catch (err) {
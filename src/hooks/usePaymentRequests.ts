@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { supabase } from '@/lib/supabase';
+import {
+    getCachedPaymentRequests,
+    getQueuedRequestPayments,
+    isOpenRequest,
+    listPaymentRequests,
+    type PaymentRequestLists
+} from '@/lib/paymentRequests';
+import type { PaymentRequest } from '@/lib/types';
+
+/**
+ * usePaymentRequests Hook
+ *
+ * The signed-in user's request inbox (see lib/paymentRequests): requests
+ * they received and sent, refreshed in realtime. Reports new incoming
+ * requests and reminder nudges so the dashboard can surface the inbox.
+ * Offline, the last fetched inbox is shown, with payments queued on this
+ * device (queuedAmounts) counted against what is still owed.
+ */
+
+interface UsePaymentRequestsResult {
+    incoming: PaymentRequest[];
+    outgoing: PaymentRequest[];
+    openIncomingCount: number;
+    queuedAmounts: Record<string, number>; // Unsynced payments per request ID
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+interface UsePaymentRequestsOptions {
+    // A new request arrived, or the requester sent a reminder
+    onNudge?: (request: PaymentRequest) => void;
+}
+
+export function usePaymentRequests(
+    userId: string | null,
+    options: UsePaymentRequestsOptions = {}
+): UsePaymentRequestsResult {
+    const [incoming, setIncoming] = useState<PaymentRequest[]>([]);
+    const [outgoing, setOutgoing] = useState<PaymentRequest[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // Last seen reminder per incoming request, to tell nudges from other updates
+    const remindedAtRef = useRef<Map<string, number | null> | null>(null);
+    const onNudgeRef = useRef(options.onNudge);
+    useEffect(() => {
+        onNudgeRef.current = options.onNudge;
+    });
+
+    const queuedAmounts = useLiveQuery(
+        () => (userId ? getQueuedRequestPayments(userId) : {}),
+        [userId]
+    ) ?? {};
+
+    const refresh = useCallback(() => {
+        // Loads without touching state; it is applied once the load settles,
+        // so the effect below does not render twice. An undefined error
+        // leaves the current one in place.
+        const load = async (): Promise<{ lists: PaymentRequestLists | null; error?: string | null }> => {
+            if (!userId) return { lists: null };
+            if (!navigator.onLine) return { lists: await getCachedPaymentRequests(userId) };
+
+            try {
+                const lists = await listPaymentRequests(userId);
+
+                // Nothing to report on the first load: the badge covers what was already waiting
+                const seen = remindedAtRef.current;
+                if (seen) {
+                    const nudge = lists.incoming.find(request =>
+                        isOpenRequest(request) &&
+                        (!seen.has(request.id) || seen.get(request.id) !== request.last_reminded_at)
+                    );
+                    if (nudge) {
+                        console.log('🔔 Payment request nudge:', nudge.id);
+                        onNudgeRef.current?.(nudge);
+                    }
+                }
+                remindedAtRef.current = new Map(
+                    lists.incoming.map(request => [request.id, request.last_reminded_at])
+                );
+
+                return { lists, error: null };
+            } catch (err) {
+                console.error('Failed to load payment requests:', err);
+                return { lists: await getCachedPaymentRequests(userId), error: 'Could not load payment requests' };
+            }
+        };
+
+        return load()
+            .then(({ lists, error }) => {
+                if (lists) {
+                    setIncoming(lists.incoming);
+                    setOutgoing(lists.outgoing);
+                }
+                if (error !== undefined) setError(error);
+            })
+            .finally(() => setIsLoading(false));
+    }, [userId]);
+
+    useEffect(() => {
+        remindedAtRef.current = null;
+        refresh();
+    }, [refresh]);
+
+    // Requests to and from this user, from any device
+    useEffect(() => {
+        if (!userId) return;
+
+        const channel = supabase
+            .channel('payment-requests')
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'payment_requests',
+                    filter: `payer_id=eq.${userId}`
+                },
+                () => {
+                    refresh();
+                }
+            )
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'payment_requests',
+                    filter: `requester_id=eq.${userId}`
+                },
+                () => {
+                    refresh();
+                }
+            )
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    }, [userId, refresh]);
+
+    // Expiry is applied when requests are listed; pick it up when the user comes back
+    useEffect(() => {
+        window.addEventListener('online', refresh);
+        window.addEventListener('focus', refresh);
+        return () => {
+            window.removeEventListener('online', refresh);
+            window.removeEventListener('focus', refresh);
+        };
+    }, [refresh]);
+
+    const openIncomingCount = incoming.filter(isOpenRequest).length;
+
+    return { incoming, outgoing, openIncomingCount, queuedAmounts, isLoading, error, refresh };
+}
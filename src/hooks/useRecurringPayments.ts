@@ -0,0 +1,74 @@
+'use client';
+
+import { useLiveQuery } from 'dexie-react-hooks';
+import {
+    createRecurringPayment,
+    endRecurringPayment,
+    getRecurringPayments,
+    pauseRecurringPayment,
+    resumeRecurringPayment,
+    skipNextRun,
+    updateRecurringPayment,
+    type NewRecurringPayment,
+    type RecurringPaymentChanges,
+    type RecurringPaymentResult
+} from '@/lib/recurringPayments';
+import { recurringScheduler } from '@/lib/recurringScheduler';
+import { syncScheduler } from '@/lib/syncScheduler';
+import { tabCoordinator } from '@/lib/tabCoordinator';
+import type { RecurringPayment } from '@/lib/types';
+
+/**
+ * useRecurringPayments Hook
+ *
+ * The signed-in user's scheduled and recurring payments (see
+ * lib/recurringPayments). Every action works offline: it edits the local
+ * schedule, re-arms the recurring scheduler and reaches the server and the
+ * account's other devices at the next sync.
+ */
+
+interface UseRecurringPaymentsResult {
+    payments: RecurringPayment[]; // Soonest next run first, ended last
+    isLoading: boolean;
+    create: (input: NewRecurringPayment) => Promise<RecurringPaymentResult>;
+    update: (id: string, changes: RecurringPaymentChanges) => Promise<RecurringPaymentResult>;
+    pause: (id: string) => Promise<RecurringPaymentResult>;
+    resume: (id: string) => Promise<RecurringPaymentResult>;
+    skipNext: (id: string) => Promise<RecurringPaymentResult>;
+    end: (id: string) => Promise<RecurringPaymentResult>;
+}
+
+export function useRecurringPayments(userId: string | null): UseRecurringPaymentsResult {
+    const payments = useLiveQuery(
+        () => (userId ? getRecurringPayments(userId) : []),
+        [userId]
+    );
+
+    // Pay anything the change made due, then let the leader and the server know
+    const afterChange = async (result: RecurringPaymentResult): Promise<RecurringPaymentResult> => {
+        if (!result.ok || !userId) return result;
+
+        await recurringScheduler.runNow();
+        tabCoordinator.announceUpdate(userId);
+        if (navigator.onLine) {
+            syncScheduler.runNow().catch(err => console.error('Scheduled sync error:', err));
+        }
+        return result;
+    };
+
+    const create = async (input: NewRecurringPayment): Promise<RecurringPaymentResult> => {
+        if (!userId) return { ok: false, error: 'Not signed in' };
+        return afterChange(await createRecurringPayment(userId, input));
+    };
+
+    return {
+        payments: payments ?? [],
+        isLoading: payments === undefined,
+        create,
+        update: async (id, changes) => afterChange(await updateRecurringPayment(id, changes)),
+        pause: async id => afterChange(await pauseRecurringPayment(id)),
+        resume: async id => afterChange(await resumeRecurringPayment(id)),
+        skipNext: async id => afterChange(await skipNextRun(id)),
+        end: async id => afterChange(await endRecurringPayment(id))
+    };
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/lib/supabase';
+import { listRequestGroups } from '@/lib/splitRequests';
+import type { RequestGroup } from '@/lib/types';
+
+/**
+ * useRequestGroups Hook
+ *
+ * Split bills the signed-in user sent (see lib/splitRequests), refreshed
+ * in realtime as payers approve or reject their share. Online-only.
+ */
+
+interface UseRequestGroupsResult {
+    groups: RequestGroup[];
+    isLoading: boolean;
+    error: string | null;
+    refresh: () => Promise<void>;
+}
+
+export function useRequestGroups(userId: string | null): UseRequestGroupsResult {
+    const [groups, setGroups] = useState<RequestGroup[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // State is only set once the load settles, so the effect below does not render twice
+    const refresh = useCallback(() => {
+        const load = userId && navigator.onLine ? listRequestGroups() : Promise.resolve(null);
+        return load
+            .then(loaded => {
+                if (!loaded) return;
+                setGroups(loaded);
+                setError(null);
+            })
+            .catch(err => {
+                console.error('Failed to load split requests:', err);
+                setError('Could not load split requests');
+            })
+            .finally(() => setIsLoading(false));
+    }, [userId]);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    // New bills (from any tab or device) and payers answering their share
+    useEffect(() => {
+        if (!userId) return;
+
+        const channel = supabase
+            .channel('split-requests')
+            .on(
+                'postgres_changes',
+                {
+                    event: '*',
+                    schema: 'public',
+                    table: 'request_groups',
+                    filter: `requester_id=eq.${userId}`
+                },
+                () => {
+                    refresh();
+                }
+            )
+            .on(
+                'postgres_changes',
+                {
+                    event: 'UPDATE',
+                    schema: 'public',
+                    table: 'payment_requests',
+                    filter: `requester_id=eq.${userId}`
+                },
+                () => {
+                    refresh();
+                }
+            )
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    }, [userId, refresh]);
+
+    return { groups, isLoading, error, refresh };
+}
@@ -1,11 +1,32 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { db, addOfflineTransaction, getWalletState, updateWalletState, getPendingTransactions } from '@/lib/db';
-import { generateSignature, generateOfflineId } from '@/utils/crypto';
-import { syncOfflineTransactions, syncWalletFromServer } from '@/lib/syncEngine';
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
+import {
+    applyServerBalance,
+    getWalletState,
+    getPendingTransactions,
+    updateWalletPendingAmounts,
+    updateWalletState
+} from '@/lib/db';
+import { getAllowanceStatus } from '@/lib/offlineAllowance';
+import {
+    deletePendingTransaction,
+    editPendingTransaction,
+    recordOfflineTransaction,
+    releaseHeldTransaction,
+    undoHeldTransaction,
+    UNDO_WINDOW_MS,
+    type PendingTransactionChanges,
+    type PendingTransactionResult
+} from '@/lib/offlineTransactions';
+import { recordRequestPayment } from '@/lib/paymentRequests';
+import { recordReceivedVoucher } from '@/lib/paymentVoucher';
+import { syncWalletFromServer } from '@/lib/syncEngine';
+import { recurringScheduler } from '@/lib/recurringScheduler';
+import { syncScheduler } from '@/lib/syncScheduler';
+import { tabCoordinator } from '@/lib/tabCoordinator';
 import { supabase } from '@/lib/supabase';
-import type { OfflineTransaction, WalletState, TransactionType } from '@/lib/types';
+import type { PaymentRequest, PaymentVoucher, QRPaymentIntent, WalletState, TransactionCategory, TransactionType } from '@/lib/types';
 
 /**
  * useShadowTransaction Hook
@@ -22,22 +43,82 @@ import type { OfflineTransaction, WalletState, TransactionType } from '@/lib/typ
  * - Server balance reconciliation
  */
 
+interface OfflineAllowanceSummary {
+    limit: number;
+    remaining: number;
+    expiresAt: number;
+    expired: boolean;
+}
+
 interface UseShadowTransactionResult {
     shadowBalance: number;
     cachedBalance: number;
+    pendingDebits: number;
+    pendingCredits: number;
     pendingCount: number;
+    offlineAllowance: OfflineAllowanceSummary | null; // What this device may still spend offline
+    otherDevicesReserved: number; // What the account's other devices may be spending offline
     isLoading: boolean;
     isOnline: boolean;
-    addTransaction: (amount: number, description: string, type: TransactionType, recipientId?: string) => Promise<boolean>;
+    addTransaction: (
+        amount: number,
+        description: string,
+        type: TransactionType,
+        recipientId?: string,
+        qrIntent?: QRPaymentIntent,
+        category?: TransactionCategory
+    ) => Promise<boolean>;
+    receiveVoucher: (voucher: PaymentVoucher) => Promise<boolean>;
+    payRequest: (
+        request: PaymentRequest,
+        amount: number,
+        queued?: number
+    ) => Promise<{ ok: true } | { ok: false; error: string }>;
+    editTransaction: (offlineId: string, changes: PendingTransactionChanges) => Promise<PendingTransactionResult>;
+    deleteTransaction: (offlineId: string) => Promise<PendingTransactionResult>;
+    undoTransaction: (offlineId: string) => Promise<PendingTransactionResult>; // Take back a held payment
+    releaseTransaction: (offlineId: string) => Promise<void>; // Send a held payment without waiting
     refreshBalance: () => Promise<void>;
     syncNow: () => Promise<void>;
 }
 
+// Browser connectivity, for useSyncExternalStore
+// (the scheduler itself triggers a sync when coming back online)
+function subscribeToOnlineStatus(onChange: () => void): () => void {
+    window.addEventListener('online', onChange);
+    window.addEventListener('offline', onChange);
+    return () => {
+        window.removeEventListener('online', onChange);
+        window.removeEventListener('offline', onChange);
+    };
+}
+
 export function useShadowTransaction(userId: string | null): UseShadowTransactionResult {
     const [walletState, setWalletState] = useState<WalletState | null>(null);
     const [pendingCount, setPendingCount] = useState(0);
+    const [offlineAllowance, setOfflineAllowance] = useState<OfflineAllowanceSummary | null>(null);
+    const [otherDevicesReserved, setOtherDevicesReserved] = useState(0);
     const [isLoading, setIsLoading] = useState(true);
-    const [isOnline, setIsOnline] = useState(true);
+    const isOnline = useSyncExternalStore(subscribeToOnlineStatus, () => navigator.onLine, () => true);
+
+    // Re-read how much of this device's offline allowance is left,
+    // and what the account's other devices may still be spending
+    const loadAllowance = useCallback(async () => {
+        if (!userId) return;
+
+        const [status, wallet] = await Promise.all([getAllowanceStatus(userId), getWalletState(userId)]);
+        setOfflineAllowance(status && {
+            limit: status.allowance.limit,
+            remaining: status.remaining,
+            expiresAt: status.allowance.expires_at,
+            expired: status.expired
+        });
+
+        const now = Date.now();
+        setOtherDevicesReserved((wallet?.other_devices ?? [])
+            .filter(device => device.expires_at > now)
+            .reduce((sum, device) => sum + device.unsynced_max, 0));
+    }, [userId]);
 
     // Load initial wallet state
     const loadWalletState = useCallback(async () => {
@@ -47,12 +128,16 @@ export function useShadowTransaction(userId: string | null): UseShadowTransactio
         }
 
         try {
+            // Only the sync leader tab talks to Supabase; followers read ResilientDB
+            await tabCoordinator.ready();
+            const isLeader = tabCoordinator.isLeader();
+
             let state = await getWalletState(userId);
 
             // ALWAYS try to fetch latest balance from Supabase when online
             // This ensures recipients see incoming P2P transfers
             let serverBalance: number | null = null;
-            if (navigator.onLine) {
+            if (navigator.onLine && isLeader) {
                 try {
                     const { data: profile, error } = await supabase
                         .from('profiles')
@@ -70,79 +155,82 @@ export function useShadowTransaction(userId: string | null): UseShadowTransactio
             }
 
             // Initialize if doesn't exist OR update with server balance
-            if (!state) {
-                // First time - create new wallet state
-                const initialBalance = serverBalance ?? 10000; // Fallback default
-                state = {
+            if (!state && serverBalance === null) {
+                // First time offline - create new wallet state
+                const initialBalance = 10000; // Fallback default
+                await updateWalletState({
                     id: userId,
                     cached_balance: initialBalance,
                     shadow_balance: initialBalance,
                     last_updated: Date.now()
-                };
-                await updateWalletState(state);
-            } else if (serverBalance !== null) {
-                // Existing wallet - update cached_balance from server
-                state = {
-                    ...state,
-                    cached_balance: serverBalance,
-                    last_updated: Date.now()
-                };
-                await updateWalletState(state);
+                });
             }
 
-            // Recalculate shadow balance based on pending transactions
-            const pending = await getPendingTransactions(userId);
-            let pendingDebits = 0;
-            let pendingCredits = 0;
-
-            pending.forEach(tx => {
-                if (tx.type === 'debit') {
-                    pendingDebits += tx.amount;
-                } else {
-                    pendingCredits += tx.amount;
-                }
-            });
-
-            const calculatedShadow = state.cached_balance - pendingDebits + pendingCredits;
+            // Replay pending transactions on top of the server balance (see lib/ledger)
+            state = serverBalance !== null
+                ? await applyServerBalance(userId, serverBalance)
+                : await updateWalletPendingAmounts(userId);
 
-            setWalletState({
-                ...state,
-                shadow_balance: calculatedShadow
-            });
+            const pending = await getPendingTransactions(userId);
+            setWalletState(state ?? null);
             setPendingCount(pending.length);
+            await loadAllowance();
 
             // Download latest transactions from server (including incoming P2P transfers)
-            if (navigator.onLine) {
-                syncWalletFromServer(userId).catch(console.error);
+            if (navigator.onLine && isLeader) {
+                syncWalletFromServer(userId)
+                    .then(() => tabCoordinator.announceUpdate(userId))
+                    .catch(console.error);
             }
         } catch (err) {
             console.error('Error loading wallet state:', err);
         } finally {
             setIsLoading(false);
         }
-    }, [userId]);
+    }, [userId, loadAllowance]);
 
-    // Handle online/offline status
+    // Hand the user's queue to the sync scheduler and refresh after each run
     useEffect(() => {
-        setIsOnline(navigator.onLine);
+        if (!userId) return;
 
-        const handleOnline = () => {
-            setIsOnline(true);
-            // Trigger sync when coming back online
-            if (userId) {
-                syncNow();
+        syncScheduler.start(userId);
+        const unsubscribe = syncScheduler.onSyncComplete(result => {
+            if (result) {
+                loadWalletState();
             }
+        });
+
+        return () => {
+            unsubscribe();
+            syncScheduler.stop();
         };
-        const handleOffline = () => setIsOnline(false);
+    }, [userId, loadWalletState]);
 
-        window.addEventListener('online', handleOnline);
-        window.addEventListener('offline', handleOffline);
+    // Pay scheduled payments as they fall due, even offline
+    useEffect(() => {
+        if (!userId) return;
+
+        recurringScheduler.start(userId);
+        const unsubscribe = recurringScheduler.onRun(() => {
+            loadWalletState();
+        });
 
         return () => {
-            window.removeEventListener('online', handleOnline);
-            window.removeEventListener('offline', handleOffline);
+            unsubscribe();
+            recurringScheduler.stop();
         };
-    }, [userId]);
+    }, [userId, loadWalletState]);
+
+    // Another tab synced or down-synced: re-read the shared ledger
+    useEffect(() => {
+        if (!userId) return;
+
+        return tabCoordinator.onRemoteUpdate(updatedUserId => {
+            if (updatedUserId === userId) {
+                loadWalletState();
+            }
+        });
+    }, [userId, loadWalletState]);
 
     // Load wallet state on mount
     useEffect(() => {
@@ -151,99 +239,204 @@ export function useShadowTransaction(userId: string | null): UseShadowTransactio
 
     /**
      * Add a new offline transaction
+     * Payments are held for UNDO_WINDOW_MS first; the scheduler sends them
+     * once the window closes.
      * @param recipientId - Optional recipient ID for P2P transfers
+     * @param category - The user's pick; suggested from the description when omitted
      */
     const addTransaction = async (
         amount: number,
         description: string,
         type: TransactionType,
-        recipientId?: string
+        recipientId?: string,
+        qrIntent?: QRPaymentIntent,
+        category?: TransactionCategory
     ): Promise<boolean> => {
         if (!userId || !walletState) {
             console.error('Cannot add transaction: No user or wallet state');
             return false;
         }
 
-        // SEC-08 Fix: Prevent self-payment
-        if (recipientId && recipientId === userId) {
-            console.error('Cannot pay yourself');
+        try {
+            const result = await recordOfflineTransaction(userId, {
+                amount,
+                description,
+                type,
+                recipientId,
+                qrIntent,
+                holdMs: type === 'debit' ? UNDO_WINDOW_MS : 0,
+                category
+            });
+
+            if (!result.ok) {
+                console.error(result.error);
+                await loadAllowance();
+                return false;
+            }
+
+            if (result.wallet) {
+                setWalletState(result.wallet);
+            }
+            setPendingCount(prev => prev + 1);
+            await loadAllowance();
+
+            // Try to sync if online, otherwise just update the schedule
+            // (a held payment is picked up when its undo window closes)
+            if (isOnline && result.transaction.sync_status === 'pending') {
+                syncNow();
+            } else {
+                syncScheduler.reschedule();
+            }
+
+            return true;
+        } catch (err) {
+            console.error('Error adding transaction:', err);
             return false;
         }
+    };
 
-        // SEC-04 Fix: Validate amount is positive and finite
-        if (!Number.isFinite(amount) || amount <= 0) {
-            console.error('Invalid amount: must be a positive number');
-            return false;
+    /**
+     * Pay (all or part of) a payment request through the shadow ledger
+     * Works offline; the sync engine settles it against the request.
+     * @param queued - Already paid towards the request here but not synced yet
+     */
+    const payRequest = async (
+        request: PaymentRequest,
+        amount: number,
+        queued: number = 0
+    ): Promise<{ ok: true } | { ok: false; error: string }> => {
+        if (!userId || !walletState) {
+            return { ok: false, error: 'Wallet is still loading' };
         }
 
-        // SEC-06 Fix: Sanitize description
-        const safeDescription = description
-            .replace(/[<>]/g, '') // Remove angle brackets (XSS prevention)
-            .replace(/javascript:/gi, '') // Remove JS protocol
-            .slice(0, 100) // Limit length
-            || 'Transaction';
+        try {
+            const result = await recordRequestPayment(userId, request, amount, queued);
 
-        // SEC-05 Fix: Round amount to 2 decimal places
-        const safeAmount = Math.round(amount * 100) / 100;
+            if (!result.ok) {
+                await loadAllowance();
+                return result;
+            }
 
-        // Double-check safeAmount is still valid after rounding
-        if (safeAmount <= 0) {
-            console.error('Amount too small');
-            return false;
+            if (result.wallet) {
+                setWalletState(result.wallet);
+            }
+            setPendingCount(prev => prev + 1);
+            await loadAllowance();
+
+            if (isOnline) {
+                syncNow();
+            } else {
+                syncScheduler.reschedule();
+            }
+
+            return { ok: true };
+        } catch (err) {
+            console.error('Error paying request:', err);
+            return { ok: false, error: 'Could not record the payment' };
         }
+    };
 
-        // Check sufficient balance for debits
-        if (type === 'debit' && walletState.shadow_balance < safeAmount) {
-            console.error('Insufficient shadow balance');
-            return false;
+    /**
+     * Change a pending transaction (amount, description, recipient) and re-sign it
+     * Refused once the row has started syncing.
+     */
+    const editTransaction = async (
+        offlineId: string,
+        changes: PendingTransactionChanges
+    ): Promise<PendingTransactionResult> => {
+        if (!userId) {
+            return { ok: false, error: 'Not signed in' };
+        }
+
+        const result = await editPendingTransaction(userId, offlineId, changes);
+        if (result.ok && result.wallet) {
+            setWalletState(result.wallet);
+        }
+        await loadAllowance();
+        return result;
+    };
+
+    /**
+     * Void a pending transaction before it syncs
+     */
+    const deleteTransaction = async (offlineId: string): Promise<PendingTransactionResult> => {
+        if (!userId) {
+            return { ok: false, error: 'Not signed in' };
         }
 
+        const result = await deletePendingTransaction(userId, offlineId);
+        if (result.ok) {
+            if (result.wallet) {
+                setWalletState(result.wallet);
+            }
+            setPendingCount(prev => Math.max(0, prev - 1));
+            await loadAllowance();
+            syncScheduler.reschedule();
+        }
+        return result;
+    };
+
+    /**
+     * Undo a payment still inside its undo window
+     */
+    const undoTransaction = async (offlineId: string): Promise<PendingTransactionResult> => {
+        if (!userId) {
+            return { ok: false, error: 'Not signed in' };
+        }
+
+        const result = await undoHeldTransaction(userId, offlineId);
+        if (result.ok) {
+            if (result.wallet) {
+                setWalletState(result.wallet);
+            }
+            setPendingCount(prev => Math.max(0, prev - 1));
+            await loadAllowance();
+            syncScheduler.reschedule();
+        }
+        return result;
+    };
+
+    /**
+     * Close a held payment's undo window now and send it
+     */
+    const releaseTransaction = async (offlineId: string): Promise<void> => {
+        if (!userId) return;
+
+        if (await releaseHeldTransaction(userId, offlineId)) {
+            if (isOnline) {
+                syncNow();
+            } else {
+                syncScheduler.reschedule();
+            }
+        }
+    };
+
+    /**
+     * Record a payment voucher scanned from the payer's device
+     * The voucher must already be verified (see verifyPaymentVoucher).
+     */
+    const receiveVoucher = async (voucher: PaymentVoucher): Promise<boolean> => {
+        if (!userId) return false;
+
         try {
-            const timestamp = Date.now();
-            const offlineId = generateOfflineId();
-            const signature = await generateSignature(userId, offlineId, safeAmount, timestamp);
-
-            const transaction: OfflineTransaction = {
-                offline_id: offlineId,
-                user_id: userId,
-                recipient_id: recipientId, // For P2P transfers
-                amount: safeAmount,
-                type,
-                description: safeDescription,
-                timestamp,
-                signature,
-                sync_status: 'pending',
-                created_at: new Date(timestamp).toISOString()
-            };
-
-            // Add to local database
-            await addOfflineTransaction(transaction);
-
-            // Update shadow balance immediately
-            const newShadow = type === 'debit'
-                ? walletState.shadow_balance - safeAmount
-                : walletState.shadow_balance + safeAmount;
-
-            const updatedState: WalletState = {
-                ...walletState,
-                shadow_balance: newShadow,
-                last_updated: timestamp
-            };
-
-            await updateWalletState(updatedState);
-            setWalletState(updatedState);
-            setPendingCount(prev => prev + 1);
+            await recordReceivedVoucher(userId, voucher);
 
-            console.log(`✅ Transaction recorded offline: ${type} ${amount}`);
+            // The credit counts towards the shadow balance until it settles
+            const updatedState = await updateWalletPendingAmounts(userId);
+            if (updatedState) {
+                setWalletState(updatedState);
+            }
+            setPendingCount(prev => prev + 1);
 
-            // Try to sync if online
             if (isOnline) {
                 syncNow();
+            } else {
+                syncScheduler.reschedule();
             }
 
             return true;
         } catch (err) {
-            console.error('Error adding transaction:', err);
+            console.error('Error recording voucher:', err);
             return false;
         }
     };
@@ -255,11 +448,8 @@ export function useShadowTransaction(userId: string | null): UseShadowTransactio
         if (!userId) return;
 
         try {
-            const result = await syncOfflineTransactions(userId);
-            if (result) {
-                // Refresh local state after sync
-                await loadWalletState();
-            }
+            // Local state is refreshed by the onSyncComplete subscription
+            await syncScheduler.runNow();
         } catch (err) {
             console.error('Sync error:', err);
         }
@@ -275,10 +465,20 @@ export function useShadowTransaction(userId: string | null): UseShadowTransactio
     return {
         shadowBalance: walletState?.shadow_balance ?? 0,
         cachedBalance: walletState?.cached_balance ?? 0,
+        pendingDebits: walletState?.pending_debits ?? 0,
+        pendingCredits: walletState?.pending_credits ?? 0,
         pendingCount,
+        offlineAllowance,
+        otherDevicesReserved,
         isLoading,
         isOnline,
         addTransaction,
+        receiveVoucher,
+        payRequest,
+        editTransaction,
+        deleteTransaction,
+        undoTransaction,
+        releaseTransaction,
         refreshBalance,
         syncNow
     };
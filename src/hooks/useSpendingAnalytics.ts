@@ -0,0 +1,91 @@
+'use client';
+
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '@/lib/db';
+import {
+    countPending,
+    getAnalyticsWindow,
+    getBalanceSeries,
+    getFlowSeries,
+    getSpendByCategory,
+    getSpendByCounterparty,
+    getWindowTotals,
+    type AnalyticsGranularity,
+    type AnalyticsWindow,
+    type BalancePoint,
+    type CategorySpend,
+    type CounterpartySpend,
+    type FlowBucket,
+    type SplitAmount
+} from '@/lib/analytics';
+
+/**
+ * useSpendingAnalytics Hook
+ *
+ * Spending breakdowns for the analytics page (see lib/analytics), read
+ * live from the shadow ledger: a payment made or synced in another tab
+ * updates the charts straight away, online or not.
+ */
+
+interface SpendingAnalytics {
+    window: AnalyticsWindow;
+    byCategory: CategorySpend[];
+    byCounterparty: CounterpartySpend[];
+    flow: FlowBucket[];
+    balance: BalancePoint[];
+    totals: { inflow: SplitAmount; outflow: SplitAmount };
+    pendingCount: number; // Rows in the window not yet synced
+}
+
+interface UseSpendingAnalyticsResult {
+    analytics: SpendingAnalytics | null; // null while loading
+    isLoading: boolean;
+}
+
+export function useSpendingAnalytics(
+    userId: string | null,
+    granularity: AnalyticsGranularity
+): UseSpendingAnalyticsResult {
+    const analytics = useLiveQuery(async (): Promise<SpendingAnalytics | null> => {
+        if (!userId) return null;
+
+        const [rows, wallet, schedules, sentRequests, receivedRequests] = await Promise.all([
+            db.transactions.where('user_id').equals(userId).toArray(),
+            db.wallet.get(userId),
+            db.recurringPayments.where('user_id').equals(userId).toArray(),
+            db.paymentRequests.where('requester_id').equals(userId).toArray(),
+            db.paymentRequests.where('payer_id').equals(userId).toArray()
+        ]);
+
+        // E-mails this device has seen for the people the user deals with
+        const knownLabels = new Map<string, string>();
+        for (const request of sentRequests) {
+            if (request.payer_email) knownLabels.set(request.payer_id, request.payer_email);
+        }
+        for (const request of receivedRequests) {
+            if (request.requester_email) knownLabels.set(request.requester_id, request.requester_email);
+        }
+        for (const schedule of schedules) {
+            knownLabels.set(schedule.recipient_id, schedule.recipient_label);
+        }
+
+        const now = Date.now();
+        const window = getAnalyticsWindow(granularity, now);
+        const flow = getFlowSeries(rows, window);
+
+        return {
+            window,
+            byCategory: getSpendByCategory(rows, window),
+            byCounterparty: getSpendByCounterparty(rows, window, knownLabels),
+            flow,
+            balance: getBalanceSeries(rows, window, wallet?.cached_balance ?? 0, now),
+            totals: getWindowTotals(flow),
+            pendingCount: countPending(rows, window)
+        };
+    }, [userId, granularity]);
+
+    return {
+        analytics: analytics ?? null,
+        isLoading: analytics === undefined
+    };
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { getSyncQueueItems } from '@/lib/db';
+import { syncScheduler } from '@/lib/syncScheduler';
 import type { SyncQueueItem } from '@/lib/types';
 
 /**
@@ -16,20 +17,28 @@ import type { SyncQueueItem } from '@/lib/types';
  * - Queue count for status pill
  * - Individual item retry capability
  * - Error message exposure
+ * - Next scheduled sync time (from the sync scheduler)
  */
 
 interface UseSyncQueueResult {
     queueItems: SyncQueueItem[];
     queueCount: number;
+    heldCount: number; // Payments still inside their undo window
     hasPending: boolean;
     hasFailed: boolean;
     hasConflicts: boolean;
     isLoading: boolean;
+    nextRunAt: number | null; // When the scheduler will next attempt a sync
     refresh: () => void;
+    retryItem: (offlineId: string) => Promise<void>;
 }
 
 export function useSyncQueue(userId: string | null): UseSyncQueueResult {
     const [isLoading, setIsLoading] = useState(true);
+    const [nextRunAt, setNextRunAt] = useState<number | null>(syncScheduler.getNextRunAt());
+
+    // Follow the scheduler so countdowns reflect the real timer
+    useEffect(() => syncScheduler.onNextRunChange(setNextRunAt), []);
 
     // Use Dexie live query for real-time updates
     const queueItems = useLiveQuery<SyncQueueItem[]>(
@@ -43,6 +52,7 @@ export function useSyncQueue(userId: string | null): UseSyncQueueResult {
 
     const items = queueItems || [];
     const queueCount = items.length;
+    const heldCount = items.filter((item: SyncQueueItem) => item.status === 'held').length;
     const hasPending = items.some((item: SyncQueueItem) => item.status === 'pending' || item.status === 'syncing');
     const hasFailed = items.some((item: SyncQueueItem) => item.status === 'failed');
     const hasConflicts = items.some((item: SyncQueueItem) => item.status === 'conflict');
@@ -54,6 +64,15 @@ export function useSyncQueue(userId: string | null): UseSyncQueueResult {
         setTimeout(() => setIsLoading(false), 100);
     }, []);
 
+    const retryItem = useCallback(async (offlineId: string) => {
+        try {
+            await syncScheduler.retryTransaction(offlineId);
+        } catch (err) {
+            // Row has already been rescheduled; the drawer shows its new state
+            console.error('Retry failed:', err);
+        }
+    }, []);
+
     useEffect(() => {
         if (userId) {
             setIsLoading(false);
@@ -63,10 +82,13 @@ export function useSyncQueue(userId: string | null): UseSyncQueueResult {
     return {
         queueItems: items,
         queueCount,
+        heldCount,
         hasPending,
         hasFailed,
         hasConflicts,
         isLoading,
-        refresh
+        nextRunAt,
+        refresh,
+        retryItem
     };
 }
@@ -0,0 +1,308 @@
+/**
+ * Analytics - Spending breakdowns computed from the shadow ledger
+ *
+ * Everything here is derived from db.transactions on this device, so the
+ * analytics page works fully offline. Each figure is split in two:
+ * - synced: rows the server has confirmed
+ * - pending: rows still waiting to sync (held, pending, syncing, failed
+ *   but retryable), shown apart because they can still change
+ * Rows the server refused (conflicts, permanent failures) never moved
+ * money and are left out. Amounts are summed in paise, like the ledger.
+ *
+ * Pure: callers load the rows and pass `now`, so the same inputs always
+ * give the same charts.
+ */
+
+import { getTransactionCategory } from './categories';
+import { isPermanentFailure } from './syncErrors';
+import type { OfflineTransaction, TransactionCategory } from './types';
+
+export type AnalyticsGranularity = 'day' | 'week' | 'month';
+
+/**
+ * An amount split by whether the server has confirmed it
+ */
+export interface SplitAmount {
+    synced: number;
+    pending: number;
+}
+
+export interface CategorySpend extends SplitAmount {
+    category: TransactionCategory;
+}
+
+export interface CounterpartySpend extends SplitAmount {
+    key: string; // recipient_id, or 'desc:<description>' for payments without one
+    label: string;
+}
+
+export interface FlowBucket {
+    start: number; // Unix timestamp of the bucket's first moment, local time
+    end: number; // Exclusive
+    inflow: SplitAmount;
+    outflow: SplitAmount;
+}
+
+export interface BalancePoint {
+    start: number; // Bucket the point closes
+    at: number; // End of the bucket (exclusive), capped at now
+    synced: number; // Balance the server would show
+    withPending: number; // Shadow balance: including rows not yet synced
+}
+
+export interface AnalyticsWindow {
+    start: number;
+    end: number;
+    buckets: { start: number; end: number }[];
+}
+
+// How far back each granularity looks
+const BUCKET_COUNTS: Record<AnalyticsGranularity, number> = {
+    day: 14,
+    week: 12,
+    month: 12
+};
+
+// Counterparties beyond this many are folded into "Others"
+const MAX_COUNTERPARTIES = 8;
+
+const toPaise = (amount: number): number => Math.round(Number(amount) * 100);
+const fromPaise = (paise: number): number => paise / 100;
+
+/**
+ * Did this row move (or is it about to move) money?
+ */
+function isCounted(tx: OfflineTransaction): boolean {
+    if (tx.sync_status === 'conflict') return false;
+    if (tx.sync_status === 'failed' && isPermanentFailure(tx.failure_reason)) return false;
+    return true;
+}
+
+function isPending(tx: OfflineTransaction): boolean {
+    return tx.sync_status !== 'synced';
+}
+
+/**
+ * Start of the day, week (Monday) or month containing `at`, local time
+ */
+export function startOfBucket(at: number, granularity: AnalyticsGranularity): number {
+    const date = new Date(at);
+    switch (granularity) {
+        case 'day':
+            return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+        case 'week': {
+            const daysSinceMonday = (date.getDay() + 6) % 7;
+            return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday).getTime();
+        }
+        case 'month':
+            return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+    }
+}
+
+function addBuckets(start: number, granularity: AnalyticsGranularity, count: number): number {
+    const date = new Date(start);
+    switch (granularity) {
+        case 'day':
+            return new Date(date.getFullYear(), date.getMonth(), date.getDate() + count).getTime();
+        case 'week':
+            return new Date(date.getFullYear(), date.getMonth(), date.getDate() + count * 7).getTime();
+        case 'month':
+            return new Date(date.getFullYear(), date.getMonth() + count, 1).getTime();
+    }
+}
+
+/**
+ * The buckets charted for a granularity, oldest first, ending with the current one
+ */
+export function getAnalyticsWindow(granularity: AnalyticsGranularity, now: number): AnalyticsWindow {
+    const count = BUCKET_COUNTS[granularity];
+    const current = startOfBucket(now, granularity);
+    const buckets: { start: number; end: number }[] = [];
+
+    for (let i = count - 1; i >= 0; i--) {
+        const start = addBuckets(current, granularity, -i);
+        buckets.push({ start, end: addBuckets(start, granularity, 1) });
+    }
+
+    return { start: buckets[0].start, end: buckets[buckets.length - 1].end, buckets };
+}
+
+/**
+ * Short label for a bucket on a chart axis
+ */
+export function formatBucketLabel(start: number, granularity: AnalyticsGranularity): string {
+    const date = new Date(start);
+    if (granularity === 'month') {
+        return date.toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+    }
+    return date.toLocaleDateString(undefined, { day: 'numeric', month: 'short' });
+}
+
+function inWindow(tx: OfflineTransaction, window: AnalyticsWindow): boolean {
+    return tx.timestamp >= window.start && tx.timestamp < window.end;
+}
+
+function addSplit(totals: { synced: number; pending: number }, tx: OfflineTransaction): void {
+    if (isPending(tx)) {
+        totals.pending += toPaise(tx.amount);
+    } else {
+        totals.synced += toPaise(tx.amount);
+    }
+}
+
+function toSplitAmount(paise: { synced: number; pending: number }): SplitAmount {
+    return { synced: fromPaise(paise.synced), pending: fromPaise(paise.pending) };
+}
+
+const totalOf = (split: SplitAmount): number => split.synced + split.pending;
+
+/**
+ * Money out per category within the window, largest first
+ */
+export function getSpendByCategory(rows: OfflineTransaction[], window: AnalyticsWindow): CategorySpend[] {
+    const totals = new Map<TransactionCategory, { synced: number; pending: number }>();
+
+    for (const tx of rows) {
+        if (tx.type !== 'debit' || !isCounted(tx) || !inWindow(tx, window)) continue;
+        const category = getTransactionCategory(tx);
+        if (!totals.has(category)) totals.set(category, { synced: 0, pending: 0 });
+        addSplit(totals.get(category)!, tx);
+    }
+
+    return [...totals.entries()]
+        .map(([category, paise]) => ({ category, ...toSplitAmount(paise) }))
+        .sort((a, b) => totalOf(b) - totalOf(a));
+}
+
+/**
+ * Best name this device knows for the other side of a row
+ * Names come from the QR the payer scanned, the voucher the payee scanned
+ * or labels the caller already has (schedules, payment requests);
+ * otherwise the start of the user ID.
+ */
+function getCounterpartyLabel(tx: OfflineTransaction, knownLabels: Map<string, string>): string {
+    const recipientId = tx.recipient_id!;
+    return tx.qr_intent?.recipient_name
+        || tx.voucher?.payer_name
+        || knownLabels.get(recipientId)
+        || `${recipientId.slice(0, 8)}...`;
+}
+
+/**
+ * Money out per counterparty within the window, largest first
+ * Payments without a recipient (cash, bills recorded by hand) are grouped
+ * by description. Past MAX_COUNTERPARTIES the rest are summed as "Others".
+ */
+export function getSpendByCounterparty(
+    rows: OfflineTransaction[],
+    window: AnalyticsWindow,
+    knownLabels: Map<string, string> = new Map()
+): CounterpartySpend[] {
+    const totals = new Map<string, { label: string; synced: number; pending: number }>();
+
+    for (const tx of rows) {
+        if (tx.type !== 'debit' || !isCounted(tx) || !inWindow(tx, window)) continue;
+
+        const description = tx.description.trim() || 'Payment';
+        const key = tx.recipient_id ?? `desc:${description.toLowerCase()}`;
+        if (!totals.has(key)) {
+            totals.set(key, {
+                label: tx.recipient_id ? getCounterpartyLabel(tx, knownLabels) : description,
+                synced: 0,
+                pending: 0
+            });
+        }
+        addSplit(totals.get(key)!, tx);
+    }
+
+    const sorted = [...totals.entries()]
+        .map(([key, entry]) => ({ key, label: entry.label, ...toSplitAmount(entry) }))
+        .sort((a, b) => totalOf(b) - totalOf(a));
+
+    if (sorted.length <= MAX_COUNTERPARTIES) return sorted;
+
+    const others = sorted.slice(MAX_COUNTERPARTIES - 1).reduce(
+        (sum, entry) => ({ synced: sum.synced + toPaise(entry.synced), pending: sum.pending + toPaise(entry.pending) }),
+        { synced: 0, pending: 0 }
+    );
+    return [
+        ...sorted.slice(0, MAX_COUNTERPARTIES - 1),
+        { key: 'others', label: 'Others', ...toSplitAmount(others) }
+    ];
+}
+
+/**
+ * Money in and out per bucket
+ */
+export function getFlowSeries(rows: OfflineTransaction[], window: AnalyticsWindow): FlowBucket[] {
+    const buckets = window.buckets.map(bucket => ({
+        ...bucket,
+        inflow: { synced: 0, pending: 0 },
+        outflow: { synced: 0, pending: 0 }
+    }));
+
+    for (const tx of rows) {
+        if (!isCounted(tx) || !inWindow(tx, window)) continue;
+        const bucket = buckets.find(b => tx.timestamp >= b.start && tx.timestamp < b.end);
+        if (!bucket) continue;
+        addSplit(tx.type === 'credit' ? bucket.inflow : bucket.outflow, tx);
+    }
+
+    return buckets.map(bucket => ({
+        start: bucket.start,
+        end: bucket.end,
+        inflow: toSplitAmount(bucket.inflow),
+        outflow: toSplitAmount(bucket.outflow)
+    }));
+}
+
+/**
+ * Balance at the end of each bucket
+ *
+ * Walks back from the last server balance (cached_balance), undoing the
+ * synced rows after each point. The pending line adds the unsynced rows
+ * made before each point, so its last value is the shadow balance.
+ */
+export function getBalanceSeries(
+    rows: OfflineTransaction[],
+    window: AnalyticsWindow,
+    cachedBalance: number,
+    now: number
+): BalancePoint[] {
+    const counted = rows.filter(isCounted);
+    const signed = (tx: OfflineTransaction): number => (tx.type === 'credit' ? 1 : -1) * toPaise(tx.amount);
+
+    return window.buckets.map(bucket => {
+        const at = Math.min(bucket.end, now);
+        let synced = toPaise(cachedBalance);
+        let pending = 0;
+
+        for (const tx of counted) {
+            if (isPending(tx)) {
+                if (tx.timestamp < at) pending += signed(tx);
+            } else if (tx.timestamp >= at) {
+                synced -= signed(tx);
+            }
+        }
+
+        return { start: bucket.start, at, synced: fromPaise(synced), withPending: fromPaise(synced + pending) };
+    });
+}
+
+/**
+ * How many rows in the window are still waiting to sync
+ */
+export function countPending(rows: OfflineTransaction[], window: AnalyticsWindow): number {
+    return rows.filter(tx => isCounted(tx) && isPending(tx) && inWindow(tx, window)).length;
+}
+
+/**
+ * Totals in and out over the window
+ */
+export function getWindowTotals(flow: FlowBucket[]): { inflow: SplitAmount; outflow: SplitAmount } {
+    const sum = (pick: (bucket: FlowBucket) => SplitAmount): SplitAmount => toSplitAmount(flow.reduce(
+        (acc, bucket) => ({ synced: acc.synced + toPaise(pick(bucket).synced), pending: acc.pending + toPaise(pick(bucket).pending) }),
+        { synced: 0, pending: 0 }
+    ));
+    return { inflow: sum(bucket => bucket.inflow), outflow: sum(bucket => bucket.outflow) };
+}
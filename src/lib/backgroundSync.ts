@@ -0,0 +1,42 @@
+'use client';
+
+/**
+ * Background Sync - Wakes the service worker to drain the pending queue
+ *
+ * addOfflineTransaction registers the tag below; the browser fires it
+ * once connectivity returns, even if every tab has been closed
+ * (see public/sw.js). Registration of the worker itself and session
+ * sharing live in serviceWorker.ts.
+ *
+ * Browsers without Background Sync simply rely on the sync scheduler
+ * the next time the dashboard is open.
+ */
+
+import { isServiceWorkerSupported } from './serviceWorker';
+
+export const BACKGROUND_SYNC_TAG = 'phantompay-sync';
+
+// Background Sync is not in the standard DOM typings yet
+interface SyncManager {
+    register(tag: string): Promise<void>;
+}
+
+type SyncCapableRegistration = ServiceWorkerRegistration & { sync?: SyncManager };
+
+/**
+ * Ask the browser to fire a background sync once connectivity allows
+ * Fire-and-forget: failures only mean the page scheduler has to do the work.
+ */
+export async function requestBackgroundSync(): Promise<void> {
+    if (!isServiceWorkerSupported()) return;
+
+    try {
+        const registration = await navigator.serviceWorker.ready as SyncCapableRegistration;
+        if (!registration.sync) return;
+
+        await registration.sync.register(BACKGROUND_SYNC_TAG);
+        console.log('⏳ Background sync registered');
+    } catch (err) {
+        console.warn('Background sync registration failed:', err);
+    }
+}
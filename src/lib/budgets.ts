@@ -0,0 +1,287 @@
+'use client';
+
+/**
+ * Budgets - Monthly spending limits, checked before each payment
+ *
+ * - One limit per category plus an overall one, kept in Dexie (budgets)
+ *   so they can be checked offline
+ * - Spending is read from the shadow ledger: synced debits and the ones
+ *   still waiting to sync (held, pending, syncing, failed but retryable)
+ *   both count. Rows the server refused never moved money and do not.
+ * - A month is a calendar month in device local time
+ * - Budgets are mirrored to Supabase (budgets, migration 019) at every
+ *   sync; the newest updated_at wins. Removing one keeps a deleted row so
+ *   the other devices hear about it.
+ *
+ * Going over a budget is only a warning: the payment is still allowed.
+ */
+
+import { db } from './db';
+import { CATEGORY_LABELS, getTransactionCategory } from './categories';
+import { supabase } from './supabase';
+import { isPermanentFailure } from './syncErrors';
+import type { Budget, BudgetScope, OfflineTransaction, TransactionCategory } from './types';
+
+export type BudgetResult =
+    | { ok: true; budget: Budget }
+    | { ok: false; error: string };
+
+/**
+ * A budget with this month's spending against it
+ */
+export interface BudgetStatus {
+    budget: Budget;
+    spent: number;
+    remaining: number; // Negative once over
+}
+
+/**
+ * A budget a payment would take over its limit
+ */
+export interface BudgetWarning {
+    scope: BudgetScope;
+    limit: number;
+    spent: number; // Before the payment
+    after: number; // Including the payment
+}
+
+interface ServerBudget {
+    user_id: string;
+    scope: BudgetScope;
+    amount: number | string;
+    deleted: boolean;
+    updated_at: number | string;
+}
+
+// Overall first, then the spending categories of lib/categories
+export const BUDGET_SCOPES: BudgetScope[] = [
+    'overall', 'food', 'shopping', 'transport', 'bills', 'housing',
+    'entertainment', 'health', 'transfer', 'other'
+];
+
+const toPaise = (amount: number): number => Math.round(Number(amount) * 100);
+const fromPaise = (paise: number): number => paise / 100;
+
+export function getBudgetLabel(scope: BudgetScope): string {
+    return scope === 'overall' ? 'Overall' : CATEGORY_LABELS[scope];
+}
+
+function getBudgetId(userId: string, scope: BudgetScope): string {
+    return `${userId}:${scope}`;
+}
+
+/**
+ * Start and end (exclusive) of the calendar month containing `at`
+ */
+export function getMonthRange(at: number = Date.now()): { start: number; end: number } {
+    const date = new Date(at);
+    return {
+        start: new Date(date.getFullYear(), date.getMonth(), 1).getTime(),
+        end: new Date(date.getFullYear(), date.getMonth() + 1, 1).getTime()
+    };
+}
+
+/**
+ * Does this row count as money spent?
+ */
+function isCountedDebit(tx: OfflineTransaction): boolean {
+    if (tx.type !== 'debit') return false;
+    if (tx.sync_status === 'conflict') return false;
+    if (tx.sync_status === 'failed' && isPermanentFailure(tx.failure_reason)) return false;
+    return true;
+}
+
+/**
+ * Spending this month per category, plus the overall total
+ */
+export async function getMonthSpending(
+    userId: string,
+    at: number = Date.now()
+): Promise<Record<BudgetScope, number>> {
+    const { start, end } = getMonthRange(at);
+    const rows = await db.transactions
+        .where('user_id')
+        .equals(userId)
+        .and(tx => tx.timestamp >= start && tx.timestamp < end && isCountedDebit(tx))
+        .toArray();
+
+    const paise = new Map<string, number>();
+    for (const tx of rows) {
+        const amount = toPaise(tx.amount);
+        const category = getTransactionCategory(tx);
+        paise.set(category, (paise.get(category) ?? 0) + amount);
+        paise.set('overall', (paise.get('overall') ?? 0) + amount);
+    }
+
+    const spending = {} as Record<BudgetScope, number>;
+    for (const scope of BUDGET_SCOPES) {
+        spending[scope] = fromPaise(paise.get(scope) ?? 0);
+    }
+    return spending;
+}
+
+/**
+ * The user's budgets (overall first, then in BUDGET_SCOPES order)
+ */
+export async function getBudgets(userId: string): Promise<Budget[]> {
+    const budgets = await db.budgets
+        .where('user_id')
+        .equals(userId)
+        .and(budget => !budget.deleted)
+        .toArray();
+    return budgets.sort((a, b) => BUDGET_SCOPES.indexOf(a.scope) - BUDGET_SCOPES.indexOf(b.scope));
+}
+
+/**
+ * The user's budgets with this month's spending
+ */
+export async function getBudgetStatuses(userId: string): Promise<BudgetStatus[]> {
+    const [budgets, spending] = await Promise.all([getBudgets(userId), getMonthSpending(userId)]);
+    return budgets.map(budget => ({
+        budget,
+        spent: spending[budget.scope],
+        remaining: fromPaise(toPaise(budget.amount) - toPaise(spending[budget.scope]))
+    }));
+}
+
+/**
+ * Set (or change) the monthly limit for a scope
+ */
+export async function setBudget(userId: string, scope: BudgetScope, amount: number): Promise<BudgetResult> {
+    if (!BUDGET_SCOPES.includes(scope)) {
+        return { ok: false, error: 'Unknown budget category' };
+    }
+    if (!Number.isFinite(amount) || amount <= 0) {
+        return { ok: false, error: 'Please enter a valid positive amount' };
+    }
+
+    const budget: Budget = {
+        id: getBudgetId(userId, scope),
+        user_id: userId,
+        scope,
+        amount: Math.round(amount * 100) / 100,
+        deleted: false,
+        updated_at: Date.now(),
+        sync_status: 'pending'
+    };
+
+    await db.budgets.put(budget);
+    console.log(`💰 Budget set: ${scope} ${budget.amount} Rs/month`);
+    return { ok: true, budget };
+}
+
+/**
+ * Stop budgeting a scope
+ */
+export async function removeBudget(userId: string, scope: BudgetScope): Promise<BudgetResult> {
+    const existing = await db.budgets.get(getBudgetId(userId, scope));
+    if (!existing || existing.deleted) {
+        return { ok: false, error: 'Budget not found' };
+    }
+
+    const budget: Budget = {
+        ...existing,
+        deleted: true,
+        updated_at: Date.now(),
+        sync_status: 'pending'
+    };
+
+    await db.budgets.put(budget);
+    console.log(`🗑️ Budget removed: ${scope}`);
+    return { ok: true, budget };
+}
+
+/**
+ * Budgets a new payment would take over this month's limit
+ * Checks the payment's category budget and the overall one; empty when
+ * nothing would be exceeded (or nothing is budgeted).
+ */
+export async function checkBudgets(
+    userId: string,
+    amount: number,
+    category: TransactionCategory
+): Promise<BudgetWarning[]> {
+    if (!Number.isFinite(amount) || amount <= 0) return [];
+
+    const budgets = (await getBudgets(userId))
+        .filter(budget => budget.scope === 'overall' || budget.scope === category);
+    if (budgets.length === 0) return [];
+
+    const spending = await getMonthSpending(userId);
+    const warnings: BudgetWarning[] = [];
+
+    for (const budget of budgets) {
+        const spent = spending[budget.scope];
+        const after = fromPaise(toPaise(spent) + toPaise(amount));
+        if (toPaise(after) > toPaise(budget.amount)) {
+            warnings.push({ scope: budget.scope, limit: budget.amount, spent, after });
+        }
+    }
+    return warnings;
+}
+
+/**
+ * Mirror budgets with the server: push local edits, then pull newer ones
+ */
+export async function syncBudgets(userId: string): Promise<void> {
+    const pending = await db.budgets
+        .where('user_id')
+        .equals(userId)
+        .and(budget => budget.sync_status === 'pending')
+        .toArray();
+
+    if (pending.length > 0) {
+        const { data, error } = await supabase.rpc('save_budgets', {
+            payload: pending.map(budget => ({
+                scope: budget.scope,
+                amount: budget.amount,
+                deleted: budget.deleted,
+                updated_at: budget.updated_at
+            }))
+        });
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.error || 'Could not save budgets');
+
+        // Only mark what we sent; anything edited meanwhile stays pending
+        await db.transaction('rw', db.budgets, async () => {
+            for (const sent of pending) {
+                const local = await db.budgets.get(sent.id);
+                if (local && local.updated_at === sent.updated_at) {
+                    await db.budgets.update(sent.id, { sync_status: 'synced' });
+                }
+            }
+        });
+    }
+
+    const { data, error } = await supabase
+        .from('budgets')
+        .select('*')
+        .eq('user_id', userId);
+
+    if (error) throw error;
+
+    let pulled = 0;
+    await db.transaction('rw', db.budgets, async () => {
+        for (const row of (data || []) as ServerBudget[]) {
+            const remote: Budget = {
+                id: getBudgetId(row.user_id, row.scope),
+                user_id: row.user_id,
+                scope: row.scope,
+                amount: Number(row.amount),
+                deleted: row.deleted,
+                updated_at: Number(row.updated_at),
+                sync_status: 'synced'
+            };
+            const local = await db.budgets.get(remote.id);
+
+            if (local && local.updated_at >= remote.updated_at) continue;
+
+            await db.budgets.put(remote);
+            pulled++;
+        }
+    });
+
+    if (pulled > 0) {
+        console.log(`📥 Pulled ${pulled} budget update(s)`);
+    }
+}
@@ -0,0 +1,216 @@
+'use client';
+
+/**
+ * Categories - What a transaction was for
+ *
+ * Suggested on this device, so it works offline:
+ * - Corrections first: when the user picks something other than the
+ *   suggestion, the choice is kept in Dexie (categoryCorrections) and
+ *   matched again by description words, payee and amount
+ * - Then the ledger: what earlier payments to the same payee, or of the
+ *   same amount (subscriptions, rent), were filed under
+ * - Then keyword rules, and a fallback by type and payee
+ *
+ * The category is stored on the row and synced to transactions.category
+ * (migration 018). It is not part of the signed message: it moves no money.
+ */
+
+import { db } from './db';
+import type { CategoryCorrection, OfflineTransaction, TransactionCategory, TransactionType } from './types';
+
+// Must match is_transaction_category() in migration 018
+export const TRANSACTION_CATEGORIES: TransactionCategory[] = [
+    'food', 'shopping', 'transport', 'bills', 'housing',
+    'entertainment', 'health', 'transfer', 'income', 'other'
+];
+
+export const CATEGORY_LABELS: Record<TransactionCategory, string> = {
+    food: 'Food & Drink',
+    shopping: 'Shopping',
+    transport: 'Transport',
+    bills: 'Bills',
+    housing: 'Housing',
+    entertainment: 'Entertainment',
+    health: 'Health',
+    transfer: 'Transfer',
+    income: 'Income',
+    other: 'Other'
+};
+
+export interface CategoryInput {
+    description: string;
+    type: TransactionType;
+    amount?: number;
+    recipientId?: string;
+}
+
+// Oldest corrections are dropped beyond this many per user
+const MAX_CORRECTIONS = 200;
+
+// A correction must share a word or the payee to be reused
+const MIN_CORRECTION_SCORE = 2;
+
+// Same-amount history needs to repeat before it says anything
+const MIN_AMOUNT_MATCHES = 2;
+
+// Checked in order: the first category with a matching word wins
+const KEYWORD_RULES: { category: TransactionCategory; pattern: RegExp }[] = [
+    { category: 'housing', pattern: /\b(rent|landlord|deposit|maintenance|society|home|house|flat)\b/ },
+    { category: 'bills', pattern: /\b(bill|electricity|water|gas|internet|wifi|broadband|recharge|mobile|phone|dth|insurance|emi)\b/ },
+    { category: 'health', pattern: /\b(doctor|medicine|medicines|pharmacy|chemist|hospital|clinic|dental|gym|medical)\b/ },
+    { category: 'transport', pattern: /\b(uber|ola|rapido|taxi|cab|auto|rickshaw|bus|metro|train|fuel|petrol|diesel|parking|toll|flight)\b/ },
+    { category: 'entertainment', pattern: /\b(movie|movies|cinema|netflix|spotify|prime|hotstar|game|games|concert|party|tickets?)\b/ },
+    { category: 'food', pattern: /\b(food|lunch|dinner|breakfast|coffee|cafe|tea|chai|restaurant|pizza|burger|snacks?|swiggy|zomato|biryani|groceries|grocery|vegetables|fruits?|milk)\b/ },
+    { category: 'shopping', pattern: /\b(shop|shopping|store|amazon|flipkart|myntra|mall|clothes|shoes|gift|electronics)\b/ },
+    { category: 'income', pattern: /\b(salary|freelance|client|invoice|refund|cashback|bonus|stipend)\b/ }
+];
+
+// Words that say nothing about what the money was for
+const STOP_WORDS = new Set([
+    'for', 'the', 'and', 'to', 'from', 'of', 'on', 'in', 'my', 'paid', 'pay', 'payment',
+    'received', 'receive', 'transfer', 'money', 'rs', 'rupees', 'request', 'voice', 'transaction'
+]);
+
+export function isTransactionCategory(value: unknown): value is TransactionCategory {
+    return typeof value === 'string' && (TRANSACTION_CATEGORIES as string[]).includes(value);
+}
+
+/**
+ * The words of a description the categorizer matches on
+ */
+export function extractKeywords(description: string): string[] {
+    const words = description.toLowerCase().split(/[^a-z]+/);
+    return [...new Set(words.filter(word => word.length > 2 && !STOP_WORDS.has(word)))];
+}
+
+/**
+ * Categorize from the description and type alone (no Dexie)
+ * Also used to label rows stored before categories existed.
+ */
+export function categorizeByRules(input: CategoryInput): TransactionCategory {
+    const text = input.description.toLowerCase();
+    const match = KEYWORD_RULES.find(rule => rule.pattern.test(text));
+    if (match && (match.category !== 'income' || input.type === 'credit')) {
+        return match.category;
+    }
+
+    if (input.type === 'credit') return input.recipientId ? 'transfer' : 'income';
+    return input.recipientId ? 'transfer' : 'other';
+}
+
+/**
+ * The category to show for a stored row
+ */
+export function getTransactionCategory(tx: OfflineTransaction): TransactionCategory {
+    return tx.category ?? categorizeByRules({
+        description: tx.description,
+        type: tx.type,
+        amount: tx.amount,
+        recipientId: tx.recipient_id
+    });
+}
+
+/**
+ * Most frequent category among rows, or null if there are none
+ */
+function mostCommonCategory(rows: OfflineTransaction[]): TransactionCategory | null {
+    const counts = new Map<TransactionCategory, number>();
+    for (const row of rows) {
+        if (row.category) counts.set(row.category, (counts.get(row.category) ?? 0) + 1);
+    }
+
+    let best: TransactionCategory | null = null;
+    for (const [category, count] of counts) {
+        if (best === null || count > counts.get(best)!) best = category;
+    }
+    return best;
+}
+
+/**
+ * The correction that best fits this input, if any fits well enough
+ */
+function matchCorrection(corrections: CategoryCorrection[], input: CategoryInput): CategoryCorrection | null {
+    const keywords = new Set(extractKeywords(input.description));
+    let best: CategoryCorrection | null = null;
+    let bestScore = 0;
+
+    for (const correction of corrections) {
+        if (correction.type !== input.type) continue;
+
+        let score = correction.keywords.filter(word => keywords.has(word)).length * 2;
+        if (input.recipientId && correction.recipient_id === input.recipientId) score += 3;
+        if (input.amount !== undefined && correction.amount === input.amount) score += 1;
+
+        // Newer corrections win ties
+        if (score >= MIN_CORRECTION_SCORE && (score > bestScore
+            || (score === bestScore && best && correction.created_at > best.created_at))) {
+            best = correction;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+/**
+ * Suggest a category for a new transaction
+ */
+export async function suggestCategory(userId: string, input: CategoryInput): Promise<TransactionCategory> {
+    const corrections = await db.categoryCorrections.where('user_id').equals(userId).toArray();
+    const corrected = matchCorrection(corrections, input);
+    if (corrected) return corrected.category;
+
+    // Keywords are more specific than history: "movie" paid to a friend is still a movie
+    const byRules = categorizeByRules(input);
+    if (byRules !== 'transfer' && byRules !== 'other' && byRules !== 'income') return byRules;
+
+    const history = (await db.transactions.where('user_id').equals(userId).toArray())
+        .filter(tx => tx.type === input.type && tx.category);
+
+    if (input.recipientId) {
+        const byPayee = mostCommonCategory(history.filter(tx => tx.recipient_id === input.recipientId));
+        if (byPayee) return byPayee;
+    }
+
+    if (input.amount !== undefined) {
+        const sameAmount = history.filter(tx => tx.amount === input.amount);
+        const byAmount = mostCommonCategory(sameAmount);
+        if (byAmount && sameAmount.filter(tx => tx.category === byAmount).length >= MIN_AMOUNT_MATCHES) {
+            return byAmount;
+        }
+    }
+
+    return byRules;
+}
+
+/**
+ * Remember the user's pick when it differs from the suggestion
+ * Nothing is stored when they kept the suggestion.
+ */
+export async function learnCategoryChoice(
+    userId: string,
+    input: CategoryInput,
+    suggested: TransactionCategory,
+    chosen: TransactionCategory
+): Promise<void> {
+    if (chosen === suggested) return;
+
+    await db.transaction('rw', db.categoryCorrections, async () => {
+        await db.categoryCorrections.add({
+            user_id: userId,
+            keywords: extractKeywords(input.description),
+            recipient_id: input.recipientId,
+            amount: input.amount ?? 0,
+            type: input.type,
+            category: chosen,
+            created_at: Date.now()
+        });
+
+        const stored = await db.categoryCorrections.where('user_id').equals(userId).sortBy('created_at');
+        const excess = stored.slice(0, Math.max(0, stored.length - MAX_CORRECTIONS));
+        if (excess.length > 0) {
+            await db.categoryCorrections.bulkDelete(excess.map(correction => correction.id!));
+        }
+    });
+
+    console.log(`🏷️ Learned category ${chosen} (suggested ${suggested})`);
+}
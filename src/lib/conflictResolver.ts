@@ -0,0 +1,164 @@
+'use client';
+
+/**
+ * Conflict Resolver - Applies the user's choice from the ConflictCard
+ *
+ * - keep_local:    re-sign the device version and requeue it for sync
+ * - accept_server: make the local row match the server's version
+ * - cancel:        void the device version
+ *
+ * A server version that is empty means the server never recorded the
+ * transaction (e.g. debit rejected for insufficient balance), so accepting
+ * it voids the local row. When the server does hold a row under the same
+ * offline_id, that row is settled and cannot be undone from the client:
+ * it is kept as a synced row and "keep mine" requeues the local version
+ * under a fresh offline_id.
+ *
+ * The shadow balance is recomputed after every resolution.
+ */
+
+import { db, updateWalletPendingAmounts } from './db';
+import { syncScheduler } from './syncScheduler';
+import { signTransaction } from './deviceKeys';
+import { getAllowanceStatus } from './offlineAllowance';
+import { generateOfflineId } from '@/utils/crypto';
+import type { ConflictResolution, OfflineTransaction } from './types';
+
+/**
+ * Resolve a conflicting transaction
+ *
+ * @param userId - Owner of the transaction
+ * @param offlineId - offline_id of the conflicting row
+ * @param resolution - Choice made in the ConflictCard
+ */
+export async function resolveConflict(
+    userId: string,
+    offlineId: string,
+    resolution: ConflictResolution
+): Promise<void> {
+    const tx = await db.transactions.where('offline_id').equals(offlineId).first();
+
+    if (!tx || tx.user_id !== userId || tx.sync_status !== 'conflict') {
+        throw new Error('Conflict no longer exists');
+    }
+
+    const serverVersion = tx.conflict_data?.server_version ?? {};
+    const serverHasRow = Object.keys(serverVersion).length > 0;
+
+    switch (resolution) {
+        case 'keep_local':
+            if (serverHasRow) {
+                await settleToServerVersion(tx, serverVersion);
+                await requeueAsNew(tx);
+            } else {
+                await requeue(tx);
+            }
+            break;
+
+        case 'accept_server':
+        case 'cancel':
+            if (serverHasRow) {
+                await settleToServerVersion(tx, serverVersion);
+            } else {
+                await db.transactions.where('offline_id').equals(offlineId).delete();
+            }
+            break;
+    }
+
+    console.log(`🔀 Conflict ${offlineId} resolved: ${resolution}`);
+
+    await updateWalletPendingAmounts(userId);
+    await syncScheduler.reschedule();
+}
+
+/**
+ * Re-sign the row under its own offline_id and put it back in the queue
+ */
+async function requeue(tx: OfflineTransaction): Promise<void> {
+    const timestamp = Date.now();
+    const allowanceId = await currentAllowanceId(tx);
+    const { device_id, signature } = await signTransaction({ ...tx, allowance_id: allowanceId, timestamp });
+
+    await db.transactions
+        .where('offline_id')
+        .equals(tx.offline_id)
+        .modify(row => {
+            row.timestamp = timestamp;
+            row.created_at = new Date(timestamp).toISOString();
+            row.signature = signature;
+            row.device_id = device_id;
+            row.allowance_id = allowanceId;
+            row.sync_status = 'pending';
+            row.retry_count = 0;
+            delete row.next_retry_at;
+            delete row.failure_reason;
+            delete row.failure_detail;
+            delete row.conflict_data;
+        });
+}
+
+/**
+ * Queue a copy of the local version under a fresh offline_id
+ * (the original id is already consumed on the server)
+ */
+async function requeueAsNew(tx: OfflineTransaction): Promise<void> {
+    const timestamp = Date.now();
+    const offlineId = generateOfflineId();
+    const allowanceId = await currentAllowanceId(tx);
+    const { device_id, signature } = await signTransaction({
+        ...tx,
+        offline_id: offlineId,
+        allowance_id: allowanceId,
+        timestamp
+    });
+
+    await db.transactions.add({
+        offline_id: offlineId,
+        user_id: tx.user_id,
+        recipient_id: tx.recipient_id,
+        amount: tx.amount,
+        type: tx.type,
+        description: tx.description,
+        timestamp,
+        signature,
+        device_id,
+        allowance_id: allowanceId,
+        qr_intent: tx.qr_intent,
+        payment_request_id: tx.payment_request_id,
+        category: tx.category,
+        sync_status: 'pending',
+        created_at: new Date(timestamp).toISOString(),
+        retry_count: 0
+    });
+}
+
+/**
+ * Allowance a requeued debit spends from: the device's current one
+ * Left unset when there is none yet; the sync engine stamps one before pushing.
+ */
+async function currentAllowanceId(tx: OfflineTransaction): Promise<string | undefined> {
+    if (tx.type !== 'debit') return undefined;
+
+    const status = await getAllowanceStatus(tx.user_id);
+    return status && !status.expired ? status.allowance.id : undefined;
+}
+
+/**
+ * Overwrite the local row with the server's fields and mark it synced
+ */
+async function settleToServerVersion(
+    tx: OfflineTransaction,
+    serverVersion: Partial<OfflineTransaction>
+): Promise<void> {
+    await db.transactions
+        .where('offline_id')
+        .equals(tx.offline_id)
+        .modify(row => {
+            Object.assign(row, serverVersion);
+            row.sync_status = 'synced';
+            delete row.next_retry_at;
+            delete row.failure_reason;
+            delete row.failure_detail;
+            delete row.conflict_data;
+        });
+}
@@ -0,0 +1,182 @@
+/**
+ * Cron - Schedules of recurring payments
+ *
+ * Standard 5-field expressions, evaluated in the device's local time:
+ *
+ *     minute  hour  day-of-month  month  day-of-week
+ *
+ * - Each field takes '*', numbers, ranges (1-5), lists (1,15) and steps
+ *   (0-59/15 for every 15 minutes; '*' also takes a step)
+ * - Day of week is 0-7 with both 0 and 7 meaning Sunday
+ * - As in cron, when both day fields are restricted a day matches either
+ */
+
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+}
+
+// Give up on expressions that never match (e.g. '0 0 31 2 *')
+const MAX_LOOKAHEAD_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+const FIELDS = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 7 }
+] as const;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Parse a cron expression
+ * @throws Error naming the offending field
+ */
+export function parseCron(expression: string): CronSchedule {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error('Schedule must have 5 fields: minute hour day month weekday');
+    }
+
+    const [minutes, hours, daysOfMonth, months, rawDaysOfWeek] = parts.map((part, i) =>
+        parseField(part, FIELDS[i].min, FIELDS[i].max, FIELDS[i].name)
+    );
+
+    // 7 is an alias for Sunday
+    const daysOfWeek = new Set([...rawDaysOfWeek].map(day => day % 7));
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        dayOfMonthRestricted: !parts[2].startsWith('*'),
+        dayOfWeekRestricted: !parts[4].startsWith('*')
+    };
+}
+
+/**
+ * Check whether a cron expression parses
+ */
+export function isValidCron(expression: string): boolean {
+    try {
+        parseCron(expression);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * First occurrence strictly after a moment
+ * @param after - Unix timestamp
+ * @returns Unix timestamp, or null if the schedule never matches
+ */
+export function nextCronOccurrence(expression: string | CronSchedule, after: number): number | null {
+    const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+    const limit = after + MAX_LOOKAHEAD_MS;
+
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    // Skip whole months, days and hours that cannot match before testing minutes
+    while (date.getTime() <= limit) {
+        if (!schedule.months.has(date.getMonth() + 1)) {
+            date.setMonth(date.getMonth() + 1, 1);
+            date.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!matchesDay(schedule, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0);
+            continue;
+        }
+        return date.getTime();
+    }
+
+    return null;
+}
+
+/**
+ * Human-readable summary for the schedules the UI builds
+ * ("Every month on day 5 at 09:00"); anything else is shown as-is
+ */
+export function describeCron(expression: string): string {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5 || !/^\d+$/.test(parts[0]) || !/^\d+$/.test(parts[1])) {
+        return `Custom (${expression})`;
+    }
+
+    const [minute, hour, dayOfMonth, month, dayOfWeek] = parts;
+    const time = `${hour.padStart(2, '0')}:${minute.padStart(2, '0')}`;
+
+    if (month !== '*') return `Custom (${expression})`;
+    if (dayOfMonth === '*' && dayOfWeek === '*') return `Every day at ${time}`;
+    if (dayOfMonth === '*' && /^[0-7]$/.test(dayOfWeek)) {
+        return `Every ${WEEKDAYS[Number(dayOfWeek) % 7]} at ${time}`;
+    }
+    if (/^\d+$/.test(dayOfMonth) && dayOfWeek === '*') {
+        return `Every month on day ${dayOfMonth} at ${time}`;
+    }
+
+    return `Custom (${expression})`;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+    if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const item of field.split(',')) {
+        const match = item.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+        if (!match) {
+            throw new Error(`Invalid ${name}: ${item}`);
+        }
+
+        const [, range, stepText] = match;
+        const step = stepText ? Number(stepText) : 1;
+
+        let start = min;
+        let end = max;
+        if (range !== '*') {
+            const [from, to] = range.split('-').map(Number);
+            start = from;
+            // A single value with a step runs to the end of the range, as in cron
+            end = to ?? (stepText ? max : from);
+        }
+
+        if (step < 1 || start < min || end > max || start > end) {
+            throw new Error(`Invalid ${name}: ${item}`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
@@ -1,5 +1,9 @@
 import Dexie, { type Table } from 'dexie';
-import type { OfflineTransaction, WalletState } from './types';
+import type { Budget, CategoryCorrection, ConflictData, DeviceAllowanceUsage, DeviceKey, OfflineAllowance, OfflineTransaction, PaymentRequest, RecurringPayment, SyncCursor, SyncFailureReason, TabLock, TombstoneCursor, WalletState } from './types';
+import { computeBackoffDelay, getNextAttemptAt, getRetryPolicy, isDueForSync, isRetryBudgetExhausted } from './retryPolicy';
+import { requestBackgroundSync } from './backgroundSync';
+import { applyLedger } from './ledger';
+import { describeFailureReason, getFailureDisposition, getStatusForFailure, isPermanentFailure } from './syncErrors';
 
 /**
  * PhantomPay Local Database
@@ -21,6 +25,42 @@ export class ResilientDB extends Dexie {
      */
     wallet!: Table<WalletState>;
 
+    /**
+     * Cross-tab locks table
+     * Holds leases such as the sync leader election (see tabCoordinator)
+     */
+    locks!: Table<TabLock>;
+
+    /**
+     * Device keys table
+     * This device's transaction signing key per user (see deviceKeys)
+     */
+    deviceKeys!: Table<DeviceKey>;
+
+    /**
+     * Recurring payments table
+     * Schedules the recurring scheduler pays from, even offline (see recurringPayments)
+     */
+    recurringPayments!: Table<RecurringPayment>;
+
+    /**
+     * Payment requests table
+     * Last known request inbox, so requests can be paid offline (see paymentRequests)
+     */
+    paymentRequests!: Table<PaymentRequest>;
+
+    /**
+     * Category corrections table
+     * Categories the user picked over the suggestion (see categories)
+     */
+    categoryCorrections!: Table<CategoryCorrection>;
+
+    /**
+     * Budgets table
+     * Monthly spending limits, checked before each payment (see budgets)
+     */
+    budgets!: Table<Budget>;
+
     constructor() {
         super('PhantomPayDB');
 
@@ -31,7 +71,90 @@ export class ResilientDB extends Dexie {
             transactions: '++id, offline_id, user_id, amount, type, description, timestamp, sync_status, signature, retry_count, last_sync_attempt',
             wallet: 'id, cached_balance, shadow_balance, last_updated, last_sync_success'
         });
+
+        // v2: cross-tab locks for sync leader election
+        this.version(2).stores({
+            locks: 'name'
+        });
+
+        // v3: collapse duplicate rows left behind by older down-syncs, so that
+        // v4 can make offline_id unique (IndexedDB refuses a unique index
+        // over duplicate keys, and Dexie runs each upgrade before the next
+        // version's schema change)
+        this.version(3).upgrade(tx => dedupeTransactionsByOfflineId(tx.table('transactions')));
+
+        // v4: offline_id is the idempotency key - one local row per transaction
+        this.version(4).stores({
+            transactions: '++id, &offline_id, user_id, amount, type, description, timestamp, sync_status, signature, retry_count, last_sync_attempt'
+        });
+
+        // v5: per-device signing keys
+        this.version(5).stores({
+            deviceKeys: 'user_id, device_id'
+        });
+
+        // v6: scheduled and recurring payments
+        this.version(6).stores({
+            recurringPayments: 'id, user_id, next_run_at'
+        });
+
+        // v7: cached payment requests
+        this.version(7).stores({
+            paymentRequests: 'id, payer_id, requester_id'
+        });
+
+        // v8: learned transaction categories
+        this.version(8).stores({
+            categoryCorrections: '++id, user_id'
+        });
+
+        // v9: monthly budgets
+        this.version(9).stores({
+            budgets: 'id, user_id'
+        });
+    }
+}
+
+/**
+ * Keep one row per offline_id (the oldest local row) and delete the rest
+ *
+ * If any copy is 'synced' the server has the transaction, so a keeper
+ * still waiting to sync is marked synced. Conflicts are left for the user.
+ */
+async function dedupeTransactionsByOfflineId(table: Table<OfflineTransaction>): Promise<void> {
+    const rows = await table.orderBy('id').toArray();
+    const groups = new Map<string, OfflineTransaction[]>();
+
+    for (const row of rows) {
+        const group = groups.get(row.offline_id);
+        if (group) {
+            group.push(row);
+        } else {
+            groups.set(row.offline_id, [row]);
+        }
+    }
+
+    const duplicateIds: number[] = [];
+    for (const [offlineId, group] of groups) {
+        if (group.length < 2) continue;
+
+        const [keeper, ...duplicates] = group;
+        duplicateIds.push(...duplicates.map(row => row.id!));
+
+        const serverHasIt = group.some(row => row.sync_status === 'synced');
+        if (serverHasIt && ['held', 'pending', 'syncing', 'failed'].includes(keeper.sync_status)) {
+            await table.where('id').equals(keeper.id!).modify(row => {
+                row.sync_status = 'synced';
+                delete row.next_retry_at;
+                delete row.failure_reason;
+                delete row.failure_detail;
+            });
+        }
+
+        console.log(`🧹 Merged ${duplicates.length} duplicate rows for ${offlineId}`);
     }
+
+    await table.bulkDelete(duplicateIds);
 }
 
 /**
@@ -45,15 +168,55 @@ export const db = new ResilientDB();
 
 /**
  * Get all pending (unsynced) transactions for a user
+ *
+ * Includes rows still inside their undo window ('held'), in flight
+ * ('syncing') or waiting for a retry ('failed') - their money has not
+ * reached the server yet, so they must still count against the shadow
+ * balance. Rows the server rejected
+ * outright (bad signature, unknown recipient) will never move money and
+ * are left out.
  */
 export async function getPendingTransactions(userId: string): Promise<OfflineTransaction[]> {
     return db.transactions
         .where('user_id')
         .equals(userId)
-        .and(tx => tx.sync_status === 'pending')
+        .and(tx => tx.sync_status === 'held'
+            || tx.sync_status === 'pending'
+            || tx.sync_status === 'syncing'
+            || (tx.sync_status === 'failed' && !isPermanentFailure(tx.failure_reason)))
         .toArray();
 }
 
+/**
+ * Get transactions the scheduler should send now (pending, or failed with elapsed backoff)
+ */
+export async function getDueTransactions(userId: string, now: number = Date.now()): Promise<OfflineTransaction[]> {
+    const due = await db.transactions
+        .where('user_id')
+        .equals(userId)
+        .and(tx => isDueForSync(tx, now))
+        .toArray();
+
+    // Preserve creation order so the server applies debits in sequence
+    return due.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Take the due transactions for a sync run
+ *
+ * Reads and marks them 'syncing' in one Dexie transaction, so an edit,
+ * delete or undo cannot slip in between and change a row after it was
+ * picked. Received vouchers are returned unmarked: they settle separately
+ * (see syncEngine settleReceivedVouchers).
+ */
+export async function claimDueTransactions(userId: string, now: number = Date.now()): Promise<OfflineTransaction[]> {
+    return db.transaction('rw', db.transactions, async () => {
+        const due = await getDueTransactions(userId, now);
+        await markTransactionsSyncing(due.filter(tx => !tx.voucher).map(tx => tx.offline_id));
+        return due;
+    });
+}
+
 /**
  * Get the wallet state for a user
  */
@@ -63,16 +226,60 @@ export async function getWalletState(userId: string): Promise<WalletState | unde
 
 /**
  * Update wallet state
+ *
+ * The down-sync cursors (updateWalletSyncCursors), the offline allowance
+ * (updateWalletAllowance) and the other devices' usage
+ * (updateWalletOtherDevices) are always carried over from the stored row,
+ * so callers writing a balance from a stale copy of the wallet can never
+ * rewind the watermark or drop what the server last told this device.
  */
 export async function updateWalletState(state: WalletState): Promise<void> {
-    await db.wallet.put(state);
+    await db.transaction('rw', db.wallet, async () => {
+        const existing = await db.wallet.get(state.id);
+        await db.wallet.put({
+            ...state,
+            sync_cursor: existing?.sync_cursor,
+            tombstone_cursor: existing?.tombstone_cursor,
+            offline_allowance: existing?.offline_allowance,
+            other_devices: existing?.other_devices
+        });
+    });
+}
+
+/**
+ * Advance the down-sync watermarks stored on the wallet
+ */
+export async function updateWalletSyncCursors(
+    userId: string,
+    cursors: { sync_cursor?: SyncCursor; tombstone_cursor?: TombstoneCursor }
+): Promise<void> {
+    // No wallet yet (first load still running): the next down-sync starts over
+    await db.wallet.update(userId, cursors);
+}
+
+/**
+ * Store the offline allowance the server just issued to this device
+ */
+export async function updateWalletAllowance(userId: string, allowance: OfflineAllowance): Promise<void> {
+    await db.wallet.update(userId, { offline_allowance: allowance });
+}
+
+/**
+ * Store what the account's other devices may still spend offline
+ */
+export async function updateWalletOtherDevices(userId: string, devices: DeviceAllowanceUsage[]): Promise<void> {
+    await db.wallet.update(userId, { other_devices: devices });
 }
 
 /**
  * Add a new offline transaction
+ * Also registers a Background Sync so the service worker can send it
+ * even if the tab is closed before connectivity returns.
  */
 export async function addOfflineTransaction(tx: OfflineTransaction): Promise<number> {
-    return db.transactions.add(tx);
+    const id = await db.transactions.add(tx);
+    requestBackgroundSync();
+    return id;
 }
 
 /**
@@ -82,7 +289,158 @@ export async function markTransactionsSynced(offlineIds: string[]): Promise<void
     await db.transactions
         .where('offline_id')
         .anyOf(offlineIds)
-        .modify({ sync_status: 'synced' });
+        .modify(tx => {
+            tx.sync_status = 'synced';
+            delete tx.next_retry_at;
+            delete tx.failure_reason;
+            delete tx.failure_detail;
+        });
+}
+
+/**
+ * Mark transactions as in flight before sending them to the server
+ * From here on the server may hold them, so they can no longer be edited.
+ */
+export async function markTransactionsSyncing(offlineIds: string[]): Promise<void> {
+    const now = Date.now();
+    await db.transactions
+        .where('offline_id')
+        .anyOf(offlineIds)
+        .modify({ sync_status: 'syncing', last_sync_attempt: now, is_editable: false, held_until: undefined });
+}
+
+/**
+ * Record a failed sync attempt and schedule the next retry with jittered backoff
+ *
+ * Once the retry budget is exhausted the row stays 'failed' with no
+ * next_retry_at, so only a manual retry will send it again.
+ */
+export async function scheduleTransactionRetry(
+    offlineIds: string[],
+    reason: SyncFailureReason = 'network_error'
+): Promise<void> {
+    await recordSyncFailures(offlineIds.map(offline_id => ({ offline_id, reason })));
+}
+
+/**
+ * Record per-row sync failures with their typed reason
+ *
+ * Transient reasons are rescheduled with backoff; permanent ones move the
+ * row to 'failed' or 'conflict' (see syncErrors) and are not retried.
+ * Conflicts store the server's side in conflict_data for the ConflictCard.
+ */
+export async function recordSyncFailures(
+    failures: { offline_id: string; reason: SyncFailureReason; detail?: string; conflict?: ConflictData }[]
+): Promise<void> {
+    const now = Date.now();
+
+    await db.transaction('rw', db.transactions, async () => {
+        for (const failure of failures) {
+            await db.transactions
+                .where('offline_id')
+                .equals(failure.offline_id)
+                .modify(tx => {
+                    tx.retry_count = (tx.retry_count || 0) + 1;
+                    tx.last_sync_attempt = now;
+                    tx.failure_reason = failure.reason;
+                    if (failure.detail) {
+                        tx.failure_detail = failure.detail;
+                    } else {
+                        delete tx.failure_detail;
+                    }
+
+                    if (getFailureDisposition(failure.reason) !== 'retry') {
+                        tx.sync_status = getStatusForFailure(failure.reason);
+                        delete tx.next_retry_at;
+                        if (tx.sync_status === 'conflict') {
+                            tx.conflict_data = failure.conflict ?? { server_version: {}, detected_at: now };
+                        }
+                        return;
+                    }
+
+                    tx.sync_status = 'failed';
+                    if (isRetryBudgetExhausted(tx)) {
+                        delete tx.next_retry_at;
+                    } else {
+                        tx.next_retry_at = now + computeBackoffDelay(tx.retry_count);
+                    }
+                });
+        }
+    });
+}
+
+/**
+ * Manually requeue a transaction with a fresh retry budget
+ */
+export async function resetTransactionRetry(offlineId: string): Promise<void> {
+    await db.transactions
+        .where('offline_id')
+        .equals(offlineId)
+        .modify(tx => {
+            tx.sync_status = 'pending';
+            tx.retry_count = 0;
+            delete tx.next_retry_at;
+            delete tx.failure_reason;
+            delete tx.failure_detail;
+        });
+}
+
+/**
+ * Insert or update rows downloaded from the server, keyed by offline_id
+ *
+ * Existing synced rows keep their local id and local-only fields; the
+ * server's fields win. Rows still waiting to sync are left alone - the
+ * sync engine reconciles those before calling this.
+ *
+ * @returns Number of rows inserted or changed
+ */
+export async function upsertServerTransactions(serverTxs: OfflineTransaction[]): Promise<number> {
+    if (serverTxs.length === 0) return 0;
+
+    return db.transaction('rw', db.transactions, async () => {
+        const existing = await db.transactions
+            .where('offline_id')
+            .anyOf(serverTxs.map(tx => tx.offline_id))
+            .toArray();
+        const byOfflineId = new Map(existing.map(tx => [tx.offline_id, tx]));
+
+        const writes: OfflineTransaction[] = [];
+        for (const serverTx of serverTxs) {
+            const local = byOfflineId.get(serverTx.offline_id);
+            if (!local) {
+                writes.push(serverTx);
+            } else if (local.sync_status === 'synced' && !isSameServerVersion(local, serverTx)) {
+                writes.push({ ...local, ...serverTx, id: local.id });
+            }
+        }
+
+        await db.transactions.bulkPut(writes);
+        return writes.length;
+    });
+}
+
+function isSameServerVersion(local: OfflineTransaction, serverTx: OfflineTransaction): boolean {
+    return Number(local.amount) === Number(serverTx.amount)
+        && local.type === serverTx.type
+        && local.description === serverTx.description
+        && local.recipient_id === serverTx.recipient_id
+        && local.created_at === serverTx.created_at;
+}
+
+/**
+ * Remove local copies of transactions the server has deleted
+ * Only 'synced' rows are dropped - unsynced work is never discarded.
+ *
+ * @returns Number of rows removed
+ */
+export async function applyServerTombstones(userId: string, offlineIds: string[]): Promise<number> {
+    if (offlineIds.length === 0) return 0;
+
+    return db.transactions
+        .where('offline_id')
+        .anyOf(offlineIds)
+        .and(tx => tx.user_id === userId && tx.sync_status === 'synced')
+        .delete();
 }
 
 /**
@@ -115,22 +473,40 @@ export async function getSyncQueueItems(userId: string): Promise<import('./types
     const pendingTxs = await db.transactions
         .where('user_id')
         .equals(userId)
-        .and(tx => ['pending', 'syncing', 'failed'].includes(tx.sync_status))
+        .and(tx => ['held', 'pending', 'syncing', 'failed', 'conflict'].includes(tx.sync_status))
         .toArray();
 
+    const { maxRetries } = getRetryPolicy();
+
     return pendingTxs.map(tx => ({
         id: tx.offline_id,
         type: 'transaction' as const,
         description: `${tx.type === 'debit' ? 'Payment' : 'Incoming'}: ${tx.description}`,
         status: tx.sync_status,
         retry_count: tx.retry_count || 0,
-        max_retries: 5,
+        max_retries: maxRetries,
         created_at: tx.timestamp,
         last_attempt: tx.last_sync_attempt,
-        error_message: tx.sync_status === 'failed' ? 'Network error - will retry' : undefined
+        next_attempt: getNextAttemptAt(tx) ?? undefined,
+        failure_reason: tx.failure_reason,
+        error_message: getQueueErrorMessage(tx)
     }));
 }
 
+/**
+ * Build the error line shown for a queue item
+ */
+function getQueueErrorMessage(tx: OfflineTransaction): string | undefined {
+    if (tx.sync_status !== 'failed' && tx.sync_status !== 'conflict') return undefined;
+
+    const message = describeFailureReason(tx.failure_reason);
+    if (tx.sync_status === 'conflict' || isPermanentFailure(tx.failure_reason)) return message;
+
+    return isRetryBudgetExhausted(tx)
+        ? `${message} - retry limit reached`
+        : `${message} - will retry`;
+}
+
 /**
  * Update transaction sync status and retry count
  */
@@ -180,29 +556,56 @@ export async function checkWalletStaleness(userId: string): Promise<boolean> {
 }
 
 /**
- * Update pending transaction amounts in wallet
+ * Recompute the wallet's derived fields from the pending operation log
+ *
+ * shadow_balance, pending_debits and pending_credits are only ever
+ * written here, via the ledger reducer (see lib/ledger).
+ *
+ * @returns The updated wallet, or undefined if the user has none yet
  */
-export async function updateWalletPendingAmounts(userId: string): Promise<void> {
-    const pendingTxs = await getPendingTransactions(userId);
-    
-    const pending_debits = pendingTxs
-        .filter(tx => tx.type === 'debit')
-        .reduce((sum, tx) => sum + tx.amount, 0);
-    
-    const pending_credits = pendingTxs
-        .filter(tx => tx.type === 'credit')
-        .reduce((sum, tx) => sum + tx.amount, 0);
-    
-    const wallet = await getWalletState(userId);
-    if (wallet) {
-        await updateWalletState({
-            ...wallet,
-            pending_debits,
-            pending_credits,
-            shadow_balance: wallet.cached_balance - pending_debits + pending_credits
-        });
-    }
+export async function updateWalletPendingAmounts(userId: string): Promise<WalletState | undefined> {
+    return writeLedger(userId);
+}
+
+/**
+ * Store a balance confirmed by the server and replay pending operations on top
+ *
+ * @returns The updated wallet
+ */
+export async function applyServerBalance(userId: string, balance: number): Promise<WalletState> {
+    const wallet = await writeLedger(userId, balance);
+    return wallet!;
 }
+
+/**
+ * Derive and store the wallet in one transaction, so a row enqueued
+ * meanwhile can't be counted against a stale balance
+ */
+async function writeLedger(userId: string, serverBalance?: number): Promise<WalletState | undefined> {
+    return db.transaction('rw', db.wallet, db.transactions, async () => {
+        const existing = await db.wallet.get(userId);
+        const now = Date.now();
+
+        let wallet: WalletState;
+        if (serverBalance !== undefined) {
+            wallet = {
+                ...(existing ?? { id: userId, shadow_balance: serverBalance }),
+                cached_balance: serverBalance,
+                last_updated: now,
+                last_sync_success: now
+            };
+        } else if (existing) {
+            wallet = { ...existing, last_updated: now };
+        } else {
+            return undefined;
+        }
+
+        const updated = applyLedger(wallet, await getPendingTransactions(userId));
+        await db.wallet.put(updated);
+        return updated;
+    });
+}
+
 export async function cleanupOldTransactions(userId: string, daysOld: number = 30): Promise<number> {
     const cutoffTime = Date.now() - (daysOld * 24 * 60 * 60 * 1000);
     return db.transactions
@@ -0,0 +1,282 @@
+'use client';
+
+/**
+ * Device Keys - Per-device transaction signing
+ *
+ * - Each user gets a random HMAC-SHA256 secret on this device, created on
+ *   first use (works offline) and stored in ResilientDB as a
+ *   non-extractable CryptoKey
+ * - The raw secret is sent to the server exactly once via the
+ *   enroll_device_key RPC, then deleted locally
+ * - Every transaction is signed over user, offline_id, device, amount,
+ *   type, recipient, timestamp and description; process_offline_batch
+ *   re-computes the HMAC and rejects tampered or foreign-signed rows
+ * - Each device also holds an ECDSA payee key for signing QR payment
+ *   intents; its public half is registered against the device so the
+ *   server can tell which intents really belong to a payee
+ * - Enrolling also registers the device in the account's device list,
+ *   where any device can revoke another (listDevices / revokeDevice)
+ * - A revoked device finds out when the server refuses its rows, forgets
+ *   its key and signs out; signing in again enrolls a new key
+ */
+
+import { db, recordSyncFailures } from './db';
+import { supabase } from './supabase';
+import { isPermanentFailure } from './syncErrors';
+import {
+    buildSigningMessage,
+    generateDeviceSecret,
+    generateOfflineId,
+    generatePayeeKeyPair,
+    hmacSign,
+    importDeviceKey,
+    type SignableTransaction
+} from '@/utils/crypto';
+import type { DeviceInfo, DeviceKey, OfflineTransaction } from './types';
+
+/**
+ * Get this device's signing key for a user, creating it if needed
+ */
+export async function getDeviceKey(userId: string): Promise<DeviceKey> {
+    const existing = await db.deviceKeys.get(userId);
+    if (existing) return existing;
+
+    // Crypto calls can't run inside a Dexie transaction - prepare first
+    const secret = generateDeviceSecret();
+    const candidate: DeviceKey = {
+        user_id: userId,
+        device_id: generateOfflineId(),
+        key: await importDeviceKey(secret.raw),
+        pending_secret: secret.base64,
+        created_at: Date.now()
+    };
+
+    // Another tab may have created one meanwhile - first writer wins
+    return db.transaction('rw', db.deviceKeys, async () => {
+        const current = await db.deviceKeys.get(userId);
+        if (current) return current;
+
+        await db.deviceKeys.put(candidate);
+        console.log(`🔑 Device key created: ${candidate.device_id.slice(0, 8)}`);
+        return candidate;
+    });
+}
+
+/**
+ * Register this device's secret with the server (no-op once enrolled)
+ * Must succeed before any row signed by this device can sync.
+ */
+export async function enrollDeviceKey(userId: string): Promise<void> {
+    const deviceKey = await getDeviceKey(userId);
+    if (deviceKey.enrolled_at) return;
+    if (!deviceKey.pending_secret) {
+        throw new Error('Device key cannot be enrolled: secret no longer available');
+    }
+
+    const { data, error } = await supabase.rpc('enroll_device_key', {
+        p_device_id: deviceKey.device_id,
+        p_secret: deviceKey.pending_secret,
+        p_label: describeDevice()
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+        throw new Error(data?.error || 'Device enrollment failed');
+    }
+
+    await db.deviceKeys.update(userId, {
+        enrolled_at: Date.now(),
+        pending_secret: undefined
+    });
+    console.log(`✅ Device ${deviceKey.device_id.slice(0, 8)} enrolled`);
+}
+
+/**
+ * Get this device's QR payee key for a user, creating it if needed
+ */
+export async function getPayeeKey(userId: string): Promise<{ privateKey: CryptoKey; publicKey: string }> {
+    const deviceKey = await getDeviceKey(userId);
+    if (deviceKey.payee_private_key && deviceKey.payee_public_key) {
+        return { privateKey: deviceKey.payee_private_key, publicKey: deviceKey.payee_public_key };
+    }
+
+    const candidate = await generatePayeeKeyPair();
+
+    // Another tab may have created one meanwhile - first writer wins
+    return db.transaction('rw', db.deviceKeys, async () => {
+        const current = await db.deviceKeys.get(userId);
+        if (current?.payee_private_key && current.payee_public_key) {
+            return { privateKey: current.payee_private_key, publicKey: current.payee_public_key };
+        }
+
+        await db.deviceKeys.update(userId, {
+            payee_private_key: candidate.privateKey,
+            payee_public_key: candidate.publicKey
+        });
+        console.log(`🔑 Payee key created for device ${deviceKey.device_id.slice(0, 8)}`);
+        return candidate;
+    });
+}
+
+/**
+ * Link this device's payee public key to it on the server (no-op once registered)
+ * Requires the device to be enrolled. Until it is registered, payments
+ * made from this device's QR codes are rejected as intent_invalid.
+ */
+export async function registerPayeeKey(userId: string): Promise<void> {
+    const { publicKey } = await getPayeeKey(userId);
+    const deviceKey = await getDeviceKey(userId);
+    if (deviceKey.payee_key_registered_at) return;
+
+    await enrollDeviceKey(userId);
+
+    const { data, error } = await supabase.rpc('register_payee_key', {
+        p_device_id: deviceKey.device_id,
+        p_public_key: publicKey
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+        throw new Error(data?.error || 'Payee key registration failed');
+    }
+
+    await db.deviceKeys.update(userId, { payee_key_registered_at: Date.now() });
+    console.log(`✅ Payee key registered for device ${deviceKey.device_id.slice(0, 8)}`);
+}
+
+/**
+ * Sign a transaction with this device's key
+ * @returns The device_id and hex signature to store on the row
+ */
+export async function signTransaction(
+    tx: Omit<SignableTransaction, 'device_id'>
+): Promise<{ device_id: string; signature: string }> {
+    const deviceKey = await getDeviceKey(tx.user_id);
+    const signature = await hmacSign(
+        deviceKey.key,
+        buildSigningMessage({ ...tx, device_id: deviceKey.device_id })
+    );
+
+    return { device_id: deviceKey.device_id, signature };
+}
+
+/**
+ * Re-sign rows queued before device keys existed (salted-hash signatures)
+ * Only this device's own unsynced rows ever reach here.
+ */
+export async function resignLegacyTransactions(rows: OfflineTransaction[]): Promise<OfflineTransaction[]> {
+    return Promise.all(rows.map(async row => {
+        if (row.device_id) return row;
+
+        const { device_id, signature } = await signTransaction(row);
+        await db.transactions
+            .where('offline_id')
+            .equals(row.offline_id)
+            .modify({ device_id, signature });
+
+        return { ...row, device_id, signature };
+    }));
+}
+
+/**
+ * List the devices registered to the signed-in user, newest first
+ */
+export async function listDevices(): Promise<DeviceInfo[]> {
+    const { data, error } = await supabase.rpc('list_devices');
+    if (error) throw error;
+
+    return ((data ?? []) as DeviceInfo[]).map(device => ({
+        ...device,
+        allowance: device.allowance && {
+            limit: Number(device.allowance.limit),
+            spent: Number(device.allowance.spent),
+            expires_at: device.allowance.expires_at
+        }
+    }));
+}
+
+/**
+ * Revoke a device: its key stops verifying and its offline allowance is released
+ * Rows it signed but has not synced yet will be rejected as unknown_device,
+ * which signs the device out (see handleDeviceRevocation).
+ */
+export async function revokeDevice(deviceId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('revoke_device', { p_device_id: deviceId });
+
+    if (error) throw error;
+    if (!data?.success) {
+        throw new Error(data?.error || 'Device revocation failed');
+    }
+
+    console.log(`🔑 Device ${deviceId.slice(0, 8)} revoked`);
+}
+
+// Left for the sign-in page when this device signs itself out after being revoked
+const REVOKED_NOTICE_KEY = 'phantompay-device-revoked';
+
+/**
+ * Sign this device out if another device revoked it
+ *
+ * Only a revoked key makes the server refuse an enrolled device's rows as
+ * unknown_device. The key is forgotten, the rows it signed that have not
+ * been sent are marked rejected (nothing was charged for them) and the
+ * session ends, so the user has to sign in again to enroll a new key.
+ *
+ * @returns Whether this device had been revoked
+ */
+export async function handleDeviceRevocation(userId: string): Promise<boolean> {
+    const deviceKey = await db.deviceKeys.get(userId);
+    if (!deviceKey?.enrolled_at) return false;
+
+    const signed = await db.transactions
+        .where('user_id')
+        .equals(userId)
+        .filter(tx => tx.device_id === deviceKey.device_id)
+        .toArray();
+
+    const revoked = signed.some(tx => tx.sync_status === 'failed' && tx.failure_reason === 'unknown_device');
+    if (!revoked) return false;
+
+    console.warn(`🔑 Device ${deviceKey.device_id.slice(0, 8)} was revoked - signing out`);
+
+    const unsent = signed.filter(tx =>
+        tx.sync_status === 'held'
+        || tx.sync_status === 'pending'
+        || (tx.sync_status === 'failed' && !isPermanentFailure(tx.failure_reason)));
+    await recordSyncFailures(unsent.map(tx => ({ offline_id: tx.offline_id, reason: 'unknown_device' as const })));
+    await db.deviceKeys.delete(userId);
+
+    localStorage.setItem(REVOKED_NOTICE_KEY, String(Date.now()));
+    await supabase.auth.signOut();
+    return true;
+}
+
+/**
+ * Did this device sign itself out after being revoked? Reading clears it.
+ */
+export function takeDeviceRevokedNotice(): boolean {
+    if (typeof window === 'undefined') return false;
+    const notice = localStorage.getItem(REVOKED_NOTICE_KEY);
+    localStorage.removeItem(REVOKED_NOTICE_KEY);
+    return notice !== null;
+}
+
+/**
+ * Short human-readable label for the devices list
+ */
+function describeDevice(): string {
+    if (typeof navigator === 'undefined') return '';
+    const ua = navigator.userAgent;
+    const browser = /Edg\//.test(ua) ? 'Edge'
+        : /Chrome\//.test(ua) ? 'Chrome'
+        : /Firefox\//.test(ua) ? 'Firefox'
+        : /Safari\//.test(ua) ? 'Safari'
+        : 'Browser';
+    const os = /Android/.test(ua) ? 'Android'
+        : /iPhone|iPad/.test(ua) ? 'iOS'
+        : /Windows/.test(ua) ? 'Windows'
+        : /Mac OS X/.test(ua) ? 'macOS'
+        : /Linux/.test(ua) ? 'Linux'
+        : 'Unknown OS';
+    return `${browser} on ${os}`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Ledger - Derives the shadow balance from the pending operation log
+ *
+ * The single source of truth for what the user can spend offline:
+ *   shadow_balance = cached_balance (last server balance)
+ *                    replayed with every pending operation, oldest first
+ *
+ * Pure and deterministic: the same balance and the same set of pending
+ * rows always produce the same totals, whichever code path asks (sync
+ * engine, down-sync, useShadowTransaction). Amounts are summed in paise
+ * so repeated replays never accumulate floating point drift.
+ */
+
+import { isPermanentFailure } from './syncErrors';
+import type { OfflineTransaction, WalletState } from './types';
+
+export interface LedgerTotals {
+    shadow_balance: number;
+    pending_debits: number;
+    pending_credits: number;
+}
+
+const toPaise = (amount: number): number => Math.round(Number(amount) * 100);
+const fromPaise = (paise: number): number => paise / 100;
+
+/**
+ * Order pending operations the way the server will apply them
+ * (creation time, offline_id as a stable tie-breaker)
+ */
+export function orderPendingOperations(pending: OfflineTransaction[]): OfflineTransaction[] {
+    return [...pending].sort((a, b) =>
+        a.timestamp - b.timestamp || a.offline_id.localeCompare(b.offline_id));
+}
+
+/**
+ * Replay pending operations on top of the server balance
+ *
+ * @param cachedBalance - Last balance confirmed by the server
+ * @param pending - Rows that have not reached the server yet (see getPendingTransactions)
+ */
+export function reduceLedger(cachedBalance: number, pending: OfflineTransaction[]): LedgerTotals {
+    let balance = toPaise(cachedBalance);
+    let debits = 0;
+    let credits = 0;
+
+    for (const op of orderPendingOperations(pending)) {
+        const amount = toPaise(op.amount);
+        if (op.type === 'debit') {
+            balance -= amount;
+            debits += amount;
+        } else {
+            balance += amount;
+            credits += amount;
+        }
+    }
+
+    return {
+        shadow_balance: fromPaise(balance),
+        pending_debits: fromPaise(debits),
+        pending_credits: fromPaise(credits)
+    };
+}
+
+/**
+ * Wallet state with its derived fields recomputed from the pending log
+ */
+export function applyLedger(wallet: WalletState, pending: OfflineTransaction[]): WalletState {
+    return {
+        ...wallet,
+        ...reduceLedger(wallet.cached_balance, pending)
+    };
+}
+
+/**
+ * How much of an offline allowance this device's debits have used
+ *
+ * Synced debits count as well as pending ones. Rows the server refused
+ * (permanent failures, conflicts) never moved money, so they give their
+ * share back.
+ */
+export function reduceAllowanceSpending(allowanceId: string, rows: OfflineTransaction[]): number {
+    let spent = 0;
+    for (const row of rows) {
+        if (row.allowance_id !== allowanceId || row.type !== 'debit') continue;
+        if (row.sync_status === 'conflict') continue;
+        if (row.sync_status === 'failed' && isPermanentFailure(row.failure_reason)) continue;
+        spent += toPaise(row.amount);
+    }
+    return fromPaise(spent);
+}
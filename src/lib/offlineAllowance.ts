@@ -0,0 +1,179 @@
+'use client';
+
+/**
+ * Offline Allowance - How much this device may spend before it syncs again
+ *
+ * - After every sync the server issues this device an allowance: a slice of
+ *   the balance reserved for it, with an expiry (issue_offline_allowance)
+ * - The allowance is signed with this device's own HMAC secret, so a
+ *   tampered or foreign allowance is detected locally
+ * - Every debit names the allowance it spends from (allowance_id, part of
+ *   the signed row); process_offline_batch rejects debits that do not fit
+ *   with allowance_exceeded / allowance_expired
+ */
+
+import { db, updateWalletAllowance } from './db';
+import { enrollDeviceKey, getDeviceKey, signTransaction } from './deviceKeys';
+import { reduceAllowanceSpending } from './ledger';
+import { supabase } from './supabase';
+import { isPermanentFailure } from './syncErrors';
+import { buildAllowanceMessage, hmacSign } from '@/utils/crypto';
+import type { OfflineAllowance, OfflineTransaction } from './types';
+
+// Top up ahead of expiry so a device going offline still has a full window
+const REFRESH_BEFORE_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+export interface AllowanceStatus {
+    allowance: OfflineAllowance;
+    spent: number;
+    remaining: number;
+    expired: boolean;
+}
+
+export type AllowanceCheck =
+    | { ok: true; allowance: OfflineAllowance }
+    | { ok: false; error: string };
+
+/**
+ * Current allowance of this device and how much of it is left
+ * @returns null if this device holds no allowance for the user
+ */
+export async function getAllowanceStatus(userId: string): Promise<AllowanceStatus | null> {
+    const wallet = await db.wallet.get(userId);
+    const allowance = wallet?.offline_allowance;
+    if (!allowance) return null;
+
+    // Issued to a device key this browser no longer holds
+    const deviceKey = await db.deviceKeys.get(userId);
+    if (deviceKey?.device_id !== allowance.device_id) return null;
+
+    const rows = await db.transactions.where('user_id').equals(userId).toArray();
+    const spent = reduceAllowanceSpending(allowance.id, rows);
+
+    return {
+        allowance,
+        spent,
+        remaining: Math.max(0, Math.round((allowance.limit - spent) * 100) / 100),
+        expired: Date.now() >= allowance.expires_at
+    };
+}
+
+/**
+ * Ask the server for a fresh allowance (online only)
+ *
+ * Skipped while the current one is untouched and not close to expiry, and
+ * while debits signed under it still wait to sync - the server would
+ * reserve money those debits are about to spend.
+ *
+ * @param force - Replace the current allowance regardless
+ */
+export async function refreshOfflineAllowance(userId: string, force = false): Promise<AllowanceStatus | null> {
+    const status = await getAllowanceStatus(userId);
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return status;
+    if (!force && status && !(await needsRefresh(userId, status))) return status;
+
+    await enrollDeviceKey(userId);
+    const deviceKey = await getDeviceKey(userId);
+
+    const { data, error } = await supabase.rpc('issue_offline_allowance', {
+        p_device_id: deviceKey.device_id
+    });
+
+    if (error) throw error;
+    if (!data?.success || !data.allowance) {
+        throw new Error(data?.error || 'Offline allowance was not issued');
+    }
+
+    const allowance: OfflineAllowance = {
+        ...data.allowance,
+        limit: Number(data.allowance.limit)
+    };
+
+    const expected = await hmacSign(deviceKey.key, buildAllowanceMessage({ ...allowance, user_id: userId }));
+    if (allowance.device_id !== deviceKey.device_id || expected !== allowance.signature) {
+        throw new Error('Offline allowance signature is invalid');
+    }
+
+    await updateWalletAllowance(userId, allowance);
+    console.log(`✅ Offline allowance: ${allowance.limit} until ${new Date(allowance.expires_at).toLocaleString()}`);
+
+    return getAllowanceStatus(userId);
+}
+
+/**
+ * Check that a new debit fits this device's allowance
+ * When online, a missing, expired or exhausted allowance is refreshed first.
+ */
+export async function checkOfflineAllowance(userId: string, amount: number): Promise<AllowanceCheck> {
+    let status = await getAllowanceStatus(userId);
+
+    if (!status || status.expired || status.remaining < amount) {
+        try {
+            status = await refreshOfflineAllowance(userId, true);
+        } catch (err) {
+            console.warn('Offline allowance refresh failed:', err);
+        }
+    }
+
+    if (!status) {
+        return { ok: false, error: 'No offline spending limit on this device yet - go online to sync' };
+    }
+    if (status.expired) {
+        return { ok: false, error: 'Offline spending limit expired - go online to renew it' };
+    }
+    if (status.remaining < amount) {
+        return { ok: false, error: `Over this device's offline spending limit (${status.remaining} left)` };
+    }
+
+    return { ok: true, allowance: status.allowance };
+}
+
+/**
+ * Stamp the current allowance on unsynced debits queued without one
+ * (before allowances existed) and re-sign them. They count as spent now,
+ * inside the fresh allowance's window. Only this device's own rows ever
+ * reach here.
+ */
+export async function attachAllowanceToDebits(
+    userId: string,
+    rows: OfflineTransaction[]
+): Promise<OfflineTransaction[]> {
+    if (!rows.some(row => row.type === 'debit' && !row.allowance_id)) return rows;
+
+    let status = await getAllowanceStatus(userId);
+    if (!status || status.expired) {
+        status = await refreshOfflineAllowance(userId, true);
+    }
+    if (!status) return rows;
+
+    const allowanceId = status.allowance.id;
+    return Promise.all(rows.map(async row => {
+        if (row.type !== 'debit' || row.allowance_id) return row;
+
+        const stamped = { ...row, allowance_id: allowanceId, timestamp: Date.now() };
+        const { device_id, signature } = await signTransaction(stamped);
+        await db.transactions
+            .where('offline_id')
+            .equals(row.offline_id)
+            .modify({ allowance_id: allowanceId, timestamp: stamped.timestamp, device_id, signature });
+
+        return { ...stamped, device_id, signature };
+    }));
+}
+
+/**
+ * Whether a sync should replace the current allowance
+ */
+async function needsRefresh(userId: string, status: AllowanceStatus): Promise<boolean> {
+    if (status.expired || status.allowance.expires_at - Date.now() < REFRESH_BEFORE_EXPIRY_MS) return true;
+    if (status.spent === 0) return false;
+
+    const unsynced = await db.transactions
+        .where('user_id')
+        .equals(userId)
+        .and(tx => tx.allowance_id === status.allowance.id
+            && (tx.sync_status === 'held' || tx.sync_status === 'pending' || tx.sync_status === 'syncing'
+                || (tx.sync_status === 'failed' && !isPermanentFailure(tx.failure_reason))))
+        .count();
+    return unsynced === 0;
+}
@@ -0,0 +1,380 @@
+'use client';
+
+/**
+ * Offline Transactions - The one way a row enters or changes in the shadow ledger
+ *
+ * Used by useShadowTransaction for payments the user makes (including
+ * paying a payment request) and by the recurring scheduler for scheduled
+ * runs, so all of them get the same checks:
+ * - Amount, description and QR intent validation
+ * - Shadow balance and offline allowance checks for debits
+ * - Signed with this device's key, then the wallet's pending amounts
+ *   are recomputed
+ * - Filed under the caller's category, or the suggested one (see categories)
+ *
+ * Rows the user typed in themselves stay editable (amount, description,
+ * recipient) and deletable until the sync engine first picks them up:
+ * markTransactionsSyncing clears is_editable for good, since from then on
+ * the server may already hold the row.
+ *
+ * Payments the user makes can also be held for an undo window
+ * (UNDO_WINDOW_MS): the row is 'held' and counts against the shadow balance
+ * at once, but the sync engine leaves it alone until held_until. Undoing
+ * removes it; releasing it early makes it a plain 'pending' row.
+ */
+
+import { addOfflineTransaction, db, getWalletState, updateWalletPendingAmounts } from './db';
+import { suggestCategory } from './categories';
+import { signTransaction } from './deviceKeys';
+import { checkOfflineAllowance, getAllowanceStatus } from './offlineAllowance';
+import { generateOfflineId } from '@/utils/crypto';
+import type { OfflineTransaction, QRPaymentIntent, TransactionCategory, TransactionType, WalletState } from './types';
+
+export interface NewOfflineTransaction {
+    amount: number;
+    description: string;
+    type: TransactionType;
+    recipientId?: string; // For P2P transfers
+    qrIntent?: QRPaymentIntent;
+    paymentRequestId?: string; // Payment request this debit pays (recipient must be the requester)
+    offlineId?: string; // Deterministic ID (scheduled runs); a fresh UUID otherwise
+    holdMs?: number; // Undo window before the row may sync (0 or unset = sync straight away)
+    category?: TransactionCategory; // Suggested from the description and history when unset
+}
+
+export type RecordTransactionResult =
+    | { ok: true; transaction: OfflineTransaction; wallet: WalletState | undefined }
+    | { ok: false; error: string };
+
+export interface PendingTransactionChanges {
+    amount?: number;
+    description?: string;
+    recipientId?: string | null; // null removes the recipient
+}
+
+export type PendingTransactionResult =
+    | { ok: true; wallet: WalletState | undefined }
+    | { ok: false; error: string };
+
+const LOCKED_ERROR = 'This transaction is already syncing and can no longer be changed';
+
+// NEXT_PUBLIC_UNDO_WINDOW_MS overrides the default; 0 turns the undo window off
+const DEFAULT_UNDO_WINDOW_MS = 10 * 1000;
+const configuredUndoWindow = parseInt(process.env.NEXT_PUBLIC_UNDO_WINDOW_MS || '', 10);
+
+/**
+ * How long a new payment is held on this device before it may sync
+ */
+export const UNDO_WINDOW_MS = Number.isFinite(configuredUndoWindow) && configuredUndoWindow >= 0
+    ? configuredUndoWindow
+    : DEFAULT_UNDO_WINDOW_MS;
+
+/**
+ * Is this row still inside its undo window?
+ */
+export function isTransactionHeld(tx: OfflineTransaction): boolean {
+    return tx.sync_status === 'held';
+}
+
+/**
+ * Can the user still edit or delete this row?
+ */
+export function isTransactionEditable(tx: OfflineTransaction): boolean {
+    return (tx.sync_status === 'pending' || isTransactionHeld(tx)) && tx.is_editable === true;
+}
+
+// SEC-06 Fix: Sanitize description
+function sanitizeDescription(description: string): string {
+    return description
+        .replace(/[<>]/g, '') // Remove angle brackets (XSS prevention)
+        .replace(/javascript:/gi, '') // Remove JS protocol
+        .slice(0, 100) // Limit length
+        || 'Transaction';
+}
+
+// SEC-05 Fix: Round amount to 2 decimal places
+function roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Validate, sign and store a new offline transaction
+ */
+export async function recordOfflineTransaction(
+    userId: string,
+    input: NewOfflineTransaction
+): Promise<RecordTransactionResult> {
+    const { amount, description, type, recipientId, qrIntent, paymentRequestId } = input;
+
+    // SEC-08 Fix: Prevent self-payment
+    if (recipientId && recipientId === userId) {
+        return { ok: false, error: 'Cannot pay yourself' };
+    }
+
+    // SEC-04 Fix: Validate amount is positive and finite
+    if (!Number.isFinite(amount) || amount <= 0) {
+        return { ok: false, error: 'Invalid amount: must be a positive number' };
+    }
+
+    const safeDescription = sanitizeDescription(description);
+    const safeAmount = roundAmount(amount);
+
+    // Double-check safeAmount is still valid after rounding
+    if (safeAmount <= 0) {
+        return { ok: false, error: 'Amount too small' };
+    }
+
+    // A QR payment must match the intent it redeems (the server checks again)
+    if (qrIntent && (
+        type !== 'debit'
+        || recipientId !== qrIntent.recipient_id
+        || (qrIntent.amount !== undefined && qrIntent.amount !== safeAmount)
+    )) {
+        return { ok: false, error: 'Payment does not match the scanned QR code' };
+    }
+
+    // A request payment goes to the requester (the server checks the request itself)
+    if (paymentRequestId && (type !== 'debit' || !recipientId)) {
+        return { ok: false, error: 'A request can only be paid to the person who asked' };
+    }
+
+    // Check sufficient balance for debits
+    const walletState = await getWalletState(userId);
+    if (!walletState) {
+        return { ok: false, error: 'No wallet state' };
+    }
+    if (type === 'debit' && walletState.shadow_balance < safeAmount) {
+        return { ok: false, error: 'Insufficient shadow balance' };
+    }
+
+    // Debits must also fit the allowance the server reserved for this device
+    let allowanceId: string | undefined;
+    if (type === 'debit') {
+        const check = await checkOfflineAllowance(userId, safeAmount);
+        if (!check.ok) {
+            return { ok: false, error: check.error };
+        }
+        allowanceId = check.allowance.id;
+    }
+
+    const category = input.category ?? await suggestCategory(userId, {
+        description: safeDescription,
+        type,
+        amount: safeAmount,
+        recipientId
+    });
+
+    const timestamp = Date.now();
+    const offlineId = input.offlineId ?? generateOfflineId();
+    const holdMs = input.holdMs ?? 0;
+    // Signed with this device's key over every field the server acts on
+    const { device_id, signature } = await signTransaction({
+        user_id: userId,
+        offline_id: offlineId,
+        amount: safeAmount,
+        type,
+        recipient_id: recipientId,
+        timestamp,
+        description: safeDescription,
+        allowance_id: allowanceId,
+        qr_intent: qrIntent,
+        payment_request_id: paymentRequestId
+    });
+
+    const transaction: OfflineTransaction = {
+        offline_id: offlineId,
+        user_id: userId,
+        recipient_id: recipientId,
+        amount: safeAmount,
+        type,
+        description: safeDescription,
+        timestamp,
+        signature,
+        device_id,
+        allowance_id: allowanceId,
+        qr_intent: qrIntent,
+        payment_request_id: paymentRequestId,
+        category,
+        sync_status: holdMs > 0 ? 'held' : 'pending',
+        held_until: holdMs > 0 ? timestamp + holdMs : undefined,
+        created_at: new Date(timestamp).toISOString(),
+        // QR, request and scheduled payments are bound to what they pay
+        is_editable: !qrIntent && !paymentRequestId && !input.offlineId
+    };
+
+    // Add to local database, then update the shadow balance immediately
+    await addOfflineTransaction(transaction);
+    const wallet = await updateWalletPendingAmounts(userId);
+
+    console.log(`✅ Transaction recorded offline: ${type} ${safeAmount}`);
+
+    return { ok: true, transaction, wallet };
+}
+
+/**
+ * Change a pending transaction and re-sign it
+ *
+ * The row is re-stamped with the current time and allowance, like a new
+ * payment, and only written if it is still editable by then.
+ */
+export async function editPendingTransaction(
+    userId: string,
+    offlineId: string,
+    changes: PendingTransactionChanges
+): Promise<PendingTransactionResult> {
+    const row = await db.transactions.where('offline_id').equals(offlineId).first();
+    if (!row || row.user_id !== userId) {
+        return { ok: false, error: 'Transaction not found' };
+    }
+    if (!isTransactionEditable(row)) {
+        return { ok: false, error: LOCKED_ERROR };
+    }
+
+    const amount = changes.amount ?? row.amount;
+    if (!Number.isFinite(amount) || amount <= 0) {
+        return { ok: false, error: 'Invalid amount: must be a positive number' };
+    }
+    const safeAmount = roundAmount(amount);
+    if (safeAmount <= 0) {
+        return { ok: false, error: 'Amount too small' };
+    }
+
+    const safeDescription = sanitizeDescription(changes.description ?? row.description);
+    const recipientId = changes.recipientId === undefined ? row.recipient_id : changes.recipientId ?? undefined;
+    if (recipientId && recipientId === userId) {
+        return { ok: false, error: 'Cannot pay yourself' };
+    }
+
+    // The row's old amount still counts against the balance and the allowance
+    let allowanceId: string | undefined;
+    if (row.type === 'debit') {
+        const walletState = await getWalletState(userId);
+        if (!walletState) {
+            return { ok: false, error: 'No wallet state' };
+        }
+        if (walletState.shadow_balance + row.amount < safeAmount) {
+            return { ok: false, error: 'Insufficient shadow balance' };
+        }
+
+        const status = await getAllowanceStatus(userId);
+        const alreadyCounted = status && status.allowance.id === row.allowance_id ? row.amount : 0;
+        let check = await checkOfflineAllowance(userId, Math.max(0, safeAmount - alreadyCounted));
+        if (check.ok && alreadyCounted > 0 && check.allowance.id !== row.allowance_id) {
+            // A fresh allowance was issued meanwhile: the whole amount must fit it
+            check = await checkOfflineAllowance(userId, safeAmount);
+        }
+        if (!check.ok) {
+            return { ok: false, error: check.error };
+        }
+        allowanceId = check.allowance.id;
+    }
+
+    const timestamp = Date.now();
+    const { device_id, signature } = await signTransaction({
+        user_id: userId,
+        offline_id: offlineId,
+        amount: safeAmount,
+        type: row.type,
+        recipient_id: recipientId,
+        timestamp,
+        description: safeDescription,
+        allowance_id: allowanceId
+    });
+
+    // The sync engine may have picked the row up while we were signing
+    const written = await db.transaction('rw', db.transactions, async () => {
+        const current = await db.transactions.where('offline_id').equals(offlineId).first();
+        if (!current || !isTransactionEditable(current) || current.signature !== row.signature) {
+            return false;
+        }
+
+        await db.transactions.where('offline_id').equals(offlineId).modify(tx => {
+            tx.amount = safeAmount;
+            tx.description = safeDescription;
+            tx.recipient_id = recipientId;
+            tx.timestamp = timestamp;
+            tx.created_at = new Date(timestamp).toISOString();
+            tx.signature = signature;
+            tx.device_id = device_id;
+            tx.allowance_id = allowanceId;
+        });
+        return true;
+    });
+
+    if (!written) {
+        return { ok: false, error: LOCKED_ERROR };
+    }
+
+    const wallet = await updateWalletPendingAmounts(userId);
+    console.log(`✏️ Pending transaction edited: ${offlineId}`);
+
+    return { ok: true, wallet };
+}
+
+/**
+ * Void a pending transaction: it leaves the shadow ledger and never syncs
+ */
+export async function deletePendingTransaction(userId: string, offlineId: string): Promise<PendingTransactionResult> {
+    const deleted = await db.transaction('rw', db.transactions, async () => {
+        const row = await db.transactions.where('offline_id').equals(offlineId).first();
+        if (!row || row.user_id !== userId || !isTransactionEditable(row)) {
+            return false;
+        }
+
+        await db.transactions.where('offline_id').equals(offlineId).delete();
+        return true;
+    });
+
+    if (!deleted) {
+        return { ok: false, error: LOCKED_ERROR };
+    }
+
+    const wallet = await updateWalletPendingAmounts(userId);
+    console.log(`🗑️ Pending transaction deleted: ${offlineId}`);
+
+    return { ok: true, wallet };
+}
+
+/**
+ * Take back a payment that is still inside its undo window
+ *
+ * Unlike deletePendingTransaction this also works for rows that can't be
+ * edited (QR and request payments): nothing has left the device yet.
+ */
+export async function undoHeldTransaction(userId: string, offlineId: string): Promise<PendingTransactionResult> {
+    const undone = await db.transaction('rw', db.transactions, async () => {
+        const row = await db.transactions.where('offline_id').equals(offlineId).first();
+        if (!row || row.user_id !== userId || !isTransactionHeld(row)) {
+            return false;
+        }
+
+        await db.transactions.where('offline_id').equals(offlineId).delete();
+        return true;
+    });
+
+    if (!undone) {
+        return { ok: false, error: 'Too late to undo - this payment is already on its way' };
+    }
+
+    const wallet = await updateWalletPendingAmounts(userId);
+    console.log(`↩️ Held transaction undone: ${offlineId}`);
+
+    return { ok: true, wallet };
+}
+
+/**
+ * End a row's undo window early so the next sync may send it
+ * @returns Whether the row was still held
+ */
+export async function releaseHeldTransaction(userId: string, offlineId: string): Promise<boolean> {
+    const released = await db.transactions
+        .where('offline_id')
+        .equals(offlineId)
+        .and(tx => tx.user_id === userId && isTransactionHeld(tx))
+        .modify(tx => {
+            tx.sync_status = 'pending';
+            delete tx.held_until;
+        });
+
+    return released > 0;
+}
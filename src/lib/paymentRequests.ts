@@ -0,0 +1,216 @@
+'use client';
+
+/**
+ * Payment Requests - Asking another user for money, and answering
+ *
+ * - A request is open while pending or partially_paid; it ends approved
+ *   (paid in full), rejected, cancelled by the requester or expired
+ * - The payer may pay part of it and the rest later
+ * - Paying works offline: it is a signed debit to the requester naming the
+ *   request, queued in the shadow ledger and settled by process_offline_batch
+ *   (migration 017), which rejects it if the request was cancelled, declined
+ *   or paid in the meantime
+ * - Declining, cancelling and reminders go through the migration 016 RPCs
+ *   and need a connection
+ * - The last inbox fetched is kept in Dexie so it can be paid from offline
+ */
+
+import { db, getPendingTransactions } from './db';
+import { recordOfflineTransaction, type RecordTransactionResult } from './offlineTransactions';
+import { supabase } from './supabase';
+import type { PaymentRequest } from './types';
+
+export const REQUEST_EXPIRY_OPTIONS = [
+    { hours: 24, label: '1 day' },
+    { hours: 72, label: '3 days' },
+    { hours: 168, label: '7 days' },
+    { hours: 720, label: '30 days' }
+];
+
+export const DEFAULT_REQUEST_EXPIRY_HOURS = 168;
+
+export interface PaymentRequestLists {
+    incoming: PaymentRequest[];
+    outgoing: PaymentRequest[];
+}
+
+export function isOpenRequest(request: Pick<PaymentRequest, 'status'>): boolean {
+    return request.status === 'pending' || request.status === 'partially_paid';
+}
+
+/**
+ * What the payer still owes on a request
+ */
+export function remainingAmount(request: Pick<PaymentRequest, 'amount' | 'paid_amount'>): number {
+    return Math.max(0, Math.round((request.amount - request.paid_amount) * 100) / 100);
+}
+
+function normalizeRequest(request: PaymentRequest): PaymentRequest {
+    return {
+        ...request,
+        amount: Number(request.amount),
+        paid_amount: Number(request.paid_amount)
+    };
+}
+
+/**
+ * Ask someone for money
+ * @returns The new request's ID
+ */
+export async function createPaymentRequest(
+    payerEmail: string,
+    amount: number,
+    description: string,
+    expiresInHours: number = DEFAULT_REQUEST_EXPIRY_HOURS
+): Promise<string> {
+    const { data, error } = await supabase.rpc('create_payment_request', {
+        payer_email: payerEmail.trim(),
+        request_amount: amount,
+        request_description: description,
+        expires_in_hours: expiresInHours
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+        throw new Error(data?.error || 'Failed to send request');
+    }
+
+    return data.request_id as string;
+}
+
+/**
+ * Requests the current user received and sent (open ones first for incoming)
+ * Overdue requests are expired server-side before they are listed. The
+ * result replaces the user's cached inbox.
+ */
+export async function listPaymentRequests(userId: string): Promise<PaymentRequestLists> {
+    const { data, error } = await supabase.rpc('list_payment_requests');
+    if (error) throw error;
+
+    const lists = {
+        incoming: ((data?.incoming ?? []) as PaymentRequest[]).map(normalizeRequest),
+        outgoing: ((data?.outgoing ?? []) as PaymentRequest[]).map(normalizeRequest)
+    };
+
+    await db.transaction('rw', db.paymentRequests, async () => {
+        await db.paymentRequests.where('payer_id').equals(userId).delete();
+        await db.paymentRequests.where('requester_id').equals(userId).delete();
+        await db.paymentRequests.bulkPut([...lists.incoming, ...lists.outgoing]);
+    });
+
+    return lists;
+}
+
+/**
+ * The inbox as last fetched, for when there is no connection
+ */
+export async function getCachedPaymentRequests(userId: string): Promise<PaymentRequestLists> {
+    const [incoming, outgoing] = await Promise.all([
+        db.paymentRequests.where('payer_id').equals(userId).toArray(),
+        db.paymentRequests.where('requester_id').equals(userId).toArray()
+    ]);
+    const newestFirst = (a: PaymentRequest, b: PaymentRequest) => b.created_at - a.created_at;
+
+    return {
+        incoming: incoming.sort((a, b) =>
+            Number(isOpenRequest(b)) - Number(isOpenRequest(a)) || newestFirst(a, b)),
+        outgoing: outgoing.sort(newestFirst)
+    };
+}
+
+/**
+ * What this device has paid towards each request but not yet synced
+ * (pending, in flight or waiting for a retry), keyed by request ID
+ */
+export async function getQueuedRequestPayments(userId: string): Promise<Record<string, number>> {
+    const queued: Record<string, number> = {};
+    for (const tx of await getPendingTransactions(userId)) {
+        if (!tx.payment_request_id) continue;
+        queued[tx.payment_request_id] = Math.round(((queued[tx.payment_request_id] ?? 0) + tx.amount) * 100) / 100;
+    }
+    return queued;
+}
+
+/**
+ * Pay (all or part of) a request through the shadow ledger
+ *
+ * Recorded as a signed debit to the requester, so it works offline and is
+ * deducted from the shadow balance at once. The sync engine settles it.
+ *
+ * @param queued - Already paid towards this request but not synced yet
+ */
+export async function recordRequestPayment(
+    userId: string,
+    request: PaymentRequest,
+    amount: number,
+    queued: number = 0
+): Promise<RecordTransactionResult> {
+    if (request.payer_id !== userId || !isOpenRequest(request)) {
+        return { ok: false, error: 'This request can no longer be paid' };
+    }
+    if (request.expires_at <= Date.now()) {
+        return { ok: false, error: 'This request has expired' };
+    }
+
+    const owed = Math.max(0, Math.round((remainingAmount(request) - queued) * 100) / 100);
+    if (amount > owed) {
+        return { ok: false, error: `Only ${owed.toLocaleString()} Rs is still owed` };
+    }
+
+    return recordOfflineTransaction(userId, {
+        amount,
+        description: `Paid request: ${request.description || 'Payment request'}`,
+        type: 'debit',
+        recipientId: request.requester_id,
+        paymentRequestId: request.id
+    });
+}
+
+/**
+ * Decline a request (online only; nothing is paid)
+ */
+export async function declinePaymentRequest(requestId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('respond_to_request', {
+        request_id: requestId,
+        approve: false
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+        throw new Error(data?.error || 'Failed to decline request');
+    }
+
+    console.log(`🚫 Declined request ${requestId}`);
+}
+
+/**
+ * Withdraw an open request (requester only). Anything already paid stays paid.
+ */
+export async function cancelPaymentRequest(requestId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('cancel_payment_request', {
+        p_request_id: requestId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+        throw new Error(data?.error || 'Failed to cancel request');
+    }
+
+    console.log(`🗑️ Cancelled request ${requestId}`);
+}
+
+/**
+ * Nudge the payer about an open request (at most once a day)
+ */
+export async function remindPaymentRequest(requestId: string): Promise<void> {
+    const { data, error } = await supabase.rpc('remind_payment_request', {
+        p_request_id: requestId
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+        throw new Error(data?.error || 'Failed to send reminder');
+    }
+
+    console.log(`🔔 Reminder sent for request ${requestId}`);
+}
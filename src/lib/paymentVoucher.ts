@@ -0,0 +1,208 @@
+'use client';
+
+/**
+ * Payment Vouchers - Offline device-to-device payment handoff
+ *
+ * - After a QR payment, the payer's device shows a voucher QR: the signed
+ *   transaction row plus an ECDSA signature by the payer's device key
+ * - The payee scans it, checks it offline (payer signature, and that it
+ *   redeems an intent this device issued) and records a pending credit
+ *   under the server's offline_id for it (offline_id + '-rcv')
+ * - Whichever side syncs first settles the payment: the payer through
+ *   process_offline_batch, the payee through submit_payment_voucher.
+ *   Both verify the payer's HMAC and settle the offline_id only once;
+ *   down-sync then reconciles the other side by offline_id
+ */
+
+import { db, addOfflineTransaction } from './db';
+import { getPayeeKey } from './deviceKeys';
+import { buildIntentMessage, CLOCK_SKEW_MS } from './qrIntent';
+import { buildSigningMessage, ecdsaSign, ecdsaVerify } from '@/utils/crypto';
+import type { OfflineTransaction, PaymentVoucher } from './types';
+
+export const VOUCHER_VERSION = 1;
+
+// process_offline_batch stores the payee's copy of a P2P debit under this suffix
+const RECIPIENT_SUFFIX = '-rcv';
+
+export type VoucherVerification =
+    | { ok: true; voucher: PaymentVoucher }
+    | { ok: false; error: string };
+
+/**
+ * Canonical message signed by the payer's device key
+ * Covers the transaction exactly as the server will verify it.
+ */
+export function buildVoucherMessage(voucher: Omit<PaymentVoucher, 'voucher_signature'>): string {
+    return [
+        'phantompay-voucher',
+        voucher.v,
+        voucher.payer_key,
+        encodeURIComponent(voucher.payer_name ?? ''),
+        buildSigningMessage(voucher)
+    ].join(':');
+}
+
+/**
+ * Build the voucher for a QR payment this device just recorded
+ *
+ * @param tx - The payer's own row (must redeem a QR intent)
+ * @param payerName - Shown to the payee
+ */
+export async function createPaymentVoucher(tx: OfflineTransaction, payerName?: string): Promise<PaymentVoucher> {
+    if (!tx.qr_intent || !tx.recipient_id || !tx.device_id || tx.type !== 'debit') {
+        throw new Error('Only signed QR payments can be handed off as vouchers');
+    }
+
+    const { privateKey, publicKey } = await getPayeeKey(tx.user_id);
+
+    const unsigned: Omit<PaymentVoucher, 'voucher_signature'> = {
+        kind: 'voucher',
+        v: VOUCHER_VERSION,
+        offline_id: tx.offline_id,
+        user_id: tx.user_id,
+        payer_name: payerName || undefined,
+        recipient_id: tx.recipient_id,
+        amount: tx.amount,
+        type: 'debit',
+        description: tx.description,
+        timestamp: tx.timestamp,
+        device_id: tx.device_id,
+        allowance_id: tx.allowance_id,
+        signature: tx.signature,
+        qr_intent: tx.qr_intent,
+        payer_key: publicKey
+    };
+
+    return {
+        ...unsigned,
+        voucher_signature: await ecdsaSign(privateKey, buildVoucherMessage(unsigned))
+    };
+}
+
+/**
+ * Build the voucher for the payment that redeemed a scanned intent
+ * @returns null if this device holds no such payment
+ */
+export async function createVoucherForIntent(
+    userId: string,
+    nonce: string,
+    payerName?: string
+): Promise<PaymentVoucher | null> {
+    const tx = await db.transactions
+        .filter(row => row.user_id === userId && row.qr_intent?.nonce === nonce)
+        .first();
+
+    return tx ? createPaymentVoucher(tx, payerName) : null;
+}
+
+/**
+ * Parse and verify a scanned voucher (works offline)
+ *
+ * Only vouchers for an intent shown by this device are accepted: that is
+ * what lets the payee trust the amount and recipient without the server.
+ *
+ * @param text - Raw text decoded from the QR
+ * @param payeeId - The user receiving the payment
+ */
+export async function verifyPaymentVoucher(text: string, payeeId: string): Promise<VoucherVerification> {
+    let voucher: PaymentVoucher;
+    try {
+        voucher = JSON.parse(text);
+    } catch {
+        return { ok: false, error: 'Invalid QR code format' };
+    }
+
+    if (!voucher || typeof voucher !== 'object' || voucher.kind !== 'voucher') {
+        return { ok: false, error: 'Not a PhantomPay payment receipt' };
+    }
+
+    if (voucher.v !== VOUCHER_VERSION) {
+        return { ok: false, error: 'This receipt uses an unsupported format' };
+    }
+
+    if (!voucher.offline_id || !voucher.user_id || !voucher.device_id || !voucher.signature
+        || !voucher.payer_key || !voucher.voucher_signature || !voucher.qr_intent
+        || voucher.type !== 'debit' || !Number.isFinite(voucher.timestamp)) {
+        return { ok: false, error: 'Receipt is incomplete' };
+    }
+
+    if (!Number.isFinite(voucher.amount) || voucher.amount <= 0) {
+        return { ok: false, error: 'Receipt has an invalid amount' };
+    }
+
+    if (voucher.recipient_id !== payeeId || voucher.user_id === payeeId) {
+        return { ok: false, error: 'This receipt is not for you' };
+    }
+
+    if (!await ecdsaVerify(voucher.payer_key, buildVoucherMessage(voucher), voucher.voucher_signature)) {
+        return { ok: false, error: 'Receipt signature is invalid' };
+    }
+
+    // The payment must redeem an intent this device signed, for this amount, in time
+    const intent = voucher.qr_intent;
+    const deviceKey = await db.deviceKeys.get(payeeId);
+    if (!deviceKey?.payee_public_key || intent.payee_key !== deviceKey.payee_public_key
+        || intent.recipient_id !== payeeId) {
+        return { ok: false, error: 'This receipt is for a QR code shown on another device' };
+    }
+
+    if (!await ecdsaVerify(intent.payee_key, buildIntentMessage(intent), intent.signature)) {
+        return { ok: false, error: 'Receipt carries an invalid QR code' };
+    }
+
+    if (intent.amount !== undefined && intent.amount !== voucher.amount) {
+        return { ok: false, error: 'Receipt amount does not match your QR code' };
+    }
+
+    if (voucher.timestamp > intent.expires_at || voucher.timestamp < intent.issued_at - CLOCK_SKEW_MS) {
+        return { ok: false, error: 'Payment was made after your QR code expired' };
+    }
+
+    // Each intent can be paid once - a second voucher for it is a replay
+    const existing = await db.transactions
+        .where('user_id')
+        .equals(payeeId)
+        .and(tx => tx.offline_id === receivedOfflineId(voucher) || tx.voucher?.qr_intent.nonce === intent.nonce)
+        .first();
+    if (existing) {
+        return {
+            ok: false,
+            error: existing.offline_id === receivedOfflineId(voucher)
+                ? 'You already received this payment'
+                : 'Your QR code was already paid with another receipt'
+        };
+    }
+
+    return { ok: true, voucher };
+}
+
+/**
+ * Record a verified voucher as a pending credit in the payee's shadow ledger
+ */
+export async function recordReceivedVoucher(payeeId: string, voucher: PaymentVoucher): Promise<OfflineTransaction> {
+    const tx: OfflineTransaction = {
+        offline_id: receivedOfflineId(voucher),
+        user_id: payeeId,
+        recipient_id: voucher.user_id, // Counterpart, as for mirrored server rows
+        amount: voucher.amount,
+        type: 'credit',
+        description: `Received: ${voucher.description}`,
+        timestamp: voucher.timestamp,
+        signature: voucher.signature,
+        voucher,
+        sync_status: 'pending',
+        created_at: new Date(voucher.timestamp).toISOString()
+    };
+
+    await addOfflineTransaction(tx);
+    console.log(`✅ Voucher received offline: ${voucher.amount} from ${voucher.user_id.slice(0, 8)}`);
+    return tx;
+}
+
+/**
+ * offline_id the server gives the payee's copy of this payment
+ */
+function receivedOfflineId(voucher: PaymentVoucher): string {
+    return voucher.offline_id + RECIPIENT_SUFFIX;
+}
@@ -0,0 +1,163 @@
+'use client';
+
+/**
+ * QR Intents - Signed, expiring, single-use payment QR codes
+ *
+ * - The payee's device signs { recipient, amount, nonce, issued_at,
+ *   expires_at } with its ECDSA payee key and embeds the public key, so
+ *   the payer can verify the QR fully offline before confirming
+ * - When online, the payer also asks the server whether that public key
+ *   belongs to the payee (check_payee_key)
+ * - The intent travels with the payer's transaction; process_offline_batch
+ *   checks the payee key, the expiry and redeems the nonce exactly once,
+ *   so the same QR cannot be paid twice or after it expired
+ */
+
+import { db } from './db';
+import { supabase } from './supabase';
+import { getPayeeKey } from './deviceKeys';
+import { ecdsaSign, ecdsaVerify, generateOfflineId } from '@/utils/crypto';
+import type { QRPaymentIntent } from './types';
+
+export const QR_INTENT_VERSION = 2;
+
+// How long a generated QR stays payable - must match apply_offline_transaction (migration 009)
+export const QR_INTENT_TTL_MS = 10 * 60 * 1000;
+
+// Tolerated clock difference between payee and payer devices
+export const CLOCK_SKEW_MS = 60 * 1000;
+
+export type IntentVerification =
+    | { ok: true; intent: QRPaymentIntent }
+    | { ok: false; error: string };
+
+/**
+ * Canonical message signed by the payee key
+ * recipient_name goes last so a ':' inside it cannot shift the other fields.
+ */
+export function buildIntentMessage(intent: Omit<QRPaymentIntent, 'signature'>): string {
+    return [
+        'phantompay-intent',
+        intent.v,
+        intent.recipient_id,
+        intent.amount !== undefined ? intent.amount.toFixed(2) : '',
+        intent.nonce,
+        intent.issued_at,
+        intent.expires_at,
+        intent.payee_key,
+        intent.recipient_name ?? ''
+    ].join(':');
+}
+
+/**
+ * Create a fresh payment intent for this user to show as a QR code
+ *
+ * @param amount - Fixed amount to request; omit to let the payer choose
+ */
+export async function createPaymentIntent(
+    userId: string,
+    userName?: string,
+    amount?: number
+): Promise<QRPaymentIntent> {
+    const { privateKey, publicKey } = await getPayeeKey(userId);
+    const issuedAt = Date.now();
+
+    const unsigned: Omit<QRPaymentIntent, 'signature'> = {
+        v: QR_INTENT_VERSION,
+        nonce: generateOfflineId(),
+        recipient_id: userId,
+        recipient_name: userName,
+        amount: amount !== undefined ? Math.round(amount * 100) / 100 : undefined,
+        issued_at: issuedAt,
+        expires_at: issuedAt + QR_INTENT_TTL_MS,
+        payee_key: publicKey
+    };
+
+    return {
+        ...unsigned,
+        signature: await ecdsaSign(privateKey, buildIntentMessage(unsigned))
+    };
+}
+
+/**
+ * Parse and verify a scanned QR code (works offline)
+ *
+ * @param text - Raw text decoded from the QR
+ * @param payerId - The user about to pay
+ */
+export async function verifyPaymentIntent(text: string, payerId: string): Promise<IntentVerification> {
+    let intent: QRPaymentIntent;
+    try {
+        intent = JSON.parse(text);
+    } catch {
+        return { ok: false, error: 'Invalid QR code format' };
+    }
+
+    if (!intent || typeof intent !== 'object' || !intent.recipient_id) {
+        return { ok: false, error: 'Not a PhantomPay QR code' };
+    }
+
+    if (intent.v !== QR_INTENT_VERSION) {
+        return { ok: false, error: 'This QR code uses an outdated format. Ask the payee for a new one.' };
+    }
+
+    if (!intent.nonce || !intent.payee_key || !intent.signature
+        || !Number.isFinite(intent.issued_at) || !Number.isFinite(intent.expires_at)) {
+        return { ok: false, error: 'QR code is incomplete' };
+    }
+
+    if (intent.amount !== undefined && (!Number.isFinite(intent.amount) || intent.amount <= 0)) {
+        return { ok: false, error: 'QR code has an invalid amount' };
+    }
+
+    if (!await ecdsaVerify(intent.payee_key, buildIntentMessage(intent), intent.signature)) {
+        return { ok: false, error: 'QR signature is invalid' };
+    }
+
+    const now = Date.now();
+    if (intent.expires_at - intent.issued_at > QR_INTENT_TTL_MS) {
+        return { ok: false, error: 'QR code validity window is too long' };
+    }
+    if (intent.issued_at > now + CLOCK_SKEW_MS) {
+        return { ok: false, error: 'QR code is not valid yet - check your device clock' };
+    }
+    if (now > intent.expires_at) {
+        return { ok: false, error: 'This QR code has expired. Please request a new one.' };
+    }
+
+    if (intent.recipient_id === payerId) {
+        return { ok: false, error: 'You cannot pay yourself' };
+    }
+
+    // The server would reject a second redemption - catch our own replays early
+    const alreadyPaid = await db.transactions
+        .filter(tx => tx.user_id === payerId && tx.qr_intent?.nonce === intent.nonce)
+        .first();
+    if (alreadyPaid) {
+        return { ok: false, error: 'You already paid this QR code' };
+    }
+
+    return { ok: true, intent };
+}
+
+/**
+ * Ask the server whether a device public key is registered to this user
+ * Used for the payee key of an intent and the payer key of a voucher.
+ * @returns true/false, or null when it cannot be checked (offline, error)
+ */
+export async function confirmPayeeKey(userId: string, publicKey: string): Promise<boolean | null> {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return null;
+
+    try {
+        const { data, error } = await supabase.rpc('check_payee_key', {
+            p_user_id: userId,
+            p_public_key: publicKey
+        });
+
+        if (error) throw error;
+        return data === true;
+    } catch (err) {
+        console.warn('Could not confirm device key:', err);
+        return null;
+    }
+}
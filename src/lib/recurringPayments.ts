@@ -0,0 +1,440 @@
+'use client';
+
+/**
+ * Recurring Payments - Scheduled payments that run even while offline
+ *
+ * - Each schedule lives in Dexie (recurringPayments) with the time of its
+ *   next occurrence; the recurring scheduler pays due occurrences through
+ *   recordOfflineTransaction, exactly like a payment the user makes
+ * - An occurrence's offline_id is derived from the schedule and the run
+ *   time ('rec-<id>-<run_at>'), so two devices paying the same run settle
+ *   it once (process_offline_batch is idempotent per offline_id)
+ * - Schedules are mirrored to Supabase (recurring_payments, migration 014)
+ *   at every sync; the newest updated_at wins
+ */
+
+import { db } from './db';
+import { nextCronOccurrence, parseCron } from './cron';
+import { recordOfflineTransaction } from './offlineTransactions';
+import { supabase } from './supabase';
+import { generateOfflineId } from '@/utils/crypto';
+import type { RecurringPayment } from './types';
+
+// Runs a schedule may catch up on in one go (e.g. after a week offline)
+const MAX_CATCH_UP_RUNS = 12;
+
+export interface NewRecurringPayment {
+    recipientId: string;
+    recipientLabel: string;
+    amount: number;
+    description: string;
+    schedule: string;
+    startAt: number;
+    endAt?: number;
+}
+
+export type RecurringPaymentChanges = Partial<Pick<NewRecurringPayment, 'amount' | 'description' | 'schedule' | 'startAt' | 'endAt'>>;
+
+export type RecurringPaymentResult =
+    | { ok: true; payment: RecurringPayment }
+    | { ok: false; error: string };
+
+interface ServerRecurringPayment {
+    id: string;
+    user_id: string;
+    recipient_id: string;
+    recipient_label: string;
+    amount: number | string;
+    description: string;
+    schedule: string;
+    start_at: number | string;
+    end_at: number | string | null;
+    next_run_at: number | string | null;
+    last_run_at: number | string | null;
+    status: RecurringPayment['status'];
+    updated_at: number | string;
+}
+
+/**
+ * All schedules of a user, soonest first (ended ones last)
+ */
+export async function getRecurringPayments(userId: string): Promise<RecurringPayment[]> {
+    const payments = await db.recurringPayments.where('user_id').equals(userId).toArray();
+    return payments.sort((a, b) => (a.next_run_at ?? Infinity) - (b.next_run_at ?? Infinity));
+}
+
+/**
+ * Create a schedule; its first run is the first occurrence at or after startAt
+ */
+export async function createRecurringPayment(
+    userId: string,
+    input: NewRecurringPayment
+): Promise<RecurringPaymentResult> {
+    if (input.recipientId === userId) {
+        return { ok: false, error: 'Cannot pay yourself' };
+    }
+
+    const invalid = validateFields(input.amount, input.schedule, input.startAt, input.endAt);
+    if (invalid) return { ok: false, error: invalid };
+
+    const now = Date.now();
+    const nextRunAt = nextRunAfter(input.schedule, input.startAt - 1, input.endAt);
+    if (nextRunAt === null) {
+        return { ok: false, error: 'The schedule has no run before the end date' };
+    }
+
+    const payment: RecurringPayment = {
+        id: generateOfflineId(),
+        user_id: userId,
+        recipient_id: input.recipientId,
+        recipient_label: input.recipientLabel,
+        amount: Math.round(input.amount * 100) / 100,
+        description: sanitizeDescription(input.description),
+        schedule: input.schedule.trim(),
+        start_at: input.startAt,
+        end_at: input.endAt,
+        next_run_at: nextRunAt,
+        status: 'active',
+        updated_at: now,
+        sync_status: 'pending'
+    };
+
+    await db.recurringPayments.add(payment);
+    console.log(`✅ Recurring payment scheduled, first run ${new Date(nextRunAt).toLocaleString()}`);
+    return { ok: true, payment };
+}
+
+/**
+ * Edit the amount, description, schedule, start or end date of upcoming runs
+ * Runs already paid are not touched.
+ */
+export async function updateRecurringPayment(
+    id: string,
+    changes: RecurringPaymentChanges
+): Promise<RecurringPaymentResult> {
+    const payment = await db.recurringPayments.get(id);
+    if (!payment) return { ok: false, error: 'Recurring payment not found' };
+    if (payment.status === 'ended') return { ok: false, error: 'This recurring payment has ended' };
+
+    const amount = changes.amount ?? payment.amount;
+    const schedule = changes.schedule?.trim() ?? payment.schedule;
+    const startAt = changes.startAt ?? payment.start_at;
+    const endAt = 'endAt' in changes ? changes.endAt : payment.end_at;
+
+    const invalid = validateFields(amount, schedule, startAt, endAt);
+    if (invalid) return { ok: false, error: invalid };
+
+    const updated: RecurringPayment = {
+        ...payment,
+        amount: Math.round(amount * 100) / 100,
+        description: changes.description !== undefined
+            ? sanitizeDescription(changes.description)
+            : payment.description,
+        schedule,
+        start_at: startAt,
+        end_at: endAt,
+        last_error: undefined,
+        updated_at: Date.now(),
+        sync_status: 'pending'
+    };
+
+    // A new schedule or window moves the next run; never before start_at
+    if (schedule !== payment.schedule || startAt !== payment.start_at || endAt !== payment.end_at) {
+        const from = Math.max(Date.now(), payment.last_run_at ?? 0, startAt - 1);
+        updated.next_run_at = nextRunAfter(schedule, from, endAt);
+        if (updated.next_run_at === null) {
+            return { ok: false, error: 'The schedule has no run before the end date' };
+        }
+    }
+
+    await db.recurringPayments.put(updated);
+    return { ok: true, payment: updated };
+}
+
+/**
+ * Stop paying until resumed
+ */
+export async function pauseRecurringPayment(id: string): Promise<RecurringPaymentResult> {
+    const payment = await db.recurringPayments.get(id);
+    if (!payment || payment.status !== 'active') {
+        return { ok: false, error: 'Only an active recurring payment can be paused' };
+    }
+
+    return saveChanges(payment, { status: 'paused', last_error: undefined });
+}
+
+/**
+ * Resume from the next occurrence after now (runs missed while paused are not paid)
+ */
+export async function resumeRecurringPayment(id: string): Promise<RecurringPaymentResult> {
+    const payment = await db.recurringPayments.get(id);
+    if (!payment || payment.status !== 'paused') {
+        return { ok: false, error: 'Only a paused recurring payment can be resumed' };
+    }
+
+    const nextRunAt = nextRunAfter(payment.schedule, Math.max(Date.now(), payment.start_at - 1), payment.end_at);
+    if (nextRunAt === null) {
+        return saveChanges(payment, { status: 'ended', next_run_at: null });
+    }
+
+    return saveChanges(payment, { status: 'active', next_run_at: nextRunAt });
+}
+
+/**
+ * Skip the next occurrence without paying it
+ */
+export async function skipNextRun(id: string): Promise<RecurringPaymentResult> {
+    const payment = await db.recurringPayments.get(id);
+    if (!payment || payment.status !== 'active' || payment.next_run_at === null) {
+        return { ok: false, error: 'Nothing to skip' };
+    }
+
+    const nextRunAt = nextRunAfter(payment.schedule, payment.next_run_at, payment.end_at);
+    console.log(`⏭️ Skipped recurring payment run of ${new Date(payment.next_run_at).toLocaleString()}`);
+
+    return saveChanges(payment, {
+        status: nextRunAt === null ? 'ended' : 'active',
+        next_run_at: nextRunAt,
+        last_error: undefined
+    });
+}
+
+/**
+ * End a schedule for good (it stays in the list as ended)
+ */
+export async function endRecurringPayment(id: string): Promise<RecurringPaymentResult> {
+    const payment = await db.recurringPayments.get(id);
+    if (!payment || payment.status === 'ended') {
+        return { ok: false, error: 'This recurring payment has already ended' };
+    }
+
+    return saveChanges(payment, { status: 'ended', next_run_at: null, last_error: undefined });
+}
+
+/**
+ * Pay every occurrence that is due, oldest first
+ *
+ * A run that cannot be paid (insufficient balance, allowance used up, no
+ * device key yet) keeps its next_run_at and records last_error; the
+ * scheduler tries it again later.
+ *
+ * @returns Number of occurrences turned into transactions
+ */
+export async function runDueRecurringPayments(userId: string, now: number = Date.now()): Promise<number> {
+    const due = await db.recurringPayments
+        .where('user_id')
+        .equals(userId)
+        .and(payment => payment.status === 'active' && payment.next_run_at !== null && payment.next_run_at <= now)
+        .toArray();
+
+    let paid = 0;
+
+    for (const payment of due) {
+        let current = payment;
+
+        for (let run = 0; run < MAX_CATCH_UP_RUNS; run++) {
+            const runAt = current.next_run_at;
+            if (runAt === null || runAt > now) break;
+
+            const offlineId = `rec-${current.id}-${runAt}`;
+
+            // Another tab or a replayed run may have paid this occurrence already
+            const existing = await db.transactions.where('offline_id').equals(offlineId).first();
+            if (!existing) {
+                const result = await recordOfflineTransaction(userId, {
+                    amount: current.amount,
+                    description: current.description,
+                    type: 'debit',
+                    recipientId: current.recipient_id,
+                    offlineId
+                }).catch((err): { ok: false; error: string } => ({
+                    ok: false,
+                    error: err instanceof Error ? err.message : 'Could not record the payment'
+                }));
+
+                if (!result.ok) {
+                    console.warn(`⚠️ Recurring payment to ${current.recipient_label} not paid:`, result.error);
+                    if (current.last_error !== result.error) {
+                        await db.recurringPayments.update(current.id, { last_error: result.error });
+                    }
+                    break;
+                }
+
+                paid++;
+            }
+
+            const nextRunAt = nextRunAfter(current.schedule, runAt, current.end_at);
+            const updated = await saveChanges(current, {
+                status: nextRunAt === null ? 'ended' : 'active',
+                next_run_at: nextRunAt,
+                last_run_at: runAt,
+                last_error: undefined
+            });
+            if (!updated.ok) break;
+            current = updated.payment;
+        }
+    }
+
+    if (paid > 0) {
+        console.log(`🔁 Paid ${paid} scheduled payment(s)`);
+    }
+
+    return paid;
+}
+
+/**
+ * Earliest next run among a user's active schedules
+ * @returns Unix timestamp, or null if nothing is scheduled
+ */
+export async function getNextRecurringRunAt(userId: string): Promise<number | null> {
+    const payments = await db.recurringPayments.where('user_id').equals(userId).toArray();
+    const runs = payments
+        .filter(payment => payment.status === 'active' && payment.next_run_at !== null)
+        .map(payment => payment.next_run_at as number);
+
+    return runs.length > 0 ? Math.min(...runs) : null;
+}
+
+/**
+ * Mirror schedules to and from Supabase (called after every sync)
+ *
+ * Local edits are pushed with save_recurring_payments, which keeps the
+ * server's copy when it is newer; then the server's copies are pulled and
+ * replace any older local version.
+ */
+export async function syncRecurringPayments(userId: string): Promise<void> {
+    const pending = await db.recurringPayments
+        .where('user_id')
+        .equals(userId)
+        .and(payment => payment.sync_status === 'pending')
+        .toArray();
+
+    if (pending.length > 0) {
+        const { data, error } = await supabase.rpc('save_recurring_payments', {
+            payload: pending.map(toServerPayment)
+        });
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.error || 'Could not save recurring payments');
+
+        // Only mark what we sent; anything edited meanwhile stays pending
+        await db.transaction('rw', db.recurringPayments, async () => {
+            for (const sent of pending) {
+                const local = await db.recurringPayments.get(sent.id);
+                if (local && local.updated_at === sent.updated_at) {
+                    await db.recurringPayments.update(sent.id, { sync_status: 'synced' });
+                }
+            }
+        });
+    }
+
+    const { data, error } = await supabase
+        .from('recurring_payments')
+        .select('*')
+        .eq('user_id', userId);
+
+    if (error) throw error;
+
+    let pulled = 0;
+    await db.transaction('rw', db.recurringPayments, async () => {
+        for (const row of (data || []) as ServerRecurringPayment[]) {
+            const remote = fromServerPayment(row);
+            const local = await db.recurringPayments.get(remote.id);
+
+            if (local && local.updated_at >= remote.updated_at) continue;
+
+            // Keep this device's note about a run it could not pay
+            await db.recurringPayments.put({ ...remote, last_error: local?.last_error });
+            pulled++;
+        }
+    });
+
+    if (pulled > 0) {
+        console.log(`📥 Pulled ${pulled} recurring payment update(s)`);
+    }
+}
+
+async function saveChanges(
+    payment: RecurringPayment,
+    changes: Partial<RecurringPayment>
+): Promise<RecurringPaymentResult> {
+    const updated: RecurringPayment = {
+        ...payment,
+        ...changes,
+        updated_at: Date.now(),
+        sync_status: 'pending'
+    };
+
+    await db.recurringPayments.put(updated);
+    return { ok: true, payment: updated };
+}
+
+/**
+ * Next occurrence strictly after a moment that is not past the end date
+ */
+function nextRunAfter(schedule: string, after: number, endAt?: number): number | null {
+    const next = nextCronOccurrence(schedule, after);
+    if (next === null || (endAt !== undefined && next > endAt)) return null;
+    return next;
+}
+
+function validateFields(amount: number, schedule: string, startAt: number, endAt?: number): string | null {
+    if (!Number.isFinite(amount) || Math.round(amount * 100) / 100 <= 0) {
+        return 'Invalid amount: must be a positive number';
+    }
+
+    try {
+        parseCron(schedule);
+    } catch (err) {
+        return err instanceof Error ? err.message : 'Invalid schedule';
+    }
+
+    if (endAt !== undefined && endAt < startAt) {
+        return 'The end date is before the start date';
+    }
+
+    return null;
+}
+
+function sanitizeDescription(description: string): string {
+    return description
+        .replace(/[<>]/g, '')
+        .replace(/javascript:/gi, '')
+        .slice(0, 100)
+        || 'Scheduled payment';
+}
+
+function toServerPayment(payment: RecurringPayment): Omit<ServerRecurringPayment, 'user_id'> {
+    return {
+        id: payment.id,
+        recipient_id: payment.recipient_id,
+        recipient_label: payment.recipient_label,
+        amount: payment.amount,
+        description: payment.description,
+        schedule: payment.schedule,
+        start_at: payment.start_at,
+        end_at: payment.end_at ?? null,
+        next_run_at: payment.next_run_at,
+        last_run_at: payment.last_run_at ?? null,
+        status: payment.status,
+        updated_at: payment.updated_at
+    };
+}
+
+function fromServerPayment(row: ServerRecurringPayment): RecurringPayment {
+    return {
+        id: row.id,
+        user_id: row.user_id,
+        recipient_id: row.recipient_id,
+        recipient_label: row.recipient_label,
+        amount: Number(row.amount),
+        description: row.description,
+        schedule: row.schedule,
+        start_at: Number(row.start_at),
+        end_at: row.end_at !== null ? Number(row.end_at) : undefined,
+        next_run_at: row.next_run_at !== null ? Number(row.next_run_at) : null,
+        last_run_at: row.last_run_at !== null ? Number(row.last_run_at) : undefined,
+        status: row.status,
+        updated_at: Number(row.updated_at),
+        sync_status: 'synced'
+    };
+}
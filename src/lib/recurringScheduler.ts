@@ -0,0 +1,155 @@
+'use client';
+
+/**
+ * Recurring Scheduler - Decides WHEN scheduled payments are paid
+ *
+ * Keeps one timer armed for the earliest next run of the user's active
+ * schedules (see recurringPayments). When it fires, every due occurrence
+ * is recorded as a signed offline transaction - online or not - and the
+ * sync scheduler takes it from there.
+ *
+ * - The timer is capped at an hour, so a sleeping laptop or a changed
+ *   clock catches up soon after waking
+ * - Runs that could not be paid are retried every few minutes
+ * - Only the sync leader tab (see tabCoordinator) pays, so two tabs never
+ *   record the same run
+ */
+
+import { getNextRecurringRunAt, runDueRecurringPayments } from './recurringPayments';
+import { syncScheduler } from './syncScheduler';
+import { tabCoordinator } from './tabCoordinator';
+
+const MAX_TIMER_MS = 60 * 60 * 1000;
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+
+type RunListener = (paid: number) => void;
+
+class RecurringScheduler {
+    private userId: string | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private isRunning: boolean = false;
+    private lastRunAt: number = 0;
+    private runListeners = new Set<RunListener>();
+
+    constructor() {
+        if (typeof window !== 'undefined') {
+            // The new leader takes over the schedules
+            tabCoordinator.onLeadershipChange(() => {
+                this.reschedule();
+            });
+
+            // Our own sync may have pulled schedules edited on another device
+            syncScheduler.onSyncComplete(() => {
+                this.reschedule();
+            });
+
+            // Schedules edited or pulled in another tab
+            tabCoordinator.onRemoteUpdate(userId => {
+                if (userId === this.userId) {
+                    this.reschedule();
+                }
+            });
+        }
+    }
+
+    /**
+     * Start paying a user's schedules (replaces any previous user)
+     */
+    public start(userId: string): void {
+        if (this.userId === userId) return;
+        this.stop();
+        this.userId = userId;
+        tabCoordinator.start();
+        this.runNow().catch(err => console.error('Recurring payment run error:', err));
+    }
+
+    /**
+     * Stop (on sign-out / unmount)
+     */
+    public stop(): void {
+        this.clearTimer();
+        this.userId = null;
+    }
+
+    /**
+     * Subscribe to runs that paid at least one occurrence
+     * @returns Unsubscribe function
+     */
+    public onRun(listener: RunListener): () => void {
+        this.runListeners.add(listener);
+        return () => this.runListeners.delete(listener);
+    }
+
+    /**
+     * Pay everything due now, then re-arm the timer
+     * @returns Number of occurrences paid (0 in follower tabs)
+     */
+    public async runNow(): Promise<number> {
+        if (!this.userId || !tabCoordinator.isLeader() || this.isRunning) {
+            await this.reschedule();
+            return 0;
+        }
+
+        this.clearTimer();
+        this.isRunning = true;
+        this.lastRunAt = Date.now();
+        const userId = this.userId;
+
+        try {
+            const paid = await runDueRecurringPayments(userId);
+
+            if (paid > 0) {
+                this.runListeners.forEach(listener => listener(paid));
+                tabCoordinator.announceUpdate(userId);
+                // Online: sends straight away; offline: queued until reconnect
+                if (navigator.onLine) {
+                    syncScheduler.runNow().catch(err => console.error('Scheduled sync error:', err));
+                } else {
+                    syncScheduler.reschedule();
+                }
+            }
+
+            return paid;
+        } finally {
+            this.isRunning = false;
+            await this.reschedule();
+        }
+    }
+
+    /**
+     * Re-arm the timer for the earliest next run
+     * Call after creating, editing, pausing or skipping a schedule.
+     */
+    public async reschedule(): Promise<void> {
+        this.clearTimer();
+        if (!this.userId || !tabCoordinator.isLeader()) return;
+
+        const userId = this.userId;
+        const nextRunAt = await getNextRecurringRunAt(userId);
+
+        // User may have changed while we were reading
+        if (this.userId !== userId || nextRunAt === null) return;
+
+        // Overdue right after a run means it could not be paid: retry later
+        const delay = nextRunAt <= Date.now()
+            ? Math.max(0, this.lastRunAt + RETRY_DELAY_MS - Date.now())
+            : Math.min(nextRunAt - Date.now(), MAX_TIMER_MS);
+
+        // Another reschedule may have armed a timer while we were reading
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.runNow().catch(err => console.error('Recurring payment run error:', err));
+        }, delay);
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+}
+
+// Singleton instance - one timer per tab
+export const recurringScheduler = new RecurringScheduler();
@@ -0,0 +1,107 @@
+/**
+ * Retry Policy - Backoff rules for the sync queue
+ *
+ * Pure functions describing when an offline transaction may be sent again.
+ * Kept free of Dexie/Supabase imports so both the database helpers and the
+ * sync scheduler can share them without circular dependencies.
+ *
+ * Schedule (before jitter): 2s, 4s, 8s, 16s ... capped at 5 minutes.
+ */
+
+import type { OfflineTransaction } from './types';
+import { isPermanentFailure } from './syncErrors';
+
+export interface RetryPolicyConfig {
+    maxRetries: number;      // Automatic attempts before a row is left for the user
+    baseDelayMs: number;     // Delay after the first failure
+    maxDelayMs: number;      // Upper bound for any single delay
+    syncingTimeoutMs: number; // A row stuck in 'syncing' longer than this is presumed lost
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicyConfig = {
+    maxRetries: 5,
+    baseDelayMs: 2000,
+    maxDelayMs: 5 * 60 * 1000,
+    syncingTimeoutMs: 60 * 1000
+};
+
+let activePolicy: RetryPolicyConfig = { ...DEFAULT_RETRY_POLICY };
+
+/**
+ * Override parts of the retry policy (e.g. a smaller budget in demos)
+ */
+export function configureRetryPolicy(overrides: Partial<RetryPolicyConfig>): void {
+    activePolicy = { ...activePolicy, ...overrides };
+}
+
+/**
+ * Get the retry policy currently in effect
+ */
+export function getRetryPolicy(): RetryPolicyConfig {
+    return activePolicy;
+}
+
+/**
+ * Compute the jittered backoff delay after `retryCount` failed attempts
+ *
+ * Uses "equal jitter": half of the exponential delay is fixed, the other
+ * half is random. This spreads out retries from many devices reconnecting
+ * at once while still guaranteeing a minimum wait.
+ */
+export function computeBackoffDelay(retryCount: number, policy: RetryPolicyConfig = activePolicy): number {
+    const attempt = Math.max(retryCount, 1);
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+    const half = exponential / 2;
+    return Math.round(half + Math.random() * half);
+}
+
+/**
+ * Has this transaction used up its automatic retry budget?
+ */
+export function isRetryBudgetExhausted(tx: OfflineTransaction, policy: RetryPolicyConfig = activePolicy): boolean {
+    return (tx.retry_count || 0) >= policy.maxRetries;
+}
+
+/**
+ * Decide whether a transaction should be included in the next sync batch
+ *
+ * - held: due once the undo window has closed (see offlineTransactions)
+ * - pending: always due
+ * - failed: due once its backoff has elapsed, until the budget is exhausted
+ *   (never for permanent rejections such as a bad signature)
+ * - syncing: only if the previous attempt never reported back (tab closed mid-flight)
+ */
+export function isDueForSync(tx: OfflineTransaction, now: number = Date.now(), policy: RetryPolicyConfig = activePolicy): boolean {
+    switch (tx.sync_status) {
+        case 'held':
+            return (tx.held_until ?? 0) <= now;
+        case 'pending':
+            return true;
+        case 'failed':
+            if (isPermanentFailure(tx.failure_reason) || isRetryBudgetExhausted(tx, policy)) return false;
+            return (tx.next_retry_at ?? 0) <= now;
+        case 'syncing':
+            return now - (tx.last_sync_attempt ?? 0) > policy.syncingTimeoutMs;
+        default:
+            return false;
+    }
+}
+
+/**
+ * When will this transaction next become due? (null = not scheduled)
+ */
+export function getNextAttemptAt(tx: OfflineTransaction, policy: RetryPolicyConfig = activePolicy): number | null {
+    switch (tx.sync_status) {
+        case 'held':
+            return tx.held_until ?? tx.timestamp;
+        case 'pending':
+            return tx.timestamp;
+        case 'failed':
+            if (isPermanentFailure(tx.failure_reason) || isRetryBudgetExhausted(tx, policy)) return null;
+            return tx.next_retry_at ?? tx.last_sync_attempt ?? tx.timestamp;
+        case 'syncing':
+            return (tx.last_sync_attempt ?? tx.timestamp) + policy.syncingTimeoutMs;
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,128 @@
+'use client';
+
+/**
+ * Service Worker - Page side of public/sw.js
+ *
+ * - Registers the worker once per page load (caching disabled in development)
+ * - Shares the Supabase session with it, so Background Sync can call
+ *   process_offline_batch while no tab is open
+ * - Detects a new app version waiting to take over and lets the UI
+ *   prompt before activating it (reloading mid-payment would lose the form)
+ */
+
+import type { Session } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from './supabase';
+
+const SERVICE_WORKER_URL = process.env.NODE_ENV === 'production' ? '/sw.js' : '/sw.js?caching=off';
+
+type UpdateListener = (updateAvailable: boolean) => void;
+
+let registrationPromise: Promise<ServiceWorkerRegistration | null> | null = null;
+let waitingWorker: ServiceWorker | null = null;
+const updateListeners = new Set<UpdateListener>();
+
+export function isServiceWorkerSupported(): boolean {
+    return typeof window !== 'undefined' && 'serviceWorker' in navigator;
+}
+
+/**
+ * Register the service worker and keep it supplied with the current session
+ * Safe to call more than once.
+ */
+export function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+    if (registrationPromise) return registrationPromise;
+    if (!isServiceWorkerSupported()) return Promise.resolve(null);
+
+    registrationPromise = navigator.serviceWorker
+        .register(SERVICE_WORKER_URL)
+        .then(async registration => {
+            console.log('✅ Service worker registered');
+            watchForUpdates(registration);
+
+            const { data: { session } } = await supabase.auth.getSession();
+            await shareSession(session);
+
+            // Keep the worker's token fresh (sign-in, refresh, sign-out)
+            supabase.auth.onAuthStateChange((_event, newSession) => {
+                shareSession(newSession).catch(console.error);
+            });
+
+            return registration;
+        })
+        .catch(err => {
+            console.warn('Service worker registration failed:', err);
+            return null;
+        });
+
+    return registrationPromise;
+}
+
+/**
+ * Subscribe to "new version ready" changes
+ * @returns Unsubscribe function
+ */
+export function onServiceWorkerUpdate(listener: UpdateListener): () => void {
+    updateListeners.add(listener);
+    listener(waitingWorker !== null);
+    return () => updateListeners.delete(listener);
+}
+
+/**
+ * Activate the waiting version; the page reloads once it takes control
+ */
+export function applyServiceWorkerUpdate(): void {
+    if (!waitingWorker) return;
+
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+        window.location.reload();
+    }, { once: true });
+
+    waitingWorker.postMessage({ type: 'skip-waiting' });
+}
+
+/**
+ * Track installs of a newer worker while this page is controlled by an older one
+ */
+function watchForUpdates(registration: ServiceWorkerRegistration): void {
+    // The first install has no controller to replace - nothing to prompt for
+    if (registration.waiting && navigator.serviceWorker.controller) {
+        setWaitingWorker(registration.waiting);
+    }
+
+    registration.addEventListener('updatefound', () => {
+        const installing = registration.installing;
+        if (!installing) return;
+
+        installing.addEventListener('statechange', () => {
+            if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+                console.log('⬇️ New app version downloaded');
+                setWaitingWorker(installing);
+            }
+        });
+    });
+}
+
+function setWaitingWorker(worker: ServiceWorker | null): void {
+    waitingWorker = worker;
+    updateListeners.forEach(listener => listener(worker !== null));
+}
+
+/**
+ * Pass the parts of the session the worker needs (null clears it)
+ */
+async function shareSession(session: Session | null): Promise<void> {
+    const registration = await navigator.serviceWorker.ready;
+
+    registration.active?.postMessage({
+        type: 'session',
+        session: session && isSupabaseConfigured()
+            ? {
+                user_id: session.user.id,
+                access_token: session.access_token,
+                expires_at: session.expires_at,
+                supabase_url: (process.env.NEXT_PUBLIC_SUPABASE_URL || '').trim(),
+                anon_key: (process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '').trim()
+            }
+            : null
+    });
+}
@@ -0,0 +1,131 @@
+'use client';
+
+/**
+ * Split Requests - One bill, one payment request per payer
+ *
+ * - create_split_request (migration 015) fans a total out to several
+ *   payers: equally, by percentage or by custom amounts
+ * - Each payer answers their own request with respond_to_request; the
+ *   group's status follows (open → settled, or closed if someone rejected)
+ * - computeSplitShares mirrors the server's paise arithmetic so the form
+ *   can preview exactly what each person will be asked for
+ */
+
+import { supabase } from './supabase';
+import type { RequestGroup, SplitMode, SplitShareInput } from './types';
+
+export const MAX_SPLIT_PAYERS = 20;
+
+export interface SplitRequestInput {
+    total: number;
+    description: string;
+    mode: SplitMode;
+    shares: SplitShareInput[];
+    includeSelf: boolean; // Equal splits: the requester pays a share too
+}
+
+export type SplitPreview =
+    | { ok: true; amounts: number[]; requested: number; ownShare: number }
+    | { ok: false; error: string };
+
+/**
+ * What each payer will be asked for, as create_split_request computes it
+ * Rounding paise go to the first payers when they cover the whole bill.
+ */
+export function computeSplitShares(input: Omit<SplitRequestInput, 'description'>): SplitPreview {
+    const { total, mode, shares, includeSelf } = input;
+
+    if (!Number.isFinite(total) || total <= 0) {
+        return { ok: false, error: 'Please enter a valid total' };
+    }
+    if (shares.length < 1 || shares.length > MAX_SPLIT_PAYERS) {
+        return { ok: false, error: `Add between 1 and ${MAX_SPLIT_PAYERS} people` };
+    }
+
+    const totalPaise = Math.round(total * 100);
+    let paise: number[];
+    let leftover = 0;
+
+    if (mode === 'equal') {
+        const each = Math.floor(totalPaise / (shares.length + (includeSelf ? 1 : 0)));
+        paise = shares.map(() => each);
+        leftover = includeSelf ? 0 : totalPaise - each * shares.length;
+    } else if (mode === 'percentage') {
+        if (shares.some(share => !share.percent || share.percent <= 0 || share.percent > 100)) {
+            return { ok: false, error: 'Each percentage must be between 0 and 100' };
+        }
+        const percentSum = shares.reduce((sum, share) => sum + (share.percent as number), 0);
+        if (percentSum > 100.0001) {
+            return { ok: false, error: 'Percentages add up to more than 100' };
+        }
+        paise = shares.map(share => Math.floor(totalPaise * (share.percent as number) / 100));
+        if (Math.abs(percentSum - 100) < 0.0001) {
+            leftover = totalPaise - paise.reduce((sum, p) => sum + p, 0);
+        }
+    } else {
+        paise = shares.map(share => Math.round((share.amount ?? 0) * 100));
+    }
+
+    paise = paise.map((p, i) => (i < leftover ? p + 1 : p));
+
+    if (paise.some(p => !Number.isFinite(p) || p <= 0)) {
+        return { ok: false, error: 'Every share must be at least 0.01' };
+    }
+
+    const requestedPaise = paise.reduce((sum, p) => sum + p, 0);
+    if (requestedPaise > totalPaise) {
+        return { ok: false, error: 'Shares add up to more than the total' };
+    }
+
+    return {
+        ok: true,
+        amounts: paise.map(p => p / 100),
+        requested: requestedPaise / 100,
+        ownShare: (totalPaise - requestedPaise) / 100
+    };
+}
+
+/**
+ * Send a split bill
+ * @returns The new group's ID
+ */
+export async function createSplitRequest(input: SplitRequestInput): Promise<string> {
+    const { data, error } = await supabase.rpc('create_split_request', {
+        p_total: input.total,
+        p_description: input.description,
+        p_split_mode: input.mode,
+        p_shares: input.shares.map(share => ({
+            email: share.email.trim(),
+            percent: input.mode === 'percentage' ? share.percent : undefined,
+            amount: input.mode === 'custom' ? share.amount : undefined
+        })),
+        p_include_self: input.mode === 'equal' && input.includeSelf
+    });
+
+    if (error) throw error;
+    if (!data?.success) {
+        throw new Error(data?.error || 'Failed to send split request');
+    }
+
+    console.log(`✅ Split request sent to ${input.shares.length} people`);
+    return data.group_id as string;
+}
+
+/**
+ * The current user's split bills with per-person progress, newest first
+ */
+export async function listRequestGroups(): Promise<RequestGroup[]> {
+    const { data, error } = await supabase.rpc('list_request_groups');
+    if (error) throw error;
+
+    return ((data ?? []) as RequestGroup[]).map(group => ({
+        ...group,
+        total_amount: Number(group.total_amount),
+        members: group.members.map(member => ({
+            ...member,
+            amount: Number(member.amount),
+            paid_amount: Number(member.paid_amount),
+            share_percent: member.share_percent !== null ? Number(member.share_percent) : null
+        }))
+    }));
+}
@@ -1,4 +1,4 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, isAuthRetryableFetchError, type User } from '@supabase/supabase-js';
 
 const supabaseUrl = (process.env.NEXT_PUBLIC_SUPABASE_URL || '').trim();
 const supabaseAnonKey = (process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '').trim();
@@ -33,3 +33,23 @@ export function isSupabaseConfigured(): boolean {
         supabaseAnonKey !== 'your-anon-key-here'
     );
 }
+
+/**
+ * Get the signed-in user, trusting the cached session when offline
+ *
+ * getUser() validates the token with Supabase and fails without a network,
+ * which would bounce an offline user back to the login screen. In that
+ * case fall back to the session persisted in localStorage so the
+ * dashboard can boot from the app shell cache.
+ */
+export async function getAuthUser(): Promise<User | null> {
+    const { data: { user }, error } = await supabase.auth.getUser();
+    if (user) return user;
+
+    const unreachable = isAuthRetryableFetchError(error)
+        || (typeof navigator !== 'undefined' && !navigator.onLine);
+    if (!unreachable) return null;
+
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user ?? null;
+}
@@ -12,17 +12,97 @@
  * Member B should implement the full logic here.
  */
 
-import { db, getPendingTransactions, markTransactionsSynced, updateWalletState } from './db';
+import {
+    applyServerBalance,
+    applyServerTombstones,
+    claimDueTransactions,
+    db,
+    markTransactionsSynced,
+    markTransactionsSyncing,
+    recordSyncFailures,
+    scheduleTransactionRetry,
+    updateWalletOtherDevices,
+    updateWalletPendingAmounts,
+    updateWalletSyncCursors,
+    upsertServerTransactions
+} from './db';
+import {
+    enrollDeviceKey,
+    getDeviceKey,
+    handleDeviceRevocation,
+    registerPayeeKey,
+    resignLegacyTransactions
+} from './deviceKeys';
+import { syncBudgets } from './budgets';
+import { attachAllowanceToDebits, refreshOfflineAllowance } from './offlineAllowance';
+import { syncRecurringPayments } from './recurringPayments';
 import { supabase, isSupabaseConfigured } from './supabase';
-import type { SyncResponse, WalletState } from './types';
+import { getFailureDisposition, parseFailureReason } from './syncErrors';
+import type {
+    OfflineTransaction,
+    ServerTombstone,
+    ServerTransaction,
+    SyncCursor,
+    SyncResponse,
+    TombstoneCursor
+} from './types';
+
+const DOWN_SYNC_PAGE_SIZE = 100;
+
+// Server rows are stamped with NOW() at transaction start, so a batch that
+// commits late can carry an earlier created_at than rows we have already
+// pulled. Each pull re-reads this window; rows already stored are skipped.
+const CURSOR_OVERLAP_MS = 30 * 1000;
+const MIN_UUID = '00000000-0000-0000-0000-000000000000';
+
+// process_offline_batch stores the recipient's copy of a P2P debit under this suffix
+const RECIPIENT_SUFFIX = '-rcv';
+
+// Request approvals from before split payments were stored as a pair
+// 'req-<request id>-pay' (payer) / 'req-<request id>-rcv' (requester)
+const LEGACY_REQUEST_PAIR = /^(req-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})-(pay|rcv)$/i;
 
 /**
- * Sync all pending offline transactions to Supabase
+ * Sync all due offline transactions to Supabase
+ * 
+ * Pushes the due rows (see pushOfflineTransactions), then tops up this
+ * device's offline allowance now that its spending has reached the server
+ * and mirrors recurring payment schedules and budgets (see
+ * recurringPayments, budgets). A device the server no longer knows signs
+ * out instead (see handleDeviceRevocation).
  * 
  * @param userId - User's Supabase ID
  * @returns SyncResponse with processed and failed transaction IDs
  */
 export async function syncOfflineTransactions(userId: string): Promise<SyncResponse | null> {
+    const response = await pushOfflineTransactions(userId);
+
+    if (response && await handleDeviceRevocation(userId)) {
+        return response;
+    }
+
+    if (response && !response.error) {
+        await refreshOfflineAllowance(userId).catch(err => console.warn('Offline allowance refresh failed:', err));
+        await syncRecurringPayments(userId).catch(err => console.warn('Recurring payment sync failed:', err));
+        await syncBudgets(userId).catch(err => console.warn('Budget sync failed:', err));
+    }
+
+    return response;
+}
+
+/**
+ * Push all due offline transactions to process_offline_batch
+ * 
+ * Rows move pending/failed → syncing → synced. Rows listed in the server's
+ * failed_ids get a typed reason (see syncErrors) and become 'failed' or
+ * 'conflict'. Anything the server does not mention at all (or the whole
+ * batch, if the RPC call itself fails) goes back to 'failed' with a
+ * jittered backoff via scheduleTransactionRetry.
+ * 
+ * @param userId - User's Supabase ID
+ * @returns SyncResponse with processed and failed transaction IDs
+ */
+async function pushOfflineTransactions(userId: string): Promise<SyncResponse | null> {
     // Check if we're online
     if (typeof window === 'undefined' || !navigator.onLine) {
         console.log('📴 Offline - sync skipped');
@@ -35,14 +115,32 @@ export async function syncOfflineTransactions(userId: string): Promise<SyncRespo
         return null;
     }
 
-    try {
-        // Get all pending transactions
-        const pending = await getPendingTransactions(userId);
+    // Payments to this device's QR codes need its payee key on the server
+    registerPayeeKey(userId).catch(err => console.warn('Payee key registration failed:', err));
 
-        if (pending.length === 0) {
-            console.log('✅ No pending transactions to sync');
-            return { processed_ids: [], failed_ids: [], new_balance: 0 };
-        }
+    // Take the transactions that are due (new, out of their undo window, or
+    // failed with elapsed backoff) - from here on they can't be edited
+    const due = await claimDueTransactions(userId);
+
+    // Credits received by voucher settle through the payer's signed row
+    const voucherResult = await settleReceivedVouchers(userId, due.filter(tx => tx.voucher));
+
+    // An empty batch still goes out: it stamps this device's last sync and
+    // brings back what the other devices may be spending offline
+    const ownDue = due.filter(tx => !tx.voucher);
+    if (ownDue.length === 0) {
+        console.log('✅ No pending transactions to sync');
+    }
+
+    const batchIds = ownDue.map(tx => tx.offline_id);
+
+    try {
+        // The server only accepts rows signed by an enrolled device key
+        await enrollDeviceKey(userId);
+        const resigned = await resignLegacyTransactions(ownDue);
+        // Debits queued before allowances existed must name one to be accepted
+        const pending = await attachAllowanceToDebits(userId, resigned);
+        const { device_id: deviceId } = await getDeviceKey(userId);
 
         console.log(`🔄 Syncing ${pending.length} transactions...`);
 
@@ -54,7 +152,7 @@ export async function syncOfflineTransactions(userId: string): Promise<SyncRespo
 
         // Call the Supabase RPC function to process batch
         const { data, error } = await supabase.rpc('process_offline_batch', {
-            payload: { transactions: pending }
+            payload: { transactions: pending, device_id: deviceId }
         });
 
         if (error) {
@@ -70,25 +168,143 @@ export async function syncOfflineTransactions(userId: string): Promise<SyncRespo
             console.log(`✅ Synced ${response.processed_ids.length} transactions`);
         }
 
-        // Update local wallet state with new balance
-        if (response.new_balance !== undefined) {
-            const walletState: WalletState = {
-                id: userId,
-                cached_balance: response.new_balance,
-                shadow_balance: response.new_balance, // Reset shadow to actual after sync
-                last_updated: Date.now()
-            };
-            await updateWalletState(walletState);
+        // Map server rejections onto the local rows with a typed reason
+        const failedIds = response.failed_ids || [];
+        if (failedIds.length > 0) {
+            const detectedAt = Date.now();
+            await recordSyncFailures(failedIds.map(failure => {
+                const reason = parseFailureReason(failure.reason);
+                return {
+                    offline_id: failure.offline_id,
+                    reason,
+                    detail: failure.reason,
+                    // Rejected debits never reached the server: its version is empty
+                    conflict: getFailureDisposition(reason) === 'conflict'
+                        ? {
+                            server_version: {},
+                            reason: 'insufficient_balance' as const,
+                            server_balance: response.new_balance,
+                            detected_at: detectedAt
+                        }
+                        : undefined
+                };
+            }));
+            console.warn(`⚠️ Server rejected ${failedIds.length} transactions`);
         }
 
-        return response;
+        // Anything the server did not mention goes back into the retry schedule
+        const answered = new Set([
+            ...response.processed_ids,
+            ...failedIds.map(failure => failure.offline_id)
+        ]);
+        const unconfirmed = batchIds.filter(id => !answered.has(id));
+        if (unconfirmed.length > 0) {
+            // A top-level error (e.g. "Not authenticated") explains the whole batch
+            const reason = response.error ? parseFailureReason(response.error) : 'unconfirmed';
+            await scheduleTransactionRetry(unconfirmed, reason);
+            console.warn(`⏳ ${unconfirmed.length} transactions scheduled for retry`);
+        }
+
+        // Store the server balance and replay whatever is still pending on top
+        // (error responses carry a placeholder balance of 0 - ignore it)
+        if (!response.error && response.new_balance !== undefined) {
+            await applyServerBalance(userId, Number(response.new_balance));
+        } else {
+            await updateWalletPendingAmounts(userId);
+        }
+
+        if (response.other_devices) {
+            await updateWalletOtherDevices(userId, response.other_devices.map(device => ({
+                ...device,
+                allowance_limit: Number(device.allowance_limit),
+                unsynced_max: Number(device.unsynced_max)
+            })));
+        }
+
+        return {
+            ...response,
+            processed_ids: [...voucherResult.processed_ids, ...response.processed_ids],
+            failed_ids: [...voucherResult.failed_ids, ...failedIds]
+        };
     } catch (err) {
+        // Nothing was queued - only the device check-in failed
+        if (batchIds.length === 0) {
+            console.warn('Device check-in failed:', err);
+            return voucherResult;
+        }
+
+        // Nothing in this batch was confirmed - back off and retry later
+        await scheduleTransactionRetry(batchIds);
+
         // BUG-05 Fix: Re-throw error so callers can handle it
         console.error('❌ Sync error:', err);
         throw err; // Propagate error to caller for proper handling
     }
 }
 
+/**
+ * Settle credits received offline by voucher (see lib/paymentVoucher)
+ *
+ * If the payer already synced, the server simply confirms the voucher.
+ * A rejection is final for the payee: only the payer can fix their row.
+ */
+async function settleReceivedVouchers(userId: string, rows: OfflineTransaction[]): Promise<SyncResponse> {
+    const result: SyncResponse = { processed_ids: [], failed_ids: [], new_balance: 0 };
+    if (rows.length === 0) return result;
+
+    await markTransactionsSyncing(rows.map(tx => tx.offline_id));
+
+    const unreached: string[] = [];
+    let serverBalance: number | null = null;
+
+    for (const row of rows) {
+        try {
+            const { data, error } = await supabase.rpc('submit_payment_voucher', { voucher: row.voucher });
+            if (error) throw error;
+
+            if (data?.success) {
+                result.processed_ids.push(row.offline_id);
+                serverBalance = Number(data.new_balance);
+            } else {
+                result.failed_ids.push({ offline_id: row.offline_id, reason: data?.reason || 'unknown' });
+            }
+        } catch (err) {
+            console.error('❌ Voucher settlement failed:', err);
+            unreached.push(row.offline_id);
+        }
+    }
+
+    if (result.processed_ids.length > 0) {
+        await markTransactionsSynced(result.processed_ids);
+        console.log(`✅ Settled ${result.processed_ids.length} received vouchers`);
+    }
+
+    if (result.failed_ids.length > 0) {
+        await recordSyncFailures(result.failed_ids.map(failure => {
+            const reason = parseFailureReason(failure.reason);
+            return {
+                offline_id: failure.offline_id,
+                reason: reason === 'not_authenticated' ? reason : 'voucher_rejected' as const,
+                detail: failure.reason
+            };
+        }));
+        console.warn(`⚠️ Server rejected ${result.failed_ids.length} received vouchers`);
+    }
+
+    if (unreached.length > 0) {
+        await scheduleTransactionRetry(unreached);
+    }
+
+    if (serverBalance !== null && Number.isFinite(serverBalance)) {
+        result.new_balance = serverBalance;
+        await applyServerBalance(userId, serverBalance);
+    } else {
+        await updateWalletPendingAmounts(userId);
+    }
+
+    return result;
+}
+
 /**
  * Fetch the latest balance from the server
  * 
@@ -149,9 +365,324 @@ export async function fetchServerTransactions(userId: string, limit: number = 50
         return null;
     }
 }
+/**
+ * Fetch one page of server transactions after a keyset cursor
+ * 
+ * Includes rows the user sent (user_id) and rows addressed to them
+ * (recipient_id), ordered by (created_at, id).
+ * 
+ * @param userId - User's Supabase ID
+ * @param after - Cursor to start after (null = from the beginning)
+ * @param limit - Page size
+ */
+export async function fetchServerTransactionsSince(
+    userId: string,
+    after: SyncCursor | null,
+    limit: number = DOWN_SYNC_PAGE_SIZE
+): Promise<ServerTransaction[] | null> {
+    if (typeof window === 'undefined' || !navigator.onLine || !isSupabaseConfigured()) {
+        return null;
+    }
+
+    try {
+        let query = supabase
+            .from('transactions')
+            .select('*')
+            .or(`user_id.eq.${userId},recipient_id.eq.${userId}`)
+            .order('created_at', { ascending: true })
+            .order('id', { ascending: true })
+            .limit(limit);
+
+        if (after) {
+            query = query.or(
+                `created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`
+            );
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data as ServerTransaction[];
+    } catch (err) {
+        console.error('Failed to fetch transactions:', err);
+        return null;
+    }
+}
+
+/**
+ * Fetch one page of server tombstones after a keyset cursor
+ * 
+ * @param userId - User's Supabase ID
+ * @param after - Cursor to start after (null = from the beginning)
+ * @param limit - Page size
+ */
+export async function fetchServerTombstonesSince(
+    userId: string,
+    after: TombstoneCursor | null,
+    limit: number = DOWN_SYNC_PAGE_SIZE
+): Promise<ServerTombstone[] | null> {
+    if (typeof window === 'undefined' || !navigator.onLine || !isSupabaseConfigured()) {
+        return null;
+    }
+
+    try {
+        let query = supabase
+            .from('transaction_tombstones')
+            .select('*')
+            .or(`user_id.eq.${userId},recipient_id.eq.${userId}`)
+            .order('deleted_at', { ascending: true })
+            .order('offline_id', { ascending: true })
+            .limit(limit);
+
+        if (after) {
+            query = query.or(
+                `deleted_at.gt."${after.deleted_at}",and(deleted_at.eq."${after.deleted_at}",offline_id.gt."${after.offline_id}")`
+            );
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return data as ServerTombstone[];
+    } catch (err) {
+        console.error('Failed to fetch tombstones:', err);
+        return null;
+    }
+}
+
+/**
+ * offline_id of the other side of a P2P transfer
+ * (sender's debit "abc" <-> recipient's credit "abc-rcv", or for a legacy
+ * request approval "req-<id>-pay" <-> "req-<id>-rcv")
+ */
+function mirrorOfflineId(offlineId: string): string {
+    const legacyRequest = LEGACY_REQUEST_PAIR.exec(offlineId);
+    if (legacyRequest) {
+        return `${legacyRequest[1]}-${legacyRequest[2] === 'pay' ? 'rcv' : 'pay'}`;
+    }
+    return offlineId.endsWith(RECIPIENT_SUFFIX)
+        ? offlineId.slice(0, -RECIPIENT_SUFFIX.length)
+        : offlineId + RECIPIENT_SUFFIX;
+}
+
+/**
+ * Convert a server row into a row of this user's local ledger
+ * 
+ * Rows owned by someone else that name the user as recipient_id are
+ * mirrored into the user's perspective (their debit is our credit and
+ * vice versa) under the counterpart offline_id, so they collapse onto the
+ * user's own copy when both exist.
+ */
+function toLocalTransaction(row: ServerTransaction, userId: string): OfflineTransaction {
+    const base = {
+        amount: Number(row.amount),
+        timestamp: new Date(row.created_at).getTime(), // Convert ISO to timestamp
+        sync_status: 'synced' as const,
+        signature: row.signature || 'server-auth',
+        created_at: row.created_at
+    };
+
+    if (row.user_id === userId) {
+        return {
+            ...base,
+            offline_id: row.offline_id,
+            user_id: row.user_id,
+            recipient_id: row.recipient_id ?? undefined,
+            type: row.type,
+            description: row.description,
+            // Left unset when the server has none, so a local category survives the merge
+            ...(row.category ? { category: row.category } : {})
+        };
+    }
+
+    return {
+        ...base,
+        offline_id: mirrorOfflineId(row.offline_id),
+        user_id: userId,
+        recipient_id: row.user_id,
+        type: row.type === 'debit' ? 'credit' : 'debit',
+        description: row.type === 'debit'
+            ? `Received: ${row.description}`
+            : row.description.replace(/^Received: /, '')
+    };
+}
+
+/**
+ * Page through every server transaction after the stored cursor
+ * 
+ * The cursor is saved after each page, so an interrupted pull resumes
+ * where it stopped.
+ * 
+ * @returns Number of rows inserted or updated locally
+ */
+async function pullServerTransactions(userId: string): Promise<number> {
+    const wallet = await db.wallet.get(userId);
+    const stored = wallet?.sync_cursor ?? null;
+
+    let after: SyncCursor | null = stored
+        ? { created_at: new Date(Date.parse(stored.created_at) - CURSOR_OVERLAP_MS).toISOString(), id: MIN_UUID }
+        : null;
+    let written = 0;
+
+    for (;;) {
+        const page = await fetchServerTransactionsSince(userId, after);
+        if (!page) throw new Error('Down-sync page could not be fetched');
+        if (page.length === 0) break;
+
+        // Own rows win over mirrored copies of the same transfer
+        const byOfflineId = new Map<string, OfflineTransaction>();
+        for (const row of page) {
+            const local = toLocalTransaction(row, userId);
+            if (row.user_id === userId || !byOfflineId.has(local.offline_id)) {
+                byOfflineId.set(local.offline_id, local);
+            }
+        }
+
+        // Resolve rows we still consider unsynced, then merge the rest by offline_id
+        const unresolved = await reconcileServerTransactions([...byOfflineId.values()]);
+        written += await upsertServerTransactions(unresolved);
+
+        const last = page[page.length - 1];
+        after = { created_at: last.created_at, id: last.id };
+
+        // The overlap window re-reads old rows - never move the watermark backwards
+        if (!stored || compareCursors(after, stored) > 0) {
+            await updateWalletSyncCursors(userId, { sync_cursor: after });
+        }
+
+        if (page.length < DOWN_SYNC_PAGE_SIZE) break;
+    }
+
+    return written;
+}
+
+/**
+ * Page through server tombstones after the stored cursor and drop the local copies
+ * 
+ * @returns Number of local rows removed
+ */
+async function pullServerTombstones(userId: string): Promise<number> {
+    const wallet = await db.wallet.get(userId);
+    let after: TombstoneCursor | null = wallet?.tombstone_cursor ?? null;
+    let removed = 0;
+
+    for (;;) {
+        const page = await fetchServerTombstonesSince(userId, after);
+        if (!page) throw new Error('Tombstone page could not be fetched');
+        if (page.length === 0) break;
+
+        const ownIds = page.filter(t => t.user_id === userId).map(t => t.offline_id);
+        const mirroredIds = page.filter(t => t.user_id !== userId).map(t => mirrorOfflineId(t.offline_id));
+
+        // The other side of a transfer can be deleted while our own copy stays
+        const survivors = await fetchSurvivingOfflineIds(userId, mirroredIds);
+        const deletedIds = [...ownIds, ...mirroredIds.filter(id => !survivors.has(id))];
+
+        removed += await applyServerTombstones(userId, deletedIds);
+
+        const last = page[page.length - 1];
+        after = { deleted_at: last.deleted_at, offline_id: last.offline_id };
+        await updateWalletSyncCursors(userId, { tombstone_cursor: after });
+
+        if (page.length < DOWN_SYNC_PAGE_SIZE) break;
+    }
+
+    return removed;
+}
+
+/**
+ * Which of these offline_ids does the server still hold for this user?
+ */
+async function fetchSurvivingOfflineIds(userId: string, offlineIds: string[]): Promise<Set<string>> {
+    if (offlineIds.length === 0) return new Set();
+
+    const { data, error } = await supabase
+        .from('transactions')
+        .select('offline_id')
+        .eq('user_id', userId)
+        .in('offline_id', offlineIds);
+
+    if (error) throw error;
+    return new Set((data ?? []).map((row: { offline_id: string }) => row.offline_id));
+}
+
+function compareCursors(a: SyncCursor, b: SyncCursor): number {
+    const byTime = Date.parse(a.created_at) - Date.parse(b.created_at);
+    if (byTime !== 0) return byTime;
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Compare downloaded rows against unsynced local rows with the same offline_id
+ *
+ * If the server already holds a row we still think is pending, our sync
+ * response was lost. Identical rows are simply marked synced; rows whose
+ * amount, type or description differ are flagged as 'conflict' with the
+ * server's copy stored in conflict_data.
+ *
+ * @returns Server rows that have no unsynced local counterpart
+ */
+async function reconcileServerTransactions(serverTxs: OfflineTransaction[]): Promise<OfflineTransaction[]> {
+    const localRows = await db.transactions
+        .where('offline_id')
+        .anyOf(serverTxs.map(tx => tx.offline_id))
+        .and(tx => tx.sync_status !== 'synced')
+        .toArray();
+
+    if (localRows.length === 0) return serverTxs;
+
+    const localById = new Map(localRows.map(tx => [tx.offline_id, tx]));
+    const remaining: OfflineTransaction[] = [];
+    const detectedAt = Date.now();
+
+    for (const serverTx of serverTxs) {
+        const local = localById.get(serverTx.offline_id);
+        if (!local) {
+            remaining.push(serverTx);
+            continue;
+        }
+
+        const diverged = Number(local.amount) !== Number(serverTx.amount)
+            || local.type !== serverTx.type
+            || local.description !== serverTx.description;
+
+        await db.transactions
+            .where('offline_id')
+            .equals(serverTx.offline_id)
+            .modify(tx => {
+                delete tx.next_retry_at;
+                delete tx.failure_reason;
+                delete tx.failure_detail;
+                if (diverged) {
+                    tx.sync_status = 'conflict';
+                    tx.conflict_data = {
+                        server_version: {
+                            amount: serverTx.amount,
+                            type: serverTx.type,
+                            description: serverTx.description,
+                            signature: serverTx.signature,
+                            created_at: serverTx.created_at
+                        },
+                        reason: 'diverged',
+                        detected_at: detectedAt
+                    };
+                } else {
+                    tx.sync_status = 'synced';
+                }
+            });
+
+        if (diverged) {
+            console.warn(`⚠️ Conflict: server copy of ${serverTx.offline_id} differs from local`);
+        }
+    }
+
+    return remaining;
+}
+
 /**
  * Full Sync: Download latest state from Server to Local DB
  * 
+ * Transactions are pulled incrementally from the cursor stored on the
+ * WalletState, so nothing is lost however many rows arrived while offline.
+ * 
  * Used when:
  * 1. App loads
  * 2. User comes online
@@ -165,48 +696,19 @@ export async function syncWalletFromServer(userId: string): Promise<void> {
     try {
         console.log('⬇️ Starting Down-Sync...');
 
-        // 1. Fetch Balance
+        // 1. Pull everything newer than our watermark, then apply server deletions
+        // (reconciling may settle rows we still counted as pending)
+        const downloaded = await pullServerTransactions(userId);
+        const removed = await pullServerTombstones(userId);
+        console.log(`⬇️ Downloaded ${downloaded} transactions, removed ${removed}`);
+
+        // 2. Fetch Balance and replay pending operations on top of it
         const balance = await fetchServerBalance(userId);
         if (balance !== null) {
-            const currentWallet = await db.wallet.get(userId);
-            await updateWalletState({
-                id: userId,
-                // If we have pending local txs, shadow might differ, but cached_balance is truth from server
-                cached_balance: balance,
-                shadow_balance: balance, // simplified strategy: server authority reset
-                // In a perfect CRDT world we'd replay pending on top, 
-                // but for this P2P update, resetting to server balance is safer to see the incoming money immediately.
-                // We will re-apply pending debits if any exist.
-                last_updated: Date.now(),
-                last_sync_success: Date.now()
-            });
-
-            // Re-apply pending debits to shadow balance so we don't think we have more money than we do
-            const { updateWalletPendingAmounts } = require('./db');
+            await applyServerBalance(userId, Number(balance));
+        } else {
             await updateWalletPendingAmounts(userId);
         }
-
-        // 2. Fetch Recent Transactions
-        const serverTxs = await fetchServerTransactions(userId, 20); // Get last 20
-        if (serverTxs && serverTxs.length > 0) {
-            const formattedTxs = serverTxs.map((tx: any) => ({
-                offline_id: tx.offline_id,
-                user_id: tx.user_id,
-                amount: tx.amount,
-                type: tx.type,
-                description: tx.description,
-                timestamp: new Date(tx.created_at).getTime(), // Convert ISO to timestamp
-                sync_status: 'synced' as const,
-                signature: tx.signature || 'server-auth',
-                created_at: tx.created_at
-            }));
-
-            // Bulk put (upsert) to Dexie
-            // This ensures new incoming P2P txs appear in the list
-            await db.transactions.bulkPut(formattedTxs);
-            console.log(`⬇️ Downloaded ${serverTxs.length} transactions`);
-        }
-
     } catch (err) {
         console.error('❌ Down-Sync failed:', err);
     }
@@ -0,0 +1,160 @@
+/**
+ * Sync Errors - Typed failure reasons for offline transactions
+ *
+ * The process_offline_batch RPC reports rejected rows as
+ * `failed_ids: { offline_id, reason }[]` with a free-text reason.
+ * This module maps that text onto a fixed set of codes and decides what
+ * the sync engine should do with each:
+ * - retry:    transient problem, keep the row in the backoff schedule
+ * - reject:   the server will never accept this row as-is ('failed', no auto-retry)
+ * - conflict: the row is valid but the server state moved ('conflict')
+ */
+
+import type { SyncFailureReason, SyncStatus } from './types';
+
+export type FailureDisposition = 'retry' | 'reject' | 'conflict';
+
+interface FailureReasonInfo {
+    disposition: FailureDisposition;
+    message: string; // Short, user-facing explanation
+}
+
+const FAILURE_REASONS: Record<SyncFailureReason, FailureReasonInfo> = {
+    insufficient_balance: {
+        disposition: 'conflict',
+        message: 'Insufficient balance on server'
+    },
+    missing_signature: {
+        disposition: 'reject',
+        message: 'Transaction signature missing'
+    },
+    invalid_signature: {
+        disposition: 'reject',
+        message: 'Transaction signature invalid'
+    },
+    unknown_device: {
+        disposition: 'reject',
+        message: 'Signed by a device not enrolled to this account'
+    },
+    intent_invalid: {
+        disposition: 'reject',
+        message: 'QR code does not match this payment'
+    },
+    intent_expired: {
+        disposition: 'reject',
+        message: 'QR code expired before this payment'
+    },
+    intent_used: {
+        disposition: 'reject',
+        message: 'QR code was already used'
+    },
+    voucher_rejected: {
+        disposition: 'reject',
+        message: 'Payer\'s payment was rejected by the server'
+    },
+    allowance_exceeded: {
+        disposition: 'reject',
+        message: 'Over this device\'s offline spending limit'
+    },
+    allowance_expired: {
+        disposition: 'reject',
+        message: 'Made after this device\'s offline spending limit expired'
+    },
+    recipient_not_found: {
+        disposition: 'reject',
+        message: 'Recipient account not found - nothing was charged'
+    },
+    invalid_transfer: {
+        disposition: 'reject',
+        message: 'Not a valid payment - nothing was charged'
+    },
+    request_invalid: {
+        disposition: 'reject',
+        message: 'Payment does not match the request - nothing was charged'
+    },
+    request_cancelled: {
+        disposition: 'reject',
+        message: 'Request was cancelled before this payment synced - nothing was charged'
+    },
+    request_declined: {
+        disposition: 'reject',
+        message: 'Request was declined before this payment synced - nothing was charged'
+    },
+    request_expired: {
+        disposition: 'reject',
+        message: 'Paid after the request expired - nothing was charged'
+    },
+    request_paid: {
+        disposition: 'reject',
+        message: 'Request was already paid - nothing was charged'
+    },
+    not_authenticated: {
+        disposition: 'retry',
+        message: 'Session expired - sign in to sync'
+    },
+    network_error: {
+        disposition: 'retry',
+        message: 'Network error'
+    },
+    unconfirmed: {
+        disposition: 'retry',
+        message: 'Server did not confirm this transaction'
+    },
+    unknown: {
+        disposition: 'retry',
+        message: 'Rejected by server'
+    }
+};
+
+// Legacy free-text reasons returned by older versions of the RPC
+const LEGACY_REASON_PATTERNS: [RegExp, SyncFailureReason][] = [
+    [/insufficient/i, 'insufficient_balance'],
+    [/missing signature/i, 'missing_signature'],
+    [/invalid signature|signature mismatch|tamper/i, 'invalid_signature'],
+    [/unknown device|device not enrolled|device revoked/i, 'unknown_device'],
+    [/recipient/i, 'recipient_not_found'],
+    [/not authenticated/i, 'not_authenticated']
+];
+
+/**
+ * Map a server-supplied reason (code or legacy text) onto a failure code
+ */
+export function parseFailureReason(reason: string | null | undefined): SyncFailureReason {
+    if (!reason) return 'unknown';
+
+    const trimmed = reason.trim();
+    if (trimmed in FAILURE_REASONS) {
+        return trimmed as SyncFailureReason;
+    }
+
+    const match = LEGACY_REASON_PATTERNS.find(([pattern]) => pattern.test(trimmed));
+    return match ? match[1] : 'unknown';
+}
+
+/**
+ * What the sync engine should do with a row that failed for this reason
+ */
+export function getFailureDisposition(reason: SyncFailureReason): FailureDisposition {
+    return FAILURE_REASONS[reason].disposition;
+}
+
+/**
+ * Local sync status for a row rejected by the server for this reason
+ */
+export function getStatusForFailure(reason: SyncFailureReason): SyncStatus {
+    return getFailureDisposition(reason) === 'conflict' ? 'conflict' : 'failed';
+}
+
+/**
+ * Is this a permanent rejection that automatic retries cannot fix?
+ */
+export function isPermanentFailure(reason: SyncFailureReason | undefined): boolean {
+    return !!reason && getFailureDisposition(reason) !== 'retry';
+}
+
+/**
+ * User-facing text for a failure reason
+ */
+export function describeFailureReason(reason: SyncFailureReason | undefined): string {
+    return FAILURE_REASONS[reason ?? 'unknown'].message;
+}
@@ -0,0 +1,231 @@
+'use client';
+
+/**
+ * Sync Scheduler - Decides WHEN the sync engine runs
+ *
+ * The sync engine knows how to send a batch; this module keeps a single
+ * timer armed for the earliest moment any row becomes due again:
+ * - Immediately for new 'pending' rows
+ * - When the undo window closes for 'held' rows
+ * - After the jittered backoff for 'failed' rows (see retryPolicy)
+ * - After the in-flight timeout for rows stuck in 'syncing'
+ *
+ * Subscribers (useSyncQueue) receive the next run time so countdowns in
+ * the UI match what will actually happen.
+ *
+ * Only the sync leader tab (see tabCoordinator) arms the timer or calls
+ * Supabase; follower tabs forward sync requests to the leader and keep
+ * their projected next run time for display.
+ */
+
+import { db, resetTransactionRetry } from './db';
+import { getNextAttemptAt } from './retryPolicy';
+import { syncOfflineTransactions } from './syncEngine';
+import { tabCoordinator } from './tabCoordinator';
+import type { SyncResponse } from './types';
+
+// After a run the sync engine skipped (offline, Supabase not configured),
+// the rows it left behind are still "due": wait this long before trying
+// again. A run that failed has already put its rows into their backoff.
+const SKIPPED_RUN_DELAY_MS = 30 * 1000;
+
+type NextRunListener = (nextRunAt: number | null) => void;
+type SyncCompleteListener = (result: SyncResponse | null) => void;
+
+class SyncScheduler {
+    private userId: string | null = null;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private nextRunAt: number | null = null;
+    private isRunning: boolean = false;
+    private rerunRequested: boolean = false;
+    private nextRunListeners = new Set<NextRunListener>();
+    private syncCompleteListeners = new Set<SyncCompleteListener>();
+
+    constructor() {
+        if (typeof window !== 'undefined') {
+            // Going offline disarms the timer; coming back online runs straight away
+            window.addEventListener('online', () => {
+                this.runNow().catch(err => console.error('Scheduled sync error:', err));
+            });
+            window.addEventListener('offline', () => {
+                this.reschedule();
+            });
+
+            // Arm or disarm the timer when this tab wins or loses leadership
+            tabCoordinator.onLeadershipChange(() => {
+                this.reschedule();
+            });
+
+            // Leader: followers asking us to sync on their behalf
+            tabCoordinator.onSyncRequest(userId => {
+                if (userId === this.userId) {
+                    this.runNow().catch(err => console.error('Scheduled sync error:', err));
+                }
+            });
+
+            // Another tab synced: row states changed, refresh our projection
+            tabCoordinator.onRemoteUpdate(userId => {
+                if (userId === this.userId) {
+                    this.reschedule();
+                }
+            });
+        }
+    }
+
+    /**
+     * Start scheduling syncs for a user (replaces any previous user)
+     */
+    public start(userId: string): void {
+        if (this.userId === userId) return;
+        this.stop();
+        this.userId = userId;
+        tabCoordinator.start();
+        this.reschedule();
+    }
+
+    /**
+     * Stop scheduling (on sign-out / unmount)
+     */
+    public stop(): void {
+        this.clearTimer();
+        this.userId = null;
+    }
+
+    /**
+     * Get the time of the next scheduled sync (null = nothing scheduled)
+     */
+    public getNextRunAt(): number | null {
+        return this.nextRunAt;
+    }
+
+    /**
+     * Subscribe to changes of the next run time
+     * @returns Unsubscribe function
+     */
+    public onNextRunChange(listener: NextRunListener): () => void {
+        this.nextRunListeners.add(listener);
+        listener(this.nextRunAt);
+        return () => this.nextRunListeners.delete(listener);
+    }
+
+    /**
+     * Subscribe to completed sync runs
+     * @returns Unsubscribe function
+     */
+    public onSyncComplete(listener: SyncCompleteListener): () => void {
+        this.syncCompleteListeners.add(listener);
+        return () => this.syncCompleteListeners.delete(listener);
+    }
+
+    /**
+     * Run a sync immediately (new transaction, manual "Sync now", reconnect)
+     * Errors are rethrown so callers can surface them; the failed rows have
+     * already been rescheduled by the sync engine.
+     * Follower tabs hand the request to the leader and return null.
+     */
+    public async runNow(): Promise<SyncResponse | null> {
+        if (!this.userId) return null;
+
+        if (!tabCoordinator.isLeader()) {
+            tabCoordinator.requestSync(this.userId);
+            return null;
+        }
+
+        // Coalesce overlapping requests into one follow-up run
+        if (this.isRunning) {
+            this.rerunRequested = true;
+            return null;
+        }
+
+        this.clearTimer();
+        this.isRunning = true;
+        const userId = this.userId;
+        let skipped = false;
+
+        try {
+            const result = await syncOfflineTransactions(userId);
+            skipped = result === null;
+            this.syncCompleteListeners.forEach(listener => listener(result));
+            if (result) {
+                tabCoordinator.announceUpdate(userId);
+            }
+            return result;
+        } finally {
+            this.isRunning = false;
+            if (this.rerunRequested) {
+                this.rerunRequested = false;
+                this.runNow().catch(err => console.error('Scheduled sync error:', err));
+            } else {
+                await this.reschedule(skipped ? SKIPPED_RUN_DELAY_MS : 0);
+            }
+        }
+    }
+
+    /**
+     * Manually retry one transaction with a fresh retry budget
+     */
+    public async retryTransaction(offlineId: string): Promise<SyncResponse | null> {
+        await resetTransactionRetry(offlineId);
+        return this.runNow();
+    }
+
+    /**
+     * Re-arm the timer for the earliest due row, at least minDelayMs from now
+     * Call after anything that changes the queue outside of a sync run.
+     */
+    public async reschedule(minDelayMs: number = 0): Promise<void> {
+        this.clearTimer();
+        if (!this.userId) return;
+
+        const userId = this.userId;
+        const rows = await db.transactions
+            .where('user_id')
+            .equals(userId)
+            .and(tx => ['held', 'pending', 'syncing', 'failed'].includes(tx.sync_status))
+            .toArray();
+
+        // User may have changed while we were reading
+        if (this.userId !== userId) return;
+
+        const candidates = rows
+            .map(tx => getNextAttemptAt(tx))
+            .filter((at): at is number => at !== null);
+
+        if (candidates.length === 0) {
+            this.setNextRunAt(null);
+            return;
+        }
+
+        const runAt = Math.max(Math.min(...candidates), Date.now() + minDelayMs);
+        this.setNextRunAt(runAt);
+
+        // While offline, or as a follower tab, keep the projected time for the UI
+        // but don't arm the timer
+        if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+        if (!tabCoordinator.isLeader()) return;
+
+        // Another reschedule may have armed a timer while we were reading
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.runNow().catch(err => console.error('Scheduled sync error:', err));
+        }, runAt - Date.now());
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.setNextRunAt(null);
+    }
+
+    private setNextRunAt(nextRunAt: number | null): void {
+        if (this.nextRunAt === nextRunAt) return;
+        this.nextRunAt = nextRunAt;
+        this.nextRunListeners.forEach(listener => listener(nextRunAt));
+    }
+}
+
+// Singleton instance - one timer per tab
+export const syncScheduler = new SyncScheduler();
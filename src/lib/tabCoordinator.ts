@@ -0,0 +1,215 @@
+'use client';
+
+/**
+ * Tab Coordinator - Cross-tab sync leader election
+ *
+ * Every open dashboard shares the same IndexedDB, but only one of them
+ * should talk to Supabase at a time, otherwise two tabs race to send the
+ * same pending batch. This module:
+ * - Elects a leader via a lease stored in ResilientDB.locks
+ *   (read-check-write inside a Dexie transaction, so it is atomic across tabs)
+ * - Renews the lease with a heartbeat; followers take over once it expires
+ * - Uses a BroadcastChannel so followers can ask the leader to sync and
+ *   learn when the ledger has changed (they then just re-read ResilientDB)
+ *
+ * Browsers without BroadcastChannel behave as a single tab and always lead.
+ */
+
+import { db } from './db';
+import { generateOfflineId } from '@/utils/crypto';
+
+const CHANNEL_NAME = 'phantompay-sync';
+const LEADER_LOCK = 'sync-leader';
+const LEASE_MS = 10000; // Lease length
+const HEARTBEAT_MS = 3000; // Leader renews this often
+const FOLLOWER_CHECK_MS = 5000; // Followers look for an expired lease this often
+
+type CoordinatorMessage =
+    | { type: 'sync-request'; userId: string; from: string }
+    | { type: 'ledger-updated'; userId: string; from: string }
+    | { type: 'leader-resigned'; from: string };
+
+type LeadershipListener = (isLeader: boolean) => void;
+type UserListener = (userId: string) => void;
+
+class TabCoordinator {
+    public readonly tabId: string = generateOfflineId();
+    private channel: BroadcastChannel | null = null;
+    private leader: boolean = false;
+    private started: boolean = false;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private readyPromise: Promise<void> | null = null;
+    private leadershipListeners = new Set<LeadershipListener>();
+    private syncRequestListeners = new Set<UserListener>();
+    private remoteUpdateListeners = new Set<UserListener>();
+
+    /**
+     * Join the election (idempotent)
+     * @returns Promise resolving once this tab knows whether it leads
+     */
+    public start(): Promise<void> {
+        if (this.readyPromise) return this.readyPromise;
+        if (typeof window === 'undefined') return Promise.resolve();
+
+        this.started = true;
+
+        if (typeof BroadcastChannel === 'undefined') {
+            // No way to coordinate - act as the only tab
+            this.setLeader(true);
+            this.readyPromise = Promise.resolve();
+            return this.readyPromise;
+        }
+
+        this.channel = new BroadcastChannel(CHANNEL_NAME);
+        this.channel.onmessage = (event: MessageEvent<CoordinatorMessage>) => this.handleMessage(event.data);
+
+        window.addEventListener('pagehide', () => this.resign());
+
+        this.readyPromise = this.tick();
+        return this.readyPromise;
+    }
+
+    /**
+     * Resolves once the first election attempt has finished
+     */
+    public ready(): Promise<void> {
+        return this.readyPromise ?? this.start();
+    }
+
+    /**
+     * Is this tab currently allowed to talk to Supabase?
+     */
+    public isLeader(): boolean {
+        return this.leader;
+    }
+
+    /**
+     * Subscribe to leadership changes for this tab
+     * @returns Unsubscribe function
+     */
+    public onLeadershipChange(listener: LeadershipListener): () => void {
+        this.leadershipListeners.add(listener);
+        return () => this.leadershipListeners.delete(listener);
+    }
+
+    /**
+     * Ask the leader tab to run a sync for this user
+     */
+    public requestSync(userId: string): void {
+        this.post({ type: 'sync-request', userId, from: this.tabId });
+    }
+
+    /**
+     * Leader: subscribe to sync requests from follower tabs
+     */
+    public onSyncRequest(listener: UserListener): () => void {
+        this.syncRequestListeners.add(listener);
+        return () => this.syncRequestListeners.delete(listener);
+    }
+
+    /**
+     * Tell other tabs that the local ledger changed (after a sync or down-sync)
+     */
+    public announceUpdate(userId: string): void {
+        this.post({ type: 'ledger-updated', userId, from: this.tabId });
+    }
+
+    /**
+     * Subscribe to ledger changes made by another tab
+     */
+    public onRemoteUpdate(listener: UserListener): () => void {
+        this.remoteUpdateListeners.add(listener);
+        return () => this.remoteUpdateListeners.delete(listener);
+    }
+
+    /**
+     * Give up leadership (tab closing) so a follower can take over at once
+     */
+    public async resign(): Promise<void> {
+        if (!this.leader) return;
+        this.setLeader(false);
+
+        try {
+            await db.transaction('rw', db.locks, async () => {
+                const lock = await db.locks.get(LEADER_LOCK);
+                if (lock?.owner === this.tabId) {
+                    await db.locks.delete(LEADER_LOCK);
+                }
+            });
+        } catch (err) {
+            console.warn('Could not release sync leader lock:', err);
+        }
+
+        this.post({ type: 'leader-resigned', from: this.tabId });
+    }
+
+    /**
+     * Heartbeat: renew our lease, or try to take an expired one
+     */
+    private async tick(): Promise<void> {
+        if (!this.started) return;
+
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        try {
+            const acquired = await db.transaction('rw', db.locks, async () => {
+                const now = Date.now();
+                const lock = await db.locks.get(LEADER_LOCK);
+
+                if (lock && lock.owner !== this.tabId && lock.expires_at > now) {
+                    return false;
+                }
+
+                await db.locks.put({ name: LEADER_LOCK, owner: this.tabId, expires_at: now + LEASE_MS });
+                return true;
+            });
+            this.setLeader(acquired);
+        } catch (err) {
+            console.warn('Sync leader election failed:', err);
+            this.setLeader(false);
+        }
+
+        // Followers don't need to hammer the lock table every heartbeat
+        this.timer = setTimeout(() => this.tick(), this.leader ? HEARTBEAT_MS : FOLLOWER_CHECK_MS);
+    }
+
+    private handleMessage(message: CoordinatorMessage): void {
+        if (!message || message.from === this.tabId) return;
+
+        switch (message.type) {
+            case 'sync-request':
+                if (this.leader) {
+                    this.syncRequestListeners.forEach(listener => listener(message.userId));
+                }
+                break;
+            case 'ledger-updated':
+                this.remoteUpdateListeners.forEach(listener => listener(message.userId));
+                break;
+            case 'leader-resigned':
+                // Race for the freed lease straight away
+                this.tick();
+                break;
+        }
+    }
+
+    private post(message: CoordinatorMessage): void {
+        try {
+            this.channel?.postMessage(message);
+        } catch (err) {
+            console.warn('BroadcastChannel post failed:', err);
+        }
+    }
+
+    private setLeader(isLeader: boolean): void {
+        if (this.leader === isLeader) return;
+        this.leader = isLeader;
+        console.log(`👑 Tab ${this.tabId.slice(0, 8)} is ${isLeader ? 'now the sync leader' : 'a follower'}`);
+        this.leadershipListeners.forEach(listener => listener(isLeader));
+    }
+}
+
+// Singleton instance - one coordinator per tab
+export const tabCoordinator = new TabCoordinator();
@@ -8,10 +8,53 @@
  */
 export type TransactionType = 'credit' | 'debit';
 
+/**
+ * What a transaction was for (see lib/categories)
+ */
+export type TransactionCategory =
+    | 'food'
+    | 'shopping'
+    | 'transport'
+    | 'bills'
+    | 'housing'
+    | 'entertainment'
+    | 'health'
+    | 'transfer'
+    | 'income'
+    | 'other';
+
 /**
  * Sync status for offline transactions
+ * 'held' rows are new payments inside their undo window: they count against
+ * the shadow balance but are not sent until held_until has passed.
  */
-export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'failed' | 'conflict';
+export type SyncStatus = 'held' | 'pending' | 'syncing' | 'synced' | 'failed' | 'conflict';
+
+/**
+ * Why a transaction did not sync (stored on the row, see lib/syncErrors)
+ */
+export type SyncFailureReason =
+    | 'insufficient_balance' // Server balance too low when the debit was applied
+    | 'missing_signature'    // Row arrived without a signature
+    | 'invalid_signature'    // Signature did not verify (row tampered with)
+    | 'unknown_device'       // Signing device not enrolled to this user, or revoked
+    | 'intent_invalid'       // QR intent does not match the payment or its payee key
+    | 'intent_expired'       // QR intent was paid after it expired
+    | 'intent_used'          // QR intent was already redeemed by another payment
+    | 'voucher_rejected'     // Server refused the payer's side of a received voucher
+    | 'allowance_exceeded'   // Debit does not fit the offline allowance issued to its device
+    | 'allowance_expired'    // Debit was made after its offline allowance expired or was replaced
+    | 'recipient_not_found'  // P2P recipient does not exist
+    | 'invalid_transfer'     // Amount not positive, paying oneself, or not a debit
+    | 'request_invalid'      // Payment names a request that is not for this payer and recipient
+    | 'request_cancelled'    // Paid request was cancelled by the requester in the meantime
+    | 'request_declined'     // Paid request was declined in the meantime (e.g. on another device)
+    | 'request_expired'      // Payment was made after the request expired
+    | 'request_paid'         // Request was already paid, or this payment is more than is still owed
+    | 'not_authenticated'    // Session expired / missing
+    | 'network_error'        // RPC never reached the server or failed in transit
+    | 'unconfirmed'          // Server answered but did not mention this row
+    | 'unknown';             // Server rejected the row for an unrecognised reason
 
 
 /**
@@ -26,18 +69,49 @@ export interface OfflineTransaction {
     type: TransactionType;
     description: string;
     timestamp: number; // Unix timestamp
-    signature: string; // SHA256(offline_id + user_id + amount + timestamp + salt)
+    signature: string; // HMAC-SHA256 with the device key (see utils/crypto buildSigningMessage)
+    device_id?: string; // Device whose key signed this row (see lib/deviceKeys)
+    allowance_id?: string; // Offline allowance a debit spends from (see lib/offlineAllowance)
+    qr_intent?: QRPaymentIntent; // Scanned QR this payment redeems (single-use, see lib/qrIntent)
+    voucher?: PaymentVoucher; // Payer's voucher behind a credit received offline (see lib/paymentVoucher)
+    payment_request_id?: string; // Payment request this debit pays (see lib/paymentRequests)
+    category?: TransactionCategory; // Unsigned label, synced to transactions.category
     sync_status: SyncStatus;
+    held_until?: number; // Unix timestamp when a 'held' row's undo window closes
     created_at: string; // ISO string
     retry_count?: number; // Number of sync retry attempts
     last_sync_attempt?: number; // Unix timestamp of last sync attempt
-    conflict_data?: {
-        server_version: Partial<OfflineTransaction>;
-        resolved?: boolean;
-    };
+    next_retry_at?: number; // Unix timestamp when a failed row becomes due again (jittered backoff)
+    failure_reason?: SyncFailureReason; // Why the last sync attempt failed
+    failure_detail?: string; // Raw reason text from the server, for debugging
+    conflict_data?: ConflictData;
     is_editable?: boolean; // Can user edit this pending transaction?
 }
 
+/**
+ * Why a transaction was flagged as a conflict
+ * - insufficient_balance: server rejected the debit because its balance moved
+ * - diverged: the server holds a different version of the same offline_id
+ */
+export type ConflictReason = 'insufficient_balance' | 'diverged';
+
+/**
+ * Server-side view of a conflicting transaction
+ * An empty server_version means the server never recorded the transaction.
+ */
+export interface ConflictData {
+    server_version: Partial<OfflineTransaction>;
+    reason?: ConflictReason;
+    server_balance?: number; // Server balance when the conflict was detected
+    detected_at?: number; // Unix timestamp
+    resolved?: boolean;
+}
+
+/**
+ * User's choice in the ConflictCard
+ */
+export type ConflictResolution = 'keep_local' | 'accept_server' | 'cancel';
+
 /**
  * Local wallet state stored in Dexie
  */
@@ -50,6 +124,65 @@ export interface WalletState {
     pending_debits?: number; // Sum of pending outgoing transactions
     pending_credits?: number; // Sum of pending incoming transactions
     is_stale?: boolean; // True if last sync > 24 hours ago
+    sync_cursor?: SyncCursor; // Watermark of the last server row pulled by down-sync
+    tombstone_cursor?: TombstoneCursor; // Watermark of the last server tombstone applied
+    offline_allowance?: OfflineAllowance; // What this device may spend before it syncs again
+    other_devices?: DeviceAllowanceUsage[]; // Other devices of the account, as of the last sync
+}
+
+/**
+ * Offline spending allowance issued to this device by the server at sync
+ * Signed with the device's HMAC key (see utils/crypto buildAllowanceMessage).
+ */
+export interface OfflineAllowance {
+    id: string; // Server allowance UUID, stamped on every debit spending from it
+    device_id: string;
+    limit: number; // Maximum total of debits signed under this allowance
+    issued_at: number; // Unix timestamp
+    expires_at: number; // Unix timestamp
+    signature: string; // Hex HMAC-SHA256 by the server with this device's secret
+}
+
+/**
+ * Keyset position in the server's transactions table, ordered by (created_at, id)
+ * Only written by db.updateWalletSyncCursors.
+ */
+export interface SyncCursor {
+    created_at: string; // ISO timestamp exactly as returned by Supabase
+    id: string; // Server row UUID, breaks created_at ties
+}
+
+/**
+ * Keyset position in the server's transaction_tombstones table, ordered by (deleted_at, offline_id)
+ */
+export interface TombstoneCursor {
+    deleted_at: string;
+    offline_id: string;
+}
+
+/**
+ * This device's transaction signing key for a user (see lib/deviceKeys)
+ */
+export interface DeviceKey {
+    user_id: string; // One key per user on this device
+    device_id: string; // UUID registered with the server
+    key: CryptoKey; // Non-extractable HMAC-SHA256 key
+    pending_secret?: string; // Base64 secret, kept only until enrollment is confirmed
+    enrolled_at?: number; // Unix timestamp of server confirmation
+    payee_private_key?: CryptoKey; // Non-extractable ECDSA P-256 key that signs QR intents
+    payee_public_key?: string; // Base64 raw public key embedded in QR intents
+    payee_key_registered_at?: number; // Unix timestamp the server linked the public key to this device
+    created_at: number;
+}
+
+/**
+ * Cross-tab lock stored in Dexie (see lib/tabCoordinator)
+ * A lock is a lease: it is valid until expires_at unless renewed.
+ */
+export interface TabLock {
+    name: string; // Lock name, e.g. 'sync-leader'
+    owner: string; // Tab ID holding the lease
+    expires_at: number; // Unix timestamp
 }
 
 /**
@@ -58,15 +191,27 @@ export interface WalletState {
 export interface ServerTransaction {
     id: string; // UUID
     user_id: string;
+    recipient_id?: string | null;
     amount: number;
     type: TransactionType;
     description: string;
     status: SyncStatus;
     offline_id: string;
     signature: string;
+    category?: TransactionCategory | null;
     created_at: string;
 }
 
+/**
+ * Record of a transaction deleted on the server (see migration 006)
+ */
+export interface ServerTombstone {
+    offline_id: string;
+    user_id: string;
+    recipient_id: string | null;
+    deleted_at: string;
+}
+
 /**
  * User profile from Supabase
  */
@@ -92,17 +237,208 @@ export interface SyncResponse {
     processed_ids: string[];
     failed_ids: { offline_id: string; reason: string }[];
     new_balance: number;
+    other_devices?: DeviceAllowanceUsage[]; // What the account's other devices may still spend offline
+    error?: string; // Batch-level error (e.g. 'Not authenticated')
 }
 
 /**
- * QR Payment data structure
+ * Another device of the same account and how much it may have spent
+ * offline that the server has not seen yet
  */
-export interface QRPaymentData {
+export interface DeviceAllowanceUsage {
+    device_id: string;
+    name: string;
+    last_synced_at: number | null; // Unix timestamp
+    allowance_limit: number;
+    unsynced_max: number; // Unspent part of its allowance, as the server knows it
+    expires_at: number; // Unix timestamp the allowance lapses
+}
+
+/**
+ * A device registered to the account (see list_devices RPC)
+ */
+export interface DeviceInfo {
+    device_id: string;
+    name: string;
+    registered_at: number; // Unix timestamp
+    last_synced_at: number | null;
+    revoked_at: number | null;
+    allowance: { limit: number; spent: number; expires_at: number } | null;
+}
+
+/**
+ * Signed QR payment intent (see lib/qrIntent)
+ * The payer verifies it offline; the server redeems the nonce exactly once.
+ */
+export interface QRPaymentIntent {
+    v: 2; // Format version (unversioned payloads are the legacy, unsigned format)
+    nonce: string; // Single-use ID, redeemed by process_offline_batch
     recipient_id: string;
     recipient_name?: string;
-    amount?: number;
+    amount?: number; // Fixed amount; omitted when the payer chooses
+    issued_at: number; // Unix timestamp
+    expires_at: number; // Unix timestamp
+    payee_key: string; // Base64 raw P-256 public key of the payee's device
+    signature: string; // Base64 ECDSA signature over buildIntentMessage
+}
+
+/**
+ * Signed receipt a payer shows the payee after a QR payment (see lib/paymentVoucher)
+ * Carries the payer's signed transaction so either side can settle it.
+ */
+export interface PaymentVoucher {
+    kind: 'voucher'; // Tells vouchers and payment intents apart when scanned
+    v: 1;
+    offline_id: string; // Payer's offline_id; the payee's credit is offline_id + '-rcv'
+    user_id: string; // Payer
+    payer_name?: string;
+    recipient_id: string; // Payee
+    amount: number;
+    type: 'debit';
+    description: string;
     timestamp: number;
-    signature: string;
+    device_id: string; // Payer device whose key signed the row
+    allowance_id?: string; // Payer's offline allowance, part of the signed row
+    signature: string; // Payer's HMAC, verified by the server
+    qr_intent: QRPaymentIntent; // The payee's intent this payment redeems
+    payer_key: string; // Base64 raw P-256 public key of the payer's device
+    voucher_signature: string; // Base64 ECDSA signature over buildVoucherMessage
+}
+
+/**
+ * Scheduled / recurring payment (see lib/recurringPayments)
+ * Kept in Dexie so due runs are paid even while offline, and mirrored to
+ * the recurring_payments table so every device of the account sees it.
+ */
+export type RecurringPaymentStatus = 'active' | 'paused' | 'ended';
+
+export interface RecurringPayment {
+    id: string; // UUID v4 generated on client
+    user_id: string;
+    recipient_id: string; // Resolved once with get_recipient_id
+    recipient_label: string; // What the user typed (e-mail), for display
+    amount: number;
+    description: string;
+    schedule: string; // 5-field cron expression in local time (see lib/cron)
+    start_at: number; // Unix timestamp; no run before it
+    end_at?: number; // Unix timestamp; no run after it
+    next_run_at: number | null; // Unix timestamp of the next occurrence (null once ended)
+    last_run_at?: number; // Occurrence last turned into a transaction
+    status: RecurringPaymentStatus;
+    last_error?: string; // Why the due occurrence could not be paid yet
+    updated_at: number; // Unix timestamp; last write wins between devices
+    sync_status: 'pending' | 'synced'; // Whether the server has this version
+}
+
+/**
+ * Lifecycle of a payment request (see migration 016)
+ * pending and partially_paid are open: they can still be paid, declined,
+ * cancelled by the requester or expire.
+ */
+export type PaymentRequestStatus =
+    | 'pending'
+    | 'partially_paid'
+    | 'approved'
+    | 'rejected'
+    | 'cancelled'
+    | 'expired';
+
+/**
+ * A payment request sent or received by the current user (see list_payment_requests RPC)
+ */
+export interface PaymentRequest {
+    id: string;
+    requester_id: string;
+    requester_email: string | null;
+    payer_id: string;
+    payer_email: string | null;
+    amount: number;
+    paid_amount: number; // Paid so far (partial payments)
+    description: string;
+    status: PaymentRequestStatus;
+    group_id: string | null; // Split bill this share belongs to
+    created_at: number; // Unix timestamp
+    expires_at: number;
+    responded_at: number | null;
+    cancelled_at: number | null;
+    last_reminded_at: number | null; // Requester's last nudge
+    reminder_count: number;
+}
+
+/**
+ * How a split bill divides its total between the payers (see create_split_request)
+ */
+export type SplitMode = 'equal' | 'percentage' | 'custom';
+
+/**
+ * One payer of a split bill, as entered in the form
+ */
+export interface SplitShareInput {
+    email: string;
+    percent?: number; // Percentage splits
+    amount?: number; // Custom splits
+}
+
+/**
+ * A split bill sent by the current user (see list_request_groups RPC)
+ * - open: some payers have not answered yet
+ * - settled: everyone paid
+ * - closed: nothing is pending, but someone rejected
+ */
+export interface RequestGroup {
+    id: string;
+    total_amount: number;
+    description: string;
+    split_mode: SplitMode;
+    status: 'open' | 'settled' | 'closed';
+    created_at: number; // Unix timestamp
+    settled_at: number | null;
+    members: RequestGroupMember[];
+}
+
+export interface RequestGroupMember {
+    request_id: string;
+    payer_id: string;
+    payer_email: string | null;
+    amount: number;
+    paid_amount: number;
+    share_percent: number | null;
+    status: PaymentRequestStatus;
+    responded_at: number | null;
+}
+
+/**
+ * A category the user chose over the suggested one (see lib/categories)
+ * Kept on this device only; the categorizer matches new transactions against it.
+ */
+export interface CategoryCorrection {
+    id?: number; // Auto-incremented by Dexie
+    user_id: string;
+    keywords: string[]; // Meaningful words of the description
+    recipient_id?: string;
+    amount: number;
+    type: TransactionType;
+    category: TransactionCategory;
+    created_at: number;
+}
+
+/**
+ * What a monthly budget covers: one spending category, or all spending
+ */
+export type BudgetScope = Exclude<TransactionCategory, 'income'> | 'overall';
+
+/**
+ * A monthly spending limit (see lib/budgets)
+ * One per scope; removing one leaves a deleted row until the server has it.
+ */
+export interface Budget {
+    id: string; // '<user_id>:<scope>', so devices setting the same budget share a row
+    user_id: string;
+    scope: BudgetScope;
+    amount: number; // Limit per calendar month, device local time
+    deleted: boolean;
+    updated_at: number; // Unix timestamp; last write wins between devices
+    sync_status: 'pending' | 'synced'; // Whether the server has this version
 }
 
 /**
@@ -117,6 +453,8 @@ export interface SyncQueueItem {
     max_retries: number;
     created_at: number;
     last_attempt?: number;
+    next_attempt?: number; // When the scheduler will retry this item (undefined = not scheduled)
+    failure_reason?: SyncFailureReason;
     error_message?: string;
 }
 
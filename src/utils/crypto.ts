@@ -5,9 +5,16 @@
  * - Replay attacks
  * - Parameter tampering during sync
  * 
- * SECURITY WARNING: Client-side signatures are for demo/offline-first purposes only.
- * In production, signature verification MUST be done server-side with a SECRET salt.
- * The NEXT_PUBLIC_ prefix exposes the salt to clients, making signatures forgeable.
+ * Transactions are signed with HMAC-SHA256 using a per-device secret
+ * enrolled with the server (see lib/deviceKeys), and process_offline_batch
+ * re-computes the HMAC before moving money.
+ * 
+ * QR payment intents are signed with a per-device ECDSA P-256 payee key,
+ * so a payer can verify them offline from the public key in the QR
+ * (see lib/qrIntent).
+ * 
+ * The salted SHA-256 helpers below are legacy: the salt ships to every
+ * browser, so they prove nothing and must not be used for new signatures.
  */
 
 // NOTE: This salt is intentionally client-side for offline signing.
@@ -67,6 +74,149 @@ export async function verifySignature(
     return signature === expectedSignature;
 }
 
+/**
+ * Fields covered by a transaction signature
+ */
+export interface SignableTransaction {
+    user_id: string;
+    offline_id: string;
+    device_id: string;
+    amount: number;
+    type: string;
+    recipient_id?: string;
+    timestamp: number;
+    description: string;
+    allowance_id?: string; // Offline allowance a debit spends from
+    qr_intent?: { nonce: string }; // QR intent this payment redeems
+    payment_request_id?: string; // Payment request this debit pays
+}
+
+/**
+ * Canonical message signed for a transaction
+ * 
+ * MUST match the message built in apply_offline_transaction
+ * (supabase/migrations/017_offline_request_payments.sql). description goes
+ * last so a ':' inside it cannot be confused with a field separator. The
+ * allowance ID (debits), QR intent nonce (QR payments) and payment request
+ * ID (request payments) are only present when set, so older rows keep
+ * verifying.
+ */
+export function buildSigningMessage(tx: SignableTransaction): string {
+    return [
+        tx.user_id,
+        tx.offline_id,
+        tx.device_id,
+        Number(tx.amount).toFixed(2),
+        tx.type,
+        tx.recipient_id ?? '',
+        tx.timestamp,
+        ...(tx.allowance_id ? [tx.allowance_id] : []),
+        ...(tx.qr_intent ? [tx.qr_intent.nonce] : []),
+        ...(tx.payment_request_id ? [tx.payment_request_id] : []),
+        tx.description
+    ].join(':');
+}
+
+/**
+ * Canonical message the server signs when issuing an offline allowance
+ * 
+ * MUST match issue_offline_allowance (supabase/migrations/010_offline_allowances.sql).
+ */
+export function buildAllowanceMessage(allowance: {
+    id: string;
+    user_id: string;
+    device_id: string;
+    limit: number;
+    issued_at: number;
+    expires_at: number;
+}): string {
+    return [
+        'allowance',
+        allowance.id,
+        allowance.user_id,
+        allowance.device_id,
+        Number(allowance.limit).toFixed(2),
+        allowance.issued_at,
+        allowance.expires_at
+    ].join(':');
+}
+
+/**
+ * Generate a random 256-bit device secret
+ * @returns Raw bytes and their base64 encoding (for enrollment)
+ */
+export function generateDeviceSecret(): { raw: Uint8Array<ArrayBuffer>; base64: string } {
+    const raw = crypto.getRandomValues(new Uint8Array(32));
+    return { raw, base64: toBase64(raw) };
+}
+
+/**
+ * Import a device secret as a non-extractable HMAC-SHA256 signing key
+ */
+export async function importDeviceKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        'raw',
+        raw,
+        { name: 'HMAC', hash: 'SHA-256' },
+        false, // Not extractable - the key can sign but never be read back
+        ['sign']
+    );
+}
+
+/**
+ * HMAC-SHA256 a message with a device key
+ * @returns Hex-encoded signature
+ */
+export async function hmacSign(key: CryptoKey, message: string): Promise<string> {
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+    return Array.from(new Uint8Array(signature))
+        .map(b => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+const ECDSA_KEY_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+/**
+ * Generate an ECDSA P-256 key pair for signing QR payment intents
+ * @returns The non-extractable private key and the base64 raw public key
+ */
+export async function generatePayeeKeyPair(): Promise<{ privateKey: CryptoKey; publicKey: string }> {
+    const pair = await crypto.subtle.generateKey(ECDSA_KEY_PARAMS, false, ['sign', 'verify']);
+    const publicKey = await crypto.subtle.exportKey('raw', pair.publicKey);
+    return { privateKey: pair.privateKey, publicKey: toBase64(new Uint8Array(publicKey)) };
+}
+
+/**
+ * ECDSA-sign a message with a payee key
+ * @returns Base64 signature (IEEE P1363 r||s, as produced by WebCrypto)
+ */
+export async function ecdsaSign(privateKey: CryptoKey, message: string): Promise<string> {
+    const signature = await crypto.subtle.sign(ECDSA_SIGN_PARAMS, privateKey, new TextEncoder().encode(message));
+    return toBase64(new Uint8Array(signature));
+}
+
+/**
+ * Verify an ECDSA signature against a base64 raw P-256 public key
+ * Malformed keys or signatures count as invalid rather than throwing.
+ */
+export async function ecdsaVerify(publicKey: string, message: string, signature: string): Promise<boolean> {
+    try {
+        const key = await crypto.subtle.importKey('raw', fromBase64(publicKey), ECDSA_KEY_PARAMS, false, ['verify']);
+        return await crypto.subtle.verify(ECDSA_SIGN_PARAMS, key, fromBase64(signature), new TextEncoder().encode(message));
+    } catch {
+        return false;
+    }
+}
+
+function toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
 /**
  * Generate a UUID v4 for offline transaction IDs
  * Uses the crypto API for better randomness
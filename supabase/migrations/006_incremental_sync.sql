@@ -0,0 +1,61 @@
+-- PhantomPay - INCREMENTAL DOWN-SYNC
+-- Run this in Supabase SQL Editor AFTER 005_payment_requests.sql
+
+-- Keyset pagination index: clients page through (created_at, id) after their cursor
+CREATE INDEX IF NOT EXISTS idx_transactions_created_at_id ON transactions(created_at, id);
+
+-- TOMBSTONES TABLE
+-- Remembers deleted transactions so clients can drop their local copies
+CREATE TABLE IF NOT EXISTS transaction_tombstones (
+  offline_id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL,
+  recipient_id UUID,
+  deleted_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_tombstones_deleted_at ON transaction_tombstones(deleted_at, offline_id);
+CREATE INDEX IF NOT EXISTS idx_tombstones_user_id ON transaction_tombstones(user_id);
+CREATE INDEX IF NOT EXISTS idx_tombstones_recipient_id ON transaction_tombstones(recipient_id);
+
+-- Enable RLS
+ALTER TABLE transaction_tombstones ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Both sides of a transfer can see its tombstone
+DROP POLICY IF EXISTS "Users can view own tombstones" ON transaction_tombstones;
+CREATE POLICY "Users can view own tombstones"
+  ON transaction_tombstones FOR SELECT
+  USING (auth.uid() = user_id OR auth.uid() = recipient_id);
+
+-- Record a tombstone for every deleted transaction
+-- SECURITY DEFINER: clients have no INSERT policy on transaction_tombstones
+CREATE OR REPLACE FUNCTION record_transaction_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO transaction_tombstones (offline_id, user_id, recipient_id, deleted_at)
+  VALUES (OLD.offline_id, OLD.user_id, OLD.recipient_id, NOW())
+  ON CONFLICT (offline_id) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        recipient_id = EXCLUDED.recipient_id,
+        deleted_at = EXCLUDED.deleted_at;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_transaction_deleted ON transactions;
+CREATE TRIGGER on_transaction_deleted
+  AFTER DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION record_transaction_tombstone();
+
+-- A re-inserted offline_id is live again
+CREATE OR REPLACE FUNCTION clear_transaction_tombstone()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM transaction_tombstones WHERE offline_id = NEW.offline_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_transaction_inserted_clear_tombstone ON transactions;
+CREATE TRIGGER on_transaction_inserted_clear_tombstone
+  AFTER INSERT ON transactions
+  FOR EACH ROW EXECUTE FUNCTION clear_transaction_tombstone();
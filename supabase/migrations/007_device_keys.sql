@@ -0,0 +1,248 @@
+-- PhantomPay - PER-DEVICE SIGNING KEYS
+-- Run this in Supabase SQL Editor AFTER 006_incremental_sync.sql
+--
+-- Replaces the shared NEXT_PUBLIC_SIGNING_SALT scheme. Each device enrolls
+-- a random HMAC-SHA256 secret once; offline transactions are signed with
+-- it and process_offline_batch re-computes the HMAC before moving money.
+--
+-- Signed message (must match buildSigningMessage in src/utils/crypto.ts):
+--   user_id:offline_id:device_id:amount(2dp):type:recipient_id:timestamp:description
+-- description is last, so a ':' inside it cannot shift the other fields.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- DEVICE KEYS TABLE
+-- Secrets never leave the database: no SELECT policy, access only via RPCs
+CREATE TABLE IF NOT EXISTS device_keys (
+  device_id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  secret BYTEA NOT NULL,
+  label TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_keys_user_id ON device_keys(user_id);
+
+ALTER TABLE device_keys ENABLE ROW LEVEL SECURITY;
+
+-- Which device signed each server row
+ALTER TABLE transactions
+ADD COLUMN IF NOT EXISTS device_id TEXT;
+
+-- RPC: Enroll this device's signing secret (idempotent)
+CREATE OR REPLACE FUNCTION enroll_device_key(p_device_id TEXT, p_secret TEXT, p_label TEXT DEFAULT '')
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+  secret_bytes BYTEA;
+  existing device_keys%ROWTYPE;
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  secret_bytes := decode(p_secret, 'base64');
+  IF length(secret_bytes) < 32 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Secret too short');
+  END IF;
+
+  SELECT * INTO existing FROM device_keys WHERE device_id = p_device_id;
+
+  IF FOUND THEN
+    -- Retried enrollment from the same device is fine; anything else is not
+    IF existing.user_id = user_uuid AND existing.secret = secret_bytes AND existing.revoked_at IS NULL THEN
+      RETURN jsonb_build_object('success', true, 'device_id', p_device_id);
+    END IF;
+    RETURN jsonb_build_object('success', false, 'error', 'Device already enrolled');
+  END IF;
+
+  INSERT INTO device_keys (device_id, user_id, secret, label)
+  VALUES (p_device_id, user_uuid, secret_bytes, COALESCE(p_label, ''));
+
+  RETURN jsonb_build_object('success', true, 'device_id', p_device_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recreate process_offline_batch with device signature verification
+CREATE OR REPLACE FUNCTION process_offline_batch(payload JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  tx JSONB;
+  processed_ids TEXT[] := ARRAY[]::TEXT[];
+  failed_ids JSONB[] := ARRAY[]::JSONB[];
+  current_balance NUMERIC;
+  user_uuid UUID;
+  new_balance NUMERIC;
+  tx_amount NUMERIC;
+  tx_type TEXT;
+  tx_offline_id TEXT;
+  tx_signature TEXT;
+  tx_description TEXT;
+  tx_timestamp BIGINT;
+  tx_recipient_id UUID;
+  tx_device_id TEXT;
+  device_secret BYTEA;
+  signed_message TEXT;
+  expected_signature TEXT;
+  existing_count INTEGER;
+  recipient_exists BOOLEAN;
+BEGIN
+  -- Get the authenticated user (sender)
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object(
+      'error', 'Not authenticated',
+      'processed_ids', processed_ids,
+      'failed_ids', failed_ids,
+      'new_balance', 0
+    );
+  END IF;
+
+  -- Get current balance
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = user_uuid;
+
+  IF current_balance IS NULL THEN
+    RETURN jsonb_build_object(
+      'error', 'Profile not found',
+      'processed_ids', processed_ids,
+      'failed_ids', failed_ids,
+      'new_balance', 0
+    );
+  END IF;
+
+  new_balance := current_balance;
+
+  -- Process each transaction in the batch
+  FOR tx IN SELECT * FROM jsonb_array_elements(payload->'transactions')
+  LOOP
+    tx_offline_id := tx->>'offline_id';
+    tx_amount := (tx->>'amount')::NUMERIC;
+    tx_type := tx->>'type';
+    tx_signature := tx->>'signature';
+    tx_description := COALESCE(tx->>'description', '');
+    tx_timestamp := (tx->>'timestamp')::BIGINT;
+    tx_device_id := tx->>'device_id';
+
+    -- Get recipient_id if present (for P2P transfers)
+    tx_recipient_id := NULL;
+    IF tx->>'recipient_id' IS NOT NULL AND tx->>'recipient_id' != '' THEN
+      tx_recipient_id := (tx->>'recipient_id')::UUID;
+    END IF;
+
+    -- IDEMPOTENCY CHECK: Skip if offline_id already exists
+    SELECT COUNT(*) INTO existing_count
+    FROM transactions
+    WHERE offline_id = tx_offline_id;
+
+    IF existing_count > 0 THEN
+      -- Already processed, skip but report as success
+      processed_ids := array_append(processed_ids, tx_offline_id);
+      CONTINUE;
+    END IF;
+
+    -- SIGNATURE VERIFICATION
+    IF tx_signature IS NULL OR tx_signature = '' THEN
+      failed_ids := array_append(failed_ids, jsonb_build_object(
+        'offline_id', tx_offline_id,
+        'reason', 'missing_signature'
+      ));
+      CONTINUE;
+    END IF;
+
+    -- The signing device must be enrolled to THIS user and not revoked
+    SELECT secret INTO device_secret
+    FROM device_keys
+    WHERE device_id = tx_device_id
+      AND user_id = user_uuid
+      AND revoked_at IS NULL;
+
+    IF device_secret IS NULL THEN
+      failed_ids := array_append(failed_ids, jsonb_build_object(
+        'offline_id', tx_offline_id,
+        'reason', 'unknown_device'
+      ));
+      CONTINUE;
+    END IF;
+
+    signed_message := user_uuid::TEXT
+      || ':' || tx_offline_id
+      || ':' || tx_device_id
+      || ':' || to_char(tx_amount, 'FM999999999990.00')
+      || ':' || tx_type
+      || ':' || COALESCE(tx->>'recipient_id', '')
+      || ':' || tx_timestamp::TEXT
+      || ':' || tx_description;
+
+    expected_signature := encode(
+      extensions.hmac(convert_to(signed_message, 'UTF8'), device_secret, 'sha256'),
+      'hex'
+    );
+
+    IF expected_signature <> tx_signature THEN
+      failed_ids := array_append(failed_ids, jsonb_build_object(
+        'offline_id', tx_offline_id,
+        'reason', 'invalid_signature'
+      ));
+      CONTINUE;
+    END IF;
+
+    -- BALANCE CHECK for debits
+    IF tx_type = 'debit' THEN
+      IF new_balance < tx_amount THEN
+        failed_ids := array_append(failed_ids, jsonb_build_object(
+          'offline_id', tx_offline_id,
+          'reason', 'insufficient_balance'
+        ));
+        CONTINUE;
+      END IF;
+
+      -- Deduct from sender
+      new_balance := new_balance - tx_amount;
+
+      -- P2P TRANSFER: Credit the recipient if specified
+      IF tx_recipient_id IS NOT NULL AND tx_recipient_id != user_uuid THEN
+        -- Check recipient exists
+        SELECT EXISTS(SELECT 1 FROM profiles WHERE id = tx_recipient_id) INTO recipient_exists;
+
+        IF recipient_exists THEN
+          -- Credit recipient's balance
+          UPDATE profiles
+          SET balance = balance + tx_amount, last_synced_at = NOW()
+          WHERE id = tx_recipient_id;
+
+          -- Create credit transaction for recipient
+          INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+          VALUES (tx_recipient_id, tx_amount, 'credit', 'Received: ' || tx_description, 'synced',
+                  tx_offline_id || '-rcv', tx_signature, user_uuid, tx_device_id);
+        END IF;
+      END IF;
+    ELSE
+      -- Credit (for self-deposits, not P2P)
+      new_balance := new_balance + tx_amount;
+    END IF;
+
+    -- INSERT SENDER'S TRANSACTION
+    INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+    VALUES (user_uuid, tx_amount, tx_type, tx_description, 'synced', tx_offline_id, tx_signature, tx_recipient_id, tx_device_id);
+
+    processed_ids := array_append(processed_ids, tx_offline_id);
+  END LOOP;
+
+  -- UPDATE SENDER'S BALANCE
+  UPDATE profiles
+  SET balance = new_balance, last_synced_at = NOW()
+  WHERE id = user_uuid;
+
+  RETURN jsonb_build_object(
+    'processed_ids', processed_ids,
+    'failed_ids', to_jsonb(failed_ids),
+    'new_balance', new_balance
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,350 @@
+-- PhantomPay - SINGLE-USE QR PAYMENT INTENTS
+-- Run this in Supabase SQL Editor AFTER 007_device_keys.sql
+--
+-- QR codes now carry a signed payment intent (nonce, amount, expiry and
+-- the payee device's ECDSA public key, see src/lib/qrIntent.ts). The payer
+-- verifies the ECDSA signature offline; the server cannot verify ECDSA in
+-- SQL, so it instead checks that the key is registered to the payee, that
+-- the payment matches the intent and is inside its validity window, and
+-- redeems the nonce exactly once.
+--
+-- Signed transaction message (must match buildSigningMessage in src/utils/crypto.ts):
+--   user_id:offline_id:device_id:amount(2dp):type:recipient_id:timestamp[:intent_nonce]:description
+-- The intent nonce is only present for QR payments.
+
+-- Each device's QR signing key (public half only)
+ALTER TABLE device_keys
+ADD COLUMN IF NOT EXISTS payee_public_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_device_keys_payee_public_key
+ON device_keys(payee_public_key)
+WHERE payee_public_key IS NOT NULL;
+
+-- REDEEMED INTENTS
+-- One row per QR intent ever paid; the primary key is the replay guard
+CREATE TABLE IF NOT EXISTS qr_intent_redemptions (
+  nonce TEXT PRIMARY KEY,
+  payee_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  payer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  offline_id TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  redeemed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE qr_intent_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- RPC: Link this device's QR payee key to it (idempotent)
+CREATE OR REPLACE FUNCTION register_payee_key(p_device_id TEXT, p_public_key TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+  existing device_keys%ROWTYPE;
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Raw uncompressed P-256 point: 65 bytes
+  IF p_public_key IS NULL OR length(decode(p_public_key, 'base64')) <> 65 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Invalid public key');
+  END IF;
+
+  SELECT * INTO existing
+  FROM device_keys
+  WHERE device_id = p_device_id
+    AND user_id = user_uuid
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Device not enrolled');
+  END IF;
+
+  IF existing.payee_public_key = p_public_key THEN
+    RETURN jsonb_build_object('success', true, 'device_id', p_device_id);
+  END IF;
+
+  IF existing.payee_public_key IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Payee key already registered');
+  END IF;
+
+  UPDATE device_keys
+  SET payee_public_key = p_public_key
+  WHERE device_id = p_device_id;
+
+  RETURN jsonb_build_object('success', true, 'device_id', p_device_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RPC: Is this QR key registered to a live device of the payee?
+CREATE OR REPLACE FUNCTION check_payee_key(p_user_id UUID, p_public_key TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM device_keys
+    WHERE user_id = p_user_id
+      AND payee_public_key = p_public_key
+      AND revoked_at IS NULL
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recreate process_offline_batch with QR intent redemption
+CREATE OR REPLACE FUNCTION process_offline_batch(payload JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  tx JSONB;
+  processed_ids TEXT[] := ARRAY[]::TEXT[];
+  failed_ids JSONB[] := ARRAY[]::JSONB[];
+  current_balance NUMERIC;
+  user_uuid UUID;
+  new_balance NUMERIC;
+  tx_amount NUMERIC;
+  tx_type TEXT;
+  tx_offline_id TEXT;
+  tx_signature TEXT;
+  tx_description TEXT;
+  tx_timestamp BIGINT;
+  tx_recipient_id UUID;
+  tx_device_id TEXT;
+  tx_intent JSONB;
+  intent_issued_at BIGINT;
+  intent_expires_at BIGINT;
+  intent_redeemed INTEGER;
+  device_secret BYTEA;
+  signed_message TEXT;
+  expected_signature TEXT;
+  existing_count INTEGER;
+  recipient_exists BOOLEAN;
+  -- Must match QR_INTENT_TTL_MS and CLOCK_SKEW_MS in src/lib/qrIntent.ts
+  intent_ttl_ms CONSTANT BIGINT := 600000;
+  clock_skew_ms CONSTANT BIGINT := 60000;
+BEGIN
+  -- Get the authenticated user (sender)
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object(
+      'error', 'Not authenticated',
+      'processed_ids', processed_ids,
+      'failed_ids', failed_ids,
+      'new_balance', 0
+    );
+  END IF;
+
+  -- Get current balance
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = user_uuid;
+
+  IF current_balance IS NULL THEN
+    RETURN jsonb_build_object(
+      'error', 'Profile not found',
+      'processed_ids', processed_ids,
+      'failed_ids', failed_ids,
+      'new_balance', 0
+    );
+  END IF;
+
+  new_balance := current_balance;
+
+  -- Process each transaction in the batch
+  FOR tx IN SELECT * FROM jsonb_array_elements(payload->'transactions')
+  LOOP
+    tx_offline_id := tx->>'offline_id';
+    tx_amount := (tx->>'amount')::NUMERIC;
+    tx_type := tx->>'type';
+    tx_signature := tx->>'signature';
+    tx_description := COALESCE(tx->>'description', '');
+    tx_timestamp := (tx->>'timestamp')::BIGINT;
+    tx_device_id := tx->>'device_id';
+    tx_intent := NULLIF(tx->'qr_intent', 'null'::JSONB);
+
+    -- Get recipient_id if present (for P2P transfers)
+    tx_recipient_id := NULL;
+    IF tx->>'recipient_id' IS NOT NULL AND tx->>'recipient_id' != '' THEN
+      tx_recipient_id := (tx->>'recipient_id')::UUID;
+    END IF;
+
+    -- IDEMPOTENCY CHECK: Skip if offline_id already exists
+    SELECT COUNT(*) INTO existing_count
+    FROM transactions
+    WHERE offline_id = tx_offline_id;
+
+    IF existing_count > 0 THEN
+      -- Already processed, skip but report as success
+      processed_ids := array_append(processed_ids, tx_offline_id);
+      CONTINUE;
+    END IF;
+
+    -- SIGNATURE VERIFICATION
+    IF tx_signature IS NULL OR tx_signature = '' THEN
+      failed_ids := array_append(failed_ids, jsonb_build_object(
+        'offline_id', tx_offline_id,
+        'reason', 'missing_signature'
+      ));
+      CONTINUE;
+    END IF;
+
+    -- The signing device must be enrolled to THIS user and not revoked
+    SELECT secret INTO device_secret
+    FROM device_keys
+    WHERE device_id = tx_device_id
+      AND user_id = user_uuid
+      AND revoked_at IS NULL;
+
+    IF device_secret IS NULL THEN
+      failed_ids := array_append(failed_ids, jsonb_build_object(
+        'offline_id', tx_offline_id,
+        'reason', 'unknown_device'
+      ));
+      CONTINUE;
+    END IF;
+
+    signed_message := user_uuid::TEXT
+      || ':' || tx_offline_id
+      || ':' || tx_device_id
+      || ':' || to_char(tx_amount, 'FM999999999990.00')
+      || ':' || tx_type
+      || ':' || COALESCE(tx->>'recipient_id', '')
+      || ':' || tx_timestamp::TEXT
+      || CASE WHEN tx_intent IS NOT NULL THEN ':' || COALESCE(tx_intent->>'nonce', '') ELSE '' END
+      || ':' || tx_description;
+
+    expected_signature := encode(
+      extensions.hmac(convert_to(signed_message, 'UTF8'), device_secret, 'sha256'),
+      'hex'
+    );
+
+    IF expected_signature <> tx_signature THEN
+      failed_ids := array_append(failed_ids, jsonb_build_object(
+        'offline_id', tx_offline_id,
+        'reason', 'invalid_signature'
+      ));
+      CONTINUE;
+    END IF;
+
+    -- QR INTENT CHECKS: the intent must belong to the payee and still be open
+    IF tx_intent IS NOT NULL THEN
+      intent_issued_at := (tx_intent->>'issued_at')::BIGINT;
+      intent_expires_at := (tx_intent->>'expires_at')::BIGINT;
+
+      IF tx_type <> 'debit'
+        OR tx_recipient_id IS NULL
+        OR tx_intent->>'recipient_id' IS DISTINCT FROM tx_recipient_id::TEXT
+        OR COALESCE(tx_intent->>'nonce', '') = ''
+        OR (tx_intent->>'amount' IS NOT NULL AND (tx_intent->>'amount')::NUMERIC <> tx_amount)
+        OR intent_expires_at - intent_issued_at > intent_ttl_ms
+        OR NOT EXISTS (
+          SELECT 1 FROM device_keys
+          WHERE user_id = tx_recipient_id
+            AND payee_public_key = tx_intent->>'payee_key'
+            AND revoked_at IS NULL
+        )
+      THEN
+        failed_ids := array_append(failed_ids, jsonb_build_object(
+          'offline_id', tx_offline_id,
+          'reason', 'intent_invalid'
+        ));
+        CONTINUE;
+      END IF;
+
+      -- Judged at the payer's signed timestamp, so offline payments made
+      -- in time still settle after a late sync
+      IF tx_timestamp > intent_expires_at OR tx_timestamp < intent_issued_at - clock_skew_ms THEN
+        failed_ids := array_append(failed_ids, jsonb_build_object(
+          'offline_id', tx_offline_id,
+          'reason', 'intent_expired'
+        ));
+        CONTINUE;
+      END IF;
+
+      IF EXISTS (SELECT 1 FROM qr_intent_redemptions WHERE nonce = tx_intent->>'nonce') THEN
+        failed_ids := array_append(failed_ids, jsonb_build_object(
+          'offline_id', tx_offline_id,
+          'reason', 'intent_used'
+        ));
+        CONTINUE;
+      END IF;
+    END IF;
+
+    -- BALANCE CHECK for debits
+    IF tx_type = 'debit' THEN
+      IF new_balance < tx_amount THEN
+        failed_ids := array_append(failed_ids, jsonb_build_object(
+          'offline_id', tx_offline_id,
+          'reason', 'insufficient_balance'
+        ));
+        CONTINUE;
+      END IF;
+
+      -- REDEEM the intent before any money moves; a concurrent batch that
+      -- got here first wins the nonce
+      IF tx_intent IS NOT NULL THEN
+        INSERT INTO qr_intent_redemptions (nonce, payee_id, payer_id, offline_id, amount, expires_at)
+        VALUES (
+          tx_intent->>'nonce', tx_recipient_id, user_uuid, tx_offline_id, tx_amount,
+          to_timestamp(intent_expires_at / 1000.0)
+        )
+        ON CONFLICT (nonce) DO NOTHING;
+
+        GET DIAGNOSTICS intent_redeemed = ROW_COUNT;
+        IF intent_redeemed = 0 THEN
+          failed_ids := array_append(failed_ids, jsonb_build_object(
+            'offline_id', tx_offline_id,
+            'reason', 'intent_used'
+          ));
+          CONTINUE;
+        END IF;
+      END IF;
+
+      -- Deduct from sender
+      new_balance := new_balance - tx_amount;
+
+      -- P2P TRANSFER: Credit the recipient if specified
+      IF tx_recipient_id IS NOT NULL AND tx_recipient_id != user_uuid THEN
+        -- Check recipient exists
+        SELECT EXISTS(SELECT 1 FROM profiles WHERE id = tx_recipient_id) INTO recipient_exists;
+
+        IF recipient_exists THEN
+          -- Credit recipient's balance
+          UPDATE profiles
+          SET balance = balance + tx_amount, last_synced_at = NOW()
+          WHERE id = tx_recipient_id;
+
+          -- Create credit transaction for recipient
+          INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+          VALUES (tx_recipient_id, tx_amount, 'credit', 'Received: ' || tx_description, 'synced',
+                  tx_offline_id || '-rcv', tx_signature, user_uuid, tx_device_id);
+        END IF;
+      END IF;
+    ELSE
+      -- Credit (for self-deposits, not P2P)
+      new_balance := new_balance + tx_amount;
+    END IF;
+
+    -- INSERT SENDER'S TRANSACTION
+    INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+    VALUES (user_uuid, tx_amount, tx_type, tx_description, 'synced', tx_offline_id, tx_signature, tx_recipient_id, tx_device_id);
+
+    processed_ids := array_append(processed_ids, tx_offline_id);
+  END LOOP;
+
+  -- UPDATE SENDER'S BALANCE
+  UPDATE profiles
+  SET balance = new_balance, last_synced_at = NOW()
+  WHERE id = user_uuid;
+
+  RETURN jsonb_build_object(
+    'processed_ids', processed_ids,
+    'failed_ids', to_jsonb(failed_ids),
+    'new_balance', new_balance
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
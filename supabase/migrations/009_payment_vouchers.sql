@@ -0,0 +1,291 @@
+-- PhantomPay - OFFLINE PAYMENT VOUCHERS
+-- Run this in Supabase SQL Editor AFTER 008_qr_intents.sql
+--
+-- After a QR payment the payer's device shows a voucher QR: its signed
+-- transaction row plus an ECDSA signature the payee can check offline
+-- (see src/lib/paymentVoucher.ts). The payee records a pending credit and,
+-- when it syncs first, submits the voucher so the payment settles without
+-- waiting for the payer. Both paths go through apply_offline_transaction,
+-- so the payer's HMAC is verified and the offline_id is settled only once.
+
+-- Settle one signed offline transaction for p_user_id
+-- Returns NULL when the row is settled (now or earlier), otherwise a
+-- failure reason code. Internal: clients call the RPCs below.
+CREATE OR REPLACE FUNCTION apply_offline_transaction(p_user_id UUID, tx JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  current_balance NUMERIC;
+  tx_amount NUMERIC;
+  tx_type TEXT;
+  tx_offline_id TEXT;
+  tx_signature TEXT;
+  tx_description TEXT;
+  tx_timestamp BIGINT;
+  tx_recipient_id UUID;
+  tx_device_id TEXT;
+  tx_intent JSONB;
+  intent_issued_at BIGINT;
+  intent_expires_at BIGINT;
+  intent_redeemed INTEGER;
+  device_secret BYTEA;
+  signed_message TEXT;
+  expected_signature TEXT;
+  recipient_exists BOOLEAN;
+  -- Must match QR_INTENT_TTL_MS and CLOCK_SKEW_MS in src/lib/qrIntent.ts
+  intent_ttl_ms CONSTANT BIGINT := 600000;
+  clock_skew_ms CONSTANT BIGINT := 60000;
+BEGIN
+  tx_offline_id := tx->>'offline_id';
+  tx_amount := (tx->>'amount')::NUMERIC;
+  tx_type := tx->>'type';
+  tx_signature := tx->>'signature';
+  tx_description := COALESCE(tx->>'description', '');
+  tx_timestamp := (tx->>'timestamp')::BIGINT;
+  tx_device_id := tx->>'device_id';
+  tx_intent := NULLIF(tx->'qr_intent', 'null'::JSONB);
+
+  -- Get recipient_id if present (for P2P transfers)
+  tx_recipient_id := NULL;
+  IF tx->>'recipient_id' IS NOT NULL AND tx->>'recipient_id' != '' THEN
+    tx_recipient_id := (tx->>'recipient_id')::UUID;
+  END IF;
+
+  -- Serialise everything that settles rows for this user: the payer's own
+  -- batch and a payee's voucher can carry the same offline_id
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF current_balance IS NULL THEN
+    RETURN 'profile_not_found';
+  END IF;
+
+  -- IDEMPOTENCY CHECK: already settled, report as success
+  IF EXISTS (SELECT 1 FROM transactions WHERE offline_id = tx_offline_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- SIGNATURE VERIFICATION
+  IF tx_signature IS NULL OR tx_signature = '' THEN
+    RETURN 'missing_signature';
+  END IF;
+
+  -- The signing device must be enrolled to THIS user and not revoked
+  SELECT secret INTO device_secret
+  FROM device_keys
+  WHERE device_id = tx_device_id
+    AND user_id = p_user_id
+    AND revoked_at IS NULL;
+
+  IF device_secret IS NULL THEN
+    RETURN 'unknown_device';
+  END IF;
+
+  signed_message := p_user_id::TEXT
+    || ':' || tx_offline_id
+    || ':' || tx_device_id
+    || ':' || to_char(tx_amount, 'FM999999999990.00')
+    || ':' || tx_type
+    || ':' || COALESCE(tx->>'recipient_id', '')
+    || ':' || tx_timestamp::TEXT
+    || CASE WHEN tx_intent IS NOT NULL THEN ':' || COALESCE(tx_intent->>'nonce', '') ELSE '' END
+    || ':' || tx_description;
+
+  expected_signature := encode(
+    extensions.hmac(convert_to(signed_message, 'UTF8'), device_secret, 'sha256'),
+    'hex'
+  );
+
+  IF expected_signature <> tx_signature THEN
+    RETURN 'invalid_signature';
+  END IF;
+
+  -- QR INTENT CHECKS: the intent must belong to the payee and still be open
+  IF tx_intent IS NOT NULL THEN
+    intent_issued_at := (tx_intent->>'issued_at')::BIGINT;
+    intent_expires_at := (tx_intent->>'expires_at')::BIGINT;
+
+    IF tx_type <> 'debit'
+      OR tx_recipient_id IS NULL
+      OR tx_intent->>'recipient_id' IS DISTINCT FROM tx_recipient_id::TEXT
+      OR COALESCE(tx_intent->>'nonce', '') = ''
+      OR (tx_intent->>'amount' IS NOT NULL AND (tx_intent->>'amount')::NUMERIC <> tx_amount)
+      OR intent_expires_at - intent_issued_at > intent_ttl_ms
+      OR NOT EXISTS (
+        SELECT 1 FROM device_keys
+        WHERE user_id = tx_recipient_id
+          AND payee_public_key = tx_intent->>'payee_key'
+          AND revoked_at IS NULL
+      )
+    THEN
+      RETURN 'intent_invalid';
+    END IF;
+
+    -- Judged at the payer's signed timestamp, so offline payments made
+    -- in time still settle after a late sync
+    IF tx_timestamp > intent_expires_at OR tx_timestamp < intent_issued_at - clock_skew_ms THEN
+      RETURN 'intent_expired';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM qr_intent_redemptions WHERE nonce = tx_intent->>'nonce') THEN
+      RETURN 'intent_used';
+    END IF;
+  END IF;
+
+  IF tx_type = 'debit' THEN
+    -- BALANCE CHECK
+    IF current_balance < tx_amount THEN
+      RETURN 'insufficient_balance';
+    END IF;
+
+    -- REDEEM the intent before any money moves
+    IF tx_intent IS NOT NULL THEN
+      INSERT INTO qr_intent_redemptions (nonce, payee_id, payer_id, offline_id, amount, expires_at)
+      VALUES (
+        tx_intent->>'nonce', tx_recipient_id, p_user_id, tx_offline_id, tx_amount,
+        to_timestamp(intent_expires_at / 1000.0)
+      )
+      ON CONFLICT (nonce) DO NOTHING;
+
+      GET DIAGNOSTICS intent_redeemed = ROW_COUNT;
+      IF intent_redeemed = 0 THEN
+        RETURN 'intent_used';
+      END IF;
+    END IF;
+
+    -- Deduct from sender
+    UPDATE profiles
+    SET balance = balance - tx_amount, last_synced_at = NOW()
+    WHERE id = p_user_id;
+
+    -- P2P TRANSFER: Credit the recipient if specified
+    IF tx_recipient_id IS NOT NULL AND tx_recipient_id != p_user_id THEN
+      SELECT EXISTS(SELECT 1 FROM profiles WHERE id = tx_recipient_id) INTO recipient_exists;
+
+      IF recipient_exists THEN
+        UPDATE profiles
+        SET balance = balance + tx_amount, last_synced_at = NOW()
+        WHERE id = tx_recipient_id;
+
+        -- Create credit transaction for recipient
+        INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+        VALUES (tx_recipient_id, tx_amount, 'credit', 'Received: ' || tx_description, 'synced',
+                tx_offline_id || '-rcv', tx_signature, p_user_id, tx_device_id);
+      END IF;
+    END IF;
+  ELSE
+    -- Credit (for self-deposits, not P2P)
+    UPDATE profiles
+    SET balance = balance + tx_amount, last_synced_at = NOW()
+    WHERE id = p_user_id;
+  END IF;
+
+  -- INSERT SENDER'S TRANSACTION
+  INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+  VALUES (p_user_id, tx_amount, tx_type, tx_description, 'synced', tx_offline_id, tx_signature, tx_recipient_id, tx_device_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Acts on any user's balance: never callable from the client
+REVOKE ALL ON FUNCTION apply_offline_transaction(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Recreate process_offline_batch on top of apply_offline_transaction
+CREATE OR REPLACE FUNCTION process_offline_batch(payload JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  tx JSONB;
+  processed_ids TEXT[] := ARRAY[]::TEXT[];
+  failed_ids JSONB[] := ARRAY[]::JSONB[];
+  user_uuid UUID;
+  failure_reason TEXT;
+  new_balance NUMERIC;
+BEGIN
+  -- Get the authenticated user (sender)
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object(
+      'error', 'Not authenticated',
+      'processed_ids', processed_ids,
+      'failed_ids', failed_ids,
+      'new_balance', 0
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = user_uuid) THEN
+    RETURN jsonb_build_object(
+      'error', 'Profile not found',
+      'processed_ids', processed_ids,
+      'failed_ids', failed_ids,
+      'new_balance', 0
+    );
+  END IF;
+
+  -- Process each transaction in the batch
+  FOR tx IN SELECT * FROM jsonb_array_elements(payload->'transactions')
+  LOOP
+    failure_reason := apply_offline_transaction(user_uuid, tx);
+
+    IF failure_reason IS NULL THEN
+      processed_ids := array_append(processed_ids, tx->>'offline_id');
+    ELSE
+      failed_ids := array_append(failed_ids, jsonb_build_object(
+        'offline_id', tx->>'offline_id',
+        'reason', failure_reason
+      ));
+    END IF;
+  END LOOP;
+
+  SELECT balance INTO new_balance
+  FROM profiles
+  WHERE id = user_uuid;
+
+  RETURN jsonb_build_object(
+    'processed_ids', processed_ids,
+    'failed_ids', to_jsonb(failed_ids),
+    'new_balance', new_balance
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RPC: Settle a payment voucher received from the payer's device
+-- Only the voucher's recipient may submit it; the payer's signature is
+-- verified exactly as if the payer had synced the row themselves.
+CREATE OR REPLACE FUNCTION submit_payment_voucher(voucher JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+  payer_uuid UUID;
+  failure_reason TEXT;
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_authenticated');
+  END IF;
+
+  IF voucher->>'recipient_id' IS DISTINCT FROM user_uuid::TEXT OR voucher->>'type' IS DISTINCT FROM 'debit' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_voucher');
+  END IF;
+
+  payer_uuid := (voucher->>'user_id')::UUID;
+  IF payer_uuid = user_uuid THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_voucher');
+  END IF;
+
+  failure_reason := apply_offline_transaction(payer_uuid, voucher);
+
+  IF failure_reason IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', failure_reason);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'offline_id', (voucher->>'offline_id') || '-rcv',
+    'new_balance', (SELECT balance FROM profiles WHERE id = user_uuid)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,358 @@
+-- PhantomPay - OFFLINE SPENDING ALLOWANCES
+-- Run this in Supabase SQL Editor AFTER 009_payment_vouchers.sql
+--
+-- The shadow balance is based on a cached server balance that can be days
+-- old, so two devices could spend the same money offline. At every sync
+-- each device is now issued an allowance: a slice of the balance reserved
+-- for it, with an expiry, signed with the device's own HMAC secret so the
+-- device can tell it came from the server (see src/lib/offlineAllowance.ts).
+-- Allowances of one user never add up to more than the balance, and every
+-- debit must fit the allowance it names.
+--
+-- Signed transaction message (must match buildSigningMessage in src/utils/crypto.ts):
+--   user_id:offline_id:device_id:amount(2dp):type:recipient_id:timestamp[:allowance_id][:intent_nonce]:description
+--
+-- Signed allowance message (must match buildAllowanceMessage in src/utils/crypto.ts):
+--   allowance:id:user_id:device_id:limit(2dp):issued_at_ms:expires_at_ms
+
+-- OFFLINE ALLOWANCES TABLE
+-- One active (not superseded) allowance per device; read through RPCs only
+CREATE TABLE IF NOT EXISTS offline_allowances (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL REFERENCES device_keys(device_id) ON DELETE CASCADE,
+  amount_limit NUMERIC(12, 2) NOT NULL CHECK (amount_limit >= 0),
+  spent NUMERIC(12, 2) DEFAULT 0 NOT NULL,
+  issued_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  superseded_at TIMESTAMPTZ,
+  signature TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_offline_allowances_active
+ON offline_allowances(user_id, device_id)
+WHERE superseded_at IS NULL;
+
+ALTER TABLE offline_allowances ENABLE ROW LEVEL SECURITY;
+
+-- Unix milliseconds, as used by client timestamps
+CREATE OR REPLACE FUNCTION epoch_ms(ts TIMESTAMPTZ)
+RETURNS BIGINT AS $$
+  SELECT floor(extract(epoch FROM ts) * 1000)::BIGINT;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- RPC: Issue a fresh allowance to this device, replacing its previous one
+-- Called after the device has pushed its pending rows.
+CREATE OR REPLACE FUNCTION issue_offline_allowance(p_device_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+  device_secret BYTEA;
+  current_balance NUMERIC;
+  reserved_elsewhere NUMERIC;
+  new_id UUID := uuid_generate_v4();
+  new_limit NUMERIC;
+  issued_ms BIGINT;
+  expires_ms BIGINT;
+  new_signature TEXT;
+  -- Per-device ceiling and lifetime of an allowance
+  max_allowance CONSTANT NUMERIC := 5000;
+  allowance_ttl CONSTANT INTERVAL := INTERVAL '3 days';
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  SELECT secret INTO device_secret
+  FROM device_keys
+  WHERE device_id = p_device_id
+    AND user_id = user_uuid
+    AND revoked_at IS NULL;
+
+  IF device_secret IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Device not enrolled');
+  END IF;
+
+  -- Serialise with apply_offline_transaction
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = user_uuid
+  FOR UPDATE;
+
+  UPDATE offline_allowances
+  SET superseded_at = NOW()
+  WHERE user_id = user_uuid
+    AND device_id = p_device_id
+    AND superseded_at IS NULL;
+
+  -- Whatever the other devices may still spend offline
+  SELECT COALESCE(SUM(amount_limit - spent), 0) INTO reserved_elsewhere
+  FROM offline_allowances
+  WHERE user_id = user_uuid
+    AND superseded_at IS NULL
+    AND expires_at > NOW();
+
+  new_limit := LEAST(max_allowance, GREATEST(COALESCE(current_balance, 0) - reserved_elsewhere, 0));
+  issued_ms := epoch_ms(NOW());
+  expires_ms := epoch_ms(NOW() + allowance_ttl);
+
+  new_signature := encode(
+    extensions.hmac(
+      convert_to(
+        'allowance'
+          || ':' || new_id::TEXT
+          || ':' || user_uuid::TEXT
+          || ':' || p_device_id
+          || ':' || to_char(new_limit, 'FM999999999990.00')
+          || ':' || issued_ms::TEXT
+          || ':' || expires_ms::TEXT,
+        'UTF8'
+      ),
+      device_secret,
+      'sha256'
+    ),
+    'hex'
+  );
+
+  INSERT INTO offline_allowances (id, user_id, device_id, amount_limit, issued_at, expires_at, signature)
+  VALUES (new_id, user_uuid, p_device_id, new_limit,
+          to_timestamp(issued_ms / 1000.0), to_timestamp(expires_ms / 1000.0), new_signature);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'allowance', jsonb_build_object(
+      'id', new_id,
+      'device_id', p_device_id,
+      'limit', new_limit,
+      'issued_at', issued_ms,
+      'expires_at', expires_ms,
+      'signature', new_signature
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recreate apply_offline_transaction: debits must fit their allowance
+CREATE OR REPLACE FUNCTION apply_offline_transaction(p_user_id UUID, tx JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  current_balance NUMERIC;
+  tx_amount NUMERIC;
+  tx_type TEXT;
+  tx_offline_id TEXT;
+  tx_signature TEXT;
+  tx_description TEXT;
+  tx_timestamp BIGINT;
+  tx_recipient_id UUID;
+  tx_device_id TEXT;
+  tx_intent JSONB;
+  tx_allowance_id TEXT;
+  allowance offline_allowances%ROWTYPE;
+  reserved_elsewhere NUMERIC;
+  intent_issued_at BIGINT;
+  intent_expires_at BIGINT;
+  intent_redeemed INTEGER;
+  device_secret BYTEA;
+  signed_message TEXT;
+  expected_signature TEXT;
+  recipient_exists BOOLEAN;
+  -- Must match QR_INTENT_TTL_MS and CLOCK_SKEW_MS in src/lib/qrIntent.ts
+  intent_ttl_ms CONSTANT BIGINT := 600000;
+  clock_skew_ms CONSTANT BIGINT := 60000;
+BEGIN
+  tx_offline_id := tx->>'offline_id';
+  tx_amount := (tx->>'amount')::NUMERIC;
+  tx_type := tx->>'type';
+  tx_signature := tx->>'signature';
+  tx_description := COALESCE(tx->>'description', '');
+  tx_timestamp := (tx->>'timestamp')::BIGINT;
+  tx_device_id := tx->>'device_id';
+  tx_intent := NULLIF(tx->'qr_intent', 'null'::JSONB);
+  tx_allowance_id := NULLIF(tx->>'allowance_id', '');
+
+  -- Get recipient_id if present (for P2P transfers)
+  tx_recipient_id := NULL;
+  IF tx->>'recipient_id' IS NOT NULL AND tx->>'recipient_id' != '' THEN
+    tx_recipient_id := (tx->>'recipient_id')::UUID;
+  END IF;
+
+  -- Serialise everything that settles rows for this user: the payer's own
+  -- batch and a payee's voucher can carry the same offline_id
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF current_balance IS NULL THEN
+    RETURN 'profile_not_found';
+  END IF;
+
+  -- IDEMPOTENCY CHECK: already settled, report as success
+  IF EXISTS (SELECT 1 FROM transactions WHERE offline_id = tx_offline_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- SIGNATURE VERIFICATION
+  IF tx_signature IS NULL OR tx_signature = '' THEN
+    RETURN 'missing_signature';
+  END IF;
+
+  -- The signing device must be enrolled to THIS user and not revoked
+  SELECT secret INTO device_secret
+  FROM device_keys
+  WHERE device_id = tx_device_id
+    AND user_id = p_user_id
+    AND revoked_at IS NULL;
+
+  IF device_secret IS NULL THEN
+    RETURN 'unknown_device';
+  END IF;
+
+  signed_message := p_user_id::TEXT
+    || ':' || tx_offline_id
+    || ':' || tx_device_id
+    || ':' || to_char(tx_amount, 'FM999999999990.00')
+    || ':' || tx_type
+    || ':' || COALESCE(tx->>'recipient_id', '')
+    || ':' || tx_timestamp::TEXT
+    || CASE WHEN tx_allowance_id IS NOT NULL THEN ':' || tx_allowance_id ELSE '' END
+    || CASE WHEN tx_intent IS NOT NULL THEN ':' || COALESCE(tx_intent->>'nonce', '') ELSE '' END
+    || ':' || tx_description;
+
+  expected_signature := encode(
+    extensions.hmac(convert_to(signed_message, 'UTF8'), device_secret, 'sha256'),
+    'hex'
+  );
+
+  IF expected_signature <> tx_signature THEN
+    RETURN 'invalid_signature';
+  END IF;
+
+  -- QR INTENT CHECKS: the intent must belong to the payee and still be open
+  IF tx_intent IS NOT NULL THEN
+    intent_issued_at := (tx_intent->>'issued_at')::BIGINT;
+    intent_expires_at := (tx_intent->>'expires_at')::BIGINT;
+
+    IF tx_type <> 'debit'
+      OR tx_recipient_id IS NULL
+      OR tx_intent->>'recipient_id' IS DISTINCT FROM tx_recipient_id::TEXT
+      OR COALESCE(tx_intent->>'nonce', '') = ''
+      OR (tx_intent->>'amount' IS NOT NULL AND (tx_intent->>'amount')::NUMERIC <> tx_amount)
+      OR intent_expires_at - intent_issued_at > intent_ttl_ms
+      OR NOT EXISTS (
+        SELECT 1 FROM device_keys
+        WHERE user_id = tx_recipient_id
+          AND payee_public_key = tx_intent->>'payee_key'
+          AND revoked_at IS NULL
+      )
+    THEN
+      RETURN 'intent_invalid';
+    END IF;
+
+    -- Judged at the payer's signed timestamp, so offline payments made
+    -- in time still settle after a late sync
+    IF tx_timestamp > intent_expires_at OR tx_timestamp < intent_issued_at - clock_skew_ms THEN
+      RETURN 'intent_expired';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM qr_intent_redemptions WHERE nonce = tx_intent->>'nonce') THEN
+      RETURN 'intent_used';
+    END IF;
+  END IF;
+
+  IF tx_type = 'debit' THEN
+    -- OFFLINE ALLOWANCE: a debit must fit the allowance issued to its device
+    -- (no allowance means a limit of zero)
+    SELECT * INTO allowance
+    FROM offline_allowances
+    WHERE id::TEXT = tx_allowance_id
+      AND user_id = p_user_id
+      AND device_id = tx_device_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN 'allowance_exceeded';
+    END IF;
+
+    -- Spending is judged at the signed timestamp: an allowance covers what
+    -- was spent before it expired or was replaced, however late it syncs
+    IF tx_timestamp > epoch_ms(LEAST(allowance.expires_at, COALESCE(allowance.superseded_at, allowance.expires_at)))
+      OR tx_timestamp < epoch_ms(allowance.issued_at) - clock_skew_ms
+    THEN
+      RETURN 'allowance_expired';
+    END IF;
+
+    IF allowance.spent + tx_amount > allowance.amount_limit THEN
+      RETURN 'allowance_exceeded';
+    END IF;
+
+    -- BALANCE CHECK: money reserved for the user's other devices is off limits
+    SELECT COALESCE(SUM(amount_limit - spent), 0) INTO reserved_elsewhere
+    FROM offline_allowances
+    WHERE user_id = p_user_id
+      AND id <> allowance.id
+      AND superseded_at IS NULL
+      AND expires_at > NOW();
+
+    IF current_balance - reserved_elsewhere < tx_amount THEN
+      RETURN 'insufficient_balance';
+    END IF;
+
+    -- REDEEM the intent before any money moves
+    IF tx_intent IS NOT NULL THEN
+      INSERT INTO qr_intent_redemptions (nonce, payee_id, payer_id, offline_id, amount, expires_at)
+      VALUES (
+        tx_intent->>'nonce', tx_recipient_id, p_user_id, tx_offline_id, tx_amount,
+        to_timestamp(intent_expires_at / 1000.0)
+      )
+      ON CONFLICT (nonce) DO NOTHING;
+
+      GET DIAGNOSTICS intent_redeemed = ROW_COUNT;
+      IF intent_redeemed = 0 THEN
+        RETURN 'intent_used';
+      END IF;
+    END IF;
+
+    UPDATE offline_allowances
+    SET spent = spent + tx_amount
+    WHERE id = allowance.id;
+
+    -- Deduct from sender
+    UPDATE profiles
+    SET balance = balance - tx_amount, last_synced_at = NOW()
+    WHERE id = p_user_id;
+
+    -- P2P TRANSFER: Credit the recipient if specified
+    IF tx_recipient_id IS NOT NULL AND tx_recipient_id != p_user_id THEN
+      SELECT EXISTS(SELECT 1 FROM profiles WHERE id = tx_recipient_id) INTO recipient_exists;
+
+      IF recipient_exists THEN
+        UPDATE profiles
+        SET balance = balance + tx_amount, last_synced_at = NOW()
+        WHERE id = tx_recipient_id;
+
+        -- Create credit transaction for recipient
+        INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+        VALUES (tx_recipient_id, tx_amount, 'credit', 'Received: ' || tx_description, 'synced',
+                tx_offline_id || '-rcv', tx_signature, p_user_id, tx_device_id);
+      END IF;
+    END IF;
+  ELSE
+    -- Credit (for self-deposits, not P2P)
+    UPDATE profiles
+    SET balance = balance + tx_amount, last_synced_at = NOW()
+    WHERE id = p_user_id;
+  END IF;
+
+  -- INSERT SENDER'S TRANSACTION
+  INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+  VALUES (p_user_id, tx_amount, tx_type, tx_description, 'synced', tx_offline_id, tx_signature, tx_recipient_id, tx_device_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Still internal after being recreated
+REVOKE ALL ON FUNCTION apply_offline_transaction(UUID, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,221 @@
+-- PhantomPay - DEVICES
+-- Run this in Supabase SQL Editor AFTER 010_offline_allowances.sql
+--
+-- Every device signed in to an account registers itself when it enrolls
+-- its signing key. Syncs stamp the device's last sync and tell it how much
+-- the account's other devices may still be spending offline (the unspent
+-- part of their allowances). The profile page lists devices and can revoke
+-- one: its key stops verifying and its allowance is released.
+
+-- DEVICES TABLE
+-- Public half of device_keys: what the user may see about each device
+CREATE TABLE IF NOT EXISTS devices (
+  device_id TEXT PRIMARY KEY REFERENCES device_keys(device_id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT DEFAULT '' NOT NULL,
+  registered_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  last_synced_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_devices_user_id ON devices(user_id);
+
+ALTER TABLE devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own devices"
+  ON devices FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Devices enrolled before this migration
+INSERT INTO devices (device_id, user_id, name, registered_at)
+SELECT device_id, user_id, COALESCE(label, ''), created_at
+FROM device_keys
+ON CONFLICT (device_id) DO NOTHING;
+
+-- Recreate enroll_device_key: enrolling also registers the device
+CREATE OR REPLACE FUNCTION enroll_device_key(p_device_id TEXT, p_secret TEXT, p_label TEXT DEFAULT '')
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+  secret_bytes BYTEA;
+  existing device_keys%ROWTYPE;
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  secret_bytes := decode(p_secret, 'base64');
+  IF length(secret_bytes) < 32 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Secret too short');
+  END IF;
+
+  SELECT * INTO existing FROM device_keys WHERE device_id = p_device_id;
+
+  IF FOUND THEN
+    -- Retried enrollment from the same device is fine; anything else is not
+    IF existing.user_id = user_uuid AND existing.secret = secret_bytes AND existing.revoked_at IS NULL THEN
+      RETURN jsonb_build_object('success', true, 'device_id', p_device_id);
+    END IF;
+    RETURN jsonb_build_object('success', false, 'error', 'Device already enrolled');
+  END IF;
+
+  INSERT INTO device_keys (device_id, user_id, secret, label)
+  VALUES (p_device_id, user_uuid, secret_bytes, COALESCE(p_label, ''));
+
+  INSERT INTO devices (device_id, user_id, name)
+  VALUES (p_device_id, user_uuid, COALESCE(p_label, ''));
+
+  RETURN jsonb_build_object('success', true, 'device_id', p_device_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- What each other active device of a user may still spend offline
+-- Internal: returned by process_offline_batch.
+CREATE OR REPLACE FUNCTION device_allowance_usage(p_user_id UUID, p_device_id TEXT)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'device_id', d.device_id,
+    'name', d.name,
+    'last_synced_at', epoch_ms(d.last_synced_at),
+    'allowance_limit', a.amount_limit,
+    'unsynced_max', a.amount_limit - a.spent,
+    'expires_at', epoch_ms(a.expires_at)
+  ) ORDER BY d.registered_at), '[]'::JSONB)
+  FROM devices d
+  JOIN device_keys k ON k.device_id = d.device_id AND k.revoked_at IS NULL
+  JOIN offline_allowances a ON a.device_id = d.device_id
+    AND a.superseded_at IS NULL
+    AND a.expires_at > NOW()
+  WHERE d.user_id = p_user_id
+    AND d.device_id IS DISTINCT FROM p_device_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION device_allowance_usage(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Recreate process_offline_batch: stamp the syncing device and report the others
+-- payload: { transactions: [...], device_id?: TEXT }
+CREATE OR REPLACE FUNCTION process_offline_batch(payload JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  tx JSONB;
+  processed_ids TEXT[] := ARRAY[]::TEXT[];
+  failed_ids JSONB[] := ARRAY[]::JSONB[];
+  user_uuid UUID;
+  batch_device_id TEXT;
+  failure_reason TEXT;
+  new_balance NUMERIC;
+BEGIN
+  -- Get the authenticated user (sender)
+  user_uuid := auth.uid();
+  batch_device_id := NULLIF(payload->>'device_id', '');
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object(
+      'error', 'Not authenticated',
+      'processed_ids', processed_ids,
+      'failed_ids', failed_ids,
+      'new_balance', 0
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = user_uuid) THEN
+    RETURN jsonb_build_object(
+      'error', 'Profile not found',
+      'processed_ids', processed_ids,
+      'failed_ids', failed_ids,
+      'new_balance', 0
+    );
+  END IF;
+
+  -- Process each transaction in the batch
+  FOR tx IN SELECT * FROM jsonb_array_elements(COALESCE(payload->'transactions', '[]'::JSONB))
+  LOOP
+    failure_reason := apply_offline_transaction(user_uuid, tx);
+
+    IF failure_reason IS NULL THEN
+      processed_ids := array_append(processed_ids, tx->>'offline_id');
+    ELSE
+      failed_ids := array_append(failed_ids, jsonb_build_object(
+        'offline_id', tx->>'offline_id',
+        'reason', failure_reason
+      ));
+    END IF;
+  END LOOP;
+
+  UPDATE devices
+  SET last_synced_at = NOW()
+  WHERE device_id = batch_device_id
+    AND user_id = user_uuid;
+
+  SELECT balance INTO new_balance
+  FROM profiles
+  WHERE id = user_uuid;
+
+  RETURN jsonb_build_object(
+    'processed_ids', processed_ids,
+    'failed_ids', to_jsonb(failed_ids),
+    'new_balance', new_balance,
+    'other_devices', device_allowance_usage(user_uuid, batch_device_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RPC: List the current user's devices, newest first
+CREATE OR REPLACE FUNCTION list_devices()
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'device_id', d.device_id,
+    'name', d.name,
+    'registered_at', epoch_ms(d.registered_at),
+    'last_synced_at', epoch_ms(d.last_synced_at),
+    'revoked_at', epoch_ms(k.revoked_at),
+    'allowance', CASE WHEN a.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'limit', a.amount_limit,
+      'spent', a.spent,
+      'expires_at', epoch_ms(a.expires_at)
+    ) END
+  ) ORDER BY d.registered_at DESC), '[]'::JSONB)
+  FROM devices d
+  JOIN device_keys k ON k.device_id = d.device_id
+  LEFT JOIN offline_allowances a ON a.device_id = d.device_id
+    AND a.superseded_at IS NULL
+    AND a.expires_at > NOW()
+  WHERE d.user_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- RPC: Revoke one of the current user's devices
+-- Rows it signed and has not synced yet will be rejected (unknown_device),
+-- and its unspent allowance becomes available to the other devices.
+CREATE OR REPLACE FUNCTION revoke_device(p_device_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  -- Serialise with apply_offline_transaction and issue_offline_allowance
+  PERFORM 1 FROM profiles WHERE id = user_uuid FOR UPDATE;
+
+  UPDATE device_keys
+  SET revoked_at = NOW()
+  WHERE device_id = p_device_id
+    AND user_id = user_uuid
+    AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Device not found or already revoked');
+  END IF;
+
+  UPDATE offline_allowances
+  SET superseded_at = NOW()
+  WHERE device_id = p_device_id
+    AND superseded_at IS NULL;
+
+  RETURN jsonb_build_object('success', true, 'device_id', p_device_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,408 @@
+-- PhantomPay - ATOMIC TRANSFERS AND LEDGER ENTRIES
+-- Run this in Supabase SQL Editor AFTER 011_devices.sql
+--
+-- Money now only moves through transfer_funds: it locks the profiles it
+-- touches in a deterministic (id) order, refuses to move money to or from
+-- a profile that does not exist, and writes one ledger entry per side.
+-- The entries of every transfer add up to zero, so any balance can be
+-- recomputed as the sum of its account's entries.
+--
+-- A NULL account_id is the outside world: payments without a recipient go
+-- to it. Devices can no longer deposit into their own account: a row that
+-- is not a debit is rejected as 'invalid_transfer'.
+
+-- LEDGER ENTRIES TABLE
+-- Append-only; written by transfer_funds only
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  transfer_id TEXT NOT NULL, -- offline_id of the transaction that moved the money
+  account_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount <> 0), -- Positive credits the account, negative debits it
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transfer_id ON ledger_entries(transfer_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account_id ON ledger_entries(account_id);
+
+ALTER TABLE ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own ledger entries"
+  ON ledger_entries FOR SELECT
+  USING (auth.uid() = account_id);
+
+-- Move p_amount from p_from to p_to (either may be NULL: outside PhantomPay)
+-- Failures are raised with the failure reason code as the message, so the
+-- caller's block is rolled back as a whole. Internal: called by the RPCs.
+CREATE OR REPLACE FUNCTION transfer_funds(p_from UUID, p_to UUID, p_amount NUMERIC, p_transfer_id TEXT)
+RETURNS VOID AS $$
+DECLARE
+  from_balance NUMERIC;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 OR p_from IS NOT DISTINCT FROM p_to THEN
+    RAISE EXCEPTION 'invalid_transfer';
+  END IF;
+
+  -- Deterministic lock order: concurrent transfers A->B and B->A both
+  -- lock the lower id first instead of deadlocking
+  PERFORM 1
+  FROM profiles
+  WHERE id IN (p_from, p_to)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF p_from IS NOT NULL THEN
+    SELECT balance INTO from_balance FROM profiles WHERE id = p_from;
+
+    IF from_balance IS NULL THEN
+      RAISE EXCEPTION 'profile_not_found';
+    END IF;
+
+    IF from_balance < p_amount THEN
+      RAISE EXCEPTION 'insufficient_balance';
+    END IF;
+  END IF;
+
+  IF p_to IS NOT NULL AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_to) THEN
+    RAISE EXCEPTION 'recipient_not_found';
+  END IF;
+
+  UPDATE profiles
+  SET balance = balance - p_amount, last_synced_at = NOW()
+  WHERE id = p_from;
+
+  UPDATE profiles
+  SET balance = balance + p_amount, last_synced_at = NOW()
+  WHERE id = p_to;
+
+  INSERT INTO ledger_entries (transfer_id, account_id, amount)
+  VALUES (p_transfer_id, p_from, -p_amount),
+         (p_transfer_id, p_to, p_amount);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION transfer_funds(UUID, UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Recreate apply_offline_transaction on top of transfer_funds
+-- Both profiles are locked up front (in id order), a missing recipient
+-- fails the row instead of debiting the sender for nothing, and only
+-- debits are accepted.
+CREATE OR REPLACE FUNCTION apply_offline_transaction(p_user_id UUID, tx JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  current_balance NUMERIC;
+  tx_amount NUMERIC;
+  tx_type TEXT;
+  tx_offline_id TEXT;
+  tx_signature TEXT;
+  tx_description TEXT;
+  tx_timestamp BIGINT;
+  tx_recipient_id UUID;
+  tx_device_id TEXT;
+  tx_intent JSONB;
+  tx_allowance_id TEXT;
+  allowance offline_allowances%ROWTYPE;
+  reserved_elsewhere NUMERIC;
+  intent_issued_at BIGINT;
+  intent_expires_at BIGINT;
+  intent_redeemed INTEGER;
+  device_secret BYTEA;
+  signed_message TEXT;
+  expected_signature TEXT;
+  transfer_failure TEXT;
+  -- Must match QR_INTENT_TTL_MS and CLOCK_SKEW_MS in src/lib/qrIntent.ts
+  intent_ttl_ms CONSTANT BIGINT := 600000;
+  clock_skew_ms CONSTANT BIGINT := 60000;
+BEGIN
+  tx_offline_id := tx->>'offline_id';
+  tx_amount := (tx->>'amount')::NUMERIC;
+  tx_type := tx->>'type';
+  tx_signature := tx->>'signature';
+  tx_description := COALESCE(tx->>'description', '');
+  tx_timestamp := (tx->>'timestamp')::BIGINT;
+  tx_device_id := tx->>'device_id';
+  tx_intent := NULLIF(tx->'qr_intent', 'null'::JSONB);
+  tx_allowance_id := NULLIF(tx->>'allowance_id', '');
+
+  -- Get recipient_id if present (for P2P transfers)
+  tx_recipient_id := NULL;
+  IF tx->>'recipient_id' IS NOT NULL AND tx->>'recipient_id' != '' THEN
+    tx_recipient_id := (tx->>'recipient_id')::UUID;
+  END IF;
+
+  -- Serialise everything that settles rows for this user: the payer's own
+  -- batch and a payee's voucher can carry the same offline_id. The
+  -- recipient is locked in the same statement, in id order, so transfers
+  -- in opposite directions cannot deadlock.
+  PERFORM 1
+  FROM profiles
+  WHERE id IN (p_user_id, tx_recipient_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = p_user_id;
+
+  IF current_balance IS NULL THEN
+    RETURN 'profile_not_found';
+  END IF;
+
+  -- IDEMPOTENCY CHECK: already settled, report as success
+  IF EXISTS (SELECT 1 FROM transactions WHERE offline_id = tx_offline_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Devices only send money: a signed 'credit' would create balance from
+  -- nothing. Money comes in through the payer's debit (or a voucher for it).
+  IF tx_type IS DISTINCT FROM 'debit' THEN
+    RETURN 'invalid_transfer';
+  END IF;
+
+  -- SIGNATURE VERIFICATION
+  IF tx_signature IS NULL OR tx_signature = '' THEN
+    RETURN 'missing_signature';
+  END IF;
+
+  -- The signing device must be enrolled to THIS user and not revoked
+  SELECT secret INTO device_secret
+  FROM device_keys
+  WHERE device_id = tx_device_id
+    AND user_id = p_user_id
+    AND revoked_at IS NULL;
+
+  IF device_secret IS NULL THEN
+    RETURN 'unknown_device';
+  END IF;
+
+  signed_message := p_user_id::TEXT
+    || ':' || tx_offline_id
+    || ':' || tx_device_id
+    || ':' || to_char(tx_amount, 'FM999999999990.00')
+    || ':' || tx_type
+    || ':' || COALESCE(tx->>'recipient_id', '')
+    || ':' || tx_timestamp::TEXT
+    || CASE WHEN tx_allowance_id IS NOT NULL THEN ':' || tx_allowance_id ELSE '' END
+    || CASE WHEN tx_intent IS NOT NULL THEN ':' || COALESCE(tx_intent->>'nonce', '') ELSE '' END
+    || ':' || tx_description;
+
+  expected_signature := encode(
+    extensions.hmac(convert_to(signed_message, 'UTF8'), device_secret, 'sha256'),
+    'hex'
+  );
+
+  IF expected_signature <> tx_signature THEN
+    RETURN 'invalid_signature';
+  END IF;
+
+  -- RECIPIENT CHECK: a P2P payment needs someone to receive it
+  -- (paying oneself has no counterparty either)
+  IF tx_recipient_id IS NOT NULL AND (
+    tx_recipient_id = p_user_id
+    OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = tx_recipient_id)
+  ) THEN
+    RETURN 'recipient_not_found';
+  END IF;
+
+  -- QR INTENT CHECKS: the intent must belong to the payee and still be open
+  IF tx_intent IS NOT NULL THEN
+    intent_issued_at := (tx_intent->>'issued_at')::BIGINT;
+    intent_expires_at := (tx_intent->>'expires_at')::BIGINT;
+
+    IF tx_type <> 'debit'
+      OR tx_recipient_id IS NULL
+      OR tx_intent->>'recipient_id' IS DISTINCT FROM tx_recipient_id::TEXT
+      OR COALESCE(tx_intent->>'nonce', '') = ''
+      OR (tx_intent->>'amount' IS NOT NULL AND (tx_intent->>'amount')::NUMERIC <> tx_amount)
+      OR intent_expires_at - intent_issued_at > intent_ttl_ms
+      OR NOT EXISTS (
+        SELECT 1 FROM device_keys
+        WHERE user_id = tx_recipient_id
+          AND payee_public_key = tx_intent->>'payee_key'
+          AND revoked_at IS NULL
+      )
+    THEN
+      RETURN 'intent_invalid';
+    END IF;
+
+    -- Judged at the payer's signed timestamp, so offline payments made
+    -- in time still settle after a late sync
+    IF tx_timestamp > intent_expires_at OR tx_timestamp < intent_issued_at - clock_skew_ms THEN
+      RETURN 'intent_expired';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM qr_intent_redemptions WHERE nonce = tx_intent->>'nonce') THEN
+      RETURN 'intent_used';
+    END IF;
+  END IF;
+
+  -- OFFLINE ALLOWANCE: a debit must fit the allowance issued to its device
+  -- (no allowance means a limit of zero)
+  SELECT * INTO allowance
+  FROM offline_allowances
+  WHERE id::TEXT = tx_allowance_id
+    AND user_id = p_user_id
+    AND device_id = tx_device_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'allowance_exceeded';
+  END IF;
+
+  -- Spending is judged at the signed timestamp: an allowance covers what
+  -- was spent before it expired or was replaced, however late it syncs
+  IF tx_timestamp > epoch_ms(LEAST(allowance.expires_at, COALESCE(allowance.superseded_at, allowance.expires_at)))
+    OR tx_timestamp < epoch_ms(allowance.issued_at) - clock_skew_ms
+  THEN
+    RETURN 'allowance_expired';
+  END IF;
+
+  IF allowance.spent + tx_amount > allowance.amount_limit THEN
+    RETURN 'allowance_exceeded';
+  END IF;
+
+  -- BALANCE CHECK: money reserved for the user's other devices is off limits
+  SELECT COALESCE(SUM(amount_limit - spent), 0) INTO reserved_elsewhere
+  FROM offline_allowances
+  WHERE user_id = p_user_id
+    AND id <> allowance.id
+    AND superseded_at IS NULL
+    AND expires_at > NOW();
+
+  IF current_balance - reserved_elsewhere < tx_amount THEN
+    RETURN 'insufficient_balance';
+  END IF;
+
+  -- Everything below succeeds or is undone together
+  BEGIN
+    -- REDEEM the intent before any money moves
+    IF tx_intent IS NOT NULL THEN
+      INSERT INTO qr_intent_redemptions (nonce, payee_id, payer_id, offline_id, amount, expires_at)
+      VALUES (
+        tx_intent->>'nonce', tx_recipient_id, p_user_id, tx_offline_id, tx_amount,
+        to_timestamp(intent_expires_at / 1000.0)
+      )
+      ON CONFLICT (nonce) DO NOTHING;
+
+      GET DIAGNOSTICS intent_redeemed = ROW_COUNT;
+      IF intent_redeemed = 0 THEN
+        RETURN 'intent_used';
+      END IF;
+    END IF;
+
+    UPDATE offline_allowances
+    SET spent = spent + tx_amount
+    WHERE id = allowance.id;
+
+    -- Sender to recipient, or out of PhantomPay when there is none
+    PERFORM transfer_funds(p_user_id, tx_recipient_id, tx_amount, tx_offline_id);
+
+    -- P2P TRANSFER: the recipient's copy of the row
+    IF tx_recipient_id IS NOT NULL THEN
+      INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+      VALUES (tx_recipient_id, tx_amount, 'credit', 'Received: ' || tx_description, 'synced',
+              tx_offline_id || '-rcv', tx_signature, p_user_id, tx_device_id);
+    END IF;
+  EXCEPTION WHEN raise_exception THEN
+    GET STACKED DIAGNOSTICS transfer_failure = MESSAGE_TEXT;
+    RETURN transfer_failure;
+  END;
+
+  -- INSERT SENDER'S TRANSACTION
+  INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+  VALUES (p_user_id, tx_amount, tx_type, tx_description, 'synced', tx_offline_id, tx_signature, tx_recipient_id, tx_device_id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Still internal after being recreated
+REVOKE ALL ON FUNCTION apply_offline_transaction(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Recreate respond_to_request: approvals go through transfer_funds too
+CREATE OR REPLACE FUNCTION respond_to_request(
+  request_id UUID,
+  approve BOOLEAN
+)
+RETURNS JSONB AS $$
+DECLARE
+  payer_uuid UUID;
+  the_request RECORD;
+  transfer_failure TEXT;
+BEGIN
+  payer_uuid := auth.uid();
+
+  IF payer_uuid IS NULL THEN
+    RETURN jsonb_build_object('error', 'Not authenticated');
+  END IF;
+
+  -- Lock the request so it cannot be approved twice
+  SELECT * INTO the_request
+  FROM payment_requests
+  WHERE id = request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Request not found');
+  END IF;
+
+  IF the_request.payer_id != payer_uuid THEN
+    RETURN jsonb_build_object('error', 'Not authorized');
+  END IF;
+
+  IF the_request.status != 'pending' THEN
+    RETURN jsonb_build_object('error', 'Request already processed');
+  END IF;
+
+  IF NOT approve THEN
+    UPDATE payment_requests SET status = 'rejected', responded_at = NOW()
+    WHERE id = request_id;
+
+    RETURN jsonb_build_object('success', true, 'status', 'rejected');
+  END IF;
+
+  PERFORM 1
+  FROM profiles
+  WHERE id IN (payer_uuid, the_request.requester_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Money reserved for the payer's devices to spend offline is off limits
+  IF (SELECT balance FROM profiles WHERE id = payer_uuid) - (
+    SELECT COALESCE(SUM(amount_limit - spent), 0)
+    FROM offline_allowances
+    WHERE user_id = payer_uuid
+      AND superseded_at IS NULL
+      AND expires_at > NOW()
+  ) < the_request.amount THEN
+    RETURN jsonb_build_object('error', 'Insufficient balance', 'reason', 'insufficient_balance');
+  END IF;
+
+  BEGIN
+    PERFORM transfer_funds(payer_uuid, the_request.requester_id, the_request.amount, 'req-' || request_id || '-pay');
+  EXCEPTION WHEN raise_exception THEN
+    GET STACKED DIAGNOSTICS transfer_failure = MESSAGE_TEXT;
+    RETURN jsonb_build_object(
+      'error', CASE transfer_failure
+        WHEN 'insufficient_balance' THEN 'Insufficient balance'
+        WHEN 'recipient_not_found' THEN 'Requester account not found'
+        ELSE 'Transfer failed'
+      END,
+      'reason', transfer_failure
+    );
+  END;
+
+  -- Create transactions for both parties
+  INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id)
+  VALUES (payer_uuid, the_request.amount, 'debit', 'Paid request: ' || the_request.description, 'synced',
+          'req-' || request_id || '-pay', 'request-approved', the_request.requester_id);
+
+  INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id)
+  VALUES (the_request.requester_id, the_request.amount, 'credit', 'Received: ' || the_request.description, 'synced',
+          'req-' || request_id || '-rcv', 'request-approved', payer_uuid);
+
+  UPDATE payment_requests SET status = 'approved', responded_at = NOW()
+  WHERE id = request_id;
+
+  RETURN jsonb_build_object('success', true, 'status', 'approved');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
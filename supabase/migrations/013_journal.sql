@@ -0,0 +1,314 @@
+-- PhantomPay - DOUBLE-ENTRY JOURNAL
+-- Run this in Supabase SQL Editor AFTER 012_atomic_transfers.sql
+--
+-- Turns the ledger entries of 012 into a journal: one journal entry per
+-- money movement (identified by its reference, e.g. the offline_id) with
+-- its postings. The postings of a journal entry always sum to zero, and
+-- a profile's balance must equal the sum of its postings.
+--
+-- History from before 012 is backfilled from the transactions table, with
+-- an opening entry per profile for its sign-up balance. verify_balances()
+-- reports every profile whose stored balance drifts from its journal
+-- (see /api/admin/balance-drift).
+--
+-- A NULL account_id is still the outside world.
+
+-- JOURNAL ENTRIES TABLE
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  reference TEXT NOT NULL UNIQUE, -- What moved the money; posts at most once
+  kind TEXT NOT NULL CHECK (kind IN ('opening', 'transfer', 'deposit', 'payout')),
+  description TEXT DEFAULT '' NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+
+-- POSTINGS: the ledger entries of 012, now grouped under a journal entry
+ALTER TABLE ledger_entries RENAME TO postings;
+ALTER INDEX idx_ledger_entries_account_id RENAME TO idx_postings_account_id;
+ALTER POLICY "Users can view own ledger entries" ON postings RENAME TO "Users can view own postings";
+
+ALTER TABLE postings
+ADD COLUMN IF NOT EXISTS journal_id UUID REFERENCES journal_entries(id) ON DELETE CASCADE;
+
+INSERT INTO journal_entries (reference, kind, created_at)
+SELECT
+  transfer_id,
+  CASE
+    WHEN bool_or(account_id IS NULL AND amount > 0) THEN 'payout'
+    WHEN bool_or(account_id IS NULL AND amount < 0) THEN 'deposit'
+    ELSE 'transfer'
+  END,
+  MIN(created_at)
+FROM postings
+GROUP BY transfer_id
+ON CONFLICT (reference) DO NOTHING;
+
+UPDATE postings p
+SET journal_id = j.id
+FROM journal_entries j
+WHERE j.reference = p.transfer_id
+  AND p.journal_id IS NULL;
+
+DROP INDEX IF EXISTS idx_ledger_entries_transfer_id;
+ALTER TABLE postings DROP COLUMN transfer_id;
+ALTER TABLE postings ALTER COLUMN journal_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_postings_journal_id ON postings(journal_id);
+
+-- Record one journal entry: p_amount from p_from to p_to
+-- Internal: does not touch balances (see transfer_funds).
+CREATE OR REPLACE FUNCTION post_journal_entry(
+  p_reference TEXT,
+  p_kind TEXT,
+  p_from UUID,
+  p_to UUID,
+  p_amount NUMERIC,
+  p_description TEXT DEFAULT '',
+  p_created_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS VOID AS $$
+DECLARE
+  new_journal_id UUID;
+BEGIN
+  -- Schema-qualified: also runs from the auth.users sign-up trigger
+  INSERT INTO public.journal_entries (reference, kind, description, created_at)
+  VALUES (p_reference, p_kind, COALESCE(p_description, ''), p_created_at)
+  RETURNING id INTO new_journal_id;
+
+  INSERT INTO public.postings (journal_id, account_id, amount, created_at)
+  VALUES (new_journal_id, p_from, -p_amount, p_created_at),
+         (new_journal_id, p_to, p_amount, p_created_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION post_journal_entry(TEXT, TEXT, UUID, UUID, NUMERIC, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- BACKFILL: opening balances, as handle_new_user granted them
+SELECT post_journal_entry(
+  'opening-' || p.id,
+  'opening',
+  NULL,
+  p.id,
+  LEAST(GREATEST(COALESCE((u.raw_user_meta_data->>'initial_balance')::NUMERIC(12, 2), 10000.00), 0), 10000000),
+  'Opening balance',
+  p.created_at
+)
+FROM profiles p
+LEFT JOIN auth.users u ON u.id = p.id
+WHERE LEAST(GREATEST(COALESCE((u.raw_user_meta_data->>'initial_balance')::NUMERIC(12, 2), 10000.00), 0), 10000000) > 0
+  AND NOT EXISTS (SELECT 1 FROM journal_entries WHERE reference = 'opening-' || p.id);
+
+-- BACKFILL: request approvals settled before 012. respond_to_request wrote
+-- the payer's row as 'req-<id>-pay' and the requester's as 'req-<id>-rcv',
+-- so the pair does not follow the '<id>' / '<id>-rcv' naming below.
+SELECT post_journal_entry(
+  pay.offline_id,
+  'transfer',
+  pay.user_id,
+  rcv.user_id,
+  pay.amount,
+  pay.description,
+  pay.created_at
+)
+FROM transactions pay
+JOIN transactions rcv ON rcv.offline_id = left(pay.offline_id, length(pay.offline_id) - 4) || '-rcv'
+WHERE pay.offline_id LIKE 'req-%-pay'
+  AND pay.type = 'debit'
+  AND pay.amount > 0
+  AND NOT EXISTS (SELECT 1 FROM journal_entries WHERE reference = pay.offline_id);
+
+-- BACKFILL: transactions settled before 012. The sender's row carries the
+-- movement; the recipient's '-rcv' copy only says whether it was credited
+-- (older batches debited the sender even when the recipient was missing).
+SELECT post_journal_entry(
+  t.offline_id,
+  CASE
+    WHEN t.type = 'credit' THEN 'deposit'
+    WHEN rcv.id IS NOT NULL THEN 'transfer'
+    ELSE 'payout'
+  END,
+  CASE WHEN t.type = 'credit' THEN NULL ELSE t.user_id END,
+  CASE
+    WHEN t.type = 'credit' THEN t.user_id
+    WHEN rcv.id IS NOT NULL THEN rcv.user_id
+    ELSE NULL
+  END,
+  t.amount,
+  t.description,
+  t.created_at
+)
+FROM transactions t
+LEFT JOIN transactions rcv ON rcv.offline_id = t.offline_id || '-rcv'
+WHERE t.offline_id IS NOT NULL
+  AND t.amount > 0
+  AND t.offline_id NOT LIKE '%-rcv'
+  AND t.offline_id NOT LIKE 'req-%-pay'
+  AND NOT EXISTS (SELECT 1 FROM journal_entries WHERE reference = t.offline_id);
+
+-- Recreate transfer_funds: every movement is a journal entry
+CREATE OR REPLACE FUNCTION transfer_funds(p_from UUID, p_to UUID, p_amount NUMERIC, p_transfer_id TEXT)
+RETURNS VOID AS $$
+DECLARE
+  from_balance NUMERIC;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 OR p_from IS NOT DISTINCT FROM p_to THEN
+    RAISE EXCEPTION 'invalid_transfer';
+  END IF;
+
+  -- Deterministic lock order: concurrent transfers A->B and B->A both
+  -- lock the lower id first instead of deadlocking
+  PERFORM 1
+  FROM profiles
+  WHERE id IN (p_from, p_to)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF p_from IS NOT NULL THEN
+    SELECT balance INTO from_balance FROM profiles WHERE id = p_from;
+
+    IF from_balance IS NULL THEN
+      RAISE EXCEPTION 'profile_not_found';
+    END IF;
+
+    IF from_balance < p_amount THEN
+      RAISE EXCEPTION 'insufficient_balance';
+    END IF;
+  END IF;
+
+  IF p_to IS NOT NULL AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_to) THEN
+    RAISE EXCEPTION 'recipient_not_found';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM journal_entries WHERE reference = p_transfer_id) THEN
+    RAISE EXCEPTION 'already_posted';
+  END IF;
+
+  UPDATE profiles
+  SET balance = balance - p_amount, last_synced_at = NOW()
+  WHERE id = p_from;
+
+  UPDATE profiles
+  SET balance = balance + p_amount, last_synced_at = NOW()
+  WHERE id = p_to;
+
+  PERFORM post_journal_entry(
+    p_transfer_id,
+    CASE
+      WHEN p_from IS NULL THEN 'deposit'
+      WHEN p_to IS NULL THEN 'payout'
+      ELSE 'transfer'
+    END,
+    p_from,
+    p_to,
+    p_amount
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION transfer_funds(UUID, UUID, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Recreate handle_new_user: the sign-up balance is an opening journal entry
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  user_initial_balance NUMERIC(12, 2);
+BEGIN
+  -- Try to get initial_balance from user metadata, default to 10000.00
+  user_initial_balance := COALESCE(
+    (NEW.raw_user_meta_data->>'initial_balance')::NUMERIC(12, 2),
+    10000.00
+  );
+
+  -- Validate balance (prevent negative or unreasonably high values)
+  IF user_initial_balance < 0 THEN
+    user_initial_balance := 0;
+  END IF;
+
+  IF user_initial_balance > 10000000 THEN
+    user_initial_balance := 10000000;
+  END IF;
+
+  INSERT INTO public.profiles (id, username, balance)
+  VALUES (
+    NEW.id,
+    COALESCE(NEW.raw_user_meta_data->>'username', NEW.email),
+    user_initial_balance
+  );
+
+  IF user_initial_balance > 0 THEN
+    PERFORM public.post_journal_entry('opening-' || NEW.id, 'opening', NULL, NEW.id, user_initial_balance, 'Opening balance');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RPC: Compare every stored balance with its journal (service role only)
+-- Also lists journal entries whose postings do not sum to zero.
+CREATE OR REPLACE FUNCTION verify_balances()
+RETURNS JSONB AS $$
+  WITH journal_balances AS (
+    SELECT account_id, SUM(amount) AS total
+    FROM postings
+    WHERE account_id IS NOT NULL
+    GROUP BY account_id
+  ),
+  drifted AS (
+    SELECT
+      p.id,
+      p.username,
+      p.balance AS stored_balance,
+      COALESCE(j.total, 0) AS journal_balance
+    FROM profiles p
+    LEFT JOIN journal_balances j ON j.account_id = p.id
+    WHERE p.balance <> COALESCE(j.total, 0)
+  ),
+  unbalanced AS (
+    SELECT je.reference, SUM(po.amount) AS total
+    FROM journal_entries je
+    JOIN postings po ON po.journal_id = je.id
+    GROUP BY je.id, je.reference
+    HAVING SUM(po.amount) <> 0
+  )
+  SELECT jsonb_build_object(
+    'checked_at', epoch_ms(NOW()),
+    'profiles_checked', (SELECT COUNT(*) FROM profiles),
+    'drifted', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'profile_id', id,
+        'username', username,
+        'stored_balance', stored_balance,
+        'journal_balance', journal_balance,
+        'drift', stored_balance - journal_balance
+      ) ORDER BY abs(stored_balance - journal_balance) DESC)
+      FROM drifted
+    ), '[]'::JSONB),
+    'unbalanced_entries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('reference', reference, 'total', total))
+      FROM unbalanced
+    ), '[]'::JSONB)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION verify_balances() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION verify_balances() TO service_role;
+
+-- CHECK: the backfilled journal should reproduce every stored balance.
+-- Drift is reported rather than failing the migration, so that history
+-- the journal cannot explain (manual balance fixes) does not block the
+-- deploy; it stays visible through /api/admin/balance-drift.
+DO $$
+DECLARE
+  report JSONB := verify_balances();
+BEGIN
+  IF jsonb_array_length(report->'drifted') > 0 OR jsonb_array_length(report->'unbalanced_entries') > 0 THEN
+    RAISE WARNING 'journal backfill: % of % profiles drift from their journal, % unbalanced entries: %',
+      jsonb_array_length(report->'drifted'),
+      report->>'profiles_checked',
+      jsonb_array_length(report->'unbalanced_entries'),
+      report->'drifted';
+  END IF;
+END;
+$$;
@@ -0,0 +1,102 @@
+-- PhantomPay - RECURRING PAYMENTS
+-- Run this in Supabase SQL Editor AFTER 013_journal.sql
+--
+-- Scheduled and recurring payments are paid by the user's devices, not by
+-- the server: each device keeps the schedules locally and records due runs
+-- as signed offline transactions ('rec-<id>-<run_at>'), so they are paid
+-- even while offline and settle through process_offline_batch like any
+-- other payment. This table only mirrors the schedules between devices.
+--
+-- Times are Unix milliseconds, exactly as the client stores them;
+-- the newest updated_at wins.
+
+-- RECURRING PAYMENTS TABLE
+CREATE TABLE IF NOT EXISTS recurring_payments (
+  id UUID PRIMARY KEY, -- Generated on the client
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  recipient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  recipient_label TEXT DEFAULT '' NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  description TEXT DEFAULT '' NOT NULL,
+  schedule TEXT NOT NULL, -- 5-field cron expression, device local time
+  start_at BIGINT NOT NULL,
+  end_at BIGINT,
+  next_run_at BIGINT,
+  last_run_at BIGINT,
+  status TEXT DEFAULT 'active' NOT NULL CHECK (status IN ('active', 'paused', 'ended')),
+  updated_at BIGINT NOT NULL,
+  CHECK (user_id <> recipient_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_payments_user_id ON recurring_payments(user_id);
+
+ALTER TABLE recurring_payments ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through save_recurring_payments
+CREATE POLICY "Users can view own recurring payments"
+  ON recurring_payments FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- RPC: Save the current user's locally edited schedules
+-- payload: [{ id, recipient_id, amount, schedule, updated_at, ... }]
+-- A schedule the server holds a newer version of is left as it is.
+CREATE OR REPLACE FUNCTION save_recurring_payments(payload JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+  item JSONB;
+  saved_count INTEGER := 0;
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(payload, '[]'::JSONB))
+  LOOP
+    -- Another user's schedule with the same id is never overwritten
+    IF EXISTS (
+      SELECT 1 FROM recurring_payments
+      WHERE id = (item->>'id')::UUID AND user_id <> user_uuid
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO recurring_payments (
+      id, user_id, recipient_id, recipient_label, amount, description, schedule,
+      start_at, end_at, next_run_at, last_run_at, status, updated_at
+    )
+    VALUES (
+      (item->>'id')::UUID,
+      user_uuid,
+      (item->>'recipient_id')::UUID,
+      COALESCE(item->>'recipient_label', ''),
+      (item->>'amount')::NUMERIC(12, 2),
+      LEFT(COALESCE(item->>'description', ''), 100),
+      item->>'schedule',
+      (item->>'start_at')::BIGINT,
+      (item->>'end_at')::BIGINT,
+      (item->>'next_run_at')::BIGINT,
+      (item->>'last_run_at')::BIGINT,
+      item->>'status',
+      (item->>'updated_at')::BIGINT
+    )
+    ON CONFLICT (id) DO UPDATE
+    SET recipient_label = EXCLUDED.recipient_label,
+        amount = EXCLUDED.amount,
+        description = EXCLUDED.description,
+        schedule = EXCLUDED.schedule,
+        end_at = EXCLUDED.end_at,
+        next_run_at = EXCLUDED.next_run_at,
+        last_run_at = GREATEST(recurring_payments.last_run_at, EXCLUDED.last_run_at),
+        status = EXCLUDED.status,
+        updated_at = EXCLUDED.updated_at
+    WHERE recurring_payments.updated_at < EXCLUDED.updated_at;
+
+    saved_count := saved_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'saved', saved_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
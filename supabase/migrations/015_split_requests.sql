@@ -0,0 +1,351 @@
+-- PhantomPay - SPLIT-BILL REQUESTS
+-- Run this in Supabase SQL Editor AFTER 014_recurring_payments.sql
+--
+-- A split bill is a request group: one payment request per payer, all
+-- created at once from a total split equally, by percentage or by custom
+-- amounts. Each payer still approves or rejects their own request with
+-- respond_to_request; the group's status follows its requests:
+-- - open: some requests are still pending
+-- - settled: every payer paid
+-- - closed: nothing is pending, but someone rejected
+--
+-- Shares are computed in paise. Whatever the payers' shares leave of the
+-- total (the requester's own share, or rounding) is not requested.
+
+-- REQUEST GROUPS TABLE
+CREATE TABLE IF NOT EXISTS request_groups (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  requester_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  total_amount NUMERIC(12, 2) NOT NULL CHECK (total_amount > 0),
+  description TEXT DEFAULT '' NOT NULL,
+  split_mode TEXT NOT NULL CHECK (split_mode IN ('equal', 'percentage', 'custom')),
+  status TEXT DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'settled', 'closed')),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  settled_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_groups_requester ON request_groups(requester_id);
+
+ALTER TABLE payment_requests
+ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES request_groups(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS share_percent NUMERIC(5, 2); -- Percentage splits only
+
+CREATE INDEX IF NOT EXISTS idx_payment_requests_group ON payment_requests(group_id);
+
+ALTER TABLE request_groups ENABLE ROW LEVEL SECURITY;
+
+-- Requesters see their groups; payers see the group their request belongs to
+CREATE POLICY "Users can view own request groups"
+  ON request_groups FOR SELECT
+  USING (
+    auth.uid() = requester_id
+    OR EXISTS (
+      SELECT 1 FROM payment_requests r
+      WHERE r.group_id = request_groups.id AND r.payer_id = auth.uid()
+    )
+  );
+
+-- Enable Realtime so the requester sees the group settle
+ALTER PUBLICATION supabase_realtime ADD TABLE request_groups;
+
+-- Recompute a group's status from its requests
+-- Internal: called by respond_to_request.
+CREATE OR REPLACE FUNCTION refresh_request_group_status(p_group_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  pending_count INTEGER;
+  rejected_count INTEGER;
+BEGIN
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'pending'),
+    COUNT(*) FILTER (WHERE status = 'rejected')
+  INTO pending_count, rejected_count
+  FROM payment_requests
+  WHERE group_id = p_group_id;
+
+  UPDATE request_groups
+  SET status = CASE
+        WHEN pending_count > 0 THEN 'open'
+        WHEN rejected_count > 0 THEN 'closed'
+        ELSE 'settled'
+      END,
+      settled_at = CASE WHEN pending_count > 0 THEN NULL ELSE COALESCE(settled_at, NOW()) END
+  WHERE id = p_group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION refresh_request_group_status(UUID) FROM PUBLIC, anon, authenticated;
+
+-- RPC: Split a bill between several payers
+-- p_shares: [{ email, percent? (percentage), amount? (custom) }]
+-- p_include_self: equal splits only - the requester pays a share too
+CREATE OR REPLACE FUNCTION create_split_request(
+  p_total NUMERIC,
+  p_description TEXT,
+  p_split_mode TEXT,
+  p_shares JSONB,
+  p_include_self BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+  requester_uuid UUID;
+  share JSONB;
+  payer_uuid UUID;
+  payer_ids UUID[] := ARRAY[]::UUID[];
+  payer_count INTEGER;
+  total_paise BIGINT;
+  share_paise BIGINT[] := ARRAY[]::BIGINT[];
+  percents NUMERIC[] := ARRAY[]::NUMERIC[];
+  percent_sum NUMERIC := 0;
+  paise BIGINT;
+  assigned BIGINT := 0;
+  leftover BIGINT;
+  i INTEGER;
+  new_group_id UUID;
+  request_ids UUID[] := ARRAY[]::UUID[];
+  new_request_id UUID;
+BEGIN
+  requester_uuid := auth.uid();
+
+  IF requester_uuid IS NULL THEN
+    RETURN jsonb_build_object('error', 'Not authenticated');
+  END IF;
+
+  IF p_split_mode NOT IN ('equal', 'percentage', 'custom') THEN
+    RETURN jsonb_build_object('error', 'Unknown split mode');
+  END IF;
+
+  IF p_total IS NULL OR p_total <= 0 OR p_total > 10000000 THEN
+    RETURN jsonb_build_object('error', 'Invalid total');
+  END IF;
+
+  payer_count := jsonb_array_length(COALESCE(p_shares, '[]'::JSONB));
+  IF payer_count < 1 OR payer_count > 20 THEN
+    RETURN jsonb_build_object('error', 'Add between 1 and 20 people');
+  END IF;
+
+  total_paise := ROUND(p_total * 100);
+
+  -- Resolve payers
+  FOR share IN SELECT * FROM jsonb_array_elements(p_shares)
+  LOOP
+    SELECT id INTO payer_uuid FROM auth.users WHERE email = share->>'email';
+
+    IF payer_uuid IS NULL THEN
+      RETURN jsonb_build_object('error', 'User not found: ' || COALESCE(share->>'email', ''));
+    END IF;
+
+    IF payer_uuid = requester_uuid THEN
+      RETURN jsonb_build_object('error', 'Cannot request money from yourself');
+    END IF;
+
+    IF payer_uuid = ANY(payer_ids) THEN
+      RETURN jsonb_build_object('error', 'Each person can only be added once');
+    END IF;
+
+    payer_ids := array_append(payer_ids, payer_uuid);
+    percents := array_append(percents, (share->>'percent')::NUMERIC);
+
+    IF p_split_mode = 'custom' THEN
+      share_paise := array_append(share_paise, ROUND((share->>'amount')::NUMERIC * 100)::BIGINT);
+    END IF;
+  END LOOP;
+
+  -- Shares in paise
+  IF p_split_mode = 'equal' THEN
+    paise := total_paise / (payer_count + CASE WHEN p_include_self THEN 1 ELSE 0 END);
+    FOR i IN 1..payer_count LOOP
+      share_paise := array_append(share_paise, paise);
+    END LOOP;
+    leftover := CASE WHEN p_include_self THEN 0 ELSE total_paise - paise * payer_count END;
+
+  ELSIF p_split_mode = 'percentage' THEN
+    FOR i IN 1..payer_count LOOP
+      IF percents[i] IS NULL OR percents[i] <= 0 OR percents[i] > 100 THEN
+        RETURN jsonb_build_object('error', 'Each percentage must be between 0 and 100');
+      END IF;
+      percent_sum := percent_sum + percents[i];
+      share_paise := array_append(share_paise, FLOOR(total_paise * percents[i] / 100)::BIGINT);
+    END LOOP;
+
+    IF percent_sum > 100 THEN
+      RETURN jsonb_build_object('error', 'Percentages add up to more than 100');
+    END IF;
+    -- Rounding paise go to the payers only when they cover the whole bill
+    leftover := CASE WHEN percent_sum = 100 THEN total_paise - (SELECT SUM(x) FROM unnest(share_paise) x) ELSE 0 END;
+
+  ELSE
+    leftover := 0;
+  END IF;
+
+  -- Hand out rounding paise one by one, first payers first
+  FOR i IN 1..payer_count LOOP
+    IF leftover > 0 THEN
+      share_paise[i] := share_paise[i] + 1;
+      leftover := leftover - 1;
+    END IF;
+
+    IF share_paise[i] IS NULL OR share_paise[i] <= 0 THEN
+      RETURN jsonb_build_object('error', 'Every share must be at least 0.01');
+    END IF;
+
+    assigned := assigned + share_paise[i];
+  END LOOP;
+
+  IF assigned > total_paise THEN
+    RETURN jsonb_build_object('error', 'Shares add up to more than the total');
+  END IF;
+
+  INSERT INTO request_groups (requester_id, total_amount, description, split_mode)
+  VALUES (requester_uuid, p_total, LEFT(COALESCE(p_description, ''), 100), p_split_mode)
+  RETURNING id INTO new_group_id;
+
+  FOR i IN 1..payer_count LOOP
+    INSERT INTO payment_requests (requester_id, payer_id, amount, description, group_id, share_percent)
+    VALUES (
+      requester_uuid,
+      payer_ids[i],
+      share_paise[i] / 100.0,
+      LEFT(COALESCE(p_description, ''), 100),
+      new_group_id,
+      CASE WHEN p_split_mode = 'percentage' THEN percents[i] END
+    )
+    RETURNING id INTO new_request_id;
+
+    request_ids := array_append(request_ids, new_request_id);
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'group_id', new_group_id,
+    'request_ids', to_jsonb(request_ids)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RPC: The current user's split bills with per-person progress, newest first
+CREATE OR REPLACE FUNCTION list_request_groups()
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'id', g.id,
+    'total_amount', g.total_amount,
+    'description', g.description,
+    'split_mode', g.split_mode,
+    'status', g.status,
+    'created_at', epoch_ms(g.created_at),
+    'settled_at', epoch_ms(g.settled_at),
+    'members', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'request_id', r.id,
+        'payer_id', r.payer_id,
+        'payer_email', u.email,
+        'amount', r.amount,
+        'share_percent', r.share_percent,
+        'status', r.status,
+        'responded_at', epoch_ms(r.responded_at)
+      ) ORDER BY r.created_at, r.id), '[]'::JSONB)
+      FROM payment_requests r
+      LEFT JOIN auth.users u ON u.id = r.payer_id
+      WHERE r.group_id = g.id
+    )
+  ) ORDER BY g.created_at DESC), '[]'::JSONB)
+  FROM request_groups g
+  WHERE g.requester_id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Recreate respond_to_request: answering a split-bill share updates its group
+CREATE OR REPLACE FUNCTION respond_to_request(
+  request_id UUID,
+  approve BOOLEAN
+)
+RETURNS JSONB AS $$
+DECLARE
+  payer_uuid UUID;
+  the_request RECORD;
+  transfer_failure TEXT;
+BEGIN
+  payer_uuid := auth.uid();
+
+  IF payer_uuid IS NULL THEN
+    RETURN jsonb_build_object('error', 'Not authenticated');
+  END IF;
+
+  -- Lock the request so it cannot be approved twice
+  SELECT * INTO the_request
+  FROM payment_requests
+  WHERE id = request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Request not found');
+  END IF;
+
+  IF the_request.payer_id != payer_uuid THEN
+    RETURN jsonb_build_object('error', 'Not authorized');
+  END IF;
+
+  IF the_request.status != 'pending' THEN
+    RETURN jsonb_build_object('error', 'Request already processed');
+  END IF;
+
+  IF NOT approve THEN
+    UPDATE payment_requests SET status = 'rejected', responded_at = NOW()
+    WHERE id = request_id;
+
+    IF the_request.group_id IS NOT NULL THEN
+      PERFORM refresh_request_group_status(the_request.group_id);
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'status', 'rejected');
+  END IF;
+
+  PERFORM 1
+  FROM profiles
+  WHERE id IN (payer_uuid, the_request.requester_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Money reserved for the payer's devices to spend offline is off limits
+  IF (SELECT balance FROM profiles WHERE id = payer_uuid) - (
+    SELECT COALESCE(SUM(amount_limit - spent), 0)
+    FROM offline_allowances
+    WHERE user_id = payer_uuid
+      AND superseded_at IS NULL
+      AND expires_at > NOW()
+  ) < the_request.amount THEN
+    RETURN jsonb_build_object('error', 'Insufficient balance', 'reason', 'insufficient_balance');
+  END IF;
+
+  BEGIN
+    PERFORM transfer_funds(payer_uuid, the_request.requester_id, the_request.amount, 'req-' || request_id || '-pay');
+  EXCEPTION WHEN raise_exception THEN
+    GET STACKED DIAGNOSTICS transfer_failure = MESSAGE_TEXT;
+    RETURN jsonb_build_object(
+      'error', CASE transfer_failure
+        WHEN 'insufficient_balance' THEN 'Insufficient balance'
+        WHEN 'recipient_not_found' THEN 'Requester account not found'
+        ELSE 'Transfer failed'
+      END,
+      'reason', transfer_failure
+    );
+  END;
+
+  -- Create transactions for both parties
+  INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id)
+  VALUES (payer_uuid, the_request.amount, 'debit', 'Paid request: ' || the_request.description, 'synced',
+          'req-' || request_id || '-pay', 'request-approved', the_request.requester_id);
+
+  INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id)
+  VALUES (the_request.requester_id, the_request.amount, 'credit', 'Received: ' || the_request.description, 'synced',
+          'req-' || request_id || '-rcv', 'request-approved', payer_uuid);
+
+  UPDATE payment_requests SET status = 'approved', responded_at = NOW()
+  WHERE id = request_id;
+
+  IF the_request.group_id IS NOT NULL THEN
+    PERFORM refresh_request_group_status(the_request.group_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', 'approved');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,482 @@
+-- PhantomPay - PAYMENT REQUEST LIFECYCLE
+-- Run this in Supabase SQL Editor AFTER 015_split_requests.sql
+--
+-- Requests now run through a full lifecycle:
+-- - pending: nothing paid yet
+-- - partially_paid: the payer paid part of it and may pay the rest
+-- - approved: paid in full
+-- - rejected: the payer declined (whatever was already paid stays paid)
+-- - cancelled: the requester withdrew it
+-- - expired: expires_at passed while it was still open
+--
+-- pending and partially_paid are "open". Expiry is applied lazily by
+-- expire_payment_requests(), which every request RPC calls first.
+-- The requester may nudge the payer with a reminder (at most once a day).
+--
+-- Status changes now only go through the RPCs: the payer's direct UPDATE
+-- policy from 005 is dropped.
+
+ALTER TABLE payment_requests DROP CONSTRAINT IF EXISTS payment_requests_status_check;
+ALTER TABLE payment_requests
+ADD CONSTRAINT payment_requests_status_check
+CHECK (status IN ('pending', 'partially_paid', 'approved', 'rejected', 'cancelled', 'expired'));
+
+ALTER TABLE payment_requests
+ADD COLUMN IF NOT EXISTS paid_amount NUMERIC(12, 2) DEFAULT 0 NOT NULL,
+ADD COLUMN IF NOT EXISTS payment_count INTEGER DEFAULT 0 NOT NULL,
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ DEFAULT (NOW() + INTERVAL '7 days') NOT NULL,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_reminded_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS reminder_count INTEGER DEFAULT 0 NOT NULL;
+
+-- Requests from before this migration: approved ones were paid in full,
+-- open ones expire a week after they were made
+UPDATE payment_requests
+SET paid_amount = amount, payment_count = 1
+WHERE status = 'approved' AND payment_count = 0;
+
+UPDATE payment_requests
+SET expires_at = GREATEST(created_at + INTERVAL '7 days', NOW() + INTERVAL '1 day')
+WHERE status = 'pending';
+
+ALTER TABLE payment_requests
+ADD CONSTRAINT payment_requests_paid_amount_check
+CHECK (paid_amount >= 0 AND paid_amount <= amount);
+
+CREATE INDEX IF NOT EXISTS idx_payment_requests_open_expiry
+ON payment_requests(expires_at)
+WHERE status IN ('pending', 'partially_paid');
+
+DROP POLICY IF EXISTS "Payers can respond to requests" ON payment_requests;
+
+-- Recreate refresh_request_group_status: partially paid shares are still open
+CREATE OR REPLACE FUNCTION refresh_request_group_status(p_group_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  open_count INTEGER;
+  unpaid_count INTEGER;
+BEGIN
+  SELECT
+    COUNT(*) FILTER (WHERE status IN ('pending', 'partially_paid')),
+    COUNT(*) FILTER (WHERE status <> 'approved')
+  INTO open_count, unpaid_count
+  FROM payment_requests
+  WHERE group_id = p_group_id;
+
+  UPDATE request_groups
+  SET status = CASE
+        WHEN open_count > 0 THEN 'open'
+        WHEN unpaid_count > 0 THEN 'closed'
+        ELSE 'settled'
+      END,
+      settled_at = CASE WHEN open_count > 0 THEN NULL ELSE COALESCE(settled_at, NOW()) END
+  WHERE id = p_group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION refresh_request_group_status(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Expire open requests past their expires_at
+-- Internal: called at the start of every request RPC.
+CREATE OR REPLACE FUNCTION expire_payment_requests()
+RETURNS INTEGER AS $$
+DECLARE
+  expired_count INTEGER;
+  expired_groups UUID[];
+  expired_group_id UUID;
+BEGIN
+  WITH expired AS (
+    UPDATE payment_requests
+    SET status = 'expired', responded_at = NOW()
+    WHERE status IN ('pending', 'partially_paid')
+      AND expires_at <= NOW()
+    RETURNING group_id
+  )
+  SELECT
+    COUNT(*),
+    COALESCE(array_agg(DISTINCT group_id) FILTER (WHERE group_id IS NOT NULL), ARRAY[]::UUID[])
+  INTO expired_count, expired_groups
+  FROM expired;
+
+  FOREACH expired_group_id IN ARRAY expired_groups
+  LOOP
+    PERFORM refresh_request_group_status(expired_group_id);
+  END LOOP;
+
+  RETURN expired_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION expire_payment_requests() FROM PUBLIC, anon, authenticated;
+
+-- RPC: Create a payment request that expires after p_expires_in_hours
+DROP FUNCTION IF EXISTS create_payment_request(TEXT, NUMERIC, TEXT);
+
+CREATE OR REPLACE FUNCTION create_payment_request(
+  payer_email TEXT,
+  request_amount NUMERIC,
+  request_description TEXT DEFAULT '',
+  expires_in_hours INTEGER DEFAULT 168
+)
+RETURNS JSONB AS $$
+DECLARE
+  requester_uuid UUID;
+  payer_uuid UUID;
+  new_request_id UUID;
+BEGIN
+  requester_uuid := auth.uid();
+
+  IF requester_uuid IS NULL THEN
+    RETURN jsonb_build_object('error', 'Not authenticated');
+  END IF;
+
+  IF request_amount IS NULL OR request_amount <= 0 THEN
+    RETURN jsonb_build_object('error', 'Invalid amount');
+  END IF;
+
+  IF expires_in_hours IS NULL OR expires_in_hours < 1 OR expires_in_hours > 24 * 90 THEN
+    RETURN jsonb_build_object('error', 'Requests expire after 1 hour to 90 days');
+  END IF;
+
+  -- Look up payer by email
+  SELECT id INTO payer_uuid FROM auth.users WHERE email = payer_email;
+
+  IF payer_uuid IS NULL THEN
+    RETURN jsonb_build_object('error', 'User not found');
+  END IF;
+
+  IF payer_uuid = requester_uuid THEN
+    RETURN jsonb_build_object('error', 'Cannot request money from yourself');
+  END IF;
+
+  INSERT INTO payment_requests (requester_id, payer_id, amount, description, expires_at)
+  VALUES (
+    requester_uuid,
+    payer_uuid,
+    request_amount,
+    LEFT(COALESCE(request_description, ''), 100),
+    NOW() + make_interval(hours => expires_in_hours)
+  )
+  RETURNING id INTO new_request_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'request_id', new_request_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RPC: Pay (all or part of) or decline a request
+-- p_amount: how much to pay now; NULL pays whatever is still owed.
+-- Each payment is its own transfer ('req-<id>-pay-<n>').
+DROP FUNCTION IF EXISTS respond_to_request(UUID, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION respond_to_request(
+  request_id UUID,
+  approve BOOLEAN,
+  p_amount NUMERIC DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  payer_uuid UUID;
+  the_request RECORD;
+  pay_amount NUMERIC;
+  payment_ref TEXT;
+  new_status TEXT;
+  transfer_failure TEXT;
+BEGIN
+  payer_uuid := auth.uid();
+
+  IF payer_uuid IS NULL THEN
+    RETURN jsonb_build_object('error', 'Not authenticated');
+  END IF;
+
+  PERFORM expire_payment_requests();
+
+  -- Lock the request so it cannot be paid twice
+  SELECT * INTO the_request
+  FROM payment_requests
+  WHERE id = request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('error', 'Request not found');
+  END IF;
+
+  IF the_request.payer_id != payer_uuid THEN
+    RETURN jsonb_build_object('error', 'Not authorized');
+  END IF;
+
+  IF the_request.status = 'expired' THEN
+    RETURN jsonb_build_object('error', 'Request expired', 'reason', 'request_expired');
+  END IF;
+
+  IF the_request.status = 'cancelled' THEN
+    RETURN jsonb_build_object('error', 'Request was cancelled', 'reason', 'request_cancelled');
+  END IF;
+
+  IF the_request.status NOT IN ('pending', 'partially_paid') THEN
+    RETURN jsonb_build_object('error', 'Request already processed', 'reason', 'request_closed');
+  END IF;
+
+  IF NOT approve THEN
+    UPDATE payment_requests SET status = 'rejected', responded_at = NOW()
+    WHERE id = request_id;
+
+    IF the_request.group_id IS NOT NULL THEN
+      PERFORM refresh_request_group_status(the_request.group_id);
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'status', 'rejected');
+  END IF;
+
+  pay_amount := COALESCE(p_amount, the_request.amount - the_request.paid_amount);
+
+  IF pay_amount <= 0 OR pay_amount > the_request.amount - the_request.paid_amount THEN
+    RETURN jsonb_build_object('error', 'Invalid amount', 'reason', 'invalid_amount');
+  END IF;
+
+  PERFORM 1
+  FROM profiles
+  WHERE id IN (payer_uuid, the_request.requester_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Money reserved for the payer's devices to spend offline is off limits
+  IF (SELECT balance FROM profiles WHERE id = payer_uuid) - (
+    SELECT COALESCE(SUM(amount_limit - spent), 0)
+    FROM offline_allowances
+    WHERE user_id = payer_uuid
+      AND superseded_at IS NULL
+      AND expires_at > NOW()
+  ) < pay_amount THEN
+    RETURN jsonb_build_object('error', 'Insufficient balance', 'reason', 'insufficient_balance');
+  END IF;
+
+  payment_ref := 'req-' || request_id || '-pay-' || (the_request.payment_count + 1);
+
+  BEGIN
+    PERFORM transfer_funds(payer_uuid, the_request.requester_id, pay_amount, payment_ref);
+  EXCEPTION WHEN raise_exception THEN
+    GET STACKED DIAGNOSTICS transfer_failure = MESSAGE_TEXT;
+    RETURN jsonb_build_object(
+      'error', CASE transfer_failure
+        WHEN 'insufficient_balance' THEN 'Insufficient balance'
+        WHEN 'recipient_not_found' THEN 'Requester account not found'
+        ELSE 'Transfer failed'
+      END,
+      'reason', transfer_failure
+    );
+  END;
+
+  -- Create transactions for both parties
+  INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id)
+  VALUES (payer_uuid, pay_amount, 'debit', 'Paid request: ' || the_request.description, 'synced',
+          payment_ref, 'request-approved', the_request.requester_id);
+
+  INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id)
+  VALUES (the_request.requester_id, pay_amount, 'credit', 'Received: ' || the_request.description, 'synced',
+          payment_ref || '-rcv', 'request-approved', payer_uuid);
+
+  new_status := CASE
+    WHEN the_request.paid_amount + pay_amount >= the_request.amount THEN 'approved'
+    ELSE 'partially_paid'
+  END;
+
+  UPDATE payment_requests
+  SET paid_amount = paid_amount + pay_amount,
+      payment_count = payment_count + 1,
+      status = new_status,
+      responded_at = NOW()
+  WHERE id = request_id;
+
+  IF the_request.group_id IS NOT NULL THEN
+    PERFORM refresh_request_group_status(the_request.group_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', new_status,
+    'paid_amount', the_request.paid_amount + pay_amount
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RPC: Withdraw an open request (requester only)
+-- Anything already paid stays paid.
+CREATE OR REPLACE FUNCTION cancel_payment_request(p_request_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+  the_request RECORD;
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  PERFORM expire_payment_requests();
+
+  SELECT * INTO the_request
+  FROM payment_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR the_request.requester_id <> user_uuid THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Request not found');
+  END IF;
+
+  IF the_request.status NOT IN ('pending', 'partially_paid') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Request is no longer open');
+  END IF;
+
+  UPDATE payment_requests
+  SET status = 'cancelled', cancelled_at = NOW()
+  WHERE id = p_request_id;
+
+  IF the_request.group_id IS NOT NULL THEN
+    PERFORM refresh_request_group_status(the_request.group_id);
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', 'cancelled');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RPC: Nudge the payer about an open request (requester only, once a day)
+-- The payer's inbox sees the change of last_reminded_at in realtime.
+CREATE OR REPLACE FUNCTION remind_payment_request(p_request_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+  the_request RECORD;
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  PERFORM expire_payment_requests();
+
+  SELECT * INTO the_request
+  FROM payment_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR the_request.requester_id <> user_uuid THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Request not found');
+  END IF;
+
+  IF the_request.status NOT IN ('pending', 'partially_paid') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Request is no longer open');
+  END IF;
+
+  IF the_request.last_reminded_at > NOW() - INTERVAL '1 day' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Already reminded in the last 24 hours');
+  END IF;
+
+  UPDATE payment_requests
+  SET last_reminded_at = NOW(), reminder_count = reminder_count + 1
+  WHERE id = p_request_id;
+
+  RETURN jsonb_build_object('success', true, 'reminder_count', the_request.reminder_count + 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- One request as the client sees it (see list_payment_requests)
+-- Internal.
+CREATE OR REPLACE FUNCTION request_json(r payment_requests)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'id', r.id,
+    'requester_id', r.requester_id,
+    'requester_email', (SELECT email FROM auth.users WHERE id = r.requester_id),
+    'payer_id', r.payer_id,
+    'payer_email', (SELECT email FROM auth.users WHERE id = r.payer_id),
+    'amount', r.amount,
+    'paid_amount', r.paid_amount,
+    'description', r.description,
+    'status', r.status,
+    'group_id', r.group_id,
+    'created_at', epoch_ms(r.created_at),
+    'expires_at', epoch_ms(r.expires_at),
+    'responded_at', epoch_ms(r.responded_at),
+    'cancelled_at', epoch_ms(r.cancelled_at),
+    'last_reminded_at', epoch_ms(r.last_reminded_at),
+    'reminder_count', r.reminder_count
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION request_json(payment_requests) FROM PUBLIC, anon, authenticated;
+
+-- RPC: Every request the current user sent or received
+-- incoming: open ones first, then the last 30 days; outgoing: the last 30 days
+CREATE OR REPLACE FUNCTION list_payment_requests()
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('incoming', '[]'::JSONB, 'outgoing', '[]'::JSONB);
+  END IF;
+
+  PERFORM expire_payment_requests();
+
+  RETURN jsonb_build_object(
+    'incoming', COALESCE((
+      SELECT jsonb_agg(request_json(r) ORDER BY
+        (r.status IN ('pending', 'partially_paid')) DESC,
+        r.created_at DESC)
+      FROM payment_requests r
+      WHERE r.payer_id = user_uuid
+        AND (r.status IN ('pending', 'partially_paid') OR r.created_at > NOW() - INTERVAL '30 days')
+    ), '[]'::JSONB),
+    'outgoing', COALESCE((
+      SELECT jsonb_agg(request_json(r) ORDER BY r.created_at DESC)
+      FROM payment_requests r
+      WHERE r.requester_id = user_uuid
+        AND (r.status IN ('pending', 'partially_paid') OR r.created_at > NOW() - INTERVAL '30 days')
+    ), '[]'::JSONB)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recreate list_request_groups: shares report what has been paid so far
+CREATE OR REPLACE FUNCTION list_request_groups()
+RETURNS JSONB AS $$
+BEGIN
+  PERFORM expire_payment_requests();
+
+  RETURN (
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'id', g.id,
+      'total_amount', g.total_amount,
+      'description', g.description,
+      'split_mode', g.split_mode,
+      'status', g.status,
+      'created_at', epoch_ms(g.created_at),
+      'settled_at', epoch_ms(g.settled_at),
+      'members', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          'request_id', r.id,
+          'payer_id', r.payer_id,
+          'payer_email', u.email,
+          'amount', r.amount,
+          'paid_amount', r.paid_amount,
+          'share_percent', r.share_percent,
+          'status', r.status,
+          'responded_at', epoch_ms(r.responded_at)
+        ) ORDER BY r.created_at, r.id), '[]'::JSONB)
+        FROM payment_requests r
+        LEFT JOIN auth.users u ON u.id = r.payer_id
+        WHERE r.group_id = g.id
+      )
+    ) ORDER BY g.created_at DESC), '[]'::JSONB)
+    FROM request_groups g
+    WHERE g.requester_id = auth.uid()
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,323 @@
+-- PhantomPay - TRANSACTION CATEGORIES
+-- Run this in Supabase SQL Editor AFTER 017_offline_request_payments.sql
+--
+-- Every transaction can carry a category (food, bills, transfer ...),
+-- picked on the device (see src/lib/categories.ts) and synced with the
+-- row. The category is not part of the signed message: it moves no money,
+-- and the server only checks it is one it knows. The recipient's copy of
+-- a P2P transfer has none - their device files it for them.
+
+-- Must match TRANSACTION_CATEGORIES in src/lib/categories.ts
+CREATE OR REPLACE FUNCTION is_transaction_category(value TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT value IN (
+    'food', 'shopping', 'transport', 'bills', 'housing',
+    'entertainment', 'health', 'transfer', 'income', 'other'
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS category TEXT;
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_category_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_category_check
+  CHECK (category IS NULL OR is_transaction_category(category));
+
+-- Recreate apply_offline_transaction to store the category
+CREATE OR REPLACE FUNCTION apply_offline_transaction(p_user_id UUID, tx JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  current_balance NUMERIC;
+  tx_amount NUMERIC;
+  tx_type TEXT;
+  tx_offline_id TEXT;
+  tx_signature TEXT;
+  tx_description TEXT;
+  tx_timestamp BIGINT;
+  tx_recipient_id UUID;
+  tx_device_id TEXT;
+  tx_intent JSONB;
+  tx_allowance_id TEXT;
+  tx_request_id UUID;
+  tx_category TEXT;
+  the_request payment_requests%ROWTYPE;
+  request_status TEXT;
+  allowance offline_allowances%ROWTYPE;
+  reserved_elsewhere NUMERIC;
+  intent_issued_at BIGINT;
+  intent_expires_at BIGINT;
+  intent_redeemed INTEGER;
+  device_secret BYTEA;
+  signed_message TEXT;
+  expected_signature TEXT;
+  transfer_failure TEXT;
+  -- Must match QR_INTENT_TTL_MS and CLOCK_SKEW_MS in src/lib/qrIntent.ts
+  intent_ttl_ms CONSTANT BIGINT := 600000;
+  clock_skew_ms CONSTANT BIGINT := 60000;
+BEGIN
+  tx_offline_id := tx->>'offline_id';
+  tx_amount := (tx->>'amount')::NUMERIC;
+  tx_type := tx->>'type';
+  tx_signature := tx->>'signature';
+  tx_description := COALESCE(tx->>'description', '');
+  tx_timestamp := (tx->>'timestamp')::BIGINT;
+  tx_device_id := tx->>'device_id';
+  tx_intent := NULLIF(tx->'qr_intent', 'null'::JSONB);
+  tx_allowance_id := NULLIF(tx->>'allowance_id', '');
+  tx_request_id := NULLIF(tx->>'payment_request_id', '')::UUID;
+  -- A label only: an unknown one is dropped rather than failing the payment
+  tx_category := NULLIF(tx->>'category', '');
+  IF tx_category IS NOT NULL AND NOT is_transaction_category(tx_category) THEN
+    tx_category := NULL;
+  END IF;
+
+  -- Get recipient_id if present (for P2P transfers)
+  tx_recipient_id := NULL;
+  IF tx->>'recipient_id' IS NOT NULL AND tx->>'recipient_id' != '' THEN
+    tx_recipient_id := (tx->>'recipient_id')::UUID;
+  END IF;
+
+  -- Serialise everything that settles rows for this user: the payer's own
+  -- batch and a payee's voucher can carry the same offline_id. The
+  -- recipient is locked in the same statement, in id order, so transfers
+  -- in opposite directions cannot deadlock.
+  PERFORM 1
+  FROM profiles
+  WHERE id IN (p_user_id, tx_recipient_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT balance INTO current_balance
+  FROM profiles
+  WHERE id = p_user_id;
+
+  IF current_balance IS NULL THEN
+    RETURN 'profile_not_found';
+  END IF;
+
+  -- IDEMPOTENCY CHECK: already settled, report as success
+  IF EXISTS (SELECT 1 FROM transactions WHERE offline_id = tx_offline_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Devices only send money: a signed 'credit' would create balance from
+  -- nothing. Money comes in through the payer's debit (or a voucher for it).
+  IF tx_type IS DISTINCT FROM 'debit' THEN
+    RETURN 'invalid_transfer';
+  END IF;
+
+  -- SIGNATURE VERIFICATION
+  IF tx_signature IS NULL OR tx_signature = '' THEN
+    RETURN 'missing_signature';
+  END IF;
+
+  -- The signing device must be enrolled to THIS user and not revoked
+  SELECT secret INTO device_secret
+  FROM device_keys
+  WHERE device_id = tx_device_id
+    AND user_id = p_user_id
+    AND revoked_at IS NULL;
+
+  IF device_secret IS NULL THEN
+    RETURN 'unknown_device';
+  END IF;
+
+  signed_message := p_user_id::TEXT
+    || ':' || tx_offline_id
+    || ':' || tx_device_id
+    || ':' || to_char(tx_amount, 'FM999999999990.00')
+    || ':' || tx_type
+    || ':' || COALESCE(tx->>'recipient_id', '')
+    || ':' || tx_timestamp::TEXT
+    || CASE WHEN tx_allowance_id IS NOT NULL THEN ':' || tx_allowance_id ELSE '' END
+    || CASE WHEN tx_intent IS NOT NULL THEN ':' || COALESCE(tx_intent->>'nonce', '') ELSE '' END
+    || CASE WHEN tx_request_id IS NOT NULL THEN ':' || tx_request_id::TEXT ELSE '' END
+    || ':' || tx_description;
+
+  expected_signature := encode(
+    extensions.hmac(convert_to(signed_message, 'UTF8'), device_secret, 'sha256'),
+    'hex'
+  );
+
+  IF expected_signature <> tx_signature THEN
+    RETURN 'invalid_signature';
+  END IF;
+
+  -- RECIPIENT CHECK: a P2P payment needs someone to receive it
+  -- (paying oneself has no counterparty either)
+  IF tx_recipient_id IS NOT NULL AND (
+    tx_recipient_id = p_user_id
+    OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = tx_recipient_id)
+  ) THEN
+    RETURN 'recipient_not_found';
+  END IF;
+
+  -- QR INTENT CHECKS: the intent must belong to the payee and still be open
+  IF tx_intent IS NOT NULL THEN
+    intent_issued_at := (tx_intent->>'issued_at')::BIGINT;
+    intent_expires_at := (tx_intent->>'expires_at')::BIGINT;
+
+    IF tx_type <> 'debit'
+      OR tx_recipient_id IS NULL
+      OR tx_intent->>'recipient_id' IS DISTINCT FROM tx_recipient_id::TEXT
+      OR COALESCE(tx_intent->>'nonce', '') = ''
+      OR (tx_intent->>'amount' IS NOT NULL AND (tx_intent->>'amount')::NUMERIC <> tx_amount)
+      OR intent_expires_at - intent_issued_at > intent_ttl_ms
+      OR NOT EXISTS (
+        SELECT 1 FROM device_keys
+        WHERE user_id = tx_recipient_id
+          AND payee_public_key = tx_intent->>'payee_key'
+          AND revoked_at IS NULL
+      )
+    THEN
+      RETURN 'intent_invalid';
+    END IF;
+
+    -- Judged at the payer's signed timestamp, so offline payments made
+    -- in time still settle after a late sync
+    IF tx_timestamp > intent_expires_at OR tx_timestamp < intent_issued_at - clock_skew_ms THEN
+      RETURN 'intent_expired';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM qr_intent_redemptions WHERE nonce = tx_intent->>'nonce') THEN
+      RETURN 'intent_used';
+    END IF;
+  END IF;
+
+  -- PAYMENT REQUEST CHECKS: the debit must pay an open request made of
+  -- this user by its recipient, and no more than is still owed
+  IF tx_request_id IS NOT NULL THEN
+    SELECT * INTO the_request
+    FROM payment_requests
+    WHERE id = tx_request_id
+    FOR UPDATE;
+
+    IF NOT FOUND
+      OR tx_type <> 'debit'
+      OR the_request.payer_id <> p_user_id
+      OR the_request.requester_id IS DISTINCT FROM tx_recipient_id
+    THEN
+      RETURN 'request_invalid';
+    END IF;
+
+    IF the_request.status = 'cancelled' THEN
+      RETURN 'request_cancelled';
+    END IF;
+
+    IF the_request.status = 'rejected' THEN
+      RETURN 'request_declined';
+    END IF;
+
+    -- Judged at the payer's signed timestamp, like QR intents: an approval
+    -- made offline before the request expired still settles
+    IF tx_timestamp > epoch_ms(the_request.expires_at) THEN
+      RETURN 'request_expired';
+    END IF;
+
+    IF the_request.status = 'approved' OR the_request.paid_amount + tx_amount > the_request.amount THEN
+      RETURN 'request_paid';
+    END IF;
+  END IF;
+
+  -- OFFLINE ALLOWANCE: a debit must fit the allowance issued to its device
+  -- (no allowance means a limit of zero)
+  SELECT * INTO allowance
+  FROM offline_allowances
+  WHERE id::TEXT = tx_allowance_id
+    AND user_id = p_user_id
+    AND device_id = tx_device_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'allowance_exceeded';
+  END IF;
+
+  -- Spending is judged at the signed timestamp: an allowance covers what
+  -- was spent before it expired or was replaced, however late it syncs
+  IF tx_timestamp > epoch_ms(LEAST(allowance.expires_at, COALESCE(allowance.superseded_at, allowance.expires_at)))
+    OR tx_timestamp < epoch_ms(allowance.issued_at) - clock_skew_ms
+  THEN
+    RETURN 'allowance_expired';
+  END IF;
+
+  IF allowance.spent + tx_amount > allowance.amount_limit THEN
+    RETURN 'allowance_exceeded';
+  END IF;
+
+  -- BALANCE CHECK: money reserved for the user's other devices is off limits
+  SELECT COALESCE(SUM(amount_limit - spent), 0) INTO reserved_elsewhere
+  FROM offline_allowances
+  WHERE user_id = p_user_id
+    AND id <> allowance.id
+    AND superseded_at IS NULL
+    AND expires_at > NOW();
+
+  IF current_balance - reserved_elsewhere < tx_amount THEN
+    RETURN 'insufficient_balance';
+  END IF;
+
+  -- Everything below succeeds or is undone together
+  BEGIN
+    -- REDEEM the intent before any money moves
+    IF tx_intent IS NOT NULL THEN
+      INSERT INTO qr_intent_redemptions (nonce, payee_id, payer_id, offline_id, amount, expires_at)
+      VALUES (
+        tx_intent->>'nonce', tx_recipient_id, p_user_id, tx_offline_id, tx_amount,
+        to_timestamp(intent_expires_at / 1000.0)
+      )
+      ON CONFLICT (nonce) DO NOTHING;
+
+      GET DIAGNOSTICS intent_redeemed = ROW_COUNT;
+      IF intent_redeemed = 0 THEN
+        RETURN 'intent_used';
+      END IF;
+    END IF;
+
+    UPDATE offline_allowances
+    SET spent = spent + tx_amount
+    WHERE id = allowance.id;
+
+    -- Sender to recipient, or out of PhantomPay when there is none
+    PERFORM transfer_funds(p_user_id, tx_recipient_id, tx_amount, tx_offline_id);
+
+    -- P2P TRANSFER: the recipient's copy of the row
+    IF tx_recipient_id IS NOT NULL THEN
+      INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id)
+      VALUES (tx_recipient_id, tx_amount, 'credit', 'Received: ' || tx_description, 'synced',
+              tx_offline_id || '-rcv', tx_signature, p_user_id, tx_device_id);
+    END IF;
+
+    -- PAYMENT REQUEST: record the payment (an expired request only closes
+    -- as paid once it is paid in full)
+    IF tx_request_id IS NOT NULL THEN
+      request_status := CASE
+        WHEN the_request.paid_amount + tx_amount >= the_request.amount THEN 'approved'
+        WHEN the_request.status = 'expired' THEN 'expired'
+        ELSE 'partially_paid'
+      END;
+
+      UPDATE payment_requests
+      SET paid_amount = paid_amount + tx_amount,
+          payment_count = payment_count + 1,
+          status = request_status,
+          responded_at = NOW()
+      WHERE id = tx_request_id;
+
+      IF the_request.group_id IS NOT NULL THEN
+        PERFORM refresh_request_group_status(the_request.group_id);
+      END IF;
+    END IF;
+  EXCEPTION WHEN raise_exception THEN
+    GET STACKED DIAGNOSTICS transfer_failure = MESSAGE_TEXT;
+    RETURN transfer_failure;
+  END;
+
+  -- INSERT SENDER'S TRANSACTION
+  INSERT INTO transactions (user_id, amount, type, description, status, offline_id, signature, recipient_id, device_id, category)
+  VALUES (p_user_id, tx_amount, tx_type, tx_description, 'synced', tx_offline_id, tx_signature, tx_recipient_id, tx_device_id, tx_category);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Still internal after being recreated
+REVOKE ALL ON FUNCTION apply_offline_transaction(UUID, JSONB) FROM PUBLIC, anon, authenticated;
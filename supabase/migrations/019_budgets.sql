@@ -0,0 +1,75 @@
+-- PhantomPay - MONTHLY BUDGETS
+-- Run this in Supabase SQL Editor AFTER 018_transaction_categories.sql
+--
+-- Each user can set a monthly limit per spending category and an overall
+-- one. They are checked on the device, before each payment and even
+-- offline (see src/lib/budgets.ts); this table only mirrors them between
+-- the user's devices. Going over a budget is a warning, never a rejection.
+--
+-- Times are Unix milliseconds, exactly as the client stores them;
+-- the newest updated_at wins. A removed budget stays as a deleted row so
+-- every device hears about the removal.
+
+-- BUDGETS TABLE
+CREATE TABLE IF NOT EXISTS budgets (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (
+    scope = 'overall' OR (is_transaction_category(scope) AND scope <> 'income')
+  ),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  deleted BOOLEAN DEFAULT FALSE NOT NULL,
+  updated_at BIGINT NOT NULL,
+  PRIMARY KEY (user_id, scope)
+);
+
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through save_budgets
+CREATE POLICY "Users can view own budgets"
+  ON budgets FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- RPC: Save the current user's locally edited budgets
+-- payload: [{ scope, amount, deleted, updated_at }]
+-- A budget the server holds a newer version of is left as it is.
+CREATE OR REPLACE FUNCTION save_budgets(payload JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  user_uuid UUID;
+  item JSONB;
+  saved_count INTEGER := 0;
+BEGIN
+  user_uuid := auth.uid();
+
+  IF user_uuid IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not authenticated');
+  END IF;
+
+  FOR item IN SELECT * FROM jsonb_array_elements(COALESCE(payload, '[]'::JSONB))
+  LOOP
+    -- Skip scopes this server does not know rather than failing the batch
+    IF NOT (item->>'scope' = 'overall'
+      OR (is_transaction_category(item->>'scope') AND item->>'scope' <> 'income')) THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO budgets (user_id, scope, amount, deleted, updated_at)
+    VALUES (
+      user_uuid,
+      item->>'scope',
+      (item->>'amount')::NUMERIC(12, 2),
+      COALESCE((item->>'deleted')::BOOLEAN, FALSE),
+      (item->>'updated_at')::BIGINT
+    )
+    ON CONFLICT (user_id, scope) DO UPDATE
+    SET amount = EXCLUDED.amount,
+        deleted = EXCLUDED.deleted,
+        updated_at = EXCLUDED.updated_at
+    WHERE budgets.updated_at < EXCLUDED.updated_at;
+
+    saved_count := saved_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'saved', saved_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;